@@ -1,4 +1,4 @@
-import { streamText, generateText, type GenerateTextResult } from 'ai';
+import { streamText, generateText, type CoreMessage, type GenerateTextResult } from 'ai';
 import { getModel } from './config.mjs';
 import {
   type CodeLanguageType,
@@ -6,6 +6,8 @@ import {
   type CodeCellType,
   randomid,
   type CellWithPlaceholderType,
+  type AiToolCallType,
+  type HistoryType,
 } from '@peragus/shared'; // @ts-ignore
 import { type SessionType } from '../types.mjs';
 import { readFileSync } from 'node:fs';
@@ -14,6 +16,10 @@ import { PROMPTS_DIR } from '../constants.mjs';
 import { encode, decodeCells } from '../srcmd.mjs';
 import { buildProjectXml, type FileContent } from '../ai/app-parser.mjs';
 import { logAppGeneration } from './logger.mjs';
+import { buildTools } from './tools.mjs';
+import { readTextStream, type StreamCallbacksType, type StreamedTextType } from './stream.mjs';
+import { getConfig } from '../config.mjs';
+import { AI_SERVICE_ID, withRecovery } from '../recovery/orchestrator.mjs';
 
 const makeGenerateSrcbookSystemPrompt = () => {
   return readFileSync(Path.join(PROMPTS_DIR, 'srcbook-generator.txt'), 'utf-8');
@@ -26,6 +32,9 @@ const makeGenerateCellSystemPrompt = (language: CodeLanguageType) => {
 const makeFixDiagnosticsSystemPrompt = () => {
   return readFileSync(Path.join(PROMPTS_DIR, 'fix-cell-diagnostics.txt'), 'utf-8');
 };
+const makeToolsSystemPrompt = () => {
+  return readFileSync(Path.join(PROMPTS_DIR, 'tools.txt'), 'utf-8');
+};
 const makeAppBuilderSystemPrompt = () => {
   return readFileSync(Path.join(PROMPTS_DIR, 'app-builder.txt'), 'utf-8');
 };
@@ -138,6 +147,199 @@ ${query}
   return prompt;
 };
 
+const makeChatSystemPrompt = () => {
+  return readFileSync(Path.join(PROMPTS_DIR, 'chat.txt'), 'utf-8');
+};
+
+// Only the end of long outputs is passed to the chat, as that is where errors are.
+const MAX_CHAT_OUTPUT_LENGTH = 2000;
+
+// Older messages of a chat are left out of the prompt.
+const MAX_CHAT_PROMPT_MESSAGES = 20;
+
+const makeChatOutputs = (session: SessionType) => {
+  return session.cells
+    .filter((cell): cell is CodeCellType => cell.type === 'code')
+    .filter((cell) => session.outputs[cell.filename] !== undefined)
+    .map((cell) => {
+      const { output, exitCode } = session.outputs[cell.filename]!;
+      const text = output
+        .map((o) => (o.type === 'display' ? `[displayed ${o.mimeType}]\n` : o.data))
+        .join('')
+        .slice(-MAX_CHAT_OUTPUT_LENGTH);
+      return `###### ${cell.filename} (exit code ${exitCode ?? 'none, still running'})\n${text}`;
+    })
+    .join('\n\n');
+};
+
+const makeChatUserPrompt = (
+  session: SessionType,
+  message: string,
+  diagnostics: Record<string, string>,
+) => {
+  const inlineSrcbook = encode(
+    { cells: session.cells, language: session.language },
+    { inline: true },
+  );
+  const formattedDiagnostics = Object.entries(diagnostics)
+    .filter(([, text]) => text !== '')
+    .map(([filename, text]) => `###### ${filename}\n${text}`)
+    .join('\n\n');
+
+  return `==== BEGIN SRCBOOK ====
+${inlineSrcbook}
+==== END SRCBOOK ====
+
+==== BEGIN OUTPUTS ====
+${makeChatOutputs(session) || 'No code cell ran yet.'}
+==== END OUTPUTS ====
+
+==== BEGIN DIAGNOSTICS ====
+${formattedDiagnostics || 'No diagnostics.'}
+==== END DIAGNOSTICS ====
+
+==== BEGIN USER MESSAGE ====
+${message}
+==== END USER MESSAGE ====
+`;
+};
+
+// What each message of a chat history says, as the user or the assistant.
+const chatTurn = (message: HistoryType[number]): ['user' | 'assistant', string] | null => {
+  switch (message.type) {
+    case 'user':
+      return ['user', message.message];
+    case 'plan':
+      return ['assistant', message.content];
+    case 'cells-diff': {
+      const labels = message.diff.map((d) => d.label).join(', ');
+      const review = message.status === 'proposed' ? 'did not review yet' : message.status;
+      return ['assistant', `(Proposed edits to ${labels}, which the user ${review}.)`];
+    }
+    default:
+      return null;
+  }
+};
+
+const makeChatMessages = (
+  session: SessionType,
+  history: HistoryType,
+  message: string,
+  diagnostics: Record<string, string>,
+): CoreMessage[] => {
+  const turns = history
+    .slice(-MAX_CHAT_PROMPT_MESSAGES)
+    .map(chatTurn)
+    .filter((turn) => turn !== null);
+  turns.push(['user', makeChatUserPrompt(session, message, diagnostics)]);
+
+  // Roles must alternate, so consecutive messages of the same role are joined, e.g. a
+  // message left without reply and the next one.
+  const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+
+  for (const [role, content] of turns) {
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) {
+      last.content += `\n\n${content}`;
+    } else {
+      messages.push({ role, content });
+    }
+  }
+
+  return messages;
+};
+
+// When the AI can use tools, every model call but the last may be spent calling them.
+const MAX_TOOL_STEPS = 8;
+
+/**
+ * Calls the AI provider through the recovery layer, which retries in place of the AI SDK.
+ */
+function withAiRecovery<T>(operation: () => Promise<T>): Promise<T> {
+  return withRecovery(AI_SERVICE_ID, 'generateText', operation);
+}
+
+type GeneratedCodeType = {
+  text: string;
+  finishReason: string;
+  // The tools called to inform the generated code, empty unless tools are enabled.
+  toolCalls: AiToolCallType[];
+};
+
+/**
+ * Generate code for a session, letting the AI call tools first if enabled in the settings.
+ */
+async function generateCode(
+  session: SessionType,
+  system: string,
+  prompt: string,
+): Promise<GeneratedCodeType> {
+  const [model, config] = await Promise.all([getModel(), getConfig()]);
+
+  if (!config.aiTools) {
+    const result = await withAiRecovery(() =>
+      generateText({ model, system, prompt, maxRetries: 0 }),
+    );
+    return { text: result.text, finishReason: result.finishReason, toolCalls: [] };
+  }
+
+  // Retrying the whole generation would call the tools of the steps before a failure again,
+  // so the AI SDK retries each model call instead, within the step it belongs to.
+  return withRecovery(
+    AI_SERVICE_ID,
+    'generateText',
+    async () => {
+      const toolCalls: AiToolCallType[] = [];
+      const result = await generateText({
+        model,
+        system: `${system}\n\n${makeToolsSystemPrompt()}`,
+        prompt,
+        tools: await buildTools(session, toolCalls),
+        maxSteps: MAX_TOOL_STEPS,
+      });
+
+      return { text: result.text, finishReason: result.finishReason, toolCalls };
+    },
+    { retry: false },
+  );
+}
+
+type StreamedCodeType = GeneratedCodeType & StreamedTextType;
+
+/**
+ * Like `generateCode`, but streams the text as it is generated. The prompt may also be
+ * a conversation, which ends with the message to reply to.
+ */
+async function streamCode(
+  session: SessionType,
+  system: string,
+  prompt: string | CoreMessage[],
+  { onChunk, abortSignal }: StreamCallbacksType,
+): Promise<StreamedCodeType> {
+  const [model, config] = await Promise.all([getModel(), getConfig()]);
+
+  // Chunks may have been sent by the time a call fails, so it is not retried.
+  return withRecovery(
+    AI_SERVICE_ID,
+    'streamText',
+    async () => {
+      const toolCalls: AiToolCallType[] = [];
+      const result = await streamText({
+        model,
+        system: config.aiTools ? `${system}\n\n${makeToolsSystemPrompt()}` : system,
+        ...(typeof prompt === 'string' ? { prompt } : { messages: prompt }),
+        tools: config.aiTools ? await buildTools(session, toolCalls) : undefined,
+        maxSteps: config.aiTools ? MAX_TOOL_STEPS : 1,
+        maxRetries: 0,
+        abortSignal,
+      });
+
+      return { ...(await readTextStream(result.fullStream, { onChunk, abortSignal })), toolCalls };
+    },
+    { retry: false },
+  );
+}
+
 type NoToolsGenerateTextResult = GenerateTextResult<{}>;
 /*
  * Given a user request, which is free form text describing their intent,
@@ -150,11 +352,14 @@ type NoToolsGenerateTextResult = GenerateTextResult<{}>;
  */
 export async function generateSrcbook(query: string): Promise<NoToolsGenerateTextResult> {
   const model = await getModel();
-  const result = await generateText({
-    model,
-    system: makeGenerateSrcbookSystemPrompt(),
-    prompt: query,
-  });
+  const result = await withAiRecovery(() =>
+    generateText({
+      model,
+      system: makeGenerateSrcbookSystemPrompt(),
+      prompt: query,
+      maxRetries: 0,
+    }),
+  );
 
   // TODO, handle 'length' finish reason with sequencing logic.
   if (result.finishReason !== 'stop') {
@@ -165,11 +370,14 @@ export async function generateSrcbook(query: string): Promise<NoToolsGenerateTex
 
 export async function healthcheck(): Promise<string> {
   const model = await getModel();
-  const result = await generateText({
-    model,
-    system: 'This is a test, simply respond "yes" to confirm the model is working.',
-    prompt: 'Are you working?',
-  });
+  const result = await withAiRecovery(() =>
+    generateText({
+      model,
+      system: 'This is a test, simply respond "yes" to confirm the model is working.',
+      prompt: 'Are you working?',
+      maxRetries: 0,
+    }),
+  );
   return result.text;
 }
 
@@ -177,22 +385,42 @@ type GenerateCellsResult = {
   error: boolean;
   errors?: string[];
   cells?: CellType[];
+  toolCalls: AiToolCallType[];
 };
 export async function generateCells(
   query: string,
   session: SessionType,
   insertIdx: number,
 ): Promise<GenerateCellsResult> {
-  const model = await getModel();
+  const systemPrompt = makeGenerateCellSystemPrompt(session.language);
+  const userPrompt = makeGenerateCellUserPrompt(session, insertIdx, query);
+  const result = await generateCode(session, systemPrompt, userPrompt);
+
+  return decodeGeneratedCells(result);
+}
 
+/**
+ * Like `generateCells`, but streams the srcbook text of the cells as it is generated.
+ * The cells are only decoded once it is complete, so there are none if it is cancelled.
+ */
+export async function streamCells(
+  query: string,
+  session: SessionType,
+  insertIdx: number,
+  callbacks: StreamCallbacksType,
+): Promise<GenerateCellsResult & { cancelled: boolean }> {
   const systemPrompt = makeGenerateCellSystemPrompt(session.language);
   const userPrompt = makeGenerateCellUserPrompt(session, insertIdx, query);
-  const result = await generateText({
-    model,
-    system: systemPrompt,
-    prompt: userPrompt,
-  });
+  const result = await streamCode(session, systemPrompt, userPrompt, callbacks);
+
+  if (result.cancelled) {
+    return { error: false, cells: [], toolCalls: result.toolCalls, cancelled: true };
+  }
+
+  return { ...decodeGeneratedCells(result), cancelled: false };
+}
 
+function decodeGeneratedCells(result: GeneratedCodeType): GenerateCellsResult {
   // TODO, handle 'length' finish reason with sequencing logic.
   if (result.finishReason !== 'stop') {
     console.warn('Generated a cell, but finish_reason was not "stop":', result.finishReason);
@@ -204,43 +432,48 @@ export async function generateCells(
   const decodeResult = decodeCells(result.text);
 
   if (decodeResult.error) {
-    return { error: true, errors: decodeResult.errors };
+    return { error: true, errors: decodeResult.errors, toolCalls: result.toolCalls };
   } else {
-    return { error: false, cells: decodeResult.srcbook.cells };
+    return { error: false, cells: decodeResult.srcbook.cells, toolCalls: result.toolCalls };
   }
 }
 
-export async function generateCellEdit(query: string, session: SessionType, cell: CodeCellType) {
-  const model = await getModel();
-
+export async function streamCellEdit(
+  query: string,
+  session: SessionType,
+  cell: CodeCellType,
+  callbacks: StreamCallbacksType,
+): Promise<StreamedCodeType> {
   const systemPrompt = makeGenerateCellEditSystemPrompt(session.language);
   const userPrompt = makeGenerateCellEditUserPrompt(query, session, cell);
-  const result = await generateText({
-    model,
-    system: systemPrompt,
-    prompt: userPrompt,
-  });
 
-  return result.text;
+  return streamCode(session, systemPrompt, userPrompt, callbacks);
 }
 
-export async function fixDiagnostics(
+export async function streamFixDiagnostics(
   session: SessionType,
   cell: CodeCellType,
   diagnostics: string,
-): Promise<string> {
-  const model = await getModel();
-
+  callbacks: StreamCallbacksType,
+): Promise<StreamedCodeType> {
   const systemPrompt = makeFixDiagnosticsSystemPrompt();
   const userPrompt = makeFixDiagnosticsUserPrompt(session, cell, diagnostics);
 
-  const result = await generateText({
-    model,
-    system: systemPrompt,
-    prompt: userPrompt,
-  });
+  return streamCode(session, systemPrompt, userPrompt, callbacks);
+}
 
-  return result.text;
+/**
+ * Streams the reply of the AI to a message of the chat of a session, given its history.
+ */
+export async function streamChatReply(
+  session: SessionType,
+  history: HistoryType,
+  message: string,
+  diagnostics: Record<string, string>,
+  callbacks: StreamCallbacksType,
+): Promise<StreamedCodeType> {
+  const messages = makeChatMessages(session, history, message, diagnostics);
+  return streamCode(session, makeChatSystemPrompt(), messages, callbacks);
 }
 
 export async function generateApp(
@@ -249,11 +482,14 @@ export async function generateApp(
   query: string,
 ): Promise<string> {
   const model = await getModel();
-  const result = await generateText({
-    model,
-    system: makeAppBuilderSystemPrompt(),
-    prompt: makeAppCreateUserPrompt(projectId, files, query),
-  });
+  const result = await withAiRecovery(() =>
+    generateText({
+      model,
+      system: makeAppBuilderSystemPrompt(),
+      prompt: makeAppCreateUserPrompt(projectId, files, query),
+      maxRetries: 0,
+    }),
+  );
   return result.text;
 }
 
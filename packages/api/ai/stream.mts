@@ -0,0 +1,91 @@
+import type { CoreTool, FinishReason, TextStreamPart } from 'ai';
+
+export type ChunkCallbackType = (chunk: string, restart: boolean) => void;
+
+export type StreamCallbacksType = {
+  // Called with each piece of generated text. When the AI starts over after calling tools,
+  // `restart` is set and the chunk replaces the text so far, as only the last text is kept.
+  onChunk: ChunkCallbackType;
+  abortSignal: AbortSignal;
+};
+
+export type StreamedTextType = {
+  text: string;
+  finishReason: FinishReason | 'unknown';
+  // Whether the generation was aborted, in which case the text is incomplete.
+  cancelled: boolean;
+};
+
+/**
+ * Reads the parts of a streamed generation, passing its text to `onChunk` as it arrives.
+ *
+ * Errors reported by the stream are thrown, unless the generation was aborted.
+ */
+export async function readTextStream(
+  parts: AsyncIterable<TextStreamPart<Record<string, CoreTool>>>,
+  { onChunk, abortSignal }: StreamCallbacksType,
+): Promise<StreamedTextType> {
+  let text = '';
+  let finishReason: StreamedTextType['finishReason'] = 'unknown';
+  let restart = false;
+
+  try {
+    for await (const part of parts) {
+      switch (part.type) {
+        case 'text-delta':
+          onChunk(part.textDelta, restart);
+          text = restart ? part.textDelta : text + part.textDelta;
+          restart = false;
+          break;
+        case 'step-finish':
+          restart = true;
+          break;
+        case 'finish':
+          finishReason = part.finishReason;
+          break;
+        case 'error':
+          throw part.error;
+      }
+    }
+  } catch (error) {
+    if (!abortSignal.aborted) {
+      throw error;
+    }
+  }
+
+  return { text, finishReason, cancelled: abortSignal.aborted };
+}
+
+// The AI generations in progress, by the cell or chat message they are for, so that
+// they can be cancelled.
+const generations = new Map<string, AbortController>();
+
+/**
+ * Run an AI generation, passing its output to `onChunk` as it is generated. Starting
+ * a generation cancels the one in progress with the same id, if any.
+ *
+ * Returns null when the generation was cancelled.
+ */
+export async function streamGeneration<T extends { cancelled: boolean }>(
+  id: string,
+  onChunk: ChunkCallbackType,
+  generate: (callbacks: StreamCallbacksType) => Promise<T>,
+): Promise<T | null> {
+  generations.get(id)?.abort();
+
+  const controller = new AbortController();
+  generations.set(id, controller);
+
+  try {
+    const result = await generate({ onChunk, abortSignal: controller.signal });
+    return result.cancelled ? null : result;
+  } finally {
+    if (generations.get(id) === controller) {
+      generations.delete(id);
+    }
+  }
+}
+
+export function cancelGeneration(id: string) {
+  generations.get(id)?.abort();
+}
@@ -0,0 +1,182 @@
+import fs from 'node:fs/promises';
+import Path from 'node:path';
+import { jsonSchema, tool, type CoreTool } from 'ai';
+import { z } from 'zod';
+import type { AiToolCallType, CellOutputType } from '@peragus/shared';
+import type { MCPTool } from '../../mcp-client/src/index.mjs';
+import {
+  mcpClientService,
+  ToolApprovalRequiredError,
+  ToolDeniedError,
+} from '../mcp/client-service.mjs';
+import type { SessionType } from '../types.mjs';
+
+// Outputs of cells are cut to this many characters, to keep them from filling the context.
+const MAX_OUTPUT_LENGTH = 10_000;
+
+// Providers only accept tool names of up to 64 letters, digits, underscores and dashes.
+function toToolName(serverId: string, name: string) {
+  return `${serverId}__${name}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function summarizeOutput(output: CellOutputType) {
+  if (output.type !== 'display') {
+    return output;
+  }
+
+  return output.mimeType === 'image/png'
+    ? { type: output.type, mimeType: output.mimeType, data: '(image)' }
+    : output;
+}
+
+function readCellOutput(session: SessionType, filename: string) {
+  const result = session.outputs[filename];
+
+  if (!session.cells.some((cell) => cell.type === 'code' && cell.filename === filename)) {
+    return `There is no code cell named ${filename}.`;
+  }
+
+  if (!result) {
+    return `${filename} has not been run.`;
+  }
+
+  const json = JSON.stringify({
+    exitCode: result.exitCode,
+    output: result.output.map(summarizeOutput),
+  });
+
+  return json.length > MAX_OUTPUT_LENGTH
+    ? `${json.slice(0, MAX_OUTPUT_LENGTH)}... (${json.length - MAX_OUTPUT_LENGTH} more characters)`
+    : json;
+}
+
+async function installedVersion(session: SessionType, name: string) {
+  try {
+    const path = Path.join(session.dir, 'node_modules', name, 'package.json');
+    return JSON.parse(await fs.readFile(path, 'utf8')).version as string;
+  } catch {
+    return null;
+  }
+}
+
+async function listPackages(session: SessionType) {
+  const packageJson = session.cells.find((cell) => cell.type === 'package.json');
+  let dependencies = {};
+  let devDependencies = {};
+
+  try {
+    ({ dependencies = {}, devDependencies = {} } = packageJson
+      ? JSON.parse(packageJson.source)
+      : {});
+  } catch (error) {
+    return `package.json is not valid JSON: ${errorMessage(error)}`;
+  }
+
+  const packages = await Promise.all(
+    Object.entries({ ...dependencies, ...devDependencies } as Record<string, string>).map(
+      async ([name, version]) => ({
+        name,
+        version,
+        installed: await installedVersion(session, name),
+      }),
+    ),
+  );
+
+  return { packages };
+}
+
+function mcpTool(mcp: MCPTool, calls: AiToolCallType[]) {
+  return tool({
+    description: mcp.description,
+    parameters: jsonSchema<Record<string, unknown>>(mcp.inputSchema ?? { type: 'object' }),
+    execute: async (args) => {
+      const call: AiToolCallType = {
+        toolName: mcp.name,
+        serverId: mcp.serverId,
+        args,
+        status: 'done',
+      };
+      calls.push(call);
+
+      try {
+        // Without a policy for the tool, only those its server marks as read-only run
+        // without a human's approval. Those are also the only ones safe to retry.
+        const readOnly = mcp.annotations?.readOnlyHint === true;
+        const result = await mcpClientService.callTool(mcp.serverId, mcp.name, args, {
+          requireApproval: !readOnly,
+          retry: readOnly,
+        });
+
+        if (!result.success) {
+          call.status = 'failed';
+          return `The tool failed: ${result.error}`;
+        }
+
+        return result.result;
+      } catch (error) {
+        if (error instanceof ToolApprovalRequiredError) {
+          call.status = 'approval_required';
+          call.approvalId = error.approvalId;
+          return 'This tool needs a human to approve the call, which has been requested. It did not run.';
+        }
+
+        call.status = 'failed';
+
+        if (error instanceof ToolDeniedError) {
+          return 'This call is denied by a policy. Do not try it again.';
+        }
+
+        return `The tool failed: ${errorMessage(error)}`;
+      }
+    },
+  });
+}
+
+/**
+ * The tools the AI can call when generating code for a session: those of the connected MCP
+ * servers, and the app's own, which read the state of the session.
+ *
+ * Every call is added to `calls`, so that generated code can be traced back to what informed it.
+ */
+export async function buildTools(
+  session: SessionType,
+  calls: AiToolCallType[],
+): Promise<Record<string, CoreTool>> {
+  const tools: Record<string, CoreTool> = {
+    read_cell_output: tool({
+      description: 'Read the output of the last run of a code cell of the Srcbook.',
+      parameters: z.object({
+        filename: z.string().describe('Filename of the code cell, e.g. index.ts'),
+      }),
+      execute: async (args) => {
+        calls.push({ toolName: 'read_cell_output', serverId: null, args, status: 'done' });
+        return readCellOutput(session, args.filename);
+      },
+    }),
+    list_packages: tool({
+      description:
+        'List the npm packages the Srcbook depends on, with the version installed, if any.',
+      parameters: z.object({}),
+      execute: async (args) => {
+        calls.push({ toolName: 'list_packages', serverId: null, args, status: 'done' });
+        return listPackages(session);
+      },
+    }),
+  };
+
+  const mcpTools = mcpClientService.isReady() ? await mcpClientService.listTools() : [];
+
+  for (const mcp of mcpTools) {
+    const name = toToolName(mcp.serverId, mcp.name);
+
+    if (!(name in tools)) {
+      tools[name] = mcpTool(mcp, calls);
+    }
+  }
+
+  return tools;
+}
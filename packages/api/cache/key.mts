@@ -0,0 +1,81 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import Path from 'node:path';
+import type {
+  CellType,
+  CodeCellType,
+  CodeLanguageType,
+  ParameterValuesType,
+} from '@peragus/shared';
+import { parseCellGraph, upstreamCellIds } from '../graph/imports.mjs';
+import { pathToCodeFile } from '../srcbook/path.mjs';
+import { sqlResultsFilename } from '../sql/results.mjs';
+
+// Changed whenever what goes into keys changes, so that older entries are not used.
+const CACHE_KEY_VERSION = 1;
+
+export type CacheKeyRequestType = {
+  dir: string;
+  language: CodeLanguageType;
+  cells: CellType[];
+  cell: CodeCellType;
+  secretNames: string[];
+  parameterValues: ParameterValuesType;
+};
+
+async function readIfExists(path: string) {
+  try {
+    return await fs.readFile(path, 'utf8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw e;
+  }
+}
+
+/**
+ * The key of the cached result of a code cell.
+ *
+ * It covers everything the result depends on that the app knows about: the source of
+ * the cell and of the cells it imports, directly or not, the rows SQL cells it imports
+ * last returned, the installed packages, the names of the secrets of the session and
+ * the values of the parameters. Secret values are left out as keys are kept on disk.
+ */
+export async function cellCacheKey(request: CacheKeyRequestType) {
+  const { dir, language, cells, cell } = request;
+
+  const upstream = upstreamCellIds(cells, parseCellGraph(cells), cell.id);
+
+  const imports = await Promise.all(
+    upstream.map(async (id) => {
+      const imported = cells.find((c) => c.id === id)!;
+
+      switch (imported.type) {
+        case 'code':
+          return [imported.filename, imported.source];
+        case 'sql':
+          return [
+            imported.filename,
+            await readIfExists(
+              pathToCodeFile(dir, sqlResultsFilename(imported.filename, language)),
+            ),
+          ];
+        default:
+          return [imported.id, null];
+      }
+    }),
+  );
+
+  const content = JSON.stringify({
+    version: CACHE_KEY_VERSION,
+    filename: cell.filename,
+    source: cell.source,
+    imports,
+    packageLock: await readIfExists(Path.join(dir, 'package-lock.json')),
+    secretNames: [...request.secretNames].sort(),
+    parameterValues: Object.entries(request.parameterValues).sort(([a], [b]) => a.localeCompare(b)),
+  });
+
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,122 @@
+import fs from 'node:fs/promises';
+import Path from 'node:path';
+import type { CellExecutionResultType } from '@peragus/shared';
+import { pathToCache } from '../srcbook/path.mjs';
+
+/**
+ * Least recently used entries are removed once the cache of a srcbook grows past this size.
+ */
+export const MAX_CACHE_SIZE_BYTES = 50 * 1024 * 1024;
+
+// Entries are stored as <filename>.<key>.json so that the entries
+// of a cell can be found without reading every file.
+const ENTRY_RE = /^(.+)\.([0-9a-f]{64})\.json$/;
+
+type EntryFileType = { path: string; filename: string; size: number; usedAt: number };
+
+function pathToEntry(srcbookDir: string, filename: string, key: string) {
+  return Path.join(pathToCache(srcbookDir), `${filename}.${key}.json`);
+}
+
+async function listEntries(srcbookDir: string): Promise<EntryFileType[]> {
+  const dir = pathToCache(srcbookDir);
+  let names: string[];
+
+  try {
+    names = await fs.readdir(dir);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw e;
+  }
+
+  const entries = await Promise.all(
+    names.map(async (name) => {
+      const match = ENTRY_RE.exec(name);
+
+      if (match === null) {
+        return null;
+      }
+
+      const path = Path.join(dir, name);
+      const stats = await fs.stat(path);
+
+      return { path, filename: match[1]!, size: stats.size, usedAt: stats.mtimeMs };
+    }),
+  );
+
+  return entries.filter((entry): entry is EntryFileType => entry !== null);
+}
+
+/**
+ * Reads the cached result of a cell, if any, marking it as recently used.
+ */
+export async function readCacheEntry(
+  srcbookDir: string,
+  filename: string,
+  key: string,
+): Promise<CellExecutionResultType | null> {
+  const path = pathToEntry(srcbookDir, filename, key);
+
+  try {
+    const contents = await fs.readFile(path, 'utf8');
+    const now = new Date();
+    await fs.utimes(path, now, now);
+    return JSON.parse(contents);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Error reading the cached result of ${filename} in ${srcbookDir}:`, e);
+    }
+    return null;
+  }
+}
+
+export async function writeCacheEntry(
+  srcbookDir: string,
+  filename: string,
+  key: string,
+  result: CellExecutionResultType,
+  maxSize = MAX_CACHE_SIZE_BYTES,
+) {
+  await fs.mkdir(pathToCache(srcbookDir), { recursive: true });
+  await fs.writeFile(pathToEntry(srcbookDir, filename, key), JSON.stringify(result), 'utf8');
+
+  const entries = (await listEntries(srcbookDir)).sort((a, b) => a.usedAt - b.usedAt);
+  let size = entries.reduce((total, entry) => total + entry.size, 0);
+
+  for (const entry of entries) {
+    if (size <= maxSize) {
+      break;
+    }
+    await fs.rm(entry.path, { force: true });
+    size -= entry.size;
+  }
+}
+
+/**
+ * Removes the cached results of a cell, or of all cells when no filename is given.
+ */
+export async function clearCacheEntries(srcbookDir: string, filename?: string) {
+  const entries = await listEntries(srcbookDir);
+
+  await Promise.all(
+    entries
+      .filter((entry) => filename === undefined || entry.filename === filename)
+      .map((entry) => fs.rm(entry.path, { force: true })),
+  );
+}
+
+/**
+ * The size in bytes of the cached results of a srcbook, in total and by cell filename.
+ */
+export async function cacheUsage(srcbookDir: string) {
+  const entries = await listEntries(srcbookDir);
+  const filenames: Record<string, number> = {};
+
+  for (const entry of entries) {
+    filenames[entry.filename] = (filenames[entry.filename] ?? 0) + entry.size;
+  }
+
+  return { size: entries.reduce((total, entry) => total + entry.size, 0), filenames };
+}
@@ -0,0 +1,43 @@
+import type { CellType } from '@peragus/shared';
+
+function isMovableCell(cell: CellType | undefined) {
+  return (
+    cell?.type === 'markdown' ||
+    cell?.type === 'code' ||
+    cell?.type === 'shell' ||
+    cell?.type === 'sql'
+  );
+}
+
+/**
+ * Moves the cell with the given id to `index`, returning the reordered cells
+ * or `null` when the cell is already at that index.
+ *
+ * The title and package.json cells always come first, so a cell can only
+ * take the place of another markdown, code, shell or SQL cell.
+ */
+export function moveCell(cells: CellType[], id: string, index: number): CellType[] | null {
+  const cell = cells.find((c) => c.id === id);
+
+  if (!cell) {
+    throw new Error(`No cell exists with id '${id}'`);
+  }
+
+  if (!isMovableCell(cell)) {
+    throw new Error(`Cannot move cell of type '${cell.type}'`);
+  }
+
+  const target = cells[index];
+
+  if (!isMovableCell(target)) {
+    throw new Error(`Cannot move cell '${id}' to index ${index}`);
+  }
+
+  if (target === cell) {
+    return null;
+  }
+
+  const moved = cells.filter((c) => c.id !== id);
+  moved.splice(index, 0, cell);
+  return moved;
+}
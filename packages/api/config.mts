@@ -1,4 +1,4 @@
-import { eq, and, inArray } from 'drizzle-orm';
+import { eq, and, inArray, gte, lte, asc, desc } from 'drizzle-orm';
 // @ts-ignore - ignore import errors during build time
 import { type SecretWithAssociatedSessions, randomid } from '@peragus/shared'; // @ts-ignore
 import {
@@ -7,10 +7,23 @@ import {
   secrets,
   type Secret,
   secretsToSession,
+  mcpServers,
+  type MCPServer,
+  mcpToolPolicies,
+  type MCPToolPolicy,
+  mcpAuditLog,
+  type MCPAuditLogEntry,
+  ENCRYPTED_CONFIG_COLUMNS,
 } from './db/schema.mjs';
 import { db } from './db/index.mjs';
+import { encrypt, decrypt } from './encryption.mjs';
 import { HOME_DIR } from './constants.mjs';
-import { type MCPClientConfig } from '../mcp-client/src/index.mjs';
+import { type MCPClientConfig, type MCPServerConfig } from '../mcp-client/src/index.mjs';
+import type {
+  MCPServerSettings,
+  MCPToolPolicySettings,
+  MCPAuditLogQuery,
+} from '../shared/src/schemas/mcp.mjs';
 
 async function init() {
   const existingConfig = await db.select().from(configs).limit(1);
@@ -45,6 +58,39 @@ async function ensureInitialized() {
   }
 }
 
+function encryptConfig(attrs: Partial<Config>): Partial<Config> {
+  const encrypted = { ...attrs };
+
+  for (const column of ENCRYPTED_CONFIG_COLUMNS) {
+    const value = attrs[column];
+    if (typeof value === 'string') {
+      encrypted[column] = encrypt(value);
+    }
+  }
+
+  return encrypted;
+}
+
+function decryptConfig(config: Config): Config {
+  const decrypted = { ...config };
+
+  for (const column of ENCRYPTED_CONFIG_COLUMNS) {
+    const value = config[column];
+
+    if (value !== null) {
+      try {
+        decrypted[column] = decrypt(value);
+      } catch (e) {
+        // Treat it as unset, so that it can be entered again, rather than breaking the app.
+        console.error(`Cannot read ${column} from the config:`, e);
+        decrypted[column] = null;
+      }
+    }
+  }
+
+  return decrypted;
+}
+
 export async function getConfig(): Promise<Config> {
   await ensureInitialized();
   const results = await db.select().from(configs);
@@ -56,12 +102,13 @@ export async function getConfig(): Promise<Config> {
     throw new Error('No config found');
   }
   // explicitly known that a config exists here
-  return results[0] as Config;
+  return decryptConfig(results[0] as Config);
 }
 
 export async function updateConfig(attrs: Partial<Config>) {
   await ensureInitialized();
-  return db.update(configs).set(attrs).returning();
+  const updated = await db.update(configs).set(encryptConfig(attrs)).returning();
+  return updated.map(decryptConfig);
 }
 
 
@@ -78,13 +125,27 @@ export async function getSecrets(): Promise<Array<SecretWithAssociatedSessions>>
       ),
     );
 
-  return secretsResult.map((secret) => ({
-    name: secret.name,
-    value: secret.value,
-    associatedWithSessionIds: secretsToSessionResult
-      .filter((secretToSession) => secretToSession.secret_id === secret.id)
-      .map((secretToSession) => secretToSession.session_id),
-  }));
+  return secretsResult.flatMap((secret) => {
+    let value: string;
+
+    try {
+      value = decrypt(secret.value);
+    } catch (e) {
+      // Leave it out, so that it can be added again, rather than breaking the app.
+      console.error(`Cannot read secret '${secret.name}':`, e);
+      return [];
+    }
+
+    return [
+      {
+        name: secret.name,
+        value,
+        associatedWithSessionIds: secretsToSessionResult
+          .filter((secretToSession) => secretToSession.secret_id === secret.id)
+          .map((secretToSession) => secretToSession.session_id),
+      },
+    ];
+  });
 }
 
 export async function getSecretsAssociatedWithSession(
@@ -100,16 +161,17 @@ export async function getSecretsAssociatedWithSession(
 
 export async function addSecret(name: string, value: string): Promise<Secret> {
   await ensureInitialized();
+  const encrypted = encrypt(value);
   const result = await db
     .insert(secrets)
-    .values({ name, value })
-    .onConflictDoUpdate({ target: secrets.name, set: { value } })
+    .values({ name, value: encrypted })
+    .onConflictDoUpdate({ target: secrets.name, set: { value: encrypted } })
     .returning();
   if (result.length === 0) {
     throw new Error('No secret returned');
   }
   // explicitly known that a config exists here
-  return result[0] as Secret;
+  return { ...(result[0] as Secret), value };
 }
 
 export async function removeSecret(name: string) {
@@ -189,6 +251,12 @@ export async function getMCPConfig(): Promise<MCPClientConfig> {
     }
   }
 
+  // Add servers added in the app
+  const storedServers = await getMCPServers();
+  mcpConfig.servers.push(
+    ...storedServers.filter((server) => server.enabled).map(toMCPServerConfig),
+  );
+
   // Add default local server if no servers configured
   if (mcpConfig.servers.length === 0) {
     mcpConfig.servers.push({
@@ -205,30 +273,190 @@ export async function getMCPConfig(): Promise<MCPClientConfig> {
   return mcpConfig;
 }
 
+// An MCP server added in the app, with its args and env parsed.
+export type StoredMCPServer = MCPServerSettings & { id: number };
+
+function parseMCPServer(server: MCPServer): StoredMCPServer {
+  let env: Record<string, string> = {};
+
+  if (server.env) {
+    try {
+      env = JSON.parse(decrypt(server.env));
+    } catch (e) {
+      // Leave it out, so that it can be set again, rather than breaking the app.
+      console.error(`Cannot read the environment of MCP server '${server.name}':`, e);
+    }
+  }
+
+  return {
+    ...server,
+    args: server.args ? JSON.parse(server.args) : [],
+    env,
+  };
+}
+
+function serializeMCPServer(settings: MCPServerSettings) {
+  return {
+    ...settings,
+    args: JSON.stringify(settings.args),
+    env: encrypt(JSON.stringify(settings.env)),
+  };
+}
+
+export function toMCPServerConfig(server: MCPServerSettings): MCPServerConfig {
+  return server.transport === 'stdio'
+    ? {
+        name: server.name,
+        transport: 'stdio',
+        command: server.command!,
+        args: server.args,
+        env: server.env,
+      }
+    : { name: server.name, transport: 'http', url: server.url! };
+}
+
+export async function getMCPServers(): Promise<StoredMCPServer[]> {
+  await ensureInitialized();
+  const results = await db.select().from(mcpServers);
+  return results.map(parseMCPServer);
+}
+
+export async function findMCPServer(id: number): Promise<StoredMCPServer | null> {
+  await ensureInitialized();
+  const results = await db.select().from(mcpServers).where(eq(mcpServers.id, id)).limit(1);
+  return results.length > 0 ? parseMCPServer(results[0]!) : null;
+}
+
+export async function addMCPServer(settings: MCPServerSettings): Promise<StoredMCPServer> {
+  await ensureInitialized();
+  const result = await db.insert(mcpServers).values(serializeMCPServer(settings)).returning();
+  if (result.length === 0) {
+    throw new Error('No MCP server returned');
+  }
+  return parseMCPServer(result[0]!);
+}
+
+export async function updateMCPServer(
+  id: number,
+  settings: MCPServerSettings,
+): Promise<StoredMCPServer | null> {
+  await ensureInitialized();
+  const result = await db
+    .update(mcpServers)
+    .set(serializeMCPServer(settings))
+    .where(eq(mcpServers.id, id))
+    .returning();
+  return result.length > 0 ? parseMCPServer(result[0]!) : null;
+}
+
+export async function removeMCPServer(id: number) {
+  await ensureInitialized();
+  await db.delete(mcpServers).where(eq(mcpServers.id, id));
+}
+
+// A tool policy with its argument patterns parsed.
+export type StoredMCPToolPolicy = MCPToolPolicySettings & { id: number };
+
+function parseToolPolicy(policy: MCPToolPolicy): StoredMCPToolPolicy {
+  return {
+    ...policy,
+    argumentPatterns: policy.argumentPatterns ? JSON.parse(policy.argumentPatterns) : null,
+  };
+}
+
+function serializeToolPolicy(settings: MCPToolPolicySettings) {
+  return {
+    ...settings,
+    argumentPatterns: settings.argumentPatterns ? JSON.stringify(settings.argumentPatterns) : null,
+  };
+}
+
 /**
- * Update MCP configuration in environment
+ * The tool policies in the order they are evaluated.
  */
-export async function updateMCPConfig(mcpConfig: Partial<MCPClientConfig>): Promise<void> {
+export async function getToolPolicies(): Promise<StoredMCPToolPolicy[]> {
   await ensureInitialized();
-  // This would typically update database configuration
-  // For now, we'll just validate the configuration
-  if (mcpConfig.servers) {
-    for (const server of mcpConfig.servers) {
-      if (!server.name || !server.transport) {
-        throw new Error('Invalid server configuration: name and transport are required');
-      }
-      
-      if (server.transport === 'stdio' && !server.command) {
-        throw new Error('Invalid stdio server configuration: command is required');
-      }
-      
-      if (server.transport === 'http' && !server.url) {
-        throw new Error('Invalid http server configuration: url is required');
-      }
-    }
+  const results = await db
+    .select()
+    .from(mcpToolPolicies)
+    .orderBy(asc(mcpToolPolicies.priority), asc(mcpToolPolicies.id));
+  return results.map(parseToolPolicy);
+}
+
+export async function findToolPolicy(id: number): Promise<StoredMCPToolPolicy | null> {
+  await ensureInitialized();
+  const results = await db
+    .select()
+    .from(mcpToolPolicies)
+    .where(eq(mcpToolPolicies.id, id))
+    .limit(1);
+  return results.length > 0 ? parseToolPolicy(results[0]!) : null;
+}
+
+export async function addToolPolicy(settings: MCPToolPolicySettings): Promise<StoredMCPToolPolicy> {
+  await ensureInitialized();
+  const result = await db.insert(mcpToolPolicies).values(serializeToolPolicy(settings)).returning();
+  if (result.length === 0) {
+    throw new Error('No tool policy returned');
   }
-  
-  console.log('MCP configuration updated:', mcpConfig);
+  return parseToolPolicy(result[0]!);
+}
+
+export async function updateToolPolicy(
+  id: number,
+  settings: MCPToolPolicySettings,
+): Promise<StoredMCPToolPolicy | null> {
+  await ensureInitialized();
+  const result = await db
+    .update(mcpToolPolicies)
+    .set(serializeToolPolicy(settings))
+    .where(eq(mcpToolPolicies.id, id))
+    .returning();
+  return result.length > 0 ? parseToolPolicy(result[0]!) : null;
+}
+
+export async function removeToolPolicy(id: number) {
+  await ensureInitialized();
+  await db.delete(mcpToolPolicies).where(eq(mcpToolPolicies.id, id));
+}
+
+export type MCPAuditEvent = Omit<
+  typeof mcpAuditLog.$inferInsert,
+  'id' | 'createdAt' | 'arguments'
+> & {
+  arguments: Record<string, unknown>;
+};
+
+// An audit log entry with its arguments parsed.
+export type StoredMCPAuditLogEntry = Omit<MCPAuditLogEntry, 'arguments'> & {
+  arguments: Record<string, unknown>;
+};
+
+export async function recordAuditEvent(event: MCPAuditEvent) {
+  await ensureInitialized();
+  await db.insert(mcpAuditLog).values({
+    ...event,
+    createdAt: Date.now(),
+    arguments: JSON.stringify(event.arguments),
+  });
+}
+
+/**
+ * The most recent audit log entries within the time range, newest first.
+ */
+export async function getAuditLog(query: MCPAuditLogQuery): Promise<StoredMCPAuditLogEntry[]> {
+  await ensureInitialized();
+  const conditions = [
+    query.from === undefined ? undefined : gte(mcpAuditLog.createdAt, query.from),
+    query.to === undefined ? undefined : lte(mcpAuditLog.createdAt, query.to),
+  ];
+  const results = await db
+    .select()
+    .from(mcpAuditLog)
+    .where(and(...conditions))
+    .orderBy(desc(mcpAuditLog.createdAt), desc(mcpAuditLog.id))
+    .limit(query.limit);
+  return results.map((entry) => ({ ...entry, arguments: JSON.parse(entry.arguments) }));
 }
 
 /**
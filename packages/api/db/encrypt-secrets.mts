@@ -0,0 +1,15 @@
+import type Database from 'better-sqlite3';
+import { encrypt, isEncrypted } from '../encryption.mjs';
+
+/**
+ * Registers the `encrypt_secret()` SQL function, which the migration encrypting the
+ * secrets and credentials stored in plain text uses.
+ *
+ * Encrypting needs the master key, which SQL has no access to. Encrypted and null
+ * values are returned as is.
+ */
+export function registerEncryptSecret(database: Database.Database) {
+  database.function('encrypt_secret', (value: unknown) =>
+    typeof value === 'string' && !isEncrypted(value) ? encrypt(value) : value,
+  );
+}
@@ -4,6 +4,7 @@ import Database from 'better-sqlite3';
 import * as schema from './schema.mjs';
 import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
 import { HOME_DIR, DIST_DIR, SRCBOOKS_DIR } from '../constants.mjs';
+import { registerEncryptSecret } from './encrypt-secrets.mjs';
 import fs from 'node:fs';
 
 // We can't use a relative directory for drizzle since this application
@@ -16,5 +17,8 @@ const DB_PATH = `${HOME_DIR}/.srcbook/srcbook.db`;
 // Creates the HOME/.srcbook/srcbooks dir
 fs.mkdirSync(SRCBOOKS_DIR, { recursive: true });
 
-export const db = drizzle(new Database(DB_PATH), { schema });
+const database = new Database(DB_PATH);
+registerEncryptSecret(database);
+
+export const db = drizzle(database, { schema });
 migrate(db, { migrationsFolder: drizzleFolder });
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, unique } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, unique, index } from 'drizzle-orm/sqlite-core';
 // @ts-ignore - ignore import errors during build time
 import { randomid } from '@peragus/shared'; // @ts-ignore
 
@@ -21,13 +21,33 @@ export const configs = sqliteTable('config', {
   aiBaseUrl: text('ai_base_url'),
   // Null: unset. Email: subscribed. "dismissed": dismissed the dialog.
   subscriptionEmail: text('subscription_email'),
+  // Login required to use the app when both are set. SRCBOOK_AUTH_EMAIL and
+  // SRCBOOK_AUTH_PASSWORD take precedence over these.
+  authEmail: text('auth_email'),
+  authPasswordHash: text('auth_password_hash'),
+  // Secret signing the login tokens, generated on first use.
+  authSecret: text('auth_secret'),
+  // Let the AI call the tools of the MCP servers, and the app's own, while generating code.
+  aiTools: integer('ai_tools', { mode: 'boolean' }).notNull().default(false),
 });
 
 export type Config = typeof configs.$inferSelect;
 
+// Config columns holding credentials, which are encrypted at rest.
+export const ENCRYPTED_CONFIG_COLUMNS = [
+  'openaiKey',
+  'anthropicKey',
+  'xaiKey',
+  'geminiKey',
+  'openrouterKey',
+  'customApiKey',
+  'authSecret',
+] as const satisfies ReadonlyArray<keyof Config>;
+
 export const secrets = sqliteTable('secrets', {
   id: integer('id').primaryKey(),
   name: text('name').notNull().unique(),
+  // Encrypted at rest.
   value: text('value').notNull(),
 });
 
@@ -49,3 +69,74 @@ export const secretsToSession = sqliteTable(
 
 export type SecretsToSession = typeof secretsToSession.$inferSelect;
 
+
+// MCP servers added in the app, on top of those set by environment variables.
+export const mcpServers = sqliteTable('mcp_servers', {
+  id: integer('id').primaryKey(),
+  // The MCP client identifies servers by name.
+  name: text('name').notNull().unique(),
+  transport: text('transport', { enum: ['stdio', 'http'] }).notNull(),
+  // For stdio servers. Args are a JSON array, env a JSON object encrypted at rest.
+  command: text('command'),
+  args: text('args'),
+  env: text('env'),
+  // For http servers.
+  url: text('url'),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+});
+
+export type MCPServer = typeof mcpServers.$inferSelect;
+
+// Rules deciding whether a call to an MCP tool is allowed, denied or needs approval.
+// The first matching policy, by priority then id, decides.
+export const mcpToolPolicies = sqliteTable('mcp_tool_policies', {
+  id: integer('id').primaryKey(),
+  // Null matches every server.
+  serverId: text('server_id'),
+  // Glob matched against tool names, e.g. "read_*".
+  toolPattern: text('tool_pattern').notNull().default('*'),
+  // JSON object of globs matched against the arguments with those names, or null for any.
+  argumentPatterns: text('argument_patterns'),
+  action: text('action', { enum: ['allow', 'deny', 'require_approval'] }).notNull(),
+  priority: integer('priority').notNull().default(0),
+  description: text('description'),
+});
+
+export type MCPToolPolicy = typeof mcpToolPolicies.$inferSelect;
+
+// Decisions on calls to MCP tools and the calls made, kept for review.
+export const mcpAuditLog = sqliteTable(
+  'mcp_audit_log',
+  {
+    id: integer('id').primaryKey(),
+    // Milliseconds since the epoch.
+    createdAt: integer('created_at').notNull(),
+    event: text('event', {
+      enum: [
+        'denied',
+        'approval_requested',
+        'approved',
+        'rejected',
+        'expired',
+        'executed',
+        'failed',
+      ],
+    }).notNull(),
+    serverId: text('server_id').notNull(),
+    toolName: text('tool_name').notNull(),
+    // JSON object.
+    arguments: text('arguments').notNull(),
+    // The policy that decided, if any. Not a reference, as policies can be deleted.
+    policyId: integer('policy_id'),
+    approvalId: text('approval_id'),
+    // Who approved or rejected the call.
+    actor: text('actor'),
+    durationMs: integer('duration_ms'),
+    error: text('error'),
+  },
+  (table) => ({
+    createdAtIdx: index('mcp_audit_log_created_at_idx').on(table.createdAt),
+  }),
+);
+
+export type MCPAuditLogEntry = typeof mcpAuditLog.$inferSelect;
@@ -3,12 +3,13 @@ import { WebSocketServer as WsWebSocketServer } from 'ws';
 
 import app from './server/http.mjs';
 import webSocketServer from './server/ws.mjs';
+import { verifyWebSocketClient } from './server/auth.mjs';
 
 export { SRCBOOK_DIR } from './constants.mjs';
 
 const server = http.createServer(app);
 
-const wss = new WsWebSocketServer({ server });
+const wss = new WsWebSocketServer({ server, verifyClient: verifyWebSocketClient });
 wss.on('connection', webSocketServer.onConnection);
 
 const port = process.env.PORT || 2150;
@@ -0,0 +1,72 @@
+import { DISPLAY_OUTPUT_PREFIX } from '@peragus/shared';
+
+/**
+ * Installs the global `display` helper in a cell's process and makes
+ * `console.table` render as a table instead of ASCII art.
+ *
+ *     display.html('<b>Hello</b>');
+ *     display.image(fs.readFileSync('chart.png'));
+ *     display.json({ nested: { value: 42 } });
+ *     display.table([{ name: 'a', count: 1 }, { name: 'b', count: 2 }]);
+ *
+ * This function is serialized and preloaded with `node --import`, so it must
+ * not reference anything outside of its own body.
+ */
+function installDisplayHelper(prefix: string) {
+  const TABLE_MIME_TYPE = 'application/vnd.srcbook.table+json';
+
+  function display(mimeType: string, data: unknown) {
+    process.stdout.write(prefix + JSON.stringify({ mimeType, data }) + '\n');
+  }
+
+  function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  // Same shape as console.table: one row per entry, with an (index) column.
+  function toRows(data: unknown, columns?: string[]) {
+    const entries = Array.isArray(data)
+      ? data.map((value, index) => [String(index), value] as const)
+      : Object.entries(data as object);
+
+    return entries.map(([index, value]) => {
+      const row: Record<string, unknown> = { '(index)': index };
+      const values = isObject(value) ? value : { Values: value };
+
+      for (const [key, cell] of Object.entries(values)) {
+        if (!columns || columns.includes(key) || key === 'Values') {
+          row[key] = cell;
+        }
+      }
+
+      return row;
+    });
+  }
+
+  display.html = (html: string) => display('text/html', String(html));
+  display.json = (value: unknown) => display('application/json', value);
+  display.table = (data: unknown, columns?: string[]) =>
+    display(TABLE_MIME_TYPE, toRows(data, columns));
+  display.image = (png: Uint8Array | string) =>
+    display('image/png', typeof png === 'string' ? png : Buffer.from(png).toString('base64'));
+
+  const table = console.table.bind(console);
+
+  console.table = (data?: unknown, columns?: string[]) => {
+    if (typeof data === 'object' && data !== null) {
+      display.table(data, columns);
+    } else {
+      table(data, columns);
+    }
+  };
+
+  Object.defineProperty(globalThis, 'display', { value: display, writable: true });
+}
+
+/**
+ * Node arguments that preload the display helper.
+ */
+export function displayHelperArgs() {
+  const source = `(${installDisplayHelper.toString()})(${JSON.stringify(DISPLAY_OUTPUT_PREFIX)});`;
+  return ['--import', `data:text/javascript,${encodeURIComponent(source)}`];
+}
@@ -0,0 +1,92 @@
+import { DISPLAY_OUTPUT_PREFIX, DisplayOutputSchema } from '@peragus/shared';
+import type { CellOutputType } from '@peragus/shared';
+
+/**
+ * Splits the stdout of a cell into plain text and display outputs.
+ *
+ * Display outputs are single lines starting with DISPLAY_OUTPUT_PREFIX. Because stdout
+ * arrives in arbitrary chunks, a trailing partial line that may turn out to be a
+ * display output is held back until the rest of the line (or `flush`) arrives.
+ */
+export class OutputParser {
+  private buffered: string = '';
+  // Whether the next chunk starts a new line, only then can it be a display output.
+  private atLineStart: boolean = true;
+
+  write(data: string): CellOutputType[] {
+    const text = this.buffered + data;
+    this.buffered = '';
+
+    const outputs: CellOutputType[] = [];
+    let plain = '';
+    let start = 0;
+
+    while (start < text.length) {
+      const newline = text.indexOf('\n', start);
+
+      if (newline === -1) {
+        const rest = text.slice(start);
+
+        if (this.atLineStart && this.mayBeDisplay(rest)) {
+          this.buffered = rest;
+        } else {
+          plain += rest;
+          this.atLineStart = false;
+        }
+
+        break;
+      }
+
+      const line = text.slice(start, newline + 1);
+      const display =
+        this.atLineStart && line.startsWith(DISPLAY_OUTPUT_PREFIX) ? this.parse(line) : null;
+
+      if (display) {
+        if (plain !== '') {
+          outputs.push({ type: 'stdout', data: plain });
+          plain = '';
+        }
+        outputs.push(display);
+      } else {
+        plain += line;
+      }
+
+      start = newline + 1;
+      this.atLineStart = true;
+    }
+
+    if (plain !== '') {
+      outputs.push({ type: 'stdout', data: plain });
+    }
+
+    return outputs;
+  }
+
+  flush(): CellOutputType[] {
+    const rest = this.buffered;
+    this.buffered = '';
+    this.atLineStart = true;
+
+    if (rest === '') {
+      return [];
+    }
+
+    const display = rest.startsWith(DISPLAY_OUTPUT_PREFIX) ? this.parse(rest) : null;
+    return [display ?? { type: 'stdout', data: rest }];
+  }
+
+  private mayBeDisplay(partial: string) {
+    return partial.startsWith(DISPLAY_OUTPUT_PREFIX) || DISPLAY_OUTPUT_PREFIX.startsWith(partial);
+  }
+
+  // Lines that look like display outputs but are malformed are left as plain text.
+  private parse(line: string): CellOutputType | null {
+    try {
+      const json = JSON.parse(line.slice(DISPLAY_OUTPUT_PREFIX.length));
+      const result = DisplayOutputSchema.safeParse({ ...json, type: 'display' });
+      return result.success ? result.data : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,3 @@
+ALTER TABLE `config` ADD `auth_email` text;--> statement-breakpoint
+ALTER TABLE `config` ADD `auth_password_hash` text;--> statement-breakpoint
+ALTER TABLE `config` ADD `auth_secret` text;
@@ -0,0 +1 @@
+ALTER TABLE `config` ADD `ai_tools` integer DEFAULT false NOT NULL;
\ No newline at end of file
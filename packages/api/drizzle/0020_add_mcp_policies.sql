@@ -0,0 +1,25 @@
+CREATE TABLE `mcp_tool_policies` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`server_id` text,
+	`tool_pattern` text DEFAULT '*' NOT NULL,
+	`argument_patterns` text,
+	`action` text NOT NULL,
+	`priority` integer DEFAULT 0 NOT NULL,
+	`description` text
+);
+--> statement-breakpoint
+CREATE TABLE `mcp_audit_log` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL,
+	`event` text NOT NULL,
+	`server_id` text NOT NULL,
+	`tool_name` text NOT NULL,
+	`arguments` text NOT NULL,
+	`policy_id` integer,
+	`approval_id` text,
+	`actor` text,
+	`duration_ms` integer,
+	`error` text
+);
+--> statement-breakpoint
+CREATE INDEX `mcp_audit_log_created_at_idx` ON `mcp_audit_log` (`created_at`);
@@ -0,0 +1,10 @@
+-- Custom SQL migration file: encrypt_secret() is registered by the app, as it needs the master key.
+UPDATE `secrets` SET `value` = encrypt_secret(`value`);--> statement-breakpoint
+UPDATE `config` SET
+	`openai_api_key` = encrypt_secret(`openai_api_key`),
+	`anthropic_api_key` = encrypt_secret(`anthropic_api_key`),
+	`xai_api_key` = encrypt_secret(`xai_api_key`),
+	`gemini_api_key` = encrypt_secret(`gemini_api_key`),
+	`openrouter_api_key` = encrypt_secret(`openrouter_api_key`),
+	`custom_api_key` = encrypt_secret(`custom_api_key`),
+	`auth_secret` = encrypt_secret(`auth_secret`);
\ No newline at end of file
@@ -0,0 +1,96 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import Path from 'node:path';
+import { MASTER_KEY_PATH } from './constants.mjs';
+
+// Values encrypted by this module are prefixed, which tells them apart from
+// values written before encryption existed and leaves room for new formats.
+const PREFIX = 'enc:v1:';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+let masterKey: Buffer | null = null;
+
+function parseKey(encoded: string, source: string) {
+  const key = Buffer.from(encoded.trim(), 'base64');
+
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(
+      `The master key in ${source} must be ${KEY_LENGTH} bytes encoded as base64, e.g. the output of \`openssl rand -base64 ${KEY_LENGTH}\``,
+    );
+  }
+
+  return key;
+}
+
+/**
+ * The key encrypting secrets at rest.
+ *
+ * It comes from the SRCBOOK_MASTER_KEY env variable if set, or else from a key file
+ * next to the database, which is generated the first time it is needed.
+ */
+function getMasterKey() {
+  if (masterKey !== null) {
+    return masterKey;
+  }
+
+  if (process.env.SRCBOOK_MASTER_KEY) {
+    masterKey = parseKey(process.env.SRCBOOK_MASTER_KEY, 'SRCBOOK_MASTER_KEY');
+    return masterKey;
+  }
+
+  if (!fs.existsSync(MASTER_KEY_PATH)) {
+    const key = crypto.randomBytes(KEY_LENGTH).toString('base64');
+    fs.mkdirSync(Path.dirname(MASTER_KEY_PATH), { recursive: true });
+
+    try {
+      // Never overwrite a key, which would make everything encrypted with it unreadable.
+      fs.writeFileSync(MASTER_KEY_PATH, key + '\n', { mode: 0o600, flag: 'wx' });
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw e;
+      }
+    }
+  }
+
+  masterKey = parseKey(fs.readFileSync(MASTER_KEY_PATH, 'utf8'), MASTER_KEY_PATH);
+  return masterKey;
+}
+
+export function isEncrypted(value: string) {
+  return value.startsWith(PREFIX);
+}
+
+export function encrypt(plaintext: string) {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getMasterKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Decrypts a value returned by `encrypt`. Values that were never encrypted are returned as is.
+ */
+export function decrypt(value: string) {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const data = Buffer.from(value.slice(PREFIX.length), 'base64');
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const ciphertext = data.subarray(IV_LENGTH + TAG_LENGTH);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getMasterKey(), iv);
+  decipher.setAuthTag(tag);
+
+  try {
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Cannot decrypt value, it was encrypted with a different master key');
+  }
+}
@@ -16,6 +16,10 @@ export type BaseExecRequestType = {
 export type NodeRequestType = BaseExecRequestType & {
   env: NodeJS.ProcessEnv;
   entry: string;
+  /**
+   * Options passed to node before the entry, e.g. `--import` to preload a module.
+   */
+  execArgv?: Array<string>;
 };
 
 export type NPMInstallRequestType = BaseExecRequestType & {
@@ -76,15 +80,16 @@ export function spawnCall(options: SpawnCallRequestType) {
  *
  */
 export function node(options: NodeRequestType) {
-  const { cwd, env, entry, stdout, stderr, onExit } = options;
+  const { cwd, env, entry, execArgv = [], stdout, stderr, onExit, onError } = options;
 
   return spawnCall({
     command: 'node',
     cwd,
-    args: [entry],
+    args: [...execArgv, entry],
     stdout,
     stderr,
     onExit,
+    onError,
     env: { ...process.env, ...env },
   });
 }
@@ -105,17 +110,18 @@ export function node(options: NodeRequestType) {
  *
  */
 export function tsx(options: NodeRequestType) {
-  const { cwd, env, entry, stdout, stderr, onExit } = options;
+  const { cwd, env, entry, execArgv = [], stdout, stderr, onExit, onError } = options;
 
   // We are making an assumption about `tsx` being the tool of choice
   // for running TypeScript, as well as where it's located on the file system.
   return spawnCall({
     command: Path.join(cwd, 'node_modules', '.bin', 'tsx'),
     cwd,
-    args: [entry],
+    args: [...execArgv, entry],
     stdout,
     stderr,
     onExit,
+    onError,
     env: { ...process.env, ...env },
   });
 }
@@ -0,0 +1,137 @@
+import ts from 'typescript';
+import type { CellType, CodeCellType, SqlCellType } from '@peragus/shared';
+
+/**
+ * The ids of the cells each code cell imports, keyed by the id of the code cell.
+ */
+export type CellGraphType = Record<string, string[]>;
+
+const SCRIPT_EXTENSION = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+
+/**
+ * The module specifiers a cell imports, statically or dynamically.
+ *
+ * This only scans the source for imports, without parsing it in full, so it works
+ * with JavaScript and TypeScript alike, and with sources that do not compile yet.
+ */
+export function parseImportSpecifiers(source: string) {
+  return ts.preProcessFile(source, true, true).importedFiles.map((file) => file.fileName);
+}
+
+/**
+ * Finds the cell a module specifier refers to.
+ *
+ * Code cells are files next to each other in src/, so only specifiers like `./name` can
+ * refer to them, with any extension: TypeScript cells are imported as `./name.js`.
+ * SQL cells are imported through the module holding the rows of their last run.
+ */
+export function resolveCellImport(
+  specifier: string,
+  cells: CellType[],
+): CodeCellType | SqlCellType | undefined {
+  if (!specifier.startsWith('./') || specifier.includes('/', 2)) {
+    return undefined;
+  }
+
+  const name = specifier.slice(2).replace(SCRIPT_EXTENSION, '');
+
+  for (const cell of cells) {
+    if (cell.type === 'code' && cell.filename.replace(SCRIPT_EXTENSION, '') === name) {
+      return cell;
+    }
+
+    if (cell.type === 'sql' && cell.filename.replace(/\.sql$/, '.results') === name) {
+      return cell;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The graph of the cells importing each other, found by scanning the source of code cells.
+ */
+export function parseCellGraph(cells: CellType[]): CellGraphType {
+  const graph: CellGraphType = {};
+
+  for (const cell of cells) {
+    if (cell.type !== 'code') {
+      continue;
+    }
+
+    const ids = parseImportSpecifiers(cell.source)
+      .map((specifier) => resolveCellImport(specifier, cells)?.id)
+      .filter((id): id is string => id !== undefined && id !== cell.id);
+
+    graph[cell.id] = sortByCellOrder(cells, new Set(ids));
+  }
+
+  return graph;
+}
+
+/**
+ * The cells importing a cell, directly or not, in the order they should run: after the
+ * cells they import, in notebook order otherwise. Cells importing each other in a cycle
+ * run in notebook order.
+ */
+export function downstreamCellIds(cells: CellType[], graph: CellGraphType, cellId: string) {
+  const downstream = new Set<string>();
+  const pending = [cellId];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+
+    for (const [importerId, importedIds] of Object.entries(graph)) {
+      if (importedIds.includes(id) && importerId !== cellId && !downstream.has(importerId)) {
+        downstream.add(importerId);
+        pending.push(importerId);
+      }
+    }
+  }
+
+  const ordered: string[] = [];
+  const visited = new Set<string>();
+
+  function visit(id: string) {
+    if (visited.has(id) || !downstream.has(id)) {
+      return;
+    }
+
+    visited.add(id);
+
+    for (const importedId of graph[id] ?? []) {
+      visit(importedId);
+    }
+
+    ordered.push(id);
+  }
+
+  for (const cell of cells) {
+    visit(cell.id);
+  }
+
+  return ordered;
+}
+
+/**
+ * The cells a cell imports, directly or not, in notebook order.
+ */
+export function upstreamCellIds(cells: CellType[], graph: CellGraphType, cellId: string) {
+  const upstream = new Set<string>();
+  const pending = [cellId];
+
+  while (pending.length > 0) {
+    for (const importedId of graph[pending.pop()!] ?? []) {
+      if (importedId !== cellId && !upstream.has(importedId)) {
+        upstream.add(importedId);
+        pending.push(importedId);
+      }
+    }
+  }
+
+  return sortByCellOrder(cells, upstream);
+}
+
+export function sortByCellOrder(cells: CellType[], ids: Set<string>) {
+  return cells.filter((cell) => ids.has(cell.id)).map((cell) => cell.id);
+}
@@ -0,0 +1,68 @@
+import type { CellType, CodeCellType } from '@peragus/shared';
+import type { TsServer } from '../tsserver/tsserver.mjs';
+import { filenameFromPath, pathToCodeFile } from '../srcbook/path.mjs';
+import { parseCellGraph, sortByCellOrder, type CellGraphType } from './imports.mjs';
+
+/**
+ * How long to wait for tsserver before scanning sources instead, e.g. when it
+ * cannot start because the dependencies of the srcbook are not installed yet.
+ */
+const TSSERVER_TIMEOUT_MS = 2000;
+
+/**
+ * The graph of the cells of a TypeScript srcbook, with the imports between code
+ * cells resolved by its tsserver, the way the compiler resolves them.
+ *
+ * The modules of SQL cells only exist once they ran, so imports of SQL cells
+ * are still found by scanning sources.
+ */
+export async function tsserverCellGraph(
+  tsserver: TsServer,
+  dir: string,
+  cells: CellType[],
+): Promise<CellGraphType> {
+  const parsed = parseCellGraph(cells);
+  const codeCells = cells.filter((cell) => cell.type === 'code') as CodeCellType[];
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), TSSERVER_TIMEOUT_MS);
+  });
+
+  const responses = await Promise.race([
+    Promise.all(
+      codeCells.map((cell) =>
+        tsserver.fileReferences({ file: pathToCodeFile(dir, cell.filename) }),
+      ),
+    ),
+    timeout,
+  ]);
+
+  clearTimeout(timer);
+
+  if (responses === null) {
+    return parsed;
+  }
+
+  const imports = new Map<string, Set<string>>(
+    codeCells.map((cell) => [
+      cell.id,
+      new Set(parsed[cell.id]!.filter((id) => cells.find((c) => c.id === id)?.type === 'sql')),
+    ]),
+  );
+
+  codeCells.forEach((cell, i) => {
+    for (const ref of responses[i]!.body?.refs ?? []) {
+      const filename = filenameFromPath(ref.file);
+      const importer = codeCells.find((c) => c.filename === filename);
+
+      if (importer && importer.id !== cell.id) {
+        imports.get(importer.id)!.add(cell.id);
+      }
+    }
+  });
+
+  return Object.fromEntries(
+    codeCells.map((cell) => [cell.id, sortByCellOrder(cells, imports.get(cell.id)!)]),
+  );
+}
@@ -0,0 +1,123 @@
+import fs from 'node:fs/promises';
+import Path from 'node:path';
+import type {
+  CellsDiffMessageType,
+  CodeLanguageType,
+  HistoryType,
+  MessageType,
+} from '@peragus/shared';
+import { decode } from '../srcmd.mjs';
+import { pathToChat } from '../srcbook/path.mjs';
+
+/**
+ * Oldest messages are dropped once the chat of a srcbook has more than this many.
+ */
+export const MAX_CHAT_MESSAGES = 200;
+
+// Edits the AI proposes are returned as a whole srcbook between these tags.
+const SRCBOOK_RE = /<srcbook>\s*([\s\S]*?)\s*<\/srcbook>/;
+
+// Writes to the chat of each srcbook, chained so that they do not overwrite each other.
+const writes = new Map<string, Promise<unknown>>();
+
+/**
+ * Reads the AI chat of a srcbook, oldest message first.
+ */
+export async function readChatHistory(srcbookDir: string): Promise<HistoryType> {
+  try {
+    const contents = await fs.readFile(pathToChat(srcbookDir), 'utf8');
+    return JSON.parse(contents);
+  } catch (e) {
+    const error = e as NodeJS.ErrnoException;
+    if (error.code !== 'ENOENT') {
+      console.error(`Error reading chat history for ${srcbookDir}: ${error.message}`);
+    }
+    return [];
+  }
+}
+
+function updateChatHistory(
+  srcbookDir: string,
+  update: (history: HistoryType) => HistoryType,
+): Promise<HistoryType> {
+  const previous = writes.get(srcbookDir) ?? Promise.resolve();
+
+  const write = previous
+    .catch(() => {})
+    .then(async () => {
+      const history = update(await readChatHistory(srcbookDir)).slice(-MAX_CHAT_MESSAGES);
+      const chatPath = pathToChat(srcbookDir);
+      await fs.mkdir(Path.dirname(chatPath), { recursive: true });
+      await fs.writeFile(chatPath, JSON.stringify(history), 'utf8');
+      return history;
+    });
+
+  writes.set(srcbookDir, write);
+
+  return write.finally(() => {
+    if (writes.get(srcbookDir) === write) {
+      writes.delete(srcbookDir);
+    }
+  });
+}
+
+export function appendChatMessages(srcbookDir: string, messages: MessageType[]) {
+  return updateChatHistory(srcbookDir, (history) => [...history, ...messages]);
+}
+
+export function clearChatHistory(srcbookDir: string) {
+  return updateChatHistory(srcbookDir, () => []);
+}
+
+/**
+ * Finds the edits proposed in reply to a message of the chat.
+ */
+export async function findChatEdits(
+  srcbookDir: string,
+  planId: string,
+): Promise<CellsDiffMessageType | null> {
+  const history = await readChatHistory(srcbookDir);
+
+  return (
+    history.find(
+      (message): message is CellsDiffMessageType =>
+        message.type === 'cells-diff' && message.planId === planId,
+    ) ?? null
+  );
+}
+
+export function updateChatEditsStatus(
+  srcbookDir: string,
+  planId: string,
+  status: CellsDiffMessageType['status'],
+) {
+  return updateChatHistory(srcbookDir, (history) =>
+    history.map((message) =>
+      message.type === 'cells-diff' && message.planId === planId ? { ...message, status } : message,
+    ),
+  );
+}
+
+/**
+ * Splits a reply of the AI into its text and the srcbook it proposes, if any.
+ */
+export function parseChatReply(text: string): { content: string; srcmd: string | null } {
+  const match = SRCBOOK_RE.exec(text);
+
+  if (match === null) {
+    return { content: text.trim(), srcmd: null };
+  }
+
+  return {
+    content: text.replace(match[0], '').trim(),
+    srcmd: `${match[1]}\n`,
+  };
+}
+
+/**
+ * Decodes the srcbook proposed in a reply, which the AI may write without its metadata.
+ */
+export function decodeChatEdits(srcmd: string, language: CodeLanguageType) {
+  const body = srcmd.replace(/^\s*<!--\s*srcbook:.*-->\s*/, '');
+  return decode(`<!-- srcbook:${JSON.stringify({ language })} -->\n\n${body}`);
+}
@@ -0,0 +1,161 @@
+import type { CellType, CellDiffType } from '@peragus/shared';
+
+function cellKey(cell: CellType) {
+  switch (cell.type) {
+    case 'title':
+    case 'package.json':
+      return cell.type;
+    case 'code':
+    case 'shell':
+    case 'sql':
+      return `${cell.type}:${cell.filename}`;
+    case 'markdown':
+      return `markdown:${cell.text}`;
+  }
+}
+
+export function cellContent(cell: CellType) {
+  switch (cell.type) {
+    case 'title':
+    case 'markdown':
+      return cell.text;
+    case 'package.json':
+    case 'code':
+    case 'shell':
+    case 'sql':
+      return cell.source;
+  }
+}
+
+function cellLabel(cell: CellType) {
+  switch (cell.type) {
+    case 'title':
+      return cell.text;
+    case 'package.json':
+      return 'package.json';
+    case 'code':
+    case 'shell':
+    case 'sql':
+      return cell.filename;
+    case 'markdown': {
+      const line = cell.text.trim().split('\n')[0] ?? '';
+      return line.replace(/^#+\s*/, '') || 'Markdown cell';
+    }
+  }
+}
+
+function toDiff(original: CellType | null, modified: CellType | null): CellDiffType {
+  const cell = (modified ?? original)!;
+
+  return {
+    type: original === null ? 'create' : modified === null ? 'delete' : 'edit',
+    cellType: cell.type,
+    label: cellLabel(cell),
+    original: original && cellContent(original),
+    modified: modified && cellContent(modified),
+  };
+}
+
+// Longest common subsequence of cell keys, as pairs of indices into a and b.
+function matchCells(a: string[], b: string[]) {
+  const lengths = a.map(() => new Array<number>(b.length + 1).fill(0));
+  lengths.push(new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] =
+        a[i] === b[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const matches: Array<[number, number]> = [];
+
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      matches.push([i++, j++]);
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Pairs up the cells of two versions of a srcbook. A cell only in `original` is
+ * paired with null, and so is a cell only in `modified`.
+ *
+ * Cells are first matched by key: code and shell cells by filename, markdown cells
+ * by text. Between two matched cells, leftover cells of the same type are paired up
+ * as edits, and code and shell cells that moved elsewhere are matched up by filename.
+ */
+export function pairCells(
+  original: CellType[],
+  modified: CellType[],
+): Array<[CellType | null, CellType | null]> {
+  const matches = matchCells(original.map(cellKey), modified.map(cellKey));
+  matches.push([original.length, modified.length]);
+
+  const pairs: Array<[CellType | null, CellType | null]> = [];
+  let i = 0;
+  let j = 0;
+
+  for (const [mi, mj] of matches) {
+    const removed = original.slice(i, mi);
+    const added = modified.slice(j, mj);
+
+    for (const cell of removed) {
+      const index = added.findIndex(
+        (c) => c.type === cell.type && c.type !== 'code' && c.type !== 'shell' && c.type !== 'sql',
+      );
+      pairs.push([cell, index === -1 ? null : added.splice(index, 1)[0]!]);
+    }
+
+    for (const cell of added) {
+      pairs.push([null, cell]);
+    }
+
+    if (mi < original.length) {
+      pairs.push([original[mi]!, modified[mj]!]);
+    }
+
+    i = mi + 1;
+    j = mj + 1;
+  }
+
+  // A code, shell or SQL cell that was moved shows up as both deleted and created.
+  for (const pair of pairs) {
+    const [cell, match] = pair;
+
+    if (
+      (cell?.type === 'code' || cell?.type === 'shell' || cell?.type === 'sql') &&
+      match === null
+    ) {
+      const created = pairs.find(
+        ([c, m]) =>
+          c === null && m?.type === cell.type && 'filename' in m && m.filename === cell.filename,
+      );
+
+      if (created) {
+        pair[1] = created[1];
+        created[1] = null;
+      }
+    }
+  }
+
+  // Moving a code or shell cell leaves an empty pair behind.
+  return pairs.filter(([a, b]) => a !== null || b !== null);
+}
+
+/**
+ * Cell-level diff between two versions of a srcbook. Unchanged cells are left out.
+ */
+export function diffCells(original: CellType[], modified: CellType[]): CellDiffType[] {
+  return pairCells(original, modified)
+    .filter(([a, b]) => a === null || b === null || cellContent(a) !== cellContent(b))
+    .map(([a, b]) => toDiff(a, b));
+}
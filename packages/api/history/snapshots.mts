@@ -0,0 +1,130 @@
+import fs from 'node:fs/promises';
+import Path from 'node:path';
+import type { SnapshotType, SnapshotReasonType } from '@peragus/shared';
+import { encode, decodeDir } from '../srcmd.mjs';
+import { pathToHistory } from '../srcbook/path.mjs';
+
+/**
+ * Edits are snapshotted once they have settled for this long.
+ */
+export const SNAPSHOT_DEBOUNCE_MS = 5000;
+
+/**
+ * Oldest snapshots are removed once a srcbook has more than this many.
+ */
+export const MAX_SNAPSHOTS = 100;
+
+// Snapshots are stored as <createdAt>-<reason>.src.md so that
+// listing them does not require reading every file.
+const SNAPSHOT_ID_RE = /^(\d+)-(auto|ai|restore|conflict)$/;
+
+const pending = new Map<string, NodeJS.Timeout>();
+
+function parseSnapshotId(id: string): SnapshotType | null {
+  const match = SNAPSHOT_ID_RE.exec(id);
+
+  if (match === null) {
+    return null;
+  }
+
+  return { id, createdAt: Number(match[1]), reason: match[2] as SnapshotReasonType };
+}
+
+function pathToSnapshot(srcbookDir: string, id: string) {
+  return Path.join(pathToHistory(srcbookDir), `${id}.src.md`);
+}
+
+/**
+ * Lists the snapshots of a srcbook, most recent first.
+ */
+export async function listSnapshots(srcbookDir: string): Promise<SnapshotType[]> {
+  let entries: string[];
+
+  try {
+    entries = await fs.readdir(pathToHistory(srcbookDir));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw e;
+  }
+
+  return entries
+    .filter((entry) => entry.endsWith('.src.md'))
+    .map((entry) => parseSnapshotId(entry.slice(0, -'.src.md'.length)))
+    .filter((snapshot): snapshot is SnapshotType => snapshot !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Reads the srcmd text of a snapshot.
+ */
+export async function readSnapshot(srcbookDir: string, id: string) {
+  if (parseSnapshotId(id) === null) {
+    throw new Error(`Invalid snapshot id '${id}'`);
+  }
+
+  return fs.readFile(pathToSnapshot(srcbookDir, id), 'utf8');
+}
+
+/**
+ * Snapshots the srcbook as it currently is on disk.
+ *
+ * Nothing is written if the srcbook did not change since the last snapshot,
+ * in which case the last snapshot is returned.
+ */
+export async function takeSnapshot(
+  srcbookDir: string,
+  reason: SnapshotReasonType,
+): Promise<SnapshotType> {
+  const result = await decodeDir(srcbookDir);
+
+  if (result.error) {
+    throw new Error(`Cannot snapshot invalid srcbook directory at ${srcbookDir}`);
+  }
+
+  const text = encode(result.srcbook, { inline: true });
+  const [latest, ...older] = await listSnapshots(srcbookDir);
+
+  if (latest && (await readSnapshot(srcbookDir, latest.id)) === text) {
+    return latest;
+  }
+
+  // Two snapshots in the same millisecond would share an id.
+  const createdAt = Math.max(Date.now(), latest ? latest.createdAt + 1 : 0);
+  const snapshot: SnapshotType = { id: `${createdAt}-${reason}`, createdAt, reason };
+
+  await fs.mkdir(pathToHistory(srcbookDir), { recursive: true });
+  await fs.writeFile(pathToSnapshot(srcbookDir, snapshot.id), text, 'utf8');
+
+  const expired = latest ? older.slice(MAX_SNAPSHOTS - 2) : [];
+  await Promise.all(
+    expired.map(({ id }) => fs.rm(pathToSnapshot(srcbookDir, id), { force: true })),
+  );
+
+  return snapshot;
+}
+
+/**
+ * Snapshots the srcbook once it has not been written to for SNAPSHOT_DEBOUNCE_MS.
+ */
+export function scheduleSnapshot(srcbookDir: string) {
+  cancelSnapshot(srcbookDir);
+
+  const timeout = setTimeout(() => {
+    pending.delete(srcbookDir);
+    takeSnapshot(srcbookDir, 'auto').catch((error) => {
+      console.error(`Error taking snapshot of ${srcbookDir}:`, error);
+    });
+  }, SNAPSHOT_DEBOUNCE_MS);
+
+  // A pending snapshot should not keep the process alive.
+  timeout.unref();
+
+  pending.set(srcbookDir, timeout);
+}
+
+export function cancelSnapshot(srcbookDir: string) {
+  clearTimeout(pending.get(srcbookDir));
+  pending.delete(srcbookDir);
+}
@@ -1,6 +1,7 @@
 import app from './server/http.mjs';
 import wss from './server/ws.mjs';
+import { verifyWebSocketClient } from './server/auth.mjs';
 import { SRCBOOKS_DIR } from './constants.mjs';
 import { posthog } from './posthog-client.mjs';
 
-export { app, wss, SRCBOOKS_DIR, posthog };
+export { app, wss, verifyWebSocketClient, SRCBOOKS_DIR, posthog };
@@ -0,0 +1,185 @@
+import EventEmitter from 'node:events';
+import type { ChildProcess } from 'node:child_process';
+import type { KernelRequestType, KernelResponseType } from './worker.mjs';
+
+// How long to wait for a cell to acknowledge an interrupt before killing the kernel.
+// Cells stuck in synchronous code never see the interrupt message.
+const INTERRUPT_TIMEOUT_MS = 2000;
+
+type ExecTaskType = {
+  id: number;
+  cellId: string;
+  code: string;
+  env: Record<string, string>;
+  resolve: (exitCode: number | null) => void;
+};
+
+export type KernelExecRequestType = {
+  cellId: string;
+  /**
+   * JavaScript produced by `transformCell`.
+   */
+  code: string;
+  env: Record<string, string>;
+};
+
+/**
+ * A long-lived node process that evaluates cells in a shared global scope.
+ *
+ * Cells are executed one at a time, in the order they were requested.
+ *
+ * Events:
+ *
+ * - 'output' (cellId, { type: 'stdout' | 'stderr', data }): output written while a cell was running.
+ * - 'status' ('idle' | 'busy'): emitted when the kernel starts or finishes executing cells.
+ * - 'exit' (): the kernel process exited. The kernel cannot be used afterwards.
+ */
+export class Kernel extends EventEmitter {
+  private _id: number = 0;
+  private readonly process: ChildProcess;
+  private queue: ExecTaskType[] = [];
+  private current: ExecTaskType | null = null;
+  private lastCellId: string | null = null;
+  private interruptTimeout: NodeJS.Timeout | null = null;
+  private exited: boolean = false;
+
+  constructor(process: ChildProcess) {
+    super();
+    this.process = process;
+
+    this.process.on('message', (message: KernelResponseType) => this.handleMessage(message));
+
+    // Anything written outside of the IPC channel, e.g. errors from node itself.
+    this.process.stdout?.on('data', (data: Buffer) => this.output('stdout', data.toString('utf8')));
+    this.process.stderr?.on('data', (data: Buffer) => this.output('stderr', data.toString('utf8')));
+
+    this.process.on('exit', () => {
+      this.exited = true;
+      this.clearInterruptTimeout();
+
+      const tasks = this.current ? [this.current, ...this.queue] : this.queue;
+      this.current = null;
+      this.queue = [];
+
+      for (const task of tasks) {
+        task.resolve(null);
+      }
+
+      this.emit('exit');
+    });
+  }
+
+  get busy() {
+    return this.current !== null;
+  }
+
+  private get id() {
+    return this._id++;
+  }
+
+  exec(request: KernelExecRequestType): Promise<number | null> {
+    if (this.exited) {
+      return Promise.resolve(null);
+    }
+
+    if (!this.busy) {
+      this.emit('status', 'busy');
+    }
+
+    return new Promise((resolve) => {
+      this.queue.push({ ...request, id: this.id, resolve });
+      this.next();
+    });
+  }
+
+  /**
+   * Interrupt a cell. Queued cells are removed from the queue. If the cell is currently
+   * running, it is abandoned, and the kernel is killed if the cell does not yield in time.
+   */
+  interrupt(cellId: string) {
+    const queued = this.queue.find((task) => task.cellId === cellId);
+
+    if (queued) {
+      this.queue = this.queue.filter((task) => task !== queued);
+      queued.resolve(null);
+      return true;
+    }
+
+    if (!this.current || this.current.cellId !== cellId) {
+      return false;
+    }
+
+    this.send({ type: 'interrupt' });
+
+    const task = this.current;
+    this.clearInterruptTimeout();
+    this.interruptTimeout = setTimeout(() => {
+      if (this.current === task) {
+        this.output('stderr', 'Cell did not respond to the interrupt, restarting the kernel.\n');
+        this.shutdown('SIGKILL');
+      }
+    }, INTERRUPT_TIMEOUT_MS);
+
+    return true;
+  }
+
+  shutdown(signal: NodeJS.Signals = 'SIGTERM') {
+    return this.process.kill(signal);
+  }
+
+  private next() {
+    if (this.current || this.exited) {
+      return;
+    }
+
+    const task = this.queue.shift();
+
+    if (!task) {
+      this.emit('status', 'idle');
+      return;
+    }
+
+    this.current = task;
+    this.lastCellId = task.cellId;
+    this.send({ type: 'exec', id: task.id, code: task.code, env: task.env });
+  }
+
+  private handleMessage(message: KernelResponseType) {
+    switch (message.type) {
+      case 'output':
+        this.output(message.stream, message.data);
+        break;
+      case 'done':
+        if (this.current && this.current.id === message.id) {
+          const task = this.current;
+          this.current = null;
+          this.clearInterruptTimeout();
+          task.resolve(message.exitCode);
+          this.next();
+        }
+        break;
+    }
+  }
+
+  // Output written after a cell finished, e.g. from a timer, belongs to the last cell that ran.
+  private output(type: 'stdout' | 'stderr', data: string) {
+    const cellId = this.current ? this.current.cellId : this.lastCellId;
+
+    if (cellId) {
+      this.emit('output', cellId, { type, data });
+    }
+  }
+
+  private send(request: KernelRequestType) {
+    if (this.process.connected) {
+      this.process.send(request);
+    }
+  }
+
+  private clearInterruptTimeout() {
+    if (this.interruptTimeout) {
+      clearTimeout(this.interruptTimeout);
+      this.interruptTimeout = null;
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { spawn } from 'node:child_process';
+import type { CodeLanguageType } from '@peragus/shared';
+import { Kernel } from './kernel.mjs';
+import { kernelMain } from './worker.mjs';
+import { displayHelperArgs } from '../display/helper.mjs';
+
+/**
+ * This object is responsible for managing the kernel of each session running in kernel mode.
+ */
+export class Kernels {
+  private kernels: Record<string, Kernel> = {};
+
+  get(id: string) {
+    const kernel = this.kernels[id];
+
+    if (!kernel) {
+      throw new Error(`kernel for ${id} does not exist.`);
+    }
+
+    return kernel;
+  }
+
+  set(id: string, kernel: Kernel) {
+    if (this.kernels[id]) {
+      throw new Error(`kernel for ${id} already exists.`);
+    }
+
+    this.kernels[id] = kernel;
+  }
+
+  has(id: string) {
+    return this.kernels[id] !== undefined;
+  }
+
+  del(id: string) {
+    delete this.kernels[id];
+  }
+
+  create(id: string, options: { cwd: string; language: CodeLanguageType }) {
+    if (this.has(id)) {
+      throw new Error(`kernel for ${id} already exists.`);
+    }
+
+    // TypeScript is transpiled before it is sent to the kernel, but cells may still
+    // import other TypeScript cells. This is using the tsx dependency in the user's
+    // Srcbook to support those imports.
+    const args = [
+      ...displayHelperArgs(),
+      '--input-type=module',
+      '-e',
+      `(${kernelMain.toString()})()`,
+    ];
+
+    if (options.language === 'typescript') {
+      args.unshift('--import', 'tsx');
+    }
+
+    const child = spawn('node', args, {
+      cwd: options.cwd,
+      stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+    });
+
+    const kernel = new Kernel(child);
+
+    this.set(id, kernel);
+
+    child.on('exit', () => {
+      // A restarted kernel may have replaced this one already.
+      if (this.kernels[id] === kernel) {
+        this.del(id);
+      }
+    });
+
+    return kernel;
+  }
+
+  shutdown(id: string) {
+    if (!this.has(id)) {
+      return;
+    }
+
+    const kernel = this.get(id);
+
+    // Remove the kernel right away so that a new one can be created while this one exits.
+    this.del(id);
+
+    return kernel.shutdown();
+  }
+}
@@ -0,0 +1,150 @@
+import ts from 'typescript';
+
+/**
+ * Transform the source of a code cell into the body of an async function
+ * that the kernel can evaluate in its shared global scope.
+ *
+ * Cells are written as ES modules, but modules have their own scope and cannot
+ * be re-evaluated. To let cells see each other's variables, the code is first
+ * transpiled to plain JavaScript and then every top-level declaration is turned
+ * into an assignment to a global:
+ *
+ *     import { add } from './index.mjs';   =>  { const __module = await __kernel.import('./index.mjs'); add = __module.add; }
+ *     export const total = add(1, 2);      =>  total = add(1, 2);
+ *     class Point {}                       =>  Point = class Point {};
+ *
+ * Function declarations are left in place (so that they are still hoisted) and
+ * copied onto globalThis at the start of the cell.
+ *
+ * Re-running a cell simply reassigns these globals, which is why `const`
+ * declarations can be evaluated more than once.
+ */
+export function transformCell(source: string, filename: string) {
+  const { outputText } = ts.transpileModule(source, {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      // Imports must be kept even when unused in this cell, other cells may use them.
+      verbatimModuleSyntax: true,
+    },
+  });
+
+  const sourceFile = ts.createSourceFile(
+    'cell.mjs',
+    outputText,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.JS,
+  );
+
+  const hoisted: string[] = [];
+  const statements: string[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      hoisted.push(`globalThis.${statement.name.text} = ${statement.name.text};`);
+    }
+
+    const transformed = transformStatement(statement, sourceFile);
+
+    if (transformed !== '') {
+      statements.push(transformed);
+    }
+  }
+
+  return [...hoisted, ...statements].join('\n');
+}
+
+function transformStatement(statement: ts.Statement, sourceFile: ts.SourceFile): string {
+  if (ts.isImportDeclaration(statement)) {
+    return transformImport(statement);
+  }
+
+  if (ts.isExportDeclaration(statement)) {
+    // Re-exports have no local bindings but may have side effects.
+    return statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+      ? `await __kernel.import(${JSON.stringify(statement.moduleSpecifier.text)});`
+      : '';
+  }
+
+  if (ts.isExportAssignment(statement)) {
+    return `${statement.expression.getText(sourceFile)};`;
+  }
+
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations
+      .map((declaration) => transformVariableDeclaration(declaration, sourceFile))
+      .join('\n');
+  }
+
+  if (ts.isFunctionDeclaration(statement)) {
+    const text = textWithoutModifiers(statement, sourceFile);
+    return statement.name ? text : `(${text});`;
+  }
+
+  if (ts.isClassDeclaration(statement)) {
+    const text = textWithoutModifiers(statement, sourceFile);
+    return statement.name ? `${statement.name.text} = ${text};` : `(${text});`;
+  }
+
+  return statement.getText(sourceFile);
+}
+
+function transformImport(statement: ts.ImportDeclaration) {
+  const specifier = JSON.stringify((statement.moduleSpecifier as ts.StringLiteral).text);
+  const clause = statement.importClause;
+
+  if (!clause) {
+    return `await __kernel.import(${specifier});`;
+  }
+
+  const assignments: string[] = [];
+
+  if (clause.name) {
+    assignments.push(`${clause.name.text} = __module.default;`);
+  }
+
+  const bindings = clause.namedBindings;
+
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    assignments.push(`${bindings.name.text} = __module;`);
+  } else if (bindings) {
+    for (const element of bindings.elements) {
+      const imported = (element.propertyName ?? element.name).text;
+      assignments.push(`${element.name.text} = __module[${JSON.stringify(imported)}];`);
+    }
+  }
+
+  return `{ const __module = await __kernel.import(${specifier}); ${assignments.join(' ')} }`;
+}
+
+function transformVariableDeclaration(
+  declaration: ts.VariableDeclaration,
+  sourceFile: ts.SourceFile,
+) {
+  const name = declaration.name.getText(sourceFile);
+  const initializer = declaration.initializer
+    ? declaration.initializer.getText(sourceFile)
+    : 'undefined';
+
+  // Destructuring needs to be wrapped in parens to be parsed as an assignment.
+  return ts.isIdentifier(declaration.name)
+    ? `${name} = ${initializer};`
+    : `(${name} = ${initializer});`;
+}
+
+function textWithoutModifiers(
+  node: ts.FunctionDeclaration | ts.ClassDeclaration,
+  sourceFile: ts.SourceFile,
+) {
+  // Only strip `export` and `default`, other modifiers such as `async` must be kept.
+  const modifiers = (node.modifiers ?? []).filter(
+    (modifier) =>
+      modifier.kind === ts.SyntaxKind.ExportKeyword ||
+      modifier.kind === ts.SyntaxKind.DefaultKeyword,
+  );
+  const last = modifiers[modifiers.length - 1];
+  const start = last ? last.end : node.getStart(sourceFile);
+  return sourceFile.text.slice(start, node.end).trim();
+}
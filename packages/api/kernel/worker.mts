@@ -0,0 +1,102 @@
+import type Path from 'node:path';
+import type Url from 'node:url';
+
+/**
+ * Messages sent from the server to the kernel process.
+ */
+export type KernelRequestType =
+  | { type: 'exec'; id: number; code: string; env: Record<string, string> }
+  | { type: 'interrupt' };
+
+/**
+ * Messages sent from the kernel process to the server.
+ */
+export type KernelResponseType =
+  | { type: 'output'; stream: 'stdout' | 'stderr'; data: string }
+  | { type: 'done'; id: number; exitCode: number | null };
+
+/**
+ * Entry point of the kernel process.
+ *
+ * This function is serialized and evaluated with `node --input-type=module -e`
+ * from the srcbook's directory, so it must not reference anything outside of
+ * its own body. Evaluating it from the srcbook's directory also means that
+ * packages imported by cells resolve against the srcbook's node_modules.
+ */
+export async function kernelMain() {
+  // Created through Function so that tools transforming this file at build
+  // time or in development do not rewrite the dynamic import.
+  const load = new Function('specifier', 'return import(specifier)') as <T = unknown>(
+    specifier: string,
+  ) => Promise<T>;
+
+  const path = await load<typeof Path>('node:path');
+  const { pathToFileURL } = await load<typeof Url>('node:url');
+
+  const AsyncFunction = (async () => {}).constructor as new (
+    ...args: string[]
+  ) => (...args: unknown[]) => Promise<unknown>;
+
+  const srcDir = path.join(process.cwd(), 'src');
+
+  let running: number | null = null;
+
+  function send(message: KernelResponseType) {
+    if (process.connected) {
+      process.send!(message);
+    }
+  }
+
+  // Output is sent over the IPC channel rather than stdio so that it
+  // is guaranteed to arrive before the cell's 'done' message.
+  for (const stream of ['stdout', 'stderr'] as const) {
+    process[stream].write = ((chunk: string | Uint8Array) => {
+      send({ type: 'output', stream, data: Buffer.from(chunk).toString('utf8') });
+      return true;
+    }) as typeof process.stdout.write;
+  }
+
+  // Errors thrown asynchronously by a cell should not bring the kernel down.
+  process.on('uncaughtException', (error) => console.error(error));
+  process.on('unhandledRejection', (error) => console.error(error));
+
+  const kernel = {
+    // Cells are imported relative to the src directory, as they would be when run as files.
+    import(specifier: string) {
+      return load(
+        specifier.startsWith('.') ? pathToFileURL(path.resolve(srcDir, specifier)).href : specifier,
+      );
+    },
+  };
+
+  process.on('message', async (message: KernelRequestType) => {
+    switch (message.type) {
+      case 'exec': {
+        running = message.id;
+        Object.assign(process.env, message.env);
+
+        let exitCode = 0;
+
+        try {
+          await new AsyncFunction('__kernel', message.code)(kernel);
+        } catch (error) {
+          console.error(error);
+          exitCode = 1;
+        }
+
+        // An interrupted cell has already been reported as done.
+        if (running === message.id) {
+          running = null;
+          send({ type: 'done', id: message.id, exitCode });
+        }
+        break;
+      }
+      case 'interrupt':
+        if (running !== null) {
+          send({ type: 'done', id: running, exitCode: null });
+          running = null;
+        }
+        break;
+    }
+  });
+}
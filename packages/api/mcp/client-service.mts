@@ -1,33 +1,35 @@
+import { EventEmitter } from 'node:events';
 import {
   MCPClientManager,
   createMCPClient,
   defaultMCPConfig,
   type MCPClientConfig,
+  type MCPServerConfig,
   type MCPTool,
   type MCPResource,
   type MCPToolCallResult
 } from '../../mcp-client/src/index.mjs';
+import {
+  getMCPServers,
+  toMCPServerConfig,
+  getToolPolicies,
+  recordAuditEvent,
+  type MCPAuditEvent
+} from '../config.mjs';
+import { evaluatePolicies } from './policies.mjs';
+import {
+  CircuitBreakerState,
+  type CircuitBreakerMetrics
+} from '../../error-recovery/src/index.mjs';
+import {
+  recoveryOrchestrator,
+  registerRecoveryService,
+  unregisterRecoveryService,
+  withRecovery
+} from '../recovery/orchestrator.mjs';
 
 /**
- * Circuit breaker states for connection management
- */
-enum CircuitBreakerState {
-  CLOSED = 'closed',
-  OPEN = 'open',
-  HALF_OPEN = 'half_open'
-}
-
-/**
- * Circuit breaker configuration
- */
-interface CircuitBreakerConfig {
-  failureThreshold: number;
-  resetTimeout: number;
-  monitoringPeriod: number;
-}
-
-/**
- * Server health metrics
+ * Server health metrics, from the server's circuit breaker
  */
 interface ServerHealthMetrics {
   serverId: string;
@@ -36,7 +38,7 @@ interface ServerHealthMetrics {
   lastFailedCall: Date | null;
   consecutiveFailures: number;
   circuitBreakerState: CircuitBreakerState;
-  responseTimeMs: number[];
+  averageResponseTimeMs: number;
 }
 
 /**
@@ -51,29 +53,68 @@ interface ToolApprovalRequest {
   status: 'pending' | 'approved' | 'rejected' | 'expired';
   approvedBy?: string;
   expiresAt: Date;
+  // The policy that required the approval, if any.
+  policyId: number | null;
+}
+
+/**
+ * Thrown when a tool policy denies a call
+ */
+export class ToolDeniedError extends Error {
+  constructor(
+    readonly serverId: string,
+    readonly toolName: string,
+    readonly policyId: number | null
+  ) {
+    super(`Tool ${toolName} of server ${serverId} is denied by policy ${policyId}`);
+    this.name = 'ToolDeniedError';
+  }
+}
+
+/**
+ * Thrown when a call needs a human's approval, which has been requested
+ */
+export class ToolApprovalRequiredError extends Error {
+  constructor(readonly approvalId: string) {
+    super(`Tool execution requires approval. Approval ID: ${approvalId}`);
+    this.name = 'ToolApprovalRequiredError';
+  }
+}
+
+/**
+ * Thrown when a server fails a tool call, carrying the result so that the call's caller
+ * gets it back once the failure is recorded
+ */
+class ToolCallFailedError extends Error {
+  constructor(readonly result: MCPToolCallResult) {
+    super(result.error ?? `Tool ${result.toolName} of server ${result.serverId} failed`);
+    this.name = 'ToolCallFailedError';
+  }
+}
+
+/**
+ * The id of a server's service in the recovery orchestrator
+ */
+function recoveryServiceId(serverId: string): string {
+  return `mcp_${serverId}`;
 }
 
 /**
  * Enhanced MCP Client Service for the API layer
- * Provides multi-server connection management, tool approval workflow,
- * circuit breaker patterns, and comprehensive health monitoring.
+ * Provides multi-server connection management and the tool approval workflow.
+ * Calls to servers go through the recovery orchestrator, which gives each server
+ * a circuit breaker, retries and health checks.
+ *
+ * Emits `approvals` with the pending approval requests whenever they change.
  */
-export class MCPClientService {
+export class MCPClientService extends EventEmitter {
   private static instance: MCPClientService;
   private clientManager: MCPClientManager | null = null;
   private isInitialized = false;
   private initializationPromise: Promise<void> | null = null;
   
-  // Health monitoring
-  private serverMetrics: Map<string, ServerHealthMetrics> = new Map();
-  private healthCheckInterval: NodeJS.Timeout | null = null;
-  
-  // Circuit breaker configuration
-  private circuitBreakerConfig: CircuitBreakerConfig = {
-    failureThreshold: 5,
-    resetTimeout: 60000, // 1 minute
-    monitoringPeriod: 300000 // 5 minutes
-  };
+  // Servers registered with the recovery orchestrator
+  private monitoredServers: Set<string> = new Set();
   
   // Tool approval workflow
   private pendingApprovals: Map<string, ToolApprovalRequest> = new Map();
@@ -83,9 +124,8 @@ export class MCPClientService {
   private connectionPool: Map<string, { lastUsed: Date; inUse: boolean }> = new Map();
 
   private constructor() {
-    // Start health monitoring
-    this.startHealthMonitoring();
-    
+    super();
+
     // Start cleanup intervals
     this.startCleanupTasks();
   }
@@ -115,20 +155,12 @@ export class MCPClientService {
 
   private async _initialize(config?: MCPClientConfig): Promise<void> {
     try {
-      const clientConfig = config || this._getDefaultConfig();
+      const clientConfig = config || await this._getDefaultConfig();
       this.clientManager = await createMCPClient(clientConfig);
       
-      // Initialize server metrics
+      // Monitor the servers
       for (const server of clientConfig.servers) {
-        this.serverMetrics.set(server.name, {
-          serverId: server.name,
-          isConnected: false,
-          lastSuccessfulCall: null,
-          lastFailedCall: null,
-          consecutiveFailures: 0,
-          circuitBreakerState: CircuitBreakerState.CLOSED,
-          responseTimeMs: []
-        });
+        this._monitor(server.name);
       }
       
       this.isInitialized = true;
@@ -139,11 +171,35 @@ export class MCPClientService {
     }
   }
 
+  /**
+   * Register a server with the recovery orchestrator, which checks that it is connected
+   * and reconnects to it when its circuit breaker opens
+   */
+  private _monitor(serverId: string): void {
+    if (this.monitoredServers.has(serverId)) {
+      unregisterRecoveryService(recoveryServiceId(serverId));
+    }
+
+    registerRecoveryService(recoveryServiceId(serverId), {
+      envPrefix: 'MCP',
+      defaults: { timeout: 30000 },
+      healthCheck: async () => this.clientManager?.getConnectionStatus()[serverId] === true,
+      reconnect: () => this.reconnect(serverId)
+    });
+    this.monitoredServers.add(serverId);
+  }
+
+  private _unmonitor(serverId: string): void {
+    if (this.monitoredServers.delete(serverId)) {
+      unregisterRecoveryService(recoveryServiceId(serverId));
+    }
+  }
+
   /**
    * Get default configuration with environment-based overrides
    */
-  private _getDefaultConfig(): MCPClientConfig {
-    const config = { ...defaultMCPConfig };
+  private async _getDefaultConfig(): Promise<MCPClientConfig> {
+    const config = { ...defaultMCPConfig, servers: [...defaultMCPConfig.servers] };
     
     // Override with environment variables if available
     const mcpServerUrl = process.env.MCP_SERVER_URL;
@@ -167,6 +223,16 @@ export class MCPClientService {
       }
     }
 
+    // Add servers added in the app
+    try {
+      const storedServers = await getMCPServers();
+      config.servers.push(
+        ...storedServers.filter((server) => server.enabled).map(toMCPServerConfig)
+      );
+    } catch (error) {
+      console.warn('Failed to load MCP servers from settings:', error);
+    }
+
     return config;
   }
 
@@ -189,16 +255,25 @@ export class MCPClientService {
     }
     
     const basicStatus = this.clientManager.getConnectionStatus();
+    const { services } = recoveryOrchestrator.getSystemHealthSummary();
     const result: Record<string, { connected: boolean; health: ServerHealthMetrics }> = {};
     
     for (const [serverId, connected] of Object.entries(basicStatus)) {
-      const metrics = this.serverMetrics.get(serverId);
-      if (metrics) {
+      const service = services[recoveryServiceId(serverId)];
+      if (service) {
         const isConnected = Boolean(connected);
-        metrics.isConnected = isConnected;
+        const breaker: CircuitBreakerMetrics = service.circuitBreaker;
         result[serverId] = {
           connected: isConnected,
-          health: { ...metrics }
+          health: {
+            serverId,
+            isConnected,
+            lastSuccessfulCall: breaker.lastSuccessTime,
+            lastFailedCall: breaker.lastFailureTime,
+            consecutiveFailures: breaker.consecutiveFailures,
+            circuitBreakerState: breaker.state,
+            averageResponseTimeMs: breaker.averageResponseTime
+          }
         };
       }
     }
@@ -227,76 +302,133 @@ export class MCPClientService {
   }
 
   /**
-   * Call a tool with circuit breaker protection and approval workflow
+   * Call a tool with circuit breaker protection and approval workflow. The tool policies
+   * decide whether the call is allowed, denied or needs approval; when none matches, it
+   * needs approval only if `requireApproval` is set.
+   *
+   * Failed calls are retried only if `retry` is set, for tools that are safe to call again.
    */
   async callTool(
     serverId: string, 
     toolName: string, 
-    args: Record<string, any>,
+    args: Record<string, unknown>,
     options: {
       requireApproval?: boolean;
-      approvedBy?: string;
       bypassCircuitBreaker?: boolean;
+      retry?: boolean;
     } = {}
   ): Promise<MCPToolCallResult> {
     if (!this.clientManager) {
       throw new Error('MCP Client Service not initialized');
     }
 
-    // Check circuit breaker
-    if (!options.bypassCircuitBreaker && !this._isCircuitBreakerClosed(serverId)) {
-      throw new Error(`Circuit breaker is open for server: ${serverId}`);
+    const execution = {
+      bypassCircuitBreaker: options.bypassCircuitBreaker ?? false,
+      retry: options.retry ?? false
+    };
+
+    const decision = evaluatePolicies(
+      await getToolPolicies(),
+      { serverId, toolName, arguments: args },
+      options.requireApproval ? 'require_approval' : 'allow'
+    );
+    const event = { serverId, toolName, arguments: args, policyId: decision.policyId };
+
+    if (decision.action === 'deny') {
+      await this._audit({ ...event, event: 'denied' });
+      throw new ToolDeniedError(serverId, toolName, decision.policyId);
     }
 
-    // Handle approval workflow
-    if (options.requireApproval && !options.approvedBy) {
-      const approvalId = await this._requestToolApproval(serverId, toolName, args);
-      throw new Error(`Tool execution requires approval. Approval ID: ${approvalId}`);
+    if (decision.action === 'require_approval') {
+      const approval = this._takeApproval(serverId, toolName, args);
+
+      if (!approval) {
+        const approvalId = await this._requestToolApproval(serverId, toolName, args, decision.policyId);
+        throw new ToolApprovalRequiredError(approvalId);
+      }
+
+      return this._execute(
+        { ...event, approvalId: approval.id, actor: approval.approvedBy },
+        execution
+      );
     }
 
+    return this._execute(event, execution);
+  }
+
+  /**
+   * Call a tool that may run, recording the call in the audit log
+   */
+  private async _execute(
+    event: Omit<MCPAuditEvent, 'event'>,
+    options: { bypassCircuitBreaker: boolean; retry: boolean }
+  ): Promise<MCPToolCallResult> {
     const startTime = Date.now();
+    const call = async () => {
+      const result = await this.clientManager!.callTool(event.serverId, event.toolName, event.arguments);
+
+      // Failed calls are reported in the result, throw so that they count as failures
+      if (!result.success) {
+        throw new ToolCallFailedError(result);
+      }
+      return result;
+    };
     
     try {
-      const result = await this.clientManager.callTool(serverId, toolName, args);
-      
-      // Record successful call
-      this._recordSuccessfulCall(serverId, Date.now() - startTime);
+      const result = options.bypassCircuitBreaker
+        ? await call()
+        : await withRecovery(recoveryServiceId(event.serverId), `callTool:${event.toolName}`, call, {
+            retry: options.retry
+          });
+
+      await this._audit({ ...event, event: 'executed', durationMs: Date.now() - startTime });
       
       return result;
     } catch (error) {
-      // Record failed call
-      this._recordFailedCall(serverId);
+      if (error instanceof ToolCallFailedError) {
+        await this._audit({
+          ...event,
+          event: 'failed',
+          durationMs: Date.now() - startTime,
+          error: error.result.error ?? null
+        });
+        return error.result;
+      }
+
+      await this._audit({
+        ...event,
+        event: 'failed',
+        durationMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error)
+      });
       throw error;
     }
   }
 
+  /**
+   * Write to the audit log. A failure to do so is logged rather than failing the call.
+   */
+  private async _audit(event: MCPAuditEvent): Promise<void> {
+    try {
+      await recordAuditEvent(event);
+    } catch (error) {
+      console.error('Failed to write to the MCP audit log:', error);
+    }
+  }
+
   /**
    * Read a resource from a specific server with circuit breaker protection
    */
   async readResource(serverId: string, uri: string): Promise<any> {
-    if (!this.clientManager) {
+    const clientManager = this.clientManager;
+    if (!clientManager) {
       throw new Error('MCP Client Service not initialized');
     }
 
-    // Check circuit breaker
-    if (!this._isCircuitBreakerClosed(serverId)) {
-      throw new Error(`Circuit breaker is open for server: ${serverId}`);
-    }
-
-    const startTime = Date.now();
-    
-    try {
-      const result = await this.clientManager.readResource(serverId, uri);
-      
-      // Record successful call
-      this._recordSuccessfulCall(serverId, Date.now() - startTime);
-      
-      return result;
-    } catch (error) {
-      // Record failed call
-      this._recordFailedCall(serverId);
-      throw error;
-    }
+    // Reading is safe to retry
+    return withRecovery(recoveryServiceId(serverId), 'readResource', () =>
+      clientManager.readResource(serverId, uri)
+    );
   }
 
   /**
@@ -307,23 +439,58 @@ export class MCPClientService {
       throw new Error('MCP Client Service not initialized');
     }
     
-    // Reset circuit breaker
-    const metrics = this.serverMetrics.get(serverId);
-    if (metrics) {
-      metrics.consecutiveFailures = 0;
-      metrics.circuitBreakerState = CircuitBreakerState.CLOSED;
-    }
-    
     return this.clientManager.reconnect(serverId);
   }
 
+  /**
+   * Check whether a server with this name is configured, e.g. by environment variables
+   */
+  hasServer(serverId: string): boolean {
+    return this.clientManager?.hasServer(serverId) ?? false;
+  }
+
+  /**
+   * Connect to a server added after initialization
+   */
+  async addServer(serverConfig: MCPServerConfig): Promise<void> {
+    if (!this.clientManager) {
+      throw new Error('MCP Client Service not initialized');
+    }
+
+    this._monitor(serverConfig.name);
+    await this.clientManager.addServer(serverConfig);
+  }
+
+  /**
+   * Disconnect from a server and stop monitoring it
+   */
+  async removeServer(serverId: string): Promise<void> {
+    if (!this.clientManager) {
+      throw new Error('MCP Client Service not initialized');
+    }
+
+    this._unmonitor(serverId);
+    await this.clientManager.removeServer(serverId);
+  }
+
+  /**
+   * Check a server configuration by listing its tools, without keeping a connection
+   */
+  async testConnection(serverConfig: MCPServerConfig): Promise<MCPTool[]> {
+    if (!this.clientManager) {
+      throw new Error('MCP Client Service not initialized');
+    }
+    return this.clientManager.testConnection(serverConfig);
+  }
+
   /**
    * Request tool approval
    */
   private async _requestToolApproval(
     serverId: string, 
     toolName: string, 
-    args: Record<string, any>
+    args: Record<string, unknown>,
+    policyId: number | null
   ): Promise<string> {
     const approvalId = `approval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const expiresAt = new Date(Date.now() + this.approvalTimeout);
@@ -335,14 +502,57 @@ export class MCPClientService {
       arguments: args,
       requestedAt: new Date(),
       status: 'pending',
-      expiresAt
+      expiresAt,
+      policyId
     };
     
     this.pendingApprovals.set(approvalId, request);
+    await this._audit({ ...this._auditFields(request), event: 'approval_requested' });
+    this._emitApprovals();
     
     return approvalId;
   }
 
+  /**
+   * Use up an approved request for this exact call, if there is one
+   */
+  private _takeApproval(
+    serverId: string,
+    toolName: string,
+    args: Record<string, unknown>
+  ): ToolApprovalRequest | null {
+    const key = JSON.stringify(args);
+
+    for (const request of this.pendingApprovals.values()) {
+      if (
+        request.status === 'approved' &&
+        request.serverId === serverId &&
+        request.toolName === toolName &&
+        JSON.stringify(request.arguments) === key &&
+        new Date() <= request.expiresAt
+      ) {
+        this.pendingApprovals.delete(request.id);
+        return request;
+      }
+    }
+
+    return null;
+  }
+
+  private _auditFields(request: ToolApprovalRequest) {
+    return {
+      serverId: request.serverId,
+      toolName: request.toolName,
+      arguments: request.arguments,
+      policyId: request.policyId,
+      approvalId: request.id
+    };
+  }
+
+  private _emitApprovals(): void {
+    this.emit('approvals', this.getPendingApprovals());
+  }
+
   /**
    * Approve a tool execution request
    */
@@ -354,12 +564,17 @@ export class MCPClientService {
     }
     
     if (request.status !== 'pending' || new Date() > request.expiresAt) {
-      request.status = 'expired';
+      if (request.status === 'pending') {
+        await this._expire(request);
+      }
       return false;
     }
     
     request.status = 'approved';
     request.approvedBy = approvedBy;
+
+    await this._audit({ ...this._auditFields(request), event: 'approved', actor: approvedBy });
+    this._emitApprovals();
     
     return true;
   }
@@ -367,7 +582,7 @@ export class MCPClientService {
   /**
    * Reject a tool execution request
    */
-  async rejectToolExecution(approvalId: string): Promise<boolean> {
+  async rejectToolExecution(approvalId: string, rejectedBy?: string): Promise<boolean> {
     const request = this.pendingApprovals.get(approvalId);
     
     if (!request || request.status !== 'pending') {
@@ -375,9 +590,19 @@ export class MCPClientService {
     }
     
     request.status = 'rejected';
+
+    await this._audit({ ...this._auditFields(request), event: 'rejected', actor: rejectedBy });
+    this._emitApprovals();
+
     return true;
   }
 
+  private async _expire(request: ToolApprovalRequest): Promise<void> {
+    request.status = 'expired';
+    await this._audit({ ...this._auditFields(request), event: 'expired' });
+    this._emitApprovals();
+  }
+
   /**
    * Get pending approval requests
    */
@@ -395,91 +620,18 @@ export class MCPClientService {
     if (!request || request.status !== 'approved') {
       throw new Error('Invalid or unapproved tool execution request');
     }
-    
-    return this.callTool(request.serverId, request.toolName, request.arguments, {
-      requireApproval: false,
-      approvedBy: request.approvedBy
-    });
-  }
-
-  /**
-   * Check if circuit breaker is closed for a server
-   */
-  private _isCircuitBreakerClosed(serverId: string): boolean {
-    const metrics = this.serverMetrics.get(serverId);
-    if (!metrics) {
-      return true; // Default to allowing calls for unknown servers
-    }
-    
-    return metrics.circuitBreakerState === CircuitBreakerState.CLOSED;
-  }
-
-  /**
-   * Record successful call
-   */
-  private _recordSuccessfulCall(serverId: string, responseTime: number): void {
-    const metrics = this.serverMetrics.get(serverId);
-    if (!metrics) return;
-    
-    metrics.lastSuccessfulCall = new Date();
-    metrics.consecutiveFailures = 0;
-    metrics.circuitBreakerState = CircuitBreakerState.CLOSED;
-    
-    // Track response times (keep last 100)
-    metrics.responseTimeMs.push(responseTime);
-    if (metrics.responseTimeMs.length > 100) {
-      metrics.responseTimeMs.shift();
-    }
-  }
 
-  /**
-   * Record failed call
-   */
-  private _recordFailedCall(serverId: string): void {
-    const metrics = this.serverMetrics.get(serverId);
-    if (!metrics) return;
-    
-    metrics.lastFailedCall = new Date();
-    metrics.consecutiveFailures++;
-    
-    // Check if we should open the circuit breaker
-    if (metrics.consecutiveFailures >= this.circuitBreakerConfig.failureThreshold) {
-      metrics.circuitBreakerState = CircuitBreakerState.OPEN;
-      
-      // Schedule circuit breaker reset
-      setTimeout(() => {
-        if (metrics.circuitBreakerState === CircuitBreakerState.OPEN) {
-          metrics.circuitBreakerState = CircuitBreakerState.HALF_OPEN;
-        }
-      }, this.circuitBreakerConfig.resetTimeout);
+    if (!this.clientManager) {
+      throw new Error('MCP Client Service not initialized');
     }
-  }
 
-  /**
-   * Start health monitoring
-   */
-  private startHealthMonitoring(): void {
-    this.healthCheckInterval = setInterval(() => {
-      this._performHealthChecks();
-    }, 30000); // Check every 30 seconds
-  }
-
-  /**
-   * Perform health checks on all servers
-   */
-  private async _performHealthChecks(): Promise<void> {
-    if (!this.isReady()) return;
+    // An approval allows a single call
+    this.pendingApprovals.delete(approvalId);
     
-    for (const [serverId, metrics] of this.serverMetrics) {
-      try {
-        // Simple health check by listing tools
-        await this.listTools();
-        metrics.isConnected = true;
-      } catch (error) {
-        metrics.isConnected = false;
-        console.warn(`Health check failed for server ${serverId}:`, error);
-      }
-    }
+    return this._execute(
+      { ...this._auditFields(request), actor: request.approvedBy },
+      { bypassCircuitBreaker: false, retry: false }
+    );
   }
 
   /**
@@ -487,11 +639,11 @@ export class MCPClientService {
    */
   private startCleanupTasks(): void {
     // Clean up expired approvals every minute
-    setInterval(() => {
+    setInterval(async () => {
       const now = new Date();
       for (const [id, request] of this.pendingApprovals) {
         if (now > request.expiresAt && request.status === 'pending') {
-          request.status = 'expired';
+          await this._expire(request);
         }
         
         // Remove old requests (older than 1 hour)
@@ -568,9 +720,8 @@ export class MCPClientService {
    * Close all connections and cleanup
    */
   async close(): Promise<void> {
-    if (this.healthCheckInterval) {
-      clearInterval(this.healthCheckInterval);
-      this.healthCheckInterval = null;
+    for (const serverId of [...this.monitoredServers]) {
+      this._unmonitor(serverId);
     }
     
     if (this.clientManager) {
@@ -578,7 +729,6 @@ export class MCPClientService {
       this.clientManager = null;
     }
     
-    this.serverMetrics.clear();
     this.pendingApprovals.clear();
     this.connectionPool.clear();
     
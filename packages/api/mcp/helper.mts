@@ -0,0 +1,244 @@
+import fs from 'node:fs/promises';
+import Path from 'node:path';
+import type { MCPTool } from '../../mcp-client/src/index.mjs';
+import { getSessionToken, SESSION_TOKEN_HEADER } from './session-tokens.mjs';
+
+/**
+ * Module written into each srcbook so that cells can use the tools of the connected MCP servers:
+ *
+ *     import { callTool, readResource } from '../mcp.mjs';
+ *
+ *     const result = await callTool('filesystem', 'read_file', { path: 'README.md' });
+ *
+ * Calls go through the API, which the cell reaches with the port and token in its env.
+ */
+export const MCP_HELPER_FILENAME = 'mcp.mjs';
+export const MCP_HELPER_TYPES_FILENAME = 'mcp.d.mts';
+
+const HELPER_SOURCE = `// Generated by Srcbook, do not edit.
+// Calls the tools of the MCP servers connected to Srcbook. See mcp.d.mts for their types.
+
+async function request(method, path, body) {
+  const port = process.env.SRCBOOK_API_PORT;
+  const token = process.env.SRCBOOK_SESSION_TOKEN;
+
+  if (!port || !token) {
+    throw new Error('MCP tools can only be used in cells run by Srcbook');
+  }
+
+  const response = await fetch(\`http://localhost:\${port}/api/mcp\${path}\`, {
+    method,
+    headers: { 'content-type': 'application/json', '${SESSION_TOKEN_HEADER}': token },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error ?? \`Request failed with status \${response.status}\`);
+  }
+
+  return result;
+}
+
+export async function callTool(serverId, toolName, args = {}) {
+  const path = \`/tools/\${encodeURIComponent(serverId)}/\${encodeURIComponent(toolName)}\`;
+  const { result } = await request('POST', path, { arguments: args });
+  return result;
+}
+
+export async function readResource(serverId, uri) {
+  const path = \`/resources/\${encodeURIComponent(serverId)}?uri=\${encodeURIComponent(uri)}\`;
+  const { resource } = await request('GET', path);
+  return resource;
+}
+`;
+
+const IDENTIFIER_RE = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function propertyName(name: string) {
+  return IDENTIFIER_RE.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(description: unknown, indent: string) {
+  if (typeof description !== 'string' || description.trim() === '') {
+    return '';
+  }
+
+  const lines = description.trim().replaceAll('*/', '*\\/').split('\n');
+
+  return lines.length === 1
+    ? `${indent}/** ${lines[0]} */\n`
+    : `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+function union(types: string[]) {
+  const unique = [...new Set(types)];
+  return unique.length === 0 ? 'never' : unique.join(' | ');
+}
+
+/**
+ * The TypeScript type of the values described by a JSON schema, as found in the `inputSchema`
+ * of MCP tools. What cannot be expressed, like `$ref` or string formats, becomes `unknown`
+ * or is left out, so the type may accept more than the schema does.
+ */
+export function schemaToType(schema: unknown, depth = 0): string {
+  if (schema === true || schema === undefined) {
+    return 'unknown';
+  }
+
+  if (schema === false) {
+    return 'never';
+  }
+
+  if (typeof schema !== 'object' || schema === null) {
+    return 'unknown';
+  }
+
+  const s = schema as Record<string, unknown>;
+
+  if ('const' in s) {
+    return JSON.stringify(s.const);
+  }
+
+  if (Array.isArray(s.enum)) {
+    return union(s.enum.map((value) => JSON.stringify(value)));
+  }
+
+  const alternatives = s.anyOf ?? s.oneOf;
+  if (Array.isArray(alternatives)) {
+    return union(alternatives.map((alternative) => parenthesize(schemaToType(alternative, depth))));
+  }
+
+  if (Array.isArray(s.allOf)) {
+    return s.allOf.map((part) => parenthesize(schemaToType(part, depth))).join(' & ');
+  }
+
+  if (Array.isArray(s.type)) {
+    return union(s.type.map((type) => parenthesize(schemaToType({ ...s, type }, depth))));
+  }
+
+  switch (s.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return `Array<${schemaToType(Array.isArray(s.items) ? true : s.items, depth)}>`;
+    case 'object':
+      return objectType(s, depth);
+    default:
+      return 'properties' in s ? objectType(s, depth) : 'unknown';
+  }
+}
+
+function parenthesize(type: string) {
+  return type.includes(' | ') || type.includes(' & ') ? `(${type})` : type;
+}
+
+function objectType(schema: Record<string, unknown>, depth: number) {
+  const properties = (schema.properties ?? {}) as Record<string, unknown>;
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  const additional = schema.additionalProperties;
+
+  if (Object.keys(properties).length === 0) {
+    return additional === false
+      ? 'Record<string, never>'
+      : `Record<string, ${schemaToType(additional, depth)}>`;
+  }
+
+  const indent = '  '.repeat(depth + 1);
+  const members = Object.entries(properties).map(([name, property]) => {
+    const optional = required.includes(name) ? '' : '?';
+    const type = schemaToType(property, depth + 1);
+    const description = (property as Record<string, unknown> | null)?.description;
+    return `${docComment(description, indent)}${indent}${propertyName(name)}${optional}: ${type};`;
+  });
+
+  // Extra properties are only typed when the schema says what they are.
+  if (typeof additional === 'object' && additional !== null) {
+    members.push(`${indent}[key: string]: unknown;`);
+  }
+
+  return `{\n${members.join('\n')}\n${'  '.repeat(depth)}}`;
+}
+
+/**
+ * Declarations of the helper module, with the arguments of each tool typed from its schema.
+ */
+export function generateMcpTypesFile(tools: MCPTool[]) {
+  const servers = new Map<string, MCPTool[]>();
+
+  for (const tool of tools) {
+    servers.set(tool.serverId, [...(servers.get(tool.serverId) ?? []), tool]);
+  }
+
+  const entries = [...servers].map(([serverId, serverTools]) => {
+    const members = serverTools.map(
+      (tool) =>
+        `${docComment(tool.description, '    ')}    ${propertyName(tool.name)}: ${schemaToType(tool.inputSchema ?? { type: 'object' }, 2)};`,
+    );
+    return `  ${propertyName(serverId)}: {\n${members.join('\n')}\n  };`;
+  });
+
+  const toolsType = entries.length === 0 ? '{}' : `{\n${entries.join('\n')}\n}`;
+
+  return `// Generated by Srcbook, do not edit.
+// The tools of the MCP servers connected when this file was written.
+
+export type MCPTools = ${toolsType};
+
+export type MCPToolResult = {
+  content: Array<{ type: string; [key: string]: unknown }>;
+  isError?: boolean;
+  [key: string]: unknown;
+};
+
+/**
+ * Calls a tool of a connected MCP server.
+ */
+export function callTool<S extends keyof MCPTools, T extends keyof MCPTools[S]>(
+  serverId: S,
+  toolName: T,
+  ...args: {} extends MCPTools[S][T] ? [args?: MCPTools[S][T]] : [args: MCPTools[S][T]]
+): Promise<MCPToolResult>;
+
+/**
+ * Reads a resource of a connected MCP server.
+ */
+export function readResource(serverId: keyof MCPTools, uri: string): Promise<unknown>;
+`;
+}
+
+async function writeIfChanged(path: string, contents: string) {
+  const current = await fs.readFile(path, 'utf8').catch(() => null);
+
+  if (current !== contents) {
+    await fs.writeFile(path, contents, 'utf8');
+  }
+}
+
+/**
+ * Writes the helper module into a srcbook, typed for the given tools.
+ */
+export async function writeMcpHelper(srcbookDir: string, tools: MCPTool[]) {
+  await Promise.all([
+    writeIfChanged(Path.join(srcbookDir, MCP_HELPER_FILENAME), HELPER_SOURCE),
+    writeIfChanged(Path.join(srcbookDir, MCP_HELPER_TYPES_FILENAME), generateMcpTypesFile(tools)),
+  ]);
+}
+
+/**
+ * Env with which the helper module reaches the API from a cell of the session.
+ */
+export function mcpHelperEnv(sessionId: string): Record<string, string> {
+  return {
+    SRCBOOK_API_PORT: String(process.env.PORT || 2150),
+    SRCBOOK_SESSION_TOKEN: getSessionToken(sessionId),
+  };
+}
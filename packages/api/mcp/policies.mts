@@ -0,0 +1,77 @@
+import type { MCPToolPolicySettings } from '../../shared/src/schemas/mcp.mjs';
+
+export type ToolPolicyAction = MCPToolPolicySettings['action'];
+
+export type ToolPolicy = MCPToolPolicySettings & { id: number };
+
+export type ToolCall = {
+  serverId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+};
+
+export type PolicyDecision = {
+  action: ToolPolicyAction;
+  // The policy that decided, or null when none matched and the fallback applies.
+  policyId: number | null;
+};
+
+/**
+ * Whether a value matches a glob, where `*` matches any characters and `?` exactly one.
+ * Everything else, including `/`, matches itself.
+ */
+export function matchesGlob(pattern: string, value: string) {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      switch (char) {
+        case '*':
+          return '.*';
+        case '?':
+          return '.';
+        default:
+          return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`, 's').test(value);
+}
+
+// Arguments that are not strings are matched in their JSON form, e.g. `true` or `[1,2]`.
+function argumentText(value: unknown) {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export function policyMatches(policy: ToolPolicy, call: ToolCall) {
+  if (policy.serverId !== null && policy.serverId !== call.serverId) {
+    return false;
+  }
+
+  if (!matchesGlob(policy.toolPattern, call.toolName)) {
+    return false;
+  }
+
+  return Object.entries(policy.argumentPatterns ?? {}).every(
+    ([name, pattern]) =>
+      call.arguments[name] !== undefined &&
+      matchesGlob(pattern, argumentText(call.arguments[name])),
+  );
+}
+
+/**
+ * Decides what to do with a tool call: the first matching policy, by priority then id,
+ * decides, and `fallback` applies when none matches.
+ */
+export function evaluatePolicies(
+  policies: ToolPolicy[],
+  call: ToolCall,
+  fallback: ToolPolicyAction,
+): PolicyDecision {
+  const ordered = [...policies].sort((a, b) => a.priority - b.priority || a.id - b.id);
+  const policy = ordered.find((candidate) => policyMatches(candidate, call));
+
+  return policy
+    ? { action: policy.action, policyId: policy.id }
+    : { action: fallback, policyId: null };
+}
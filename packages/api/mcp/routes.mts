@@ -1,10 +1,32 @@
 import { Router, type Request, type Response } from 'express';
-import { mcpClientService } from './client-service.mjs';
+import {
+  mcpClientService,
+  ToolApprovalRequiredError,
+  ToolDeniedError
+} from './client-service.mjs';
 import {
   ToolExecutionRequestSchema,
   BatchToolCallSchema,
-  ToolApprovalActionSchema
+  ToolApprovalActionSchema,
+  MCPServerSettingsSchema,
+  MCPToolPolicySettingsSchema,
+  MCPAuditLogQuerySchema
 } from '../../shared/src/schemas/mcp.mjs';
+import {
+  getMCPServers,
+  findMCPServer,
+  addMCPServer,
+  updateMCPServer,
+  removeMCPServer,
+  toMCPServerConfig,
+  type StoredMCPServer,
+  getToolPolicies,
+  findToolPolicy,
+  addToolPolicy,
+  updateToolPolicy,
+  removeToolPolicy,
+  getAuditLog
+} from '../config.mjs';
 
 const router: Router = Router();
 
@@ -140,11 +162,10 @@ router.post('/tools/:serverId/:toolName', async (req: Request, res: Response) =>
       });
     }
     
-    const { arguments: args, requireApproval, approvedBy, bypassCircuitBreaker } = validationResult.data;
+    const { arguments: args, requireApproval, bypassCircuitBreaker } = validationResult.data;
 
     const result = await mcpClientService.callTool(serverId, toolName, args, {
       requireApproval,
-      approvedBy,
       bypassCircuitBreaker
     });
     
@@ -163,11 +184,20 @@ router.post('/tools/:serverId/:toolName', async (req: Request, res: Response) =>
     console.error('Failed to call MCP tool:', error);
     
     // Handle approval required error
-    if (error instanceof Error && error.message.includes('requires approval')) {
+    if (error instanceof ToolApprovalRequiredError) {
       return res.status(202).json({
         success: false,
         error: error.message,
-        requiresApproval: true
+        requiresApproval: true,
+        approvalId: error.approvalId
+      });
+    }
+
+    if (error instanceof ToolDeniedError) {
+      return res.status(403).json({
+        success: false,
+        error: error.message,
+        policyId: error.policyId
       });
     }
     
@@ -363,7 +393,7 @@ router.post('/approvals/:approvalId/action', async (req: Request, res: Response)
       }
       success = await mcpClientService.approveToolExecution(approvalId, approvedBy);
     } else if (action === 'reject') {
-      success = await mcpClientService.rejectToolExecution(approvalId);
+      success = await mcpClientService.rejectToolExecution(approvalId, approvedBy);
     }
     
     if (success) {
@@ -423,6 +453,359 @@ router.post('/approvals/:approvalId/execute', async (req: Request, res: Response
   }
 });
 
+/**
+ * List the servers added in the app, with their connection status and tool count
+ * GET /api/mcp/servers
+ */
+router.get('/servers', async (_req: Request, res: Response) => {
+  try {
+    const servers = await getMCPServers();
+    const connections = mcpClientService.getConnectionStatus();
+    const tools = mcpClientService.isReady() ? await mcpClientService.listTools() : [];
+
+    res.json({
+      success: true,
+      servers: servers.map((server) => ({
+        ...server,
+        connected: connections[server.name]?.connected ?? false,
+        toolCount: tools.filter((tool) => tool.serverId === server.name).length
+      }))
+    });
+  } catch (error) {
+    console.error('Failed to list MCP servers:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Add a server and connect to it
+ * POST /api/mcp/servers
+ */
+router.post('/servers', async (req: Request, res: Response) => {
+  try {
+    const validationResult = MCPServerSettingsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request format',
+        details: validationResult.error.errors
+      });
+    }
+
+    const settings = validationResult.data;
+
+    if (mcpClientService.hasServer(settings.name)) {
+      return res.status(409).json({
+        success: false,
+        error: `An MCP server named '${settings.name}' already exists`
+      });
+    }
+
+    const server = await addMCPServer(settings);
+    const connectionError = server.enabled ? await connectServer(server) : null;
+
+    res.status(201).json({
+      success: true,
+      server,
+      connectionError
+    });
+  } catch (error) {
+    console.error('Failed to add MCP server:', error);
+    res.status(isUniqueConstraintError(error) ? 409 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Update a server and reconnect to it
+ * PUT /api/mcp/servers/:id
+ */
+router.put('/servers/:id', async (req: Request, res: Response) => {
+  try {
+    const existing = await findMCPServer(Number(req.params.id));
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'MCP server not found'
+      });
+    }
+
+    const validationResult = MCPServerSettingsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request format',
+        details: validationResult.error.errors
+      });
+    }
+
+    const settings = validationResult.data;
+
+    if (settings.name !== existing.name && mcpClientService.hasServer(settings.name)) {
+      return res.status(409).json({
+        success: false,
+        error: `An MCP server named '${settings.name}' already exists`
+      });
+    }
+
+    const server = (await updateMCPServer(existing.id, settings))!;
+
+    if (mcpClientService.isReady()) {
+      await mcpClientService.removeServer(existing.name);
+    }
+    const connectionError = server.enabled ? await connectServer(server) : null;
+
+    res.json({
+      success: true,
+      server,
+      connectionError
+    });
+  } catch (error) {
+    console.error('Failed to update MCP server:', error);
+    res.status(isUniqueConstraintError(error) ? 409 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Disconnect from a server and remove it
+ * DELETE /api/mcp/servers/:id
+ */
+router.delete('/servers/:id', async (req: Request, res: Response) => {
+  try {
+    const server = await findMCPServer(Number(req.params.id));
+
+    if (!server) {
+      return res.status(404).json({
+        success: false,
+        error: 'MCP server not found'
+      });
+    }
+
+    await removeMCPServer(server.id);
+
+    if (mcpClientService.isReady()) {
+      await mcpClientService.removeServer(server.name);
+    }
+
+    res.json({
+      success: true,
+      message: `Removed MCP server: ${server.name}`
+    });
+  } catch (error) {
+    console.error('Failed to remove MCP server:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Check that a server can be reached, by listing its tools over a new connection
+ * POST /api/mcp/servers/:id/test
+ */
+router.post('/servers/:id/test', async (req: Request, res: Response) => {
+  try {
+    const server = await findMCPServer(Number(req.params.id));
+
+    if (!server) {
+      return res.status(404).json({
+        success: false,
+        error: 'MCP server not found'
+      });
+    }
+
+    const tools = await mcpClientService.testConnection(toMCPServerConfig(server));
+
+    res.json({
+      success: true,
+      toolCount: tools.length
+    });
+  } catch (error) {
+    // The server could not be reached, which is what the caller wants to know.
+    res.status(502).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * List the tool policies in the order they are evaluated
+ * GET /api/mcp/policies
+ */
+router.get('/policies', async (_req: Request, res: Response) => {
+  try {
+    const policies = await getToolPolicies();
+    res.json({
+      success: true,
+      policies
+    });
+  } catch (error) {
+    console.error('Failed to list MCP tool policies:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Add a tool policy
+ * POST /api/mcp/policies
+ */
+router.post('/policies', async (req: Request, res: Response) => {
+  try {
+    const validationResult = MCPToolPolicySettingsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request format',
+        details: validationResult.error.errors
+      });
+    }
+
+    const policy = await addToolPolicy(validationResult.data);
+    res.status(201).json({
+      success: true,
+      policy
+    });
+  } catch (error) {
+    console.error('Failed to add MCP tool policy:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Update a tool policy
+ * PUT /api/mcp/policies/:id
+ */
+router.put('/policies/:id', async (req: Request, res: Response) => {
+  try {
+    const validationResult = MCPToolPolicySettingsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request format',
+        details: validationResult.error.errors
+      });
+    }
+
+    const policy = await updateToolPolicy(Number(req.params.id), validationResult.data);
+
+    if (!policy) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tool policy not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      policy
+    });
+  } catch (error) {
+    console.error('Failed to update MCP tool policy:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Remove a tool policy
+ * DELETE /api/mcp/policies/:id
+ */
+router.delete('/policies/:id', async (req: Request, res: Response) => {
+  try {
+    const policy = await findToolPolicy(Number(req.params.id));
+
+    if (!policy) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tool policy not found'
+      });
+    }
+
+    await removeToolPolicy(policy.id);
+    res.json({
+      success: true,
+      message: `Removed tool policy: ${policy.id}`
+    });
+  } catch (error) {
+    console.error('Failed to remove MCP tool policy:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Query the audit log of approval decisions and tool calls, newest first
+ * GET /api/mcp/audit?from=<ms>&to=<ms>&limit=<n>
+ */
+router.get('/audit', async (req: Request, res: Response) => {
+  try {
+    const validationResult = MCPAuditLogQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request format',
+        details: validationResult.error.errors
+      });
+    }
+
+    const entries = await getAuditLog(validationResult.data);
+    res.json({
+      success: true,
+      entries
+    });
+  } catch (error) {
+    console.error('Failed to query MCP audit log:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Connect to a server added or updated in the app. Saving its settings succeeds even
+ * when it cannot be reached, so the error is returned rather than thrown.
+ */
+async function connectServer(server: StoredMCPServer): Promise<string | null> {
+  try {
+    await mcpClientService.addServer(toMCPServerConfig(server));
+    return null;
+  } catch (error) {
+    console.error(`Failed to connect to MCP server ${server.name}:`, error);
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+function isUniqueConstraintError(error: unknown) {
+  return error instanceof Error && error.message.includes('UNIQUE constraint failed');
+}
+
 /**
  * Get server health metrics
  * GET /api/mcp/servers/health
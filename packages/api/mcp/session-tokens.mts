@@ -0,0 +1,44 @@
+import crypto from 'node:crypto';
+
+/**
+ * Header with which code running in a cell authenticates to the API.
+ */
+export const SESSION_TOKEN_HEADER = 'x-srcbook-session-token';
+
+// Tokens only live as long as the server: cells get theirs every time they run.
+const tokens = new Map<string, string>();
+
+/**
+ * The token given to the cells of a session, created on first use.
+ */
+export function getSessionToken(sessionId: string) {
+  let token = tokens.get(sessionId);
+
+  if (token === undefined) {
+    token = crypto.randomBytes(32).toString('hex');
+    tokens.set(sessionId, token);
+  }
+
+  return token;
+}
+
+/**
+ * The session whose cells were given this token, if any.
+ */
+export function findSessionIdByToken(token: string) {
+  const candidate = Buffer.from(token);
+
+  for (const [sessionId, sessionToken] of tokens) {
+    const expected = Buffer.from(sessionToken);
+
+    if (candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected)) {
+      return sessionId;
+    }
+  }
+
+  return null;
+}
+
+export function revokeSessionToken(sessionId: string) {
+  tokens.delete(sessionId);
+}
@@ -0,0 +1,149 @@
+import { APICallError } from 'ai';
+import {
+  ErrorRecoveryOrchestrator,
+  RetryStrategy,
+  type ErrorRecoveryEvent,
+} from '../../error-recovery/src/index.mjs';
+import { recoverySettingsFromEnv, type RecoveryDefaults } from './settings.mjs';
+
+/**
+ * One resilience layer for the calls the API makes to services it does not control: MCP
+ * servers, AI providers and the npm registry. Each service gets a circuit breaker, retries
+ * and a health check, configured from env variables (see `recoverySettingsFromEnv`).
+ */
+export const recoveryOrchestrator = new ErrorRecoveryOrchestrator();
+
+export const AI_SERVICE_ID = 'ai';
+export const NPM_REGISTRY_SERVICE_ID = 'npm_registry';
+
+const DEFAULTS: RecoveryDefaults = {
+  strategy: RetryStrategy.EXPONENTIAL_JITTER,
+  maxRetries: 2,
+  retryDelay: 1000,
+  timeout: 10000,
+  circuitBreakerThreshold: 5,
+  circuitBreakerResetTimeout: 60000,
+  healthCheckInterval: 30000,
+};
+
+/**
+ * Thrown for responses with an error status, of which only server errors are worth retrying
+ */
+export class ResponseStatusError extends Error {
+  constructor(readonly status: number) {
+    super(`Request failed with status ${status}`);
+    this.name = 'ResponseStatusError';
+  }
+}
+
+// Whether the last call to each service succeeded, for services only known by their calls.
+const lastOutcomes = new Map<string, boolean>();
+
+// How to reconnect to services that hold a connection, like MCP servers.
+const reconnectors = new Map<string, () => Promise<void>>();
+
+type RecoveryServiceOptions = {
+  // Env variable prefix of the service's settings, e.g. `MCP`.
+  envPrefix: string;
+  defaults?: Partial<RecoveryDefaults>;
+  // Which errors are worth retrying. Defaults to network errors and timeouts.
+  isRetryable?: (error: Error) => boolean;
+  // Defaults to whether the last call succeeded.
+  healthCheck?: () => Promise<boolean>;
+  // Called when the circuit breaker opens.
+  reconnect?: () => Promise<void>;
+};
+
+export function registerRecoveryService(serviceId: string, options: RecoveryServiceOptions) {
+  const settings = recoverySettingsFromEnv(options.envPrefix, {
+    ...DEFAULTS,
+    ...options.defaults,
+  });
+
+  if (options.reconnect) {
+    reconnectors.set(serviceId, options.reconnect);
+  }
+
+  recoveryOrchestrator.registerService(
+    serviceId,
+    options.healthCheck ?? (async () => lastOutcomes.get(serviceId) ?? true),
+    {
+      ...settings,
+      retryConfig: { ...settings.retryConfig, isRetryable: options.isRetryable },
+    },
+  );
+}
+
+export function unregisterRecoveryService(serviceId: string) {
+  reconnectors.delete(serviceId);
+  lastOutcomes.delete(serviceId);
+  recoveryOrchestrator.unregisterService(serviceId);
+}
+
+/**
+ * Run a call to a service through its circuit breaker, retrying it on failures worth
+ * retrying unless `retry` is false, e.g. for calls that are not safe to repeat.
+ */
+export async function withRecovery<T>(
+  serviceId: string,
+  operationName: string,
+  operation: () => Promise<T>,
+  options: { retry?: boolean } = {},
+): Promise<T> {
+  try {
+    const result = await recoveryOrchestrator.executeWithRecovery(
+      serviceId,
+      operationName,
+      operation,
+      { skipRetry: options.retry === false },
+    );
+    lastOutcomes.set(serviceId, true);
+    return result;
+  } catch (error) {
+    lastOutcomes.set(serviceId, false);
+    throw error;
+  }
+}
+
+// By default, opening a circuit breaker resets it right away. Reconnect instead, for the
+// services that can, and let the breaker close on its own once calls succeed again.
+recoveryOrchestrator.registerRecoveryAction({
+  id: 'restart_service',
+  type: 'restart',
+  priority: 8,
+  condition: (context) =>
+    context.errorType === 'circuit_breaker_opened' && reconnectors.has(context.serviceId),
+  execute: async (context) => {
+    await reconnectors.get(context.serviceId)?.();
+  },
+  timeout: 30000,
+  retryable: false,
+});
+
+recoveryOrchestrator.on('event', (event: ErrorRecoveryEvent) => {
+  switch (event.type) {
+    case 'circuit_breaker_opened':
+      console.warn(`Circuit breaker opened for ${event.serviceId}, calls to it will fail for now`);
+      break;
+    case 'circuit_breaker_closed':
+      console.log(`Circuit breaker closed for ${event.serviceId}`);
+      break;
+  }
+});
+
+registerRecoveryService(AI_SERVICE_ID, {
+  envPrefix: 'AI',
+  // Generating with tools takes several model calls.
+  defaults: { timeout: 300000 },
+  isRetryable: (error) => APICallError.isInstance(error) && error.isRetryable,
+});
+
+registerRecoveryService(NPM_REGISTRY_SERVICE_ID, {
+  envPrefix: 'NPM_REGISTRY',
+  // Searches are made as the user types, so give up quickly.
+  defaults: { maxRetries: 1, retryDelay: 500, timeout: 5000 },
+  // fetch fails with a TypeError when the registry cannot be reached.
+  isRetryable: (error) =>
+    error instanceof TypeError ||
+    (error instanceof ResponseStatusError && (error.status >= 500 || error.status === 429)),
+});
@@ -0,0 +1,117 @@
+import type { ZodTypeAny } from 'zod';
+import {
+  CircuitBreakerConfigSchema,
+  HealthCheckConfigSchema,
+  RetryConfigSchema,
+  type CircuitBreakerConfig,
+  type HealthCheckConfig,
+  type RetryConfig,
+  type RetryStrategy,
+} from '../../error-recovery/src/index.mjs';
+
+export type RecoveryDefaults = {
+  strategy: RetryStrategy;
+  // Retries after the first attempt, so 0 disables retrying.
+  maxRetries: number;
+  retryDelay: number;
+  // How long a single attempt may take.
+  timeout: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerResetTimeout: number;
+  healthCheckInterval: number;
+};
+
+export type RecoverySettings = {
+  retryConfig: Partial<RetryConfig>;
+  circuitBreakerConfig: Partial<CircuitBreakerConfig>;
+  healthCheckConfig: Partial<HealthCheckConfig>;
+};
+
+type Env = Record<string, string | undefined>;
+
+function fromEnv<T>(
+  env: Env,
+  name: string,
+  schema: ZodTypeAny,
+  fallback: T,
+  parse: (value: string) => unknown = Number,
+): T {
+  const value = env[name];
+
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const result = schema.safeParse(parse(value));
+
+  if (!result.success) {
+    console.warn(`Ignoring invalid value of ${name}: ${value}`);
+    return fallback;
+  }
+
+  return result.data;
+}
+
+/**
+ * Recovery settings of a service from the env variables named after its prefix, e.g. for `AI`:
+ *
+ *     AI_RETRY_STRATEGY                  fixed, linear, exponential or exponential_jitter
+ *     AI_MAX_RETRIES                     retries after the first attempt
+ *     AI_RETRY_DELAY                     base delay between attempts, in milliseconds
+ *     AI_TIMEOUT                         time an attempt may take, in milliseconds
+ *     AI_CIRCUIT_BREAKER_THRESHOLD       consecutive failures that open the circuit breaker
+ *     AI_CIRCUIT_BREAKER_RESET_TIMEOUT   time before an open circuit breaker lets a call through
+ *     AI_HEALTH_CHECK_INTERVAL           time between health checks
+ *
+ * Missing or invalid values fall back to the defaults.
+ */
+export function recoverySettingsFromEnv(
+  prefix: string,
+  defaults: RecoveryDefaults,
+  env: Env = process.env,
+): RecoverySettings {
+  const retry = RetryConfigSchema.shape;
+  const circuitBreaker = CircuitBreakerConfigSchema.shape;
+
+  const maxAttempts = fromEnv(
+    env,
+    `${prefix}_MAX_RETRIES`,
+    retry.maxAttempts,
+    defaults.maxRetries + 1,
+    (value) => Number(value) + 1,
+  );
+  const failureThreshold = fromEnv(
+    env,
+    `${prefix}_CIRCUIT_BREAKER_THRESHOLD`,
+    circuitBreaker.failureThreshold,
+    defaults.circuitBreakerThreshold,
+  );
+
+  return {
+    retryConfig: {
+      strategy: fromEnv(env, `${prefix}_RETRY_STRATEGY`, retry.strategy, defaults.strategy, String),
+      maxAttempts,
+      baseDelay: fromEnv(env, `${prefix}_RETRY_DELAY`, retry.baseDelay, defaults.retryDelay),
+      attemptTimeout: fromEnv(env, `${prefix}_TIMEOUT`, retry.attemptTimeout, defaults.timeout),
+    },
+    circuitBreakerConfig: {
+      failureThreshold,
+      // Let the threshold open the circuit breaker however few calls were made before.
+      minimumThroughput: failureThreshold,
+      resetTimeout: fromEnv(
+        env,
+        `${prefix}_CIRCUIT_BREAKER_RESET_TIMEOUT`,
+        circuitBreaker.resetTimeout,
+        defaults.circuitBreakerResetTimeout,
+      ),
+    },
+    healthCheckConfig: {
+      interval: fromEnv(
+        env,
+        `${prefix}_HEALTH_CHECK_INTERVAL`,
+        HealthCheckConfigSchema.shape.interval,
+        defaults.healthCheckInterval,
+      ),
+    },
+  };
+}
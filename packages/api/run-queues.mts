@@ -0,0 +1,122 @@
+import type { SessionRunAllProgressPayloadType } from '@peragus/shared';
+
+type RunQueueType = {
+  cellIds: string[];
+  currentCellId: string | null;
+  completedCellIds: string[];
+  failedCellIds: string[];
+  stopped: boolean;
+};
+
+export type RunAllRequestType = {
+  cellIds: string[];
+  continueOnError: boolean;
+  /**
+   * Execute a single cell, resolving with the exit code of its process.
+   */
+  exec: (cellId: string) => Promise<number | null>;
+  onProgress: (progress: SessionRunAllProgressPayloadType) => void;
+};
+
+/**
+ * Keeps track of the "run all" queue of each session.
+ *
+ * Cells are executed one at a time, in order. By default, the queue halts on the
+ * first cell that does not exit cleanly unless `continueOnError` is set.
+ */
+export class RunQueues {
+  private queues: Record<string, RunQueueType> = {};
+
+  isRunning(sessionId: string) {
+    return sessionId in this.queues;
+  }
+
+  async run(sessionId: string, request: RunAllRequestType) {
+    if (this.isRunning(sessionId)) {
+      throw new Error(`Cannot run all cells: session ${sessionId} already has a run in progress`);
+    }
+
+    const queue: RunQueueType = {
+      cellIds: request.cellIds,
+      currentCellId: null,
+      completedCellIds: [],
+      failedCellIds: [],
+      stopped: false,
+    };
+
+    this.queues[sessionId] = queue;
+
+    try {
+      for (const cellId of queue.cellIds) {
+        if (queue.stopped) {
+          break;
+        }
+
+        queue.currentCellId = cellId;
+        request.onProgress(this.toProgress(queue, 'running'));
+
+        let exitCode: number | null;
+
+        try {
+          exitCode = await request.exec(cellId);
+        } catch (e) {
+          console.error(`Error executing cell ${cellId} in session ${sessionId}:`, e);
+          exitCode = null;
+        }
+
+        queue.currentCellId = null;
+
+        if (exitCode === 0) {
+          queue.completedCellIds.push(cellId);
+        } else {
+          queue.failedCellIds.push(cellId);
+
+          if (!request.continueOnError) {
+            break;
+          }
+        }
+      }
+
+      const status = queue.stopped
+        ? 'stopped'
+        : queue.failedCellIds.length > 0
+          ? 'failed'
+          : 'completed';
+
+      request.onProgress(this.toProgress(queue, status));
+    } finally {
+      delete this.queues[sessionId];
+    }
+  }
+
+  /**
+   * Stop the queue after the current cell. Returns the id of the cell that
+   * is currently executing, if any, so that the caller can kill its process.
+   */
+  stop(sessionId: string) {
+    const queue = this.queues[sessionId];
+
+    if (!queue) {
+      return null;
+    }
+
+    queue.stopped = true;
+
+    return queue.currentCellId;
+  }
+
+  private toProgress(
+    queue: RunQueueType,
+    status: SessionRunAllProgressPayloadType['status'],
+  ): SessionRunAllProgressPayloadType {
+    return {
+      status,
+      cellIds: queue.cellIds,
+      currentCellId: queue.currentCellId,
+      completedCellIds: [...queue.completedCellIds],
+      failedCellIds: [...queue.failedCellIds],
+    };
+  }
+}
+
+export default new RunQueues();
@@ -0,0 +1,249 @@
+import crypto from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Request, Response, NextFunction } from 'express';
+import cors from 'cors';
+import {
+  SecurityFramework,
+  type AuthenticatedRequest,
+  createLoginHandler,
+  createLogoutHandler,
+  createRateLimitMiddleware,
+  createSecurityHeadersMiddleware,
+  hashPassword,
+  RateLimitPresets,
+} from '../../security/src/index.mjs';
+import { getConfig, updateConfig } from '../config.mjs';
+import { findSessionIdByToken, SESSION_TOKEN_HEADER } from '../mcp/session-tokens.mjs';
+
+// Auth is single user: whoever knows the configured email and password.
+const AUTH_USER_ID = 'owner';
+
+export type AuthSourceType = 'env' | 'config';
+
+type AuthType = {
+  framework: SecurityFramework;
+  source: AuthSourceType;
+  email: string;
+};
+
+let auth: Promise<AuthType | null> | null = null;
+
+async function loadAuth(): Promise<AuthType | null> {
+  const config = await getConfig();
+
+  let source: AuthSourceType;
+  let email: string;
+  let passwordHash: string;
+
+  if (process.env.SRCBOOK_AUTH_EMAIL && process.env.SRCBOOK_AUTH_PASSWORD) {
+    source = 'env';
+    email = process.env.SRCBOOK_AUTH_EMAIL;
+    passwordHash = await hashPassword(process.env.SRCBOOK_AUTH_PASSWORD);
+  } else if (config.authEmail && config.authPasswordHash) {
+    source = 'config';
+    email = config.authEmail;
+    passwordHash = config.authPasswordHash;
+  } else {
+    return null;
+  }
+
+  // Persist the secret so that logins survive server restarts.
+  let secret = process.env.SRCBOOK_AUTH_SECRET || config.authSecret;
+  if (!secret) {
+    secret = crypto.randomBytes(32).toString('hex');
+    await updateConfig({ authSecret: secret });
+  }
+
+  const framework = new SecurityFramework({
+    authentication: {
+      jwtSecret: secret,
+      jwtExpiresIn: '12h',
+      refreshExpiresIn: '7d',
+      issuer: 'peragus',
+      audience: 'peragus-api',
+    },
+    // Successful requests are not worth logging, failed logins and rejected requests are.
+    audit: { enabled: true, level: 'warn', retention: 30 },
+  });
+
+  await framework.initialize();
+
+  const now = new Date();
+  framework.getAuthService().addUser({
+    id: AUTH_USER_ID,
+    email,
+    password: passwordHash,
+    roles: [],
+    permissions: [],
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return { framework, source, email };
+}
+
+function getAuth() {
+  if (auth === null) {
+    auth = loadAuth();
+    // Retry on the next request rather than caching the failure.
+    auth.catch(() => {
+      auth = null;
+    });
+  }
+  return auth;
+}
+
+/**
+ * Status of authentication, without anything secret.
+ */
+export async function getAuthStatus() {
+  const result = await getAuth();
+
+  return result === null
+    ? { enabled: false, source: null, email: null }
+    : { enabled: true, source: result.source, email: result.email };
+}
+
+/**
+ * Require a login with the given email and password, or turn auth off if null.
+ *
+ * The signing secret is rotated, which logs out everyone, including the caller.
+ */
+export async function updateAuthCredentials(
+  credentials: { email: string; password: string } | null,
+) {
+  await updateConfig({
+    authEmail: credentials ? credentials.email : null,
+    authPasswordHash: credentials ? await hashPassword(credentials.password) : null,
+    authSecret: null,
+  });
+
+  auth = null;
+}
+
+const headers = createSecurityHeadersMiddleware({
+  frameOptions: 'DENY',
+  referrerPolicy: 'no-referrer',
+});
+
+const loginLimit = createRateLimitMiddleware(RateLimitPresets.auth);
+
+export function securityHeaders(req: Request, res: Response, next: NextFunction) {
+  return headers(req as AuthenticatedRequest, res, next);
+}
+
+export function loginRateLimit(req: Request, res: Response, next: NextFunction) {
+  return loginLimit(req as AuthenticatedRequest, res, next);
+}
+
+/**
+ * Rejects unauthenticated requests when auth is enabled, and lets every request through otherwise.
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  // CORS preflight requests never carry credentials.
+  if (req.method === 'OPTIONS') {
+    return next();
+  }
+
+  if (isCellRequest(req)) {
+    return next();
+  }
+
+  try {
+    const result = await getAuth();
+
+    if (result === null) {
+      return next();
+    }
+
+    // Without CORS headers, browsers hide the 401 responses from the web app.
+    return cors()(req, res, () =>
+      result.framework.getAuthMiddleware()(req as AuthenticatedRequest, res, next),
+    );
+  } catch (e) {
+    return next(e);
+  }
+}
+
+/**
+ * Whether the request comes from a cell using the MCP helper, which authenticates with the
+ * token of its session and may only call tools and read resources.
+ */
+function isCellRequest(req: Request) {
+  const token = req.header(SESSION_TOKEN_HEADER);
+
+  return (
+    token !== undefined &&
+    (req.path.startsWith('/mcp/tools/') || req.path.startsWith('/mcp/resources/')) &&
+    findSessionIdByToken(token) !== null
+  );
+}
+
+export async function login(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await getAuth();
+
+    if (result === null) {
+      return res.status(404).json({ success: false, error: 'Authentication is not enabled' });
+    }
+
+    return createLoginHandler(result.framework.getAuthService())(req as AuthenticatedRequest, res);
+  } catch (e) {
+    return next(e);
+  }
+}
+
+export async function logout(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await getAuth();
+
+    if (result === null) {
+      return res.json({ success: true });
+    }
+
+    return createLogoutHandler(result.framework.getAuthService())(req as AuthenticatedRequest, res);
+  } catch (e) {
+    return next(e);
+  }
+}
+
+/**
+ * `verifyClient` option of the websocket server, which authenticates upgrade requests.
+ *
+ * Browsers cannot set headers on websockets, so the token is passed as the `token` query param.
+ */
+export function verifyWebSocketClient(
+  info: { req: IncomingMessage },
+  callback: (verified: boolean, code?: number, message?: string) => void,
+) {
+  authenticateUpgrade(info.req).then(
+    (verified) => (verified ? callback(true) : callback(false, 401, 'Unauthorized')),
+    (error) => {
+      console.error(error);
+      callback(false, 500, 'Internal Server Error');
+    },
+  );
+}
+
+async function authenticateUpgrade(req: IncomingMessage) {
+  const result = await getAuth();
+
+  if (result === null) {
+    return true;
+  }
+
+  const url = new URL(req.url!, `ws://${req.headers.host}`);
+  const token = url.searchParams.get('token');
+
+  if (!token) {
+    return false;
+  }
+
+  try {
+    const payload = await result.framework.getAuthService().verifyToken(token);
+    return (await result.framework.getAuthService().getUserById(payload.sub)) !== undefined;
+  } catch {
+    return false;
+  }
+}
@@ -12,6 +12,9 @@ import {
   sessionToResponse,
   listSessions,
   exportSrcmdText,
+  restoreSnapshot,
+  applyChatEdits,
+  updateParameterValues,
 } from '../session.mjs';
 import { generateCells, generateSrcbook, healthcheck } from '../ai/generate.mjs';
 import {
@@ -23,6 +26,8 @@ import {
   associateSecretWithSession,
   disassociateSecretWithSession,
 } from '../config.mjs';
+import type { Config } from '../db/schema.mjs';
+import { ParameterValuesSchema } from '@peragus/shared';
 import {
   createSrcbook,
   removeSrcbook,
@@ -35,11 +40,40 @@ import { readdir } from '../fs-utils.mjs';
 import { EXAMPLE_SRCBOOKS } from '../srcbook/examples.mjs';
 import { pathToSrcbook } from '../srcbook/path.mjs';
 import { isSrcmdPath } from '../srcmd/paths.mjs';
+import kernels from '../kernels.mjs';
+import tsservers from '../tsservers.mjs';
+import { decode } from '../srcmd.mjs';
+import { listSnapshots, readSnapshot, takeSnapshot } from '../history/snapshots.mjs';
+import { diffCells } from '../history/diff.mjs';
+import {
+  clearChatHistory,
+  findChatEdits,
+  readChatHistory,
+  updateChatEditsStatus,
+} from '../history/chat.mjs';
 import mcpRoutes from '../mcp/routes.mjs';
 import { mcpClientService } from '../mcp/client-service.mjs';
+import {
+  NPM_REGISTRY_SERVICE_ID,
+  ResponseStatusError,
+  recoveryOrchestrator,
+  withRecovery,
+} from '../recovery/orchestrator.mjs';
+import {
+  getAuthStatus,
+  login,
+  loginRateLimit,
+  logout,
+  requireAuth,
+  securityHeaders,
+  updateAuthCredentials,
+} from './auth.mjs';
 
 const app: Application = express();
 
+// Start monitoring the services the API calls
+recoveryOrchestrator.start();
+
 // Initialize MCP client service on startup
 mcpClientService.initialize().catch((error: Error) => {
   console.warn('Failed to initialize MCP client service:', error);
@@ -49,6 +83,16 @@ mcpClientService.initialize().catch((error: Error) => {
 const router = express.Router();
 
 router.use(express.json());
+router.use(securityHeaders);
+
+router.options('/auth/login', cors());
+router.post('/auth/login', cors(), loginRateLimit, login);
+
+// Every route below requires a login when authentication is enabled.
+router.use(requireAuth);
+
+router.options('/auth/logout', cors());
+router.post('/auth/logout', cors(), logout);
 
 router.options('/file', cors());
 
@@ -116,6 +160,7 @@ router.delete('/srcbooks/:id', cors(), async (req, res) => {
   const srcbookDir = pathToSrcbook(id);
   removeSrcbook(srcbookDir);
   posthog.capture({ event: 'user deleted srcbook' });
+  kernels.shutdown(id);
   await deleteSessionByDirname(srcbookDir);
   return res.json({ error: false, deleted: true });
 });
@@ -176,9 +221,10 @@ router.post('/sessions/:id/generate_cells', cors(), async (req, res) => {
   try {
     posthog.capture({ event: 'user generated cell with AI', properties: { query } });
     const session = await findSession(req.params.id);
-    const { error, errors, cells } = await generateCells(query, session, insertIdx);
+    await takeSnapshot(session.dir, 'ai');
+    const { error, errors, cells, toolCalls } = await generateCells(query, session, insertIdx);
     const result = error ? errors : cells;
-    return res.json({ error, result });
+    return res.json({ error, result, toolCalls });
   } catch (e) {
     const error = e as unknown as Error;
     console.error(error);
@@ -258,7 +304,7 @@ router.get('/sessions/:id/export-text', cors(), async (req, res) => {
   posthog.capture({ event: 'user exported srcbook' });
 
   try {
-    const text = exportSrcmdText(session);
+    const text = exportSrcmdText(session, { outputs: req.query.outputs === 'true' });
     res.setHeader('Content-Type', 'text/markdown');
     res.send(text).end();
     return;
@@ -269,6 +315,159 @@ router.get('/sessions/:id/export-text', cors(), async (req, res) => {
   }
 });
 
+router.options('/sessions/:id/history', cors());
+router.get('/sessions/:id/history', cors(), async (req, res) => {
+  try {
+    const session = await findSession(req.params.id);
+    const snapshots = await listSnapshots(session.dir);
+    return res.json({ error: false, result: snapshots });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
+// Diff of the changes that restoring a snapshot would make to the current cells
+router.options('/sessions/:id/history/:snapshotId/diff', cors());
+router.get('/sessions/:id/history/:snapshotId/diff', cors(), async (req, res) => {
+  const { id, snapshotId } = req.params;
+
+  try {
+    const session = await findSession(id);
+    const result = decode(await readSnapshot(session.dir, snapshotId));
+
+    if (result.error) {
+      return res.json({ error: true, result: result.errors });
+    }
+
+    return res.json({ error: false, result: diffCells(session.cells, result.srcbook.cells) });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
+router.options('/sessions/:id/history/:snapshotId/restore', cors());
+router.post('/sessions/:id/history/:snapshotId/restore', cors(), async (req, res) => {
+  const { id, snapshotId } = req.params;
+
+  posthog.capture({ event: 'user restored srcbook snapshot' });
+
+  try {
+    const session = await restoreSnapshot(await findSession(id), snapshotId);
+
+    // The client starts a new tsserver with the restored files.
+    if (tsservers.has(session.id)) {
+      tsservers.shutdown(session.id);
+    }
+
+    return res.json({ error: false, result: sessionToResponse(session) });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
+router.options('/sessions/:id/chat', cors());
+router.get('/sessions/:id/chat', cors(), async (req, res) => {
+  try {
+    const session = await findSession(req.params.id);
+    const history = await readChatHistory(session.dir);
+    return res.json({ error: false, result: history });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
+router.delete('/sessions/:id/chat', cors(), async (req, res) => {
+  try {
+    const session = await findSession(req.params.id);
+    await clearChatHistory(session.dir);
+    return res.json({ error: false, result: [] });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
+// Apply the edits the AI proposed in reply to a message of the chat
+router.options('/sessions/:id/chat/:planId/apply', cors());
+router.post('/sessions/:id/chat/:planId/apply', cors(), async (req, res) => {
+  const { id, planId } = req.params;
+
+  posthog.capture({ event: 'user applied AI chat edits' });
+
+  try {
+    let session = await findSession(id);
+    const edits = await findChatEdits(session.dir, planId);
+
+    if (edits === null || edits.status !== 'proposed') {
+      return res.json({ error: true, result: 'These edits were already reviewed' });
+    }
+
+    session = await applyChatEdits(session, edits);
+    const history = await updateChatEditsStatus(session.dir, planId, 'applied');
+
+    // The client starts a new tsserver with the edited files.
+    if (tsservers.has(session.id)) {
+      tsservers.shutdown(session.id);
+    }
+
+    return res.json({ error: false, result: history });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.message });
+  }
+});
+
+router.options('/sessions/:id/chat/:planId/reject', cors());
+router.post('/sessions/:id/chat/:planId/reject', cors(), async (req, res) => {
+  const { id, planId } = req.params;
+
+  try {
+    const session = await findSession(id);
+    const history = await updateChatEditsStatus(session.dir, planId, 'rejected');
+    return res.json({ error: false, result: history });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
+// Sets the values overriding the defaults of the parameters of a srcbook, for its next runs
+router.options('/sessions/:id/parameters', cors());
+router.put('/sessions/:id/parameters', cors(), async (req, res) => {
+  const { values } = req.body as { values?: unknown };
+  const result = ParameterValuesSchema.safeParse(values);
+
+  if (!result.success) {
+    return res.status(400).json({
+      error: true,
+      result: 'Values must be an object of strings, numbers or booleans',
+    });
+  }
+
+  try {
+    const session = await updateParameterValues(await findSession(req.params.id), result.data);
+    return res.json({
+      error: false,
+      result: { parameters: session.parameters ?? {}, values: session.parameterValues },
+    });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.status(400).json({ error: true, result: error.message });
+  }
+});
+
 router.options('/sessions/:id/secrets/:name', cors());
 router.put('/sessions/:id/secrets/:name', cors(), async (req, res) => {
   const { id, name } = req.params;
@@ -286,14 +485,24 @@ router.delete('/sessions/:id/secrets/:name', cors(), async (req, res) => {
 
 router.options('/settings', cors());
 
+// The password hash and token signing secret never leave the server.
+function withoutAuthSecrets(config: Config) {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { authPasswordHash, authSecret, ...rest } = config;
+  return rest;
+}
+
 router.get('/settings', cors(), async (_req, res) => {
   const config = await getConfig();
-  return res.json({ error: false, result: config });
+  return res.json({ error: false, result: withoutAuthSecrets(config) });
 });
 
 router.post('/settings', cors(), async (req, res) => {
   try {
-    const updated = await updateConfig(req.body);
+    // Auth settings have their own route, which hashes the password.
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { authEmail, authPasswordHash, authSecret, ...attrs } = req.body;
+    const updated = (await updateConfig(attrs)).map(withoutAuthSecrets);
 
     posthog.capture({
       event: 'user updated settings',
@@ -308,6 +517,63 @@ router.post('/settings', cors(), async (req, res) => {
   }
 });
 
+router.options('/settings/auth', cors());
+
+router.get('/settings/auth', cors(), async (_req, res) => {
+  try {
+    return res.json({ error: false, result: await getAuthStatus() });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
+router.post('/settings/auth', cors(), async (req, res) => {
+  const { email, password } = req.body as { email?: string; password?: string };
+
+  if (!email || !password || password.length < 8) {
+    return res.status(400).json({
+      error: true,
+      result: 'An email and a password of at least 8 characters are required',
+    });
+  }
+
+  try {
+    const status = await getAuthStatus();
+
+    if (status.source === 'env') {
+      return res.status(400).json({ error: true, result: 'Authentication is set by environment' });
+    }
+
+    await updateAuthCredentials({ email, password });
+    posthog.capture({ event: 'user enabled authentication' });
+    return res.json({ error: false, result: await getAuthStatus() });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
+router.delete('/settings/auth', cors(), async (_req, res) => {
+  try {
+    const status = await getAuthStatus();
+
+    if (status.source === 'env') {
+      return res.status(400).json({ error: true, result: 'Authentication is set by environment' });
+    }
+
+    await updateAuthCredentials(null);
+    posthog.capture({ event: 'user disabled authentication' });
+    return res.json({ error: false, result: await getAuthStatus() });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
 router.options('/secrets', cors());
 
 router.get('/secrets', cors(), async (_req, res) => {
@@ -372,11 +638,21 @@ type NpmSearchResult = {
 router.options('/npm/search', cors());
 router.get('/npm/search', cors(), async (req, res) => {
   const { q, size } = req.query;
-  const response = await fetch(`https://registry.npmjs.org/-/v1/search?text=${q}&size=${size}`);
-  if (!response.ok) {
+
+  let packages;
+  try {
+    packages = await withRecovery(NPM_REGISTRY_SERVICE_ID, 'search', async () => {
+      const response = await fetch(`https://registry.npmjs.org/-/v1/search?text=${q}&size=${size}`);
+      if (!response.ok) {
+        throw new ResponseStatusError(response.status);
+      }
+      return response.json();
+    });
+  } catch (error) {
+    console.error('Failed to search npm packages:', error);
     return res.json({ error: true, result: [] });
   }
-  const packages = await response.json();
+
   const results = packages.objects.map((o: NpmSearchResult) => {
     return { name: o.package.name, version: o.package.version, description: o.package.description };
   });
@@ -401,10 +677,20 @@ router.post('/subscribe', cors(), async (req, res) => {
   }
 });
 
+/*
+ * Health of the services the API depends on: MCP servers, the AI provider and the npm
+ * registry, with their circuit breakers and retries. Responds with 503 when one is unhealthy.
+ */
+router.options('/health', cors());
+router.get('/health', cors(), (_req, res) => {
+  const summary = recoveryOrchestrator.getSystemHealthSummary();
+  const status = summary.overallStatus === 'unhealthy' ? 503 : 200;
+  return res.status(status).json({ ...summary, mcp: { ready: mcpClientService.isReady() } });
+});
+
 // Mount MCP routes
 router.use('/mcp', mcpRoutes);
 
 app.use('/api', router);
 
 export default app;
-
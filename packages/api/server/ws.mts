@@ -1,6 +1,12 @@
 import { ChildProcess } from 'node:child_process';
 import { posthog } from '../posthog-client.mjs';
-import { generateCellEdit, fixDiagnostics } from '../ai/generate.mjs';
+import {
+  streamCellEdit,
+  streamCells,
+  streamChatReply,
+  streamFixDiagnostics,
+} from '../ai/generate.mjs';
+import { cancelGeneration, streamGeneration, type ChunkCallbackType } from '../ai/stream.mjs';
 import {
   findSession,
   findCell,
@@ -12,15 +18,42 @@ import {
   updateCodeCellFilename,
   addCell,
   formatAndUpdateCodeCell,
+  startCellExecution,
+  appendCellOutput,
+  finishCellExecution,
+  removeCellOutputs,
+  moveCellOutputs,
+  syncSessionFromDisk,
+  updateParameterValues,
 } from '../session.mjs';
 import { getSecretsAssociatedWithSession } from '../config.mjs';
 import type { SessionType } from '../types.mjs';
-import { node, npmInstall, tsx } from '../exec.mjs';
+import { node, npmInstall, spawnCall, tsx } from '../exec.mjs';
 import { shouldNpmInstall, missingUndeclaredDeps } from '../deps.mjs';
 import processes from '../processes.mjs';
+import runQueues from '../run-queues.mjs';
+import kernels from '../kernels.mjs';
+import { moveCell } from '../cells.mjs';
+import { transformCell } from '../kernel/transform.mjs';
+import { OutputParser } from '../display/parser.mjs';
+import { displayHelperArgs } from '../display/helper.mjs';
+import { mcpHelperEnv, writeMcpHelper } from '../mcp/helper.mjs';
+import { mcpClientService, type ToolApprovalRequest } from '../mcp/client-service.mjs';
+import { takeSnapshot } from '../history/snapshots.mjs';
+import { diffCells } from '../history/diff.mjs';
+import { encode } from '../srcmd.mjs';
+import {
+  appendChatMessages,
+  decodeChatEdits,
+  parseChatReply,
+  readChatHistory,
+} from '../history/chat.mjs';
 import type {
   CodeCellType,
   PackageJsonCellType,
+  ShellCellType,
+  SqlCellType,
+  CellType,
   CellExecPayloadType,
   DepsInstallPayloadType,
   DepsValidatePayloadType,
@@ -30,24 +63,50 @@ import type {
   TsServerStartPayloadType,
   TsServerStopPayloadType,
   CellDeletePayloadType,
+  CellMovePayloadType,
   CellRenamePayloadType,
   CellErrorType,
   CellCreatePayloadType,
   AiGenerateCellPayloadType,
   TsConfigUpdatePayloadType,
   AiFixDiagnosticsPayloadType,
+  AiGenerateCellsPayloadType,
+  AiCancelPayloadType,
+  AiChatPayloadType,
+  AiChatCancelPayloadType,
+  MessageType,
   TsServerQuickInfoRequestPayloadType,
   TsServerDefinitionLocationRequestPayloadType,
+  SessionRunAllPayloadType,
+  SessionRunAllStopPayloadType,
+  SessionParametersSetPayloadType,
+  SessionKernelSetPayloadType,
+  SessionKernelRestartPayloadType,
+  SessionKernelStatusPayloadType,
+  SessionGraphUpdatedPayloadType,
+  SessionReactiveSetPayloadType,
+  SessionCacheSetPayloadType,
+  SessionCacheInvalidatePayloadType,
+  SessionCacheStatusPayloadType,
+  CellExecutionResultType,
+  CellOutputType,
+  TextOutputType,
+  MCPPendingApprovalType,
 } from '@peragus/shared'; // @ts-ignore
 import {
   CellUpdatePayloadSchema,
   CellRenamePayloadSchema,
   CellDeletePayloadSchema,
+  CellMovePayloadSchema,
   CellFormatPayloadSchema,
   CellExecPayloadSchema,
   CellStopPayloadSchema,
   AiGenerateCellPayloadSchema,
   AiFixDiagnosticsPayloadSchema,
+  AiGenerateCellsPayloadSchema,
+  AiCancelPayloadSchema,
+  AiChatPayloadSchema,
+  AiChatCancelPayloadSchema,
   DepsInstallPayloadSchema,
   DepsValidatePayloadSchema,
   TsServerStartPayloadSchema,
@@ -56,21 +115,48 @@ import {
   TsConfigUpdatePayloadSchema,
   TsServerQuickInfoRequestPayloadSchema,
   TsServerDefinitionLocationRequestPayloadSchema,
+  SessionRunAllPayloadSchema,
+  SessionRunAllStopPayloadSchema,
+  SessionParametersSetPayloadSchema,
+  SessionKernelSetPayloadSchema,
+  SessionKernelRestartPayloadSchema,
+  SessionReactiveSetPayloadSchema,
+  SessionCacheSetPayloadSchema,
+  SessionCacheInvalidatePayloadSchema,
 } from '@peragus/shared'; // @ts-ignore
 import tsservers from '../tsservers.mjs';
+import watchers from '../watchers.mjs';
 import { TsServer } from '../tsserver/tsserver.mjs';
-import WebSocketServer, { MessageContextType } from './ws-client.mjs';
+import WebSocketServer, { MessageContextType, type ConnectionContextType } from './ws-client.mjs';
 import { filenameFromPath, pathToCodeFile } from '../srcbook/path.mjs';
 import { normalizeDiagnostic } from '../tsserver/utils.mjs';
-import { removeCodeCellFromDisk } from '../srcbook/index.mjs';
+import {
+  moveSqlResultsOnDisk,
+  removeCodeCellFromDisk,
+  removeSqlResultsFromDisk,
+  writeReadmeToDisk,
+  writeSqlResultsToDisk,
+} from '../srcbook/index.mjs';
+import { parseSqlResult, resolveSqlConnection } from '../sql/drivers.mjs';
+import { parametersEnv } from '../srcbook/parameters.mjs';
+import { downstreamCellIds, parseCellGraph } from '../graph/imports.mjs';
+import { tsserverCellGraph } from '../graph/tsserver.mjs';
+import { cellCacheKey } from '../cache/key.mjs';
+import { cacheUsage, clearCacheEntries, readCacheEntry, writeCacheEntry } from '../cache/store.mjs';
 
 type SessionsContextType = MessageContextType<'sessionId'>;
 
 const wss = new WebSocketServer();
 
+type RunnableCellType = CodeCellType | ShellCellType | SqlCellType;
+
+function isRunnableCell(cell: CellType | undefined): cell is RunnableCellType {
+  return cell?.type === 'code' || cell?.type === 'shell' || cell?.type === 'sql';
+}
+
 function addRunningProcess(
   session: SessionType,
-  cell: CodeCellType | PackageJsonCellType,
+  cell: RunnableCellType | PackageJsonCellType,
   process: ChildProcess,
 ) {
   // If the process was not successfully started, inform the client the cell is 'idle' again.
@@ -113,11 +199,34 @@ async function nudgeMissingDeps(wss: WebSocketServer, session: SessionType) {
 async function cellExec(payload: CellExecPayloadType, context: SessionsContextType) {
   const session = await findSession(context.params.sessionId);
   const cell = findCell(session, payload.cellId);
-  if (!cell || cell.type !== 'code') {
+  if (!isRunnableCell(cell)) {
     console.error(`Cannot execute cell with id ${payload.cellId}; cell not found.`);
     return;
   }
 
+  execCell(session, cell);
+}
+
+function execCell(session: SessionType, cell: RunnableCellType) {
+  switch (cell.type) {
+    case 'shell':
+      return execShellCell(session, cell);
+    case 'sql':
+      return execSqlCell(session, cell);
+    case 'code':
+      return execCodeCell(session, cell);
+  }
+}
+
+async function writeSessionMcpHelper(session: SessionType) {
+  const tools = mcpClientService.isReady() ? await mcpClientService.listTools() : [];
+  await writeMcpHelper(session.dir, tools);
+}
+
+/**
+ * Execute a code cell, resolving with the exit code of its process once it finishes.
+ */
+async function execCodeCell(session: SessionType, cell: CodeCellType): Promise<number | null> {
   // Consider removing sessionId and cellId if cardinality increases costs too much
   posthog.capture({
     event: 'user ran a cell',
@@ -130,28 +239,372 @@ async function cellExec(payload: CellExecPayloadType, context: SessionsContextTy
 
   nudgeMissingDeps(wss, session);
 
+  // Cells reach the MCP tools through the helper module, with the port and token in their env.
+  const [sessionSecrets] = await Promise.all([
+    getSecretsAssociatedWithSession(session.id),
+    writeSessionMcpHelper(session).catch((error) => {
+      console.error(`Error writing the MCP helper of session ${session.id}:`, error);
+    }),
+  ]);
+  const secrets = {
+    ...sessionSecrets,
+    ...mcpHelperEnv(session.id),
+    ...parametersEnv(session.parameterValues),
+  };
+
+  cell.status = 'running';
+  wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
+
+  startCellExecution(session, cell);
+
+  // Cells running in a kernel depend on the state it holds, which the key cannot cover.
+  const cacheKey =
+    session.cache && !session.kernel
+      ? await codeCellCacheKey(session, cell, Object.keys(sessionSecrets))
+      : null;
+
+  if (cacheKey !== null) {
+    const cached = await readCacheEntry(session.dir, cell.filename, cacheKey);
+
+    if (cached !== null) {
+      return replayCachedExecution(session, cell, cached);
+    }
+  }
+
+  return new Promise((resolve) => {
+    async function onExit(code: number | null) {
+      await broadcastCellExecuted(session, cell, code);
+
+      if (cacheKey !== null && code === 0) {
+        await cacheCellResult(session, cell, cacheKey);
+      }
+
+      resolve(code);
+    }
+
+    if (session.kernel) {
+      kernelExec({ session, cell, secrets, onExit });
+      return;
+    }
+
+    switch (cell.language) {
+      case 'javascript':
+        jsExec({ session, cell, secrets, onExit });
+        break;
+      case 'typescript':
+        tsxExec({ session, cell, secrets, onExit });
+        break;
+    }
+  });
+}
+
+/**
+ * Execute a shell cell with `sh` in the srcbook directory, resolving with its exit code.
+ *
+ * Shell cells always run in their own process, even when the session uses a kernel.
+ */
+async function execShellCell(session: SessionType, cell: ShellCellType): Promise<number | null> {
+  posthog.capture({
+    event: 'user ran a cell',
+    properties: {
+      language: 'shell',
+      sessionId: session.id,
+      cellId: cell.id,
+    },
+  });
+
+  const secrets = await getSecretsAssociatedWithSession(session.id);
+
+  cell.status = 'running';
+  wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
+
+  startCellExecution(session, cell);
+
+  return new Promise((resolve) => {
+    async function onExit(code: number | null) {
+      // Reload cell to get most recent version which may have been updated since
+      // in the time between initially running this cell and when running finishes.
+      const mostRecentCell = session.cells.find((c) => c.id === cell.id) as ShellCellType;
+      mostRecentCell.status = 'idle';
+      wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+
+      await broadcastCellExecuted(session, cell, code);
+      resolve(code);
+    }
+
+    addRunningProcess(
+      session,
+      cell,
+      spawnCall({
+        cwd: session.dir,
+        env: { ...process.env, ...secrets, ...parametersEnv(session.parameterValues) },
+        command: 'sh',
+        args: [pathToCodeFile(session.dir, cell.filename)],
+        stdout(data) {
+          sendCellOutput(session, cell, { type: 'stdout', data: data.toString('utf8') });
+        },
+        stderr(data) {
+          sendCellOutput(session, cell, { type: 'stderr', data: data.toString('utf8') });
+        },
+        onExit(code) {
+          onExit(code);
+        },
+        onError(err) {
+          console.error(err);
+          onExit(null);
+        },
+      }),
+    );
+  });
+}
+
+/**
+ * Execute a SQL cell against its connection, resolving with the exit code of the driver.
+ *
+ * The rows are shown as a table and written to a module next to the code cells,
+ * so that later cells can import them.
+ */
+async function execSqlCell(session: SessionType, cell: SqlCellType): Promise<number | null> {
+  posthog.capture({
+    event: 'user ran a cell',
+    properties: {
+      language: 'sql',
+      sessionId: session.id,
+      cellId: cell.id,
+    },
+  });
+
   const secrets = await getSecretsAssociatedWithSession(session.id);
 
   cell.status = 'running';
   wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
 
-  switch (cell.language) {
-    case 'javascript':
-      jsExec({ session, cell, secrets });
-      break;
-    case 'typescript':
-      tsxExec({ session, cell, secrets });
-      break;
+  startCellExecution(session, cell);
+
+  async function finish(code: number | null) {
+    // Reload cell to get most recent version which may have been updated since
+    // in the time between initially running this cell and when running finishes.
+    const mostRecentCell = session.cells.find((c) => c.id === cell.id) as SqlCellType;
+    mostRecentCell.status = 'idle';
+    wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+
+    await broadcastCellExecuted(session, cell, code);
+    return code;
+  }
+
+  let connection;
+  try {
+    connection = resolveSqlConnection(cell.connection, secrets);
+  } catch (e) {
+    sendCellOutput(session, cell, { type: 'stderr', data: `${(e as Error).message}\n` });
+    return finish(1);
+  }
+
+  const child = connection.driver.spawn({
+    cwd: session.dir,
+    database: connection.database,
+    sql: cell.source,
+    env: { ...process.env, ...secrets },
+  });
+
+  addRunningProcess(session, cell, child);
+
+  return new Promise((resolve) => {
+    let stdout = '';
+
+    child.stdout?.on('data', (data: Buffer) => {
+      stdout += data.toString('utf8');
+    });
+
+    child.stderr?.on('data', (data: Buffer) => {
+      sendCellOutput(session, cell, { type: 'stderr', data: data.toString('utf8') });
+    });
+
+    child.on('error', (err) => {
+      console.error(err);
+      finish(null).then(resolve);
+    });
+
+    child.on('exit', async (code) => {
+      if (code === 0) {
+        try {
+          const result = parseSqlResult(stdout);
+
+          if (result.columns.length > 0) {
+            sendCellOutput(session, cell, {
+              type: 'display',
+              mimeType: 'application/vnd.srcbook.table+json',
+              data: result.rows,
+            });
+          }
+
+          sendCellOutput(session, cell, {
+            type: 'stdout',
+            data:
+              result.columns.length > 0
+                ? `${result.rows.length} ${result.rows.length === 1 ? 'row' : 'rows'}\n`
+                : `${result.changes ?? 0} ${result.changes === 1 ? 'row' : 'rows'} changed\n`,
+          });
+
+          await writeSqlResultsToDisk(session.dir, session.language, cell, result);
+        } catch (e) {
+          sendCellOutput(session, cell, { type: 'stderr', data: `${(e as Error).message}\n` });
+          code = 1;
+        }
+      }
+
+      resolve(await finish(code));
+    });
+  });
+}
+
+async function broadcastCellExecuted(
+  session: SessionType,
+  cell: RunnableCellType,
+  exitCode: number | null,
+  cached = false,
+) {
+  const result = await finishCellExecution(session, cell, exitCode, cached);
+
+  if (result) {
+    wss.broadcast(`session:${session.id}`, 'cell:executed', {
+      cellId: cell.id,
+      exitCode: result.exitCode,
+      startedAt: result.startedAt,
+      finishedAt: result.finishedAt!,
+      cached: result.cached,
+    });
+  }
+
+  await onCellExecuted(session.id, cell.id, exitCode);
+}
+
+async function codeCellCacheKey(session: SessionType, cell: CodeCellType, secretNames: string[]) {
+  try {
+    return await cellCacheKey({
+      dir: session.dir,
+      language: session.language,
+      cells: session.cells,
+      cell,
+      secretNames,
+      parameterValues: session.parameterValues,
+    });
+  } catch (error) {
+    console.error(`Error computing the cache key of ${cell.filename}:`, error);
+    return null;
   }
 }
 
+/**
+ * Replays the output of an earlier run of a code cell instead of running it.
+ */
+async function replayCachedExecution(
+  session: SessionType,
+  cell: CodeCellType,
+  cached: CellExecutionResultType,
+) {
+  for (const output of cached.output) {
+    appendCellOutput(session, cell, output);
+    wss.broadcast(`session:${session.id}`, 'cell:output', {
+      cellId: cell.id,
+      output,
+      cached: true,
+    });
+  }
+
+  const mostRecentCell = session.cells.find((c) => c.id === cell.id) as CodeCellType;
+  mostRecentCell.status = 'idle';
+  wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+
+  await broadcastCellExecuted(session, cell, cached.exitCode, true);
+
+  return cached.exitCode;
+}
+
+async function cacheCellResult(session: SessionType, cell: CodeCellType, key: string) {
+  const result = session.outputs[cell.filename];
+
+  if (!result) {
+    return;
+  }
+
+  try {
+    await writeCacheEntry(session.dir, cell.filename, key, result);
+    await broadcastCacheStatus(session.id);
+  } catch (error) {
+    console.error(`Error caching the result of ${cell.filename}:`, error);
+  }
+}
+
+async function cacheStatusPayload(session: SessionType): Promise<SessionCacheStatusPayloadType> {
+  const usage = await cacheUsage(session.dir);
+  const cells: Record<string, number> = {};
+
+  for (const cell of session.cells) {
+    const size = cell.type === 'code' ? usage.filenames[cell.filename] : undefined;
+    if (size !== undefined) {
+      cells[cell.id] = size;
+    }
+  }
+
+  return { enabled: session.cache, size: usage.size, cells };
+}
+
+async function broadcastCacheStatus(sessionId: string) {
+  const session = await findSession(sessionId);
+  wss.broadcast(`session:${sessionId}`, 'session:cache:status', await cacheStatusPayload(session));
+}
+
+async function sessionCacheSet(payload: SessionCacheSetPayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  posthog.capture({
+    event: payload.enabled ? 'user enabled cell cache' : 'user disabled cell cache',
+    properties: { sessionId: session.id },
+  });
+
+  // Only whether cells use the cache lasts as long as the session, the cache itself is kept.
+  await updateSession(session, { cache: payload.enabled }, false);
+
+  await broadcastCacheStatus(session.id);
+}
+
+async function sessionCacheInvalidate(
+  payload: SessionCacheInvalidatePayloadType,
+  context: SessionsContextType,
+) {
+  const session = await findSession(context.params.sessionId);
+
+  if (payload.cellId === undefined) {
+    await clearCacheEntries(session.dir);
+  } else {
+    const cell = findCell(session, payload.cellId);
+
+    if (cell?.type !== 'code') {
+      throw new Error(`Cannot invalidate the cache of cell '${payload.cellId}': not a code cell`);
+    }
+
+    await clearCacheEntries(session.dir, cell.filename);
+  }
+
+  await broadcastCacheStatus(session.id);
+}
+
 type ExecRequestType = {
   session: SessionType;
   cell: CodeCellType;
   secrets: Record<string, string>;
+  onExit: (code: number | null) => void;
 };
 
-async function jsExec({ session, cell, secrets }: ExecRequestType) {
+function sendCellOutput(session: SessionType, cell: RunnableCellType, output: CellOutputType) {
+  appendCellOutput(session, cell, output);
+  wss.broadcast(`session:${session.id}`, 'cell:output', { cellId: cell.id, output });
+}
+
+async function jsExec({ session, cell, secrets, onExit }: ExecRequestType) {
+  const parser = new OutputParser();
+
   addRunningProcess(
     session,
     cell,
@@ -159,19 +612,20 @@ async function jsExec({ session, cell, secrets }: ExecRequestType) {
       cwd: session.dir,
       env: secrets,
       entry: pathToCodeFile(session.dir, cell.filename),
+      execArgv: displayHelperArgs(),
       stdout(data) {
-        wss.broadcast(`session:${session.id}`, 'cell:output', {
-          cellId: cell.id,
-          output: { type: 'stdout', data: data.toString('utf8') },
-        });
+        for (const output of parser.write(data.toString('utf8'))) {
+          sendCellOutput(session, cell, output);
+        }
       },
       stderr(data) {
-        wss.broadcast(`session:${session.id}`, 'cell:output', {
-          cellId: cell.id,
-          output: { type: 'stderr', data: data.toString('utf8') },
-        });
+        sendCellOutput(session, cell, { type: 'stderr', data: data.toString('utf8') });
       },
-      onExit() {
+      onExit(code) {
+        for (const output of parser.flush()) {
+          sendCellOutput(session, cell, output);
+        }
+
         // Reload cell to get most recent version which may have been updated since
         // in the time between initially running this cell and when running finishes.
         //
@@ -180,43 +634,387 @@ async function jsExec({ session, cell, secrets }: ExecRequestType) {
         const mostRecentCell = session.cells.find((c) => c.id === cell.id) as CodeCellType;
         mostRecentCell.status = 'idle';
         wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+        onExit(code);
+      },
+      onError(err) {
+        console.error(err);
+        onExit(null);
       },
     }),
   );
 }
 
-async function tsxExec({ session, cell, secrets }: ExecRequestType) {
-  addRunningProcess(
-    session,
-    cell,
-    tsx({
-      cwd: session.dir,
-      env: secrets,
-      entry: pathToCodeFile(session.dir, cell.filename),
-      stdout(data) {
-        wss.broadcast(`session:${session.id}`, 'cell:output', {
-          cellId: cell.id,
-          output: { type: 'stdout', data: data.toString('utf8') },
-        });
-      },
-      stderr(data) {
-        wss.broadcast(`session:${session.id}`, 'cell:output', {
-          cellId: cell.id,
-          output: { type: 'stderr', data: data.toString('utf8') },
-        });
-      },
-      onExit() {
-        // Reload cell to get most recent version which may have been updated since
-        // in the time between initially running this cell and when running finishes.
-        //
-        // TODO: Real state management pls.
-        //
-        const mostRecentCell = session.cells.find((c) => c.id === cell.id) as CodeCellType;
-        mostRecentCell.status = 'idle';
-        wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
-      },
-    }),
-  );
+async function tsxExec({ session, cell, secrets, onExit }: ExecRequestType) {
+  const parser = new OutputParser();
+
+  addRunningProcess(
+    session,
+    cell,
+    tsx({
+      cwd: session.dir,
+      env: secrets,
+      entry: pathToCodeFile(session.dir, cell.filename),
+      execArgv: displayHelperArgs(),
+      stdout(data) {
+        for (const output of parser.write(data.toString('utf8'))) {
+          sendCellOutput(session, cell, output);
+        }
+      },
+      stderr(data) {
+        sendCellOutput(session, cell, { type: 'stderr', data: data.toString('utf8') });
+      },
+      onExit(code) {
+        for (const output of parser.flush()) {
+          sendCellOutput(session, cell, output);
+        }
+
+        // Reload cell to get most recent version which may have been updated since
+        // in the time between initially running this cell and when running finishes.
+        //
+        // TODO: Real state management pls.
+        //
+        const mostRecentCell = session.cells.find((c) => c.id === cell.id) as CodeCellType;
+        mostRecentCell.status = 'idle';
+        wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+        onExit(code);
+      },
+      onError(err) {
+        console.error(err);
+        onExit(null);
+      },
+    }),
+  );
+}
+
+async function kernelExec({ session, cell, secrets, onExit }: ExecRequestType) {
+  const kernel = kernels.has(session.id) ? kernels.get(session.id) : createKernel(session);
+
+  const code = await kernel.exec({
+    cellId: cell.id,
+    code: transformCell(cell.source, cell.filename),
+    env: secrets,
+  });
+
+  // Reload cell to get most recent version which may have been updated since
+  // in the time between initially running this cell and when running finishes.
+  const mostRecentCell = session.cells.find((c) => c.id === cell.id) as CodeCellType;
+  mostRecentCell.status = 'idle';
+  wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+  onExit(code);
+}
+
+function createKernel(session: SessionType) {
+  const sessionId = session.id;
+  const kernel = kernels.create(sessionId, { cwd: session.dir, language: session.language });
+
+  function broadcastStatus(payload: SessionKernelStatusPayloadType) {
+    wss.broadcast(`session:${sessionId}`, 'session:kernel:status', payload);
+  }
+
+  const parser = new OutputParser();
+
+  kernel.on('output', async (cellId: string, output: TextOutputType) => {
+    // Output can arrive after the cell finished, so the session may have changed since.
+    let session;
+    try {
+      session = await findSession(sessionId);
+    } catch {
+      // The session was deleted.
+      return;
+    }
+
+    const cell = findCell(session, cellId);
+    const outputs = output.type === 'stdout' ? parser.write(output.data) : [output];
+
+    for (const output of outputs) {
+      if (cell && cell.type === 'code') {
+        appendCellOutput(session, cell, output);
+      }
+
+      wss.broadcast(`session:${sessionId}`, 'cell:output', { cellId, output });
+    }
+  });
+
+  kernel.on('status', (status: 'idle' | 'busy') => {
+    broadcastStatus({ enabled: true, status });
+  });
+
+  kernel.on('exit', async () => {
+    // The kernel was restarted, the new kernel reports its own status.
+    if (kernels.has(sessionId)) {
+      return;
+    }
+
+    let session;
+    try {
+      session = await findSession(sessionId);
+    } catch {
+      // The session was deleted.
+      return;
+    }
+
+    broadcastStatus({ enabled: session.kernel, status: 'stopped' });
+  });
+
+  return kernel;
+}
+
+async function sessionParametersSet(
+  payload: SessionParametersSetPayloadType,
+  context: SessionsContextType,
+) {
+  const session = await updateParameterValues(
+    await findSession(context.params.sessionId),
+    payload.values,
+  );
+
+  broadcastParameters(session);
+}
+
+function broadcastParameters(session: SessionType) {
+  wss.broadcast(`session:${session.id}`, 'session:parameters:updated', {
+    parameters: session.parameters ?? {},
+    values: session.parameterValues,
+  });
+}
+
+/**
+ * The graph of the cells of a session importing each other.
+ */
+function cellGraph(session: SessionType) {
+  return session.language === 'typescript' && tsservers.has(session.id)
+    ? tsserverCellGraph(tsservers.get(session.id), session.dir, session.cells)
+    : Promise.resolve(parseCellGraph(session.cells));
+}
+
+async function graphPayload(session: SessionType): Promise<SessionGraphUpdatedPayloadType> {
+  return {
+    graph: await cellGraph(session),
+    staleCellIds: session.staleCellIds.filter((id) => findCell(session, id)),
+    reactive: session.reactive,
+  };
+}
+
+async function broadcastGraph(sessionId: string) {
+  const session = await findSession(sessionId);
+  wss.broadcast(`session:${sessionId}`, 'session:graph:updated', await graphPayload(session));
+}
+
+/**
+ * Marks the cells importing a cell as stale, as what they computed may have changed,
+ * unless they never ran. The cell itself is up to date when it just ran.
+ *
+ * Returns the cells importing the cell, in the order they should run again.
+ */
+async function markDownstreamStale(sessionId: string, cellId: string, ran: boolean) {
+  const session = await findSession(sessionId);
+  const graph = await cellGraph(session);
+  const downstream = downstreamCellIds(session.cells, graph, cellId);
+
+  const ranBefore = downstream.filter((id) => {
+    const cell = findCell(session, id);
+    return isRunnableCell(cell) && session.outputs[cell.filename] !== undefined;
+  });
+
+  const staleCellIds = new Set([...session.staleCellIds, ...ranBefore]);
+  if (ran) {
+    staleCellIds.delete(cellId);
+  }
+
+  const updatedSession = await updateSession(session, { staleCellIds: [...staleCellIds] }, false);
+
+  wss.broadcast(`session:${sessionId}`, 'session:graph:updated', {
+    graph,
+    staleCellIds: updatedSession.staleCellIds.filter((id) => findCell(updatedSession, id)),
+    reactive: updatedSession.reactive,
+  });
+
+  return downstream;
+}
+
+/**
+ * Once a cell ran, the cells importing it are stale. Reactive sessions run them again
+ * when it succeeded, unless they are about to run as part of a "run all".
+ */
+async function onCellExecuted(sessionId: string, cellId: string, exitCode: number | null) {
+  let downstream: string[];
+  let session: SessionType;
+
+  try {
+    downstream = await markDownstreamStale(sessionId, cellId, true);
+    session = await findSession(sessionId);
+  } catch (error) {
+    console.error(`Error marking the cells importing cell ${cellId} as stale:`, error);
+    return;
+  }
+
+  if (
+    session.reactive &&
+    exitCode === 0 &&
+    downstream.length > 0 &&
+    !runQueues.isRunning(sessionId)
+  ) {
+    runCells(sessionId, downstream, false).catch((error) => {
+      console.error(`Error running the cells importing cell ${cellId}:`, error);
+    });
+  }
+}
+
+async function sessionReactiveSet(
+  payload: SessionReactiveSetPayloadType,
+  context: SessionsContextType,
+) {
+  const session = await findSession(context.params.sessionId);
+
+  posthog.capture({
+    event: payload.enabled ? 'user enabled reactive mode' : 'user disabled reactive mode',
+    properties: { sessionId: session.id },
+  });
+
+  // Like kernel mode, reactive mode only lasts as long as the session.
+  await updateSession(session, { reactive: payload.enabled }, false);
+
+  await broadcastGraph(session.id);
+}
+
+async function sessionKernelSet(
+  payload: SessionKernelSetPayloadType,
+  context: SessionsContextType,
+) {
+  const session = await findSession(context.params.sessionId);
+
+  posthog.capture({
+    event: payload.enabled ? 'user enabled kernel mode' : 'user disabled kernel mode',
+    properties: { sessionId: session.id },
+  });
+
+  // Kernel mode is not persisted, it only lasts as long as the session.
+  await updateSession(session, { kernel: payload.enabled }, false);
+
+  if (!payload.enabled) {
+    kernels.shutdown(session.id);
+  }
+
+  // The kernel is started lazily when the first cell runs.
+  wss.broadcast(`session:${session.id}`, 'session:kernel:status', {
+    enabled: payload.enabled,
+    status: kernels.has(session.id) ? 'idle' : 'stopped',
+  });
+}
+
+async function sessionKernelRestart(
+  _payload: SessionKernelRestartPayloadType,
+  context: SessionsContextType,
+) {
+  const session = await findSession(context.params.sessionId);
+
+  if (!session.kernel) {
+    console.warn(`Session ${session.id} is not in kernel mode. Ignoring kernel restart.`);
+    return;
+  }
+
+  posthog.capture({ event: 'user restarted kernel', properties: { sessionId: session.id } });
+
+  kernels.shutdown(session.id);
+  createKernel(session);
+
+  wss.broadcast(`session:${session.id}`, 'session:kernel:status', {
+    enabled: true,
+    status: 'idle',
+  });
+}
+
+async function sessionRunAll(payload: SessionRunAllPayloadType, context: SessionsContextType) {
+  const sessionId = context.params.sessionId;
+  const session = await findSession(sessionId);
+
+  if (runQueues.isRunning(session.id)) {
+    console.warn(`Session ${session.id} is already running all cells. Ignoring request.`);
+    return;
+  }
+
+  const fromIndex = payload.fromCellId
+    ? session.cells.findIndex((cell) => cell.id === payload.fromCellId)
+    : 0;
+  const toIndex = payload.toCellId
+    ? session.cells.findIndex((cell) => cell.id === payload.toCellId)
+    : session.cells.length - 1;
+
+  if (fromIndex === -1 || toIndex === -1) {
+    throw new Error(
+      `Cannot run all cells for session '${session.id}': cell '${fromIndex === -1 ? payload.fromCellId : payload.toCellId}' not found`,
+    );
+  }
+
+  const cellIds = session.cells
+    .slice(fromIndex, toIndex + 1)
+    .filter(isRunnableCell)
+    .map((cell) => cell.id);
+
+  posthog.capture({
+    event: 'user ran all cells',
+    properties: {
+      sessionId: session.id,
+      cellCount: cellIds.length,
+      continueOnError: !!payload.continueOnError,
+    },
+  });
+
+  await runCells(session.id, cellIds, !!payload.continueOnError);
+}
+
+/**
+ * Run cells one after the other, reporting progress like "run all" does.
+ */
+async function runCells(sessionId: string, cellIds: string[], continueOnError: boolean) {
+  await runQueues.run(sessionId, {
+    cellIds,
+    continueOnError,
+    async exec(cellId) {
+      // Get most recent session state, cells may have been edited while the queue was running.
+      const session = await findSession(sessionId);
+      const cell = findCell(session, cellId);
+
+      if (!isRunnableCell(cell)) {
+        throw new Error(`Cell ${cellId} no longer exists`);
+      }
+
+      return execCell(session, cell);
+    },
+    onProgress(progress) {
+      wss.broadcast(`session:${sessionId}`, 'session:run_all:progress', progress);
+    },
+  });
+}
+
+async function sessionRunAllStop(
+  _payload: SessionRunAllStopPayloadType,
+  context: SessionsContextType,
+) {
+  const sessionId = context.params.sessionId;
+  const cellId = runQueues.stop(sessionId);
+
+  if (!cellId) {
+    return;
+  }
+
+  const session = await findSession(sessionId);
+
+  // Shell and SQL cells never run in the kernel.
+  if (kernels.has(sessionId) && findCell(session, cellId)?.type === 'code') {
+    kernels.get(sessionId).interrupt(cellId);
+    return;
+  }
+
+  try {
+    processes.kill(sessionId, cellId);
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(
+      `Error occurred while trying to kill process for session ${sessionId} and cell ${cellId}:`,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
 }
 
 async function depsInstall(payload: DepsInstallPayloadType, context: SessionsContextType) {
@@ -305,7 +1103,7 @@ async function cellStop(payload: CellStopPayloadType, context: SessionsContextTy
   const session = await findSession(context.params.sessionId);
   const cell = findCell(session, payload.cellId);
 
-  if (!cell || cell.type !== 'code') {
+  if (!isRunnableCell(cell)) {
     return;
   }
 
@@ -314,10 +1112,16 @@ async function cellStop(payload: CellStopPayloadType, context: SessionsContextTy
     properties: {
       sessionId: session.id,
       cellId: cell.id,
-      language: cell.language,
+      language: cell.type === 'code' ? cell.language : cell.type,
     },
   });
 
+  // Shell and SQL cells never run in the kernel.
+  if (cell.type === 'code' && session.kernel && kernels.has(session.id)) {
+    kernels.get(session.id).interrupt(cell.id);
+    return;
+  }
+
   try {
     const killed = processes.kill(session.id, cell.id);
     if (!killed) {
@@ -356,6 +1160,10 @@ async function cellCreate(payload: CellCreatePayloadType, context: SessionsConte
 
     requestAllDiagnostics(tsserver, session);
   }
+
+  if (cell.type === 'code') {
+    await broadcastGraph(session.id);
+  }
 }
 
 function sendCellUpdateError(session: SessionType, cellId: string, errors: CellErrorType[]) {
@@ -389,6 +1197,25 @@ function reopenFileInTsServer(
   tsserver.open({ file: openFilePath, fileContent: file.source });
 }
 
+function broadcastCellChunk(sessionId: string, cellId: string): ChunkCallbackType {
+  return (chunk, restart) => {
+    wss.broadcast(`session:${sessionId}`, 'ai:generated:chunk', { cellId, chunk, restart });
+  };
+}
+
+/**
+ * Keep the version from before an AI edit in case an unwanted suggestion gets accepted.
+ *
+ * The AI still answers when the snapshot cannot be taken, the edit just cannot be undone.
+ */
+async function snapshotBeforeAiEdit(dir: string) {
+  try {
+    await takeSnapshot(dir, 'ai');
+  } catch (e) {
+    console.error('Error taking a snapshot before an AI edit:', e);
+  }
+}
+
 async function cellGenerate(payload: AiGenerateCellPayloadType, context: SessionsContextType) {
   const session = await findSession(context.params.sessionId);
   const cell = session.cells.find((cell) => cell.id === payload.cellId) as CodeCellType;
@@ -401,12 +1228,32 @@ async function cellGenerate(payload: AiGenerateCellPayloadType, context: Session
     },
   });
 
-  const result = await generateCellEdit(payload.prompt, session, cell);
+  await snapshotBeforeAiEdit(session.dir);
 
-  wss.broadcast(`session:${session.id}`, 'ai:generated', {
-    cellId: payload.cellId,
-    output: result,
-  });
+  try {
+    const onChunk = broadcastCellChunk(session.id, payload.cellId);
+    const result = await streamGeneration(payload.cellId, onChunk, (callbacks) =>
+      streamCellEdit(payload.prompt, session, cell, callbacks),
+    );
+
+    if (result === null) {
+      return;
+    }
+
+    wss.broadcast(`session:${session.id}`, 'ai:generated', {
+      cellId: payload.cellId,
+      output: result.text,
+      toolCalls: result.toolCalls,
+    });
+  } catch (e) {
+    const error = e as Error;
+    console.error(error);
+    wss.broadcast(`session:${session.id}`, 'ai:generated', {
+      cellId: payload.cellId,
+      output: '',
+      error: error.message,
+    });
+  }
 }
 
 async function cellFixDiagnostics(
@@ -416,12 +1263,144 @@ async function cellFixDiagnostics(
   const session = await findSession(context.params.sessionId);
   const cell = findCell(session, payload.cellId) as CodeCellType;
 
-  const result = await fixDiagnostics(session, cell, payload.diagnostics);
+  await snapshotBeforeAiEdit(session.dir);
 
-  wss.broadcast(`session:${session.id}`, 'ai:generated', {
-    cellId: payload.cellId,
-    output: result,
-  });
+  try {
+    const onChunk = broadcastCellChunk(session.id, payload.cellId);
+    const result = await streamGeneration(payload.cellId, onChunk, (callbacks) =>
+      streamFixDiagnostics(session, cell, payload.diagnostics, callbacks),
+    );
+
+    if (result === null) {
+      return;
+    }
+
+    wss.broadcast(`session:${session.id}`, 'ai:generated', {
+      cellId: payload.cellId,
+      output: result.text,
+      toolCalls: result.toolCalls,
+    });
+  } catch (e) {
+    const error = e as Error;
+    console.error(error);
+    wss.broadcast(`session:${session.id}`, 'ai:generated', {
+      cellId: payload.cellId,
+      output: '',
+      error: error.message,
+    });
+  }
+}
+
+async function cellsGenerate(payload: AiGenerateCellsPayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  posthog.capture({ event: 'user generated cell with AI', properties: { query: payload.query } });
+
+  await snapshotBeforeAiEdit(session.dir);
+
+  try {
+    const onChunk = broadcastCellChunk(session.id, payload.cellId);
+    const result = await streamGeneration(payload.cellId, onChunk, (callbacks) =>
+      streamCells(payload.query, session, payload.insertIdx, callbacks),
+    );
+
+    if (result === null) {
+      return;
+    }
+
+    wss.broadcast(`session:${session.id}`, 'ai:generated:cells', {
+      cellId: payload.cellId,
+      error: result.error,
+      cells: result.cells,
+      errors: result.errors,
+      toolCalls: result.toolCalls,
+    });
+  } catch (e) {
+    const error = e as Error;
+    console.error(error);
+    wss.broadcast(`session:${session.id}`, 'ai:generated:cells', {
+      cellId: payload.cellId,
+      error: true,
+      errors: [error.message],
+    });
+  }
+}
+
+function aiCancel(payload: AiCancelPayloadType) {
+  cancelGeneration(payload.cellId);
+}
+
+async function aiChat(payload: AiChatPayloadType, context: SessionsContextType) {
+  const { planId, message, diagnostics } = payload;
+  const session = await findSession(context.params.sessionId);
+  const topic = `session:${session.id}`;
+
+  posthog.capture({ event: 'user sent a message to the AI chat' });
+
+  const history = await readChatHistory(session.dir);
+  await appendChatMessages(session.dir, [{ type: 'user', planId, message }]);
+
+  try {
+    const onChunk: ChunkCallbackType = (chunk, restart) => {
+      wss.broadcast(topic, 'ai:chat:chunk', { planId, chunk, restart });
+    };
+    const result = await streamGeneration(planId, onChunk, (callbacks) =>
+      streamChatReply(session, history, message, diagnostics, callbacks),
+    );
+
+    if (result === null) {
+      wss.broadcast(topic, 'ai:chat:updated', { planId, error: null });
+      return;
+    }
+
+    const reply = parseChatReply(result.text);
+    const replies: MessageType[] = [];
+    let error: string | null = null;
+
+    if (reply.content !== '') {
+      replies.push({ type: 'plan', planId, content: reply.content });
+    }
+
+    if (reply.srcmd !== null) {
+      const decoded = decodeChatEdits(reply.srcmd, session.language);
+
+      if (decoded.error) {
+        console.error(decoded.errors);
+        error = 'The AI proposed edits that are not a valid srcbook.';
+      } else {
+        // Cells may have been edited while the reply was generated.
+        const current = await findSession(session.id);
+        const diff = diffCells(current.cells, decoded.srcbook.cells);
+
+        if (diff.length > 0) {
+          const version = await takeSnapshot(current.dir, 'ai');
+          const srcmd = encode(
+            { cells: decoded.srcbook.cells, language: current.language },
+            { inline: true },
+          );
+          replies.push({
+            type: 'cells-diff',
+            planId,
+            version: version.id,
+            diff,
+            srcmd,
+            status: 'proposed',
+          });
+        }
+      }
+    }
+
+    await appendChatMessages(session.dir, replies);
+    wss.broadcast(topic, 'ai:chat:updated', { planId, error });
+  } catch (e) {
+    const error = e as Error;
+    console.error(error);
+    wss.broadcast(topic, 'ai:chat:updated', { planId, error: error.message });
+  }
+}
+
+function aiChatCancel(payload: AiChatCancelPayloadType) {
+  cancelGeneration(payload.planId);
 }
 
 async function cellFormat(payload: CellFormatPayloadType, context: SessionsContextType) {
@@ -484,6 +1463,14 @@ async function cellUpdate(payload: CellUpdatePayloadType, context: SessionsConte
   const cell = result.cell as CodeCellType;
 
   refreshCodeCellDiagnostics(session, cell);
+
+  // Cells importing a cell that changed computed what they did with its previous source.
+  if (
+    (result.cell.type === 'code' || result.cell.type === 'sql') &&
+    ('source' in payload.updates || 'connection' in payload.updates)
+  ) {
+    await markDownstreamStale(session.id, result.cell.id, false);
+  }
 }
 
 async function cellRename(payload: CellRenamePayloadType, context: SessionsContextType) {
@@ -501,9 +1488,9 @@ async function cellRename(payload: CellRenamePayloadType, context: SessionsConte
     );
   }
 
-  if (cellBeforeUpdate.type !== 'code') {
+  if (!isRunnableCell(cellBeforeUpdate)) {
     throw new Error(
-      `Cannot rename cell of type '${cellBeforeUpdate.type}'. Only code cells can be renamed.`,
+      `Cannot rename cell of type '${cellBeforeUpdate.type}'. Only code, shell and SQL cells can be renamed.`,
     );
   }
 
@@ -521,6 +1508,14 @@ async function cellRename(payload: CellRenamePayloadType, context: SessionsConte
     return sendCellUpdateError(session, payload.cellId, result.errors);
   }
 
+  const filename = (result.cell as RunnableCellType).filename;
+
+  await moveCellOutputs(session, cellBeforeUpdate.filename, filename);
+
+  if (cellBeforeUpdate.type === 'sql') {
+    await moveSqlResultsOnDisk(session.dir, session.language, cellBeforeUpdate.filename, filename);
+  }
+
   if (
     session.language === 'typescript' &&
     cellBeforeUpdate.type === 'code' &&
@@ -557,6 +1552,17 @@ async function cellRename(payload: CellRenamePayloadType, context: SessionsConte
 
     requestAllDiagnostics(tsserver, session);
   }
+
+  // Imports refer to cells by filename.
+  if (cellBeforeUpdate.type === 'code' || cellBeforeUpdate.type === 'sql') {
+    await broadcastGraph(session.id);
+  }
+
+  // Keys cover the filename, so cached results of the previous one can no longer be used.
+  if (cellBeforeUpdate.type === 'code') {
+    await clearCacheEntries(session.dir, cellBeforeUpdate.filename);
+    await broadcastCacheStatus(session.id);
+  }
 }
 
 async function cellDelete(payload: CellDeletePayloadType, context: SessionsContextType) {
@@ -579,7 +1585,7 @@ async function cellDelete(payload: CellDeletePayloadType, context: SessionsConte
     properties: { cellType: cell.type },
   });
 
-  if (cell.type !== 'markdown' && cell.type !== 'code') {
+  if (cell.type !== 'markdown' && !isRunnableCell(cell)) {
     throw new Error(`Cannot delete cell of type '${cell.type}'`);
   }
 
@@ -587,9 +1593,16 @@ async function cellDelete(payload: CellDeletePayloadType, context: SessionsConte
 
   const updatedSession = await updateSession(session, { cells: updatedCells });
 
-  if (cell.type === 'code') {
+  if (isRunnableCell(cell)) {
     removeCodeCellFromDisk(updatedSession.dir, cell.filename);
+    await removeCellOutputs(updatedSession, cell.filename);
+  }
 
+  if (cell.type === 'sql') {
+    removeSqlResultsFromDisk(updatedSession.dir, updatedSession.language, cell.filename);
+  }
+
+  if (cell.type === 'code') {
     if (updatedSession.language === 'typescript' && tsservers.has(updatedSession.id)) {
       const file = pathToCodeFile(updatedSession.dir, cell.filename);
       const tsserver = tsservers.get(updatedSession.id);
@@ -597,6 +1610,46 @@ async function cellDelete(payload: CellDeletePayloadType, context: SessionsConte
       requestAllDiagnostics(tsserver, updatedSession);
     }
   }
+
+  if (cell.type === 'code' || cell.type === 'sql') {
+    await broadcastGraph(updatedSession.id);
+  }
+
+  if (cell.type === 'code') {
+    await clearCacheEntries(updatedSession.dir, cell.filename);
+    await broadcastCacheStatus(updatedSession.id);
+  }
+}
+
+async function cellMove(payload: CellMovePayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  if (!session) {
+    throw new Error(`No session exists for session '${context.params.sessionId}'`);
+  }
+
+  const cell = findCell(session, payload.cellId);
+
+  if (!cell) {
+    throw new Error(
+      `No cell exists for session '${context.params.sessionId}' and cell '${payload.cellId}'`,
+    );
+  }
+
+  const cells = moveCell(session.cells, cell.id, payload.index);
+
+  if (!cells) {
+    return;
+  }
+
+  posthog.capture({
+    event: 'user moved cell',
+    properties: { cellType: cell.type },
+  });
+
+  const updatedSession = await updateSession(session, { cells }, false);
+
+  await writeReadmeToDisk(updatedSession);
 }
 
 /**
@@ -697,6 +1750,9 @@ async function tsserverStart(_payload: TsServerStartPayloadType, context: Sessio
     tsservers.has(session.id) ? tsservers.get(session.id) : createTsServer(session),
     session,
   );
+
+  // Until now, imports were found by scanning sources.
+  await broadcastGraph(session.id);
 }
 
 async function tsserverStop(_payload: TsServerStopPayloadType, context: SessionsContextType) {
@@ -862,17 +1918,182 @@ function refreshCodeCellDiagnostics(session: SessionType, cell: CodeCellType) {
   }
 }
 
+/**
+ * Starts watching the files of a session when a client opens it, so that changes made
+ * outside of the app, e.g. by the MCP server or a text editor, show up live.
+ */
+function sessionJoin(_payload: unknown, context: MessageContextType, conn: ConnectionContextType) {
+  const sessionId = context.params.sessionId as string;
+
+  findSession(sessionId)
+    .then(graphPayload)
+    .then((payload) => conn.reply(context.topic, 'session:graph:updated', payload))
+    .catch((error) => {
+      console.error(`Error sending the cell graph of session ${sessionId}:`, error);
+    });
+
+  findSession(sessionId)
+    .then(cacheStatusPayload)
+    .then((payload) => conn.reply(context.topic, 'session:cache:status', payload))
+    .catch((error) => {
+      console.error(`Error sending the cache status of session ${sessionId}:`, error);
+    });
+
+  if (watchers.has(sessionId)) {
+    return;
+  }
+
+  findSession(sessionId)
+    .then((session) => {
+      if (!watchers.has(sessionId)) {
+        watchers.create(sessionId, session.dir, () => syncSession(sessionId));
+      }
+
+      // So that the editor knows the types of the MCP tools before any cell runs.
+      return writeSessionMcpHelper(session);
+    })
+    .catch((error) => {
+      console.error(`Error opening session ${sessionId}:`, error);
+    });
+}
+
+async function syncSession(sessionId: string) {
+  let session;
+  try {
+    session = await findSession(sessionId);
+  } catch {
+    // The session was deleted.
+    watchers.close(sessionId);
+    return;
+  }
+
+  const result = await syncSessionFromDisk(session);
+
+  if (result === null) {
+    return;
+  }
+
+  const topic = `session:${sessionId}`;
+  const updatedSession = result.session;
+  const tsserver =
+    updatedSession.language === 'typescript' && tsservers.has(sessionId)
+      ? tsservers.get(sessionId)
+      : null;
+
+  for (const change of result.changes) {
+    const cell = change.cell;
+
+    switch (change.type) {
+      case 'created':
+        wss.broadcast(topic, 'cell:created', { index: change.index, cell });
+        if (tsserver && cell.type === 'code') {
+          tsserver.open({
+            file: pathToCodeFile(updatedSession.dir, cell.filename),
+            fileContent: cell.source,
+          });
+        }
+        break;
+      case 'moved':
+        wss.broadcast(topic, 'cell:moved', { cellId: cell.id, index: change.index });
+        break;
+      case 'updated':
+        wss.broadcast(topic, 'cell:updated', { cell });
+        if (tsserver && cell.type === 'code') {
+          reopenFileInTsServer(tsserver, updatedSession, {
+            openFilename: cell.filename,
+            closeFilename: cell.filename,
+            source: cell.source,
+          });
+        }
+        break;
+      case 'deleted':
+        wss.broadcast(topic, 'cell:deleted', { cellId: cell.id });
+        if (tsserver && cell.type === 'code') {
+          tsserver.close({ file: pathToCodeFile(updatedSession.dir, cell.filename) });
+        }
+        break;
+    }
+  }
+
+  if (result.tsconfig !== null) {
+    tsserver?.reloadProjects();
+    wss.broadcast(topic, 'tsconfig.json:updated', { source: result.tsconfig });
+  }
+
+  if (result.parameters) {
+    broadcastParameters(updatedSession);
+  }
+
+  if (tsserver && (result.changes.length > 0 || result.tsconfig !== null)) {
+    requestAllDiagnostics(tsserver, updatedSession);
+  }
+
+  if (result.changes.length > 0) {
+    await broadcastGraph(sessionId);
+  }
+
+  if (result.conflicts.length > 0) {
+    wss.broadcast(topic, 'session:conflict', {
+      cellIds: result.conflicts.map((cell) => cell.id),
+      snapshotId: result.snapshot?.id ?? null,
+    });
+  }
+}
+
+function toPendingApproval(request: ToolApprovalRequest): MCPPendingApprovalType {
+  return {
+    id: request.id,
+    serverId: request.serverId,
+    toolName: request.toolName,
+    arguments: request.arguments,
+    requestedAt: request.requestedAt.getTime(),
+    expiresAt: request.expiresAt.getTime(),
+  };
+}
+
+function mcpApprovalsJoin(
+  _payload: unknown,
+  context: MessageContextType,
+  conn: ConnectionContextType,
+) {
+  conn.reply(context.topic, 'approvals:updated', {
+    approvals: mcpClientService.getPendingApprovals().map(toPendingApproval),
+  });
+}
+
+mcpClientService.on('approvals', (approvals: ToolApprovalRequest[]) => {
+  wss.broadcast('mcp:approvals', 'approvals:updated', {
+    approvals: approvals.map(toPendingApproval),
+  });
+});
+
+wss.channel('mcp:approvals').onJoin(mcpApprovalsJoin);
+
 wss
   .channel('session:<sessionId>')
+  .onJoin(sessionJoin)
   .on('cell:exec', CellExecPayloadSchema, cellExec)
   .on('cell:stop', CellStopPayloadSchema, cellStop)
   .on('cell:create', CellCreatePayloadSchema, cellCreate)
   .on('cell:update', CellUpdatePayloadSchema, cellUpdate)
   .on('cell:rename', CellRenamePayloadSchema, cellRename)
   .on('cell:delete', CellDeletePayloadSchema, cellDelete)
+  .on('cell:move', CellMovePayloadSchema, cellMove)
   .on('cell:format', CellFormatPayloadSchema, cellFormat)
+  .on('session:run_all', SessionRunAllPayloadSchema, sessionRunAll)
+  .on('session:run_all:stop', SessionRunAllStopPayloadSchema, sessionRunAllStop)
+  .on('session:parameters:set', SessionParametersSetPayloadSchema, sessionParametersSet)
+  .on('session:reactive:set', SessionReactiveSetPayloadSchema, sessionReactiveSet)
+  .on('session:cache:set', SessionCacheSetPayloadSchema, sessionCacheSet)
+  .on('session:cache:invalidate', SessionCacheInvalidatePayloadSchema, sessionCacheInvalidate)
+  .on('session:kernel:set', SessionKernelSetPayloadSchema, sessionKernelSet)
+  .on('session:kernel:restart', SessionKernelRestartPayloadSchema, sessionKernelRestart)
   .on('ai:generate', AiGenerateCellPayloadSchema, cellGenerate)
   .on('ai:fix_diagnostics', AiFixDiagnosticsPayloadSchema, cellFixDiagnostics)
+  .on('ai:generate_cells', AiGenerateCellsPayloadSchema, cellsGenerate)
+  .on('ai:cancel', AiCancelPayloadSchema, aiCancel)
+  .on('ai:chat', AiChatPayloadSchema, aiChat)
+  .on('ai:chat:cancel', AiChatCancelPayloadSchema, aiChatCancel)
   .on('deps:install', DepsInstallPayloadSchema, depsInstall)
   .on('deps:validate', DepsValidatePayloadSchema, depsValidate)
   .on('tsserver:start', TsServerStartPayloadSchema, tsserverStart)
@@ -890,5 +2111,4 @@ wss
     getCompletions,
   );
 
-
 export default wss;
@@ -7,17 +7,27 @@ import type {
   MarkdownCellType,
   PackageJsonCellType,
   CodeCellType,
+  ShellCellType,
+  SqlCellType,
   CellErrorType,
+  CellOutputType,
+  CellExecutionResultType,
+  SnapshotType,
+  CellsDiffMessageType,
+  ParametersType,
+  ParameterValuesType,
 } from '@peragus/shared'; // @ts-ignore
 import {
   TitleCellUpdateAttrsSchema,
   MarkdownCellUpdateAttrsSchema,
   CodeCellUpdateAttrsSchema,
+  ShellCellUpdateAttrsSchema,
+  SqlCellUpdateAttrsSchema,
   PackageJsonCellUpdateAttrsSchema,
   languageFromFilename,
   extensionsForLanguage,
 } from '@peragus/shared'; // @ts-ignore
-import { encode, decodeDir } from './srcmd.mjs';
+import { encode, decode, decodeDir } from './srcmd.mjs';
 import { SRCBOOKS_DIR } from './constants.mjs';
 import type { SessionType } from './types.mjs';
 import {
@@ -25,11 +35,27 @@ import {
   writeCellToDisk,
   writeReadmeToDisk,
   moveCodeCellOnDisk,
+  readOutputsFromDisk,
+  writeOutputsToDisk,
+  removeCodeCellFromDisk,
+  writeParamsToDisk,
 } from './srcbook/index.mjs';
+import { validateParameterValues } from './srcbook/parameters.mjs';
+import { readSnapshot, takeSnapshot, scheduleSnapshot } from './history/snapshots.mjs';
+import { cellContent, diffCells } from './history/diff.mjs';
+import { reconcileCells, type SyncChangeType } from './sync/reconcile.mjs';
+import { recordContents, isKnownContents, lastKnownContents } from './sync/known-contents.mjs';
+import watchers from './watchers.mjs';
+import { revokeSessionToken } from './mcp/session-tokens.mjs';
 import { fileExists } from './fs-utils.mjs';
 // @ts-ignore - ignore import errors during build time
-import { validFilename } from '@peragus/shared'; // @ts-ignore
-import { pathToCodeFile } from './srcbook/path.mjs';
+import { validFilename, validShellFilename, validSqlFilename } from '@peragus/shared'; // @ts-ignore
+import {
+  pathToCodeFile,
+  pathToPackageJson,
+  pathToReadme,
+  pathToTsconfigJson,
+} from './srcbook/path.mjs';
 import { exec } from 'node:child_process';
 import { npmInstall } from './exec.mjs';
 
@@ -61,6 +87,12 @@ export async function createSession(srcbookDir: string) {
     dir: srcbookDir,
     cells: srcbook.cells,
     language: srcbook.language,
+    outputs: await readOutputsFromDisk(srcbookDir),
+    parameterValues: {},
+    kernel: false,
+    reactive: false,
+    staleCellIds: [],
+    cache: false,
     openedAt: Date.now(),
   };
 
@@ -68,14 +100,38 @@ export async function createSession(srcbookDir: string) {
     session['tsconfig.json'] = srcbook['tsconfig.json'];
   }
 
+  // The params module is generated, so it may be missing when parameters were declared by hand.
+  if (srcbook.parameters) {
+    session.parameters = srcbook.parameters;
+    await writeParamsToDisk(srcbookDir, session.language, srcbook.parameters);
+  }
+
   sessions[session.id] = session;
 
+  // The files were just read, so they are in sync with the session.
+  recordContents(pathToReadme(srcbookDir), encodeReadme(session));
+  for (const cell of session.cells) {
+    if (
+      cell.type === 'code' ||
+      cell.type === 'shell' ||
+      cell.type === 'sql' ||
+      cell.type === 'package.json'
+    ) {
+      recordContents(pathToCellFile(srcbookDir, cell), cell.source);
+    }
+  }
+  if (session['tsconfig.json'] !== undefined) {
+    recordContents(pathToTsconfigJson(srcbookDir), session['tsconfig.json']);
+  }
+
   return session;
 }
 
 export async function deleteSessionByDirname(dirName: string) {
   const session = findSessionByDirname(dirName);
   if (session) {
+    watchers.close(session.id);
+    revokeSessionToken(session.id);
     delete sessions[session.id];
   }
 }
@@ -87,7 +143,7 @@ export async function listSessions(): Promise<Record<string, SessionType>> {
 
 export async function addCell(
   session: SessionType,
-  cell: MarkdownCellType | CodeCellType,
+  cell: MarkdownCellType | CodeCellType | ShellCellType | SqlCellType,
   index: number,
 ) {
   const cells = insertCellAt(session, cell, index);
@@ -96,9 +152,11 @@ export async function addCell(
 
   switch (cell.type) {
     case 'markdown':
-      return writeReadmeToDisk(session.dir, session.language, session.cells);
+      return writeReadmeToDisk(session);
     case 'code':
-      return writeCellToDisk(session.dir, session.language, session.cells, cell);
+    case 'shell':
+    case 'sql':
+      return writeCellToDisk(session, cell);
   }
 }
 
@@ -116,17 +174,358 @@ export async function updateSession(
   return updatedSession;
 }
 
-export function exportSrcmdText(session: SessionType) {
+export function exportSrcmdText(session: SessionType, options: { outputs?: boolean } = {}) {
   return encode(
     {
       cells: session.cells,
       language: session.language,
       'tsconfig.json': session['tsconfig.json'],
+      parameters: session.parameters,
+      outputs: session.outputs,
     },
-    { inline: true },
+    { inline: true, outputs: options.outputs },
+  );
+}
+
+/**
+ * Reset the persisted output of a code, shell or SQL cell when it starts executing.
+ */
+export function startCellExecution(
+  session: SessionType,
+  cell: CodeCellType | ShellCellType | SqlCellType,
+) {
+  session.outputs[cell.filename] = {
+    output: [],
+    exitCode: null,
+    startedAt: Date.now(),
+    finishedAt: null,
+  };
+}
+
+export function appendCellOutput(
+  session: SessionType,
+  cell: CodeCellType | ShellCellType | SqlCellType,
+  output: CellOutputType,
+) {
+  const result = session.outputs[cell.filename];
+
+  if (!result) {
+    return;
+  }
+
+  // Merge consecutive chunks of the same stream to keep the persisted output compact.
+  const last = result.output[result.output.length - 1];
+  if (last && last.type !== 'display' && last.type === output.type) {
+    last.data += output.data;
+  } else {
+    result.output.push({ ...output });
+  }
+}
+
+export async function finishCellExecution(
+  session: SessionType,
+  cell: CodeCellType | ShellCellType | SqlCellType,
+  exitCode: number | null,
+  cached = false,
+): Promise<CellExecutionResultType | undefined> {
+  const result = session.outputs[cell.filename];
+
+  if (!result) {
+    return;
+  }
+
+  result.exitCode = exitCode;
+  result.finishedAt = Date.now();
+
+  if (cached) {
+    result.cached = true;
+  }
+
+  try {
+    await writeOutputsToDisk(session.dir, session.outputs);
+  } catch (e) {
+    console.error(`Error persisting cell outputs for session ${session.id}:`, e);
+  }
+
+  return result;
+}
+
+export async function removeCellOutputs(session: SessionType, filename: string) {
+  if (!session.outputs[filename]) {
+    return;
+  }
+
+  delete session.outputs[filename];
+  await writeOutputsToDisk(session.dir, session.outputs);
+}
+
+export async function moveCellOutputs(session: SessionType, oldFilename: string, filename: string) {
+  const result = session.outputs[oldFilename];
+
+  if (!result) {
+    return;
+  }
+
+  delete session.outputs[oldFilename];
+  session.outputs[filename] = result;
+  await writeOutputsToDisk(session.dir, session.outputs);
+}
+
+/**
+ * Replaces the cells of a session with the cells of one of its snapshots.
+ *
+ * The current version is snapshotted first so that restoring can itself be undone.
+ */
+export async function restoreSnapshot(session: SessionType, snapshotId: string) {
+  const result = decode(await readSnapshot(session.dir, snapshotId));
+
+  if (result.error) {
+    console.error(result.errors);
+    throw new Error(`Cannot restore invalid snapshot '${snapshotId}'`);
+  }
+
+  await takeSnapshot(session.dir, 'restore');
+
+  return replaceCells(session, result.srcbook.cells);
+}
+
+/**
+ * Replaces the cells of a session with the edits proposed in its AI chat.
+ *
+ * The edits are only applied if the srcbook did not change since they were proposed,
+ * as they would undo those changes otherwise.
+ */
+export async function applyChatEdits(session: SessionType, edits: CellsDiffMessageType) {
+  const version = decode(await readSnapshot(session.dir, edits.version));
+  const result = decode(edits.srcmd);
+
+  if (version.error || result.error) {
+    throw new Error(`Cannot apply invalid edits of plan '${edits.planId}'`);
+  }
+
+  if (diffCells(version.srcbook.cells, session.cells).length > 0) {
+    throw new Error('The srcbook changed since the edits were proposed');
+  }
+
+  await takeSnapshot(session.dir, 'ai');
+
+  return replaceCells(session, result.srcbook.cells);
+}
+
+async function replaceCells(session: SessionType, cells: CellType[]) {
+  const filenames = new Set(
+    cells.map((cell) =>
+      cell.type === 'code' || cell.type === 'shell' || cell.type === 'sql' ? cell.filename : null,
+    ),
+  );
+
+  // Code files of cells that no longer exist are left behind otherwise.
+  await Promise.all(
+    session.cells
+      .filter(
+        (cell): cell is CodeCellType | ShellCellType | SqlCellType =>
+          (cell.type === 'code' || cell.type === 'shell' || cell.type === 'sql') &&
+          !filenames.has(cell.filename),
+      )
+      .map((cell) => removeCodeCellFromDisk(session.dir, cell.filename)),
+  );
+
+  return updateSession(session, { cells });
+}
+
+// What writeReadmeToDisk writes for the session's cells.
+function encodeReadme(session: Pick<SessionType, 'cells' | 'language' | 'parameters'>) {
+  return encode(
+    { cells: session.cells, language: session.language, parameters: session.parameters },
+    { inline: false },
   );
 }
 
+function pathToCellFile(
+  srcbookDir: string,
+  cell: CodeCellType | ShellCellType | SqlCellType | PackageJsonCellType,
+) {
+  return cell.type === 'package.json'
+    ? pathToPackageJson(srcbookDir)
+    : pathToCodeFile(srcbookDir, cell.filename);
+}
+
+type FileStatusType = 'same' | 'stale' | 'changed' | 'conflict';
+
+/**
+ * Compares a file of a srcbook on disk with what the session would write to it.
+ */
+function fileStatus(path: string, diskContents: string, sessionContents: string): FileStatusType {
+  if (diskContents === sessionContents) {
+    return 'same';
+  }
+
+  // One of our own writes, which a more recent one is about to replace.
+  if (isKnownContents(path, diskContents)) {
+    return 'stale';
+  }
+
+  // Changed outside of the app. If the session changed since our last write, both sides did.
+  const last = lastKnownContents(path);
+  return last === undefined || last === sessionContents ? 'changed' : 'conflict';
+}
+
+export type SessionSyncResultType = {
+  session: SessionType;
+  changes: SyncChangeType[];
+  conflicts: CellType[];
+  // The new tsconfig.json contents, if it changed.
+  tsconfig: string | null;
+  // Whether the parameters declared in the README changed.
+  parameters: boolean;
+  // The snapshot holding the disk's version of the conflicting cells.
+  snapshot: SnapshotType | null;
+};
+
+/**
+ * Brings a session up to date with changes made to its files outside of the app,
+ * e.g. by the MCP server or a text editor.
+ *
+ * When a cell changed on both sides, the session's version is kept and written back,
+ * after the disk's version was snapshotted so that it can be restored from history.
+ *
+ * Resolves with null if the files cannot be decoded, e.g. while they are being written.
+ */
+export async function syncSessionFromDisk(
+  session: SessionType,
+): Promise<SessionSyncResultType | null> {
+  const readmePath = pathToReadme(session.dir);
+  let readme: string;
+
+  try {
+    readme = await fs.readFile(readmePath, 'utf8');
+  } catch {
+    return null;
+  }
+
+  const result = await decodeDir(session.dir);
+
+  if (result.error) {
+    return null;
+  }
+
+  const srcbook = result.srcbook;
+  const readmeStatus = fileStatus(readmePath, readme, encodeReadme(session));
+
+  const { cells, changes, conflicts } = reconcileCells(session.cells, srcbook.cells, {
+    applyOrder: readmeStatus === 'changed',
+    resolve(sessionCell, diskCell) {
+      const status =
+        sessionCell.type === 'code' ||
+        sessionCell.type === 'shell' ||
+        sessionCell.type === 'sql' ||
+        sessionCell.type === 'package.json'
+          ? fileStatus(
+              pathToCellFile(session.dir, sessionCell),
+              cellContent(diskCell),
+              sessionCell.source,
+            )
+          : readmeStatus;
+
+      return status === 'changed' ? 'apply' : status === 'conflict' ? 'conflict' : 'keep';
+    },
+  });
+
+  // The session is in sync with what was applied.
+  if (readmeStatus === 'changed') {
+    recordContents(readmePath, readme);
+  }
+  for (const change of changes) {
+    const cell = change.cell;
+    if (
+      change.type !== 'deleted' &&
+      (cell.type === 'code' ||
+        cell.type === 'shell' ||
+        cell.type === 'sql' ||
+        cell.type === 'package.json')
+    ) {
+      recordContents(pathToCellFile(session.dir, cell), cell.source);
+    }
+  }
+
+  // Unlike cells, tsconfig.json is not edited continuously, so there is no conflict
+  // handling: a change on disk is applied, unless a write of ours is about to replace it.
+  let tsconfig: string | null = null;
+  const tsconfigPath = pathToTsconfigJson(session.dir);
+  if (
+    srcbook['tsconfig.json'] !== undefined &&
+    session['tsconfig.json'] !== undefined &&
+    fileStatus(tsconfigPath, srcbook['tsconfig.json'], session['tsconfig.json']) === 'changed'
+  ) {
+    tsconfig = srcbook['tsconfig.json'];
+    recordContents(tsconfigPath, tsconfig);
+  }
+
+  const parameters =
+    readmeStatus === 'changed' &&
+    JSON.stringify(srcbook.parameters ?? {}) !== JSON.stringify(session.parameters ?? {});
+
+  if (changes.length === 0 && conflicts.length === 0 && tsconfig === null && !parameters) {
+    return { session, changes, conflicts, tsconfig, parameters, snapshot: null };
+  }
+
+  const snapshot = conflicts.length > 0 ? await takeSnapshot(session.dir, 'conflict') : null;
+
+  const updates: Partial<SessionType> = { cells };
+  if (tsconfig !== null) {
+    updates['tsconfig.json'] = tsconfig;
+  }
+  if (parameters) {
+    updates.parameters = srcbook.parameters;
+    updates.parameterValues = validParameterValues(srcbook.parameters, session.parameterValues);
+  }
+
+  const updatedSession = await updateSession(session, updates, conflicts.length > 0);
+
+  if (parameters && srcbook.parameters) {
+    await writeParamsToDisk(session.dir, session.language, srcbook.parameters);
+  }
+
+  for (const change of changes) {
+    if (
+      change.type === 'deleted' &&
+      (change.cell.type === 'code' || change.cell.type === 'shell' || change.cell.type === 'sql')
+    ) {
+      await removeCellOutputs(updatedSession, change.cell.filename);
+    }
+  }
+
+  // Writing the README is what snapshots edits made in the app.
+  if (conflicts.length === 0) {
+    scheduleSnapshot(session.dir);
+  }
+
+  return { session: updatedSession, changes, conflicts, tsconfig, parameters, snapshot };
+}
+
+// The values that still override a parameter of their type once parameters changed.
+function validParameterValues(
+  parameters: ParametersType | undefined,
+  values: ParameterValuesType,
+): ParameterValuesType {
+  return Object.fromEntries(
+    Object.entries(values).filter(([name, value]) => typeof value === parameters?.[name]?.type),
+  );
+}
+
+/**
+ * Sets the values overriding the defaults of parameters in the next runs of cells.
+ */
+export async function updateParameterValues(session: SessionType, values: ParameterValuesType) {
+  const errors = validateParameterValues(session.parameters, values);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid parameter values: ${errors.join(', ')}`);
+  }
+
+  return updateSession(session, { parameterValues: values }, false);
+}
+
 export async function findSession(id: string): Promise<SessionType> {
   if (!sessions[id]) {
     throw new Error(`Session with id ${id} not found`);
@@ -165,7 +564,7 @@ function updateTitleCell(session: SessionType, cell: TitleCellType, updates: any
   const attrs = TitleCellUpdateAttrsSchema.parse(updates);
   return updateCellWithRollback(session, cell, attrs, async (session) => {
     try {
-      await writeReadmeToDisk(session.dir, session.language, session.cells);
+      await writeReadmeToDisk(session);
     } catch (e) {
       console.error(e);
       return [{ message: 'An error occurred persisting files to disk' }];
@@ -177,7 +576,7 @@ function updateMarkdownCell(session: SessionType, cell: MarkdownCellType, update
   const attrs = MarkdownCellUpdateAttrsSchema.parse(updates);
   return updateCellWithRollback(session, cell, attrs, async (session) => {
     try {
-      await writeReadmeToDisk(session.dir, session.language, session.cells);
+      await writeReadmeToDisk(session);
     } catch (e) {
       console.error(e);
       return [{ message: 'An error occurred persisting files to disk' }];
@@ -189,12 +588,7 @@ function updatePackageJsonCell(session: SessionType, cell: PackageJsonCellType,
   const attrs = PackageJsonCellUpdateAttrsSchema.parse(updates);
   return updateCellWithRollback(session, cell, attrs, async (session, updatedCell) => {
     try {
-      await writeCellToDisk(
-        session.dir,
-        session.language,
-        session.cells,
-        updatedCell as PackageJsonCellType,
-      );
+      await writeCellToDisk(session, updatedCell as PackageJsonCellType);
     } catch (e) {
       console.error(e);
       return [{ message: 'An error occurred persisting files to disk' }];
@@ -210,12 +604,7 @@ async function updateCodeCell(
   const attrs = CodeCellUpdateAttrsSchema.parse(updates);
   return updateCellWithRollback(session, cell, { ...attrs }, async (session, updatedCell) => {
     try {
-      await writeCellToDisk(
-        session.dir,
-        session.language,
-        session.cells,
-        updatedCell as CodeCellType,
-      );
+      await writeCellToDisk(session, updatedCell as CodeCellType);
     } catch (e) {
       console.error(e);
       return [{ message: 'An error occurred persisting files to disk' }];
@@ -223,12 +612,47 @@ async function updateCodeCell(
   });
 }
 
+function updateShellCell(session: SessionType, cell: ShellCellType, updates: CellUpdateAttrsType) {
+  const attrs = ShellCellUpdateAttrsSchema.parse(updates);
+  return updateCellWithRollback(session, cell, attrs, async (session, updatedCell) => {
+    try {
+      await writeCellToDisk(session, updatedCell as ShellCellType);
+    } catch (e) {
+      console.error(e);
+      return [{ message: 'An error occurred persisting files to disk' }];
+    }
+  });
+}
+
+function updateSqlCell(session: SessionType, cell: SqlCellType, updates: CellUpdateAttrsType) {
+  const attrs = SqlCellUpdateAttrsSchema.parse(updates);
+  return updateCellWithRollback(session, cell, attrs, async (session, updatedCell) => {
+    try {
+      await writeCellToDisk(session, updatedCell as SqlCellType);
+    } catch (e) {
+      console.error(e);
+      return [{ message: 'An error occurred persisting files to disk' }];
+    }
+  });
+}
+
+function validCellFilename(cell: CodeCellType | ShellCellType | SqlCellType, filename: string) {
+  switch (cell.type) {
+    case 'shell':
+      return validShellFilename(filename);
+    case 'sql':
+      return validSqlFilename(filename);
+    default:
+      return validFilename(filename);
+  }
+}
+
 /**
- * Use this to rename a code cell's filename.
+ * Use this to rename a code, shell or SQL cell's filename.
  */
 export async function updateCodeCellFilename(
   session: SessionType,
-  cell: CodeCellType,
+  cell: CodeCellType | ShellCellType | SqlCellType,
   filename: string,
 ): Promise<UpdateResultType> {
   if (filename === cell.filename) {
@@ -238,14 +662,14 @@ export async function updateCodeCellFilename(
     return { success: true, cell };
   }
 
-  if (!validFilename(filename)) {
+  if (!validCellFilename(cell, filename)) {
     return {
       success: false,
       errors: [{ message: `${filename} is not a valid filename`, attribute: 'filename' }],
     };
   }
 
-  if (session.language !== languageFromFilename(filename)) {
+  if (cell.type === 'code' && session.language !== languageFromFilename(filename)) {
     return {
       success: false,
       errors: [
@@ -267,10 +691,8 @@ export async function updateCodeCellFilename(
   return updateCellWithRollback(session, cell, { filename }, async (session, updatedCell) => {
     try {
       await moveCodeCellOnDisk(
-        session.dir,
-        session.language,
-        session.cells,
-        updatedCell as CodeCellType,
+        session,
+        updatedCell as CodeCellType | ShellCellType | SqlCellType,
         cell.filename,
       );
     } catch (e) {
@@ -290,6 +712,10 @@ export function updateCell(session: SessionType, cell: CellType, updates: CellUp
       return updatePackageJsonCell(session, cell, updates);
     case 'code':
       return updateCodeCell(session, cell, updates);
+    case 'shell':
+      return updateShellCell(session, cell, updates);
+    case 'sql':
+      return updateSqlCell(session, cell, updates);
   }
 }
 async function ensurePrettierInstalled(dir: string): Promise<boolean> {
@@ -357,10 +783,20 @@ export async function formatAndUpdateCodeCell(session: SessionType, cell: CodeCe
   }
 }
 export function sessionToResponse(session: SessionType) {
-  const result: Pick<SessionType, 'id' | 'cells' | 'language' | 'tsconfig.json' | 'openedAt'> = {
+  const result: Pick<
+    SessionType,
+    'id' | 'cells' | 'language' | 'tsconfig.json' | 'parameterValues' | 'kernel' | 'openedAt'
+  > & {
+    parameters: ParametersType;
+    outputs: Record<string, CellExecutionResultType>;
+  } = {
     id: session.id,
     cells: session.cells,
     language: session.language,
+    outputs: outputsByCellId(session),
+    parameters: session.parameters ?? {},
+    parameterValues: session.parameterValues,
+    kernel: session.kernel,
     openedAt: session.openedAt,
   };
 
@@ -371,6 +807,24 @@ export function sessionToResponse(session: SessionType) {
   return result;
 }
 
+/**
+ * Outputs are stored by filename, but clients reference cells by id.
+ */
+function outputsByCellId(session: SessionType) {
+  const outputs: Record<string, CellExecutionResultType> = {};
+
+  for (const cell of session.cells) {
+    if (
+      (cell.type === 'code' || cell.type === 'shell' || cell.type === 'sql') &&
+      session.outputs[cell.filename]
+    ) {
+      outputs[cell.id] = session.outputs[cell.filename]!;
+    }
+  }
+
+  return outputs;
+}
+
 export async function readPackageJsonContentsFromDisk(session: SessionType) {
   return fs.readFile(Path.join(session.dir, 'package.json'), { encoding: 'utf8' });
 }
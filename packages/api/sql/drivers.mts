@@ -0,0 +1,92 @@
+import type { ChildProcess } from 'node:child_process';
+import { sqliteDriver } from './sqlite.mjs';
+
+/**
+ * What a query resolves with. Statements that do not return rows have no columns,
+ * and report the number of rows they changed when the database tells.
+ */
+export type SqlResultType = {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  changes: number | null;
+};
+
+export type SqlQueryRequestType = {
+  cwd: string;
+  /**
+   * The connection string without its scheme, e.g. `./data.db` for `sqlite:./data.db`.
+   */
+  database: string;
+  sql: string;
+  env: NodeJS.ProcessEnv;
+};
+
+/**
+ * Runs the SQL of cells against one kind of database.
+ *
+ * Queries run in a child process, so that a slow query does not block the server
+ * and can be stopped like any other cell. The process prints the JSON of its
+ * `SqlResultType` to stdout and exits with a non-zero code when the query fails.
+ */
+export interface SqlDriver {
+  /**
+   * The scheme of the connection strings this driver handles, e.g. `sqlite`.
+   */
+  readonly scheme: string;
+  spawn(request: SqlQueryRequestType): ChildProcess;
+}
+
+const drivers = new Map<string, SqlDriver>();
+
+export function registerSqlDriver(driver: SqlDriver) {
+  drivers.set(driver.scheme, driver);
+}
+
+export function supportedSqlSchemes() {
+  return [...drivers.keys()];
+}
+
+/**
+ * Finds the driver of a connection string, e.g. `sqlite:./data.db`.
+ *
+ * Connection strings can reference the secrets of the session as `${NAME}`,
+ * so that credentials are not written in the srcbook.
+ */
+export function resolveSqlConnection(connection: string, secrets: Record<string, string>) {
+  const expanded = connection.trim().replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name) => {
+    const value = secrets[name];
+    if (value === undefined) {
+      throw new Error(`The connection references the secret ${name}, which is not set`);
+    }
+    return value;
+  });
+
+  const index = expanded.indexOf(':');
+  const scheme = index === -1 ? '' : expanded.slice(0, index);
+  const driver = drivers.get(scheme);
+
+  if (!driver) {
+    throw new Error(
+      `Unsupported connection '${connection}'. Connections must start with one of: ${supportedSqlSchemes()
+        .map((scheme) => `${scheme}:`)
+        .join(', ')}`,
+    );
+  }
+
+  return { driver, database: expanded.slice(index + 1) };
+}
+
+/**
+ * Parses what the process of a driver printed.
+ */
+export function parseSqlResult(stdout: string): SqlResultType {
+  const result = JSON.parse(stdout);
+
+  return {
+    columns: Array.isArray(result.columns) ? result.columns : [],
+    rows: Array.isArray(result.rows) ? result.rows : [],
+    changes: typeof result.changes === 'number' ? result.changes : null,
+  };
+}
+
+registerSqlDriver(sqliteDriver);
@@ -0,0 +1,69 @@
+import type { CodeLanguageType } from '@peragus/shared';
+import type { SqlResultType } from './drivers.mjs';
+
+/**
+ * The module, next to the code cells in src/, exposing the rows of the last run of a
+ * SQL cell to code cells. It cannot clash with a code cell, as their names have no dot.
+ *
+ *     import rows from './users.results.mjs';
+ */
+export function sqlResultsFilename(filename: string, language: CodeLanguageType) {
+  const basename = filename.replace(/\.sql$/, '');
+  return `${basename}.results.${language === 'typescript' ? 'ts' : 'mjs'}`;
+}
+
+function typeOfValue(value: unknown) {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+
+  switch (typeof value) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return typeof value;
+    default:
+      return 'unknown';
+  }
+}
+
+// The type of each column is the union of the types of its values.
+function rowType(result: SqlResultType) {
+  const fields = result.columns.map((column) => {
+    const types = new Set(result.rows.map((row) => typeOfValue(row[column])));
+    const type = types.has('unknown') || types.size === 0 ? 'unknown' : [...types].join(' | ');
+    return `  ${JSON.stringify(column)}: ${type};`;
+  });
+
+  return fields.length === 0 ? 'Record<string, unknown>' : `{\n${fields.join('\n')}\n}`;
+}
+
+export function encodeSqlResultsModule(
+  filename: string,
+  result: SqlResultType,
+  language: CodeLanguageType,
+) {
+  const header = `// Generated from the last run of ${filename}, do not edit.`;
+  const columns = `export const columns = ${JSON.stringify(result.columns)};`;
+
+  if (language === 'typescript') {
+    return (
+      [
+        header,
+        `export type Row = ${rowType(result)};`,
+        columns,
+        `export const rows: Row[] = ${JSON.stringify(result.rows, null, 2)};`,
+        'export default rows;',
+      ].join('\n\n') + '\n'
+    );
+  }
+
+  return (
+    [
+      header,
+      columns,
+      `export const rows = ${JSON.stringify(result.rows, null, 2)};`,
+      'export default rows;',
+    ].join('\n\n') + '\n'
+  );
+}
@@ -0,0 +1,83 @@
+import { spawn } from 'node:child_process';
+import { createRequire } from 'node:module';
+import type Module from 'node:module';
+import type { SqlDriver, SqlQueryRequestType } from './drivers.mjs';
+
+/**
+ * Entry point of the process running a query against a SQLite file.
+ *
+ * This function is serialized and evaluated with `node --input-type=module -e`,
+ * so it must not reference anything outside of its own body. It is given the path
+ * of better-sqlite3 and of the database as arguments, and reads the SQL from stdin.
+ */
+export async function sqliteMain() {
+  // Created through Function so that tools transforming this file at build
+  // time or in development do not rewrite the dynamic import.
+  const load = new Function('specifier', 'return import(specifier)') as <T = unknown>(
+    specifier: string,
+  ) => Promise<T>;
+
+  const { createRequire } = await load<typeof Module>('node:module');
+  const [modulePath, database] = process.argv.slice(-2) as [string, string];
+  const Database = createRequire(modulePath)(modulePath);
+
+  let sql = '';
+  for await (const chunk of process.stdin) {
+    sql += chunk;
+  }
+
+  try {
+    const db = new Database(database);
+
+    try {
+      let result;
+
+      try {
+        const statement = db.prepare(sql);
+        result = statement.reader
+          ? {
+              columns: statement.columns().map((column: { name: string }) => column.name),
+              rows: statement.all(),
+              changes: null,
+            }
+          : { columns: [], rows: [], changes: statement.run().changes };
+      } catch (e) {
+        // Scripts of several statements run as a whole, without results.
+        if (!(e instanceof Error) || !e.message.includes('more than one statement')) {
+          throw e;
+        }
+        db.exec(sql);
+        result = { columns: [], rows: [], changes: null };
+      }
+
+      process.stdout.write(JSON.stringify(result));
+    } finally {
+      db.close();
+    }
+  } catch (e) {
+    process.stderr.write(`${e instanceof Error ? e.message : String(e)}\n`);
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Runs queries against SQLite files, e.g. `sqlite:./data.db` for a file relative to
+ * the srcbook directory, or `sqlite::memory:` for an empty in-memory database.
+ */
+export const sqliteDriver: SqlDriver = {
+  scheme: 'sqlite',
+
+  spawn({ cwd, database, sql, env }: SqlQueryRequestType) {
+    const modulePath = createRequire(import.meta.url).resolve('better-sqlite3');
+
+    const child = spawn(
+      'node',
+      ['--input-type=module', '-e', `(${sqliteMain.toString()})()`, modulePath, database],
+      { cwd, env },
+    );
+
+    child.stdin.end(sql);
+
+    return child;
+  },
+};
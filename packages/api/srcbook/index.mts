@@ -5,6 +5,10 @@ import type {
   CodeCellType,
   CodeLanguageType,
   PackageJsonCellType,
+  ShellCellType,
+  SqlCellType,
+  CellExecutionResultType,
+  ParametersType,
 } from '@peragus/shared'; // @ts-ignore
 // @ts-ignore - ignore import errors during build time
 import { randomid } from '@peragus/shared'; // @ts-ignore
@@ -15,6 +19,7 @@ import { SRCBOOKS_DIR } from '../constants.mjs';
 import { EXAMPLE_SRCBOOKS } from '../srcbook/examples.mjs';
 import {
   pathToCodeFile,
+  pathToOutputs,
   pathToPackageJson,
   pathToReadme,
   pathToSrcbook,
@@ -23,31 +28,52 @@ import {
 import { buildJSPackageJson, buildTSPackageJson, buildTsconfigJson } from './config.mjs';
 import type { SessionType } from '../types.mjs';
 import { getSecretsAssociatedWithSession } from '../config.mjs';
+import { scheduleSnapshot, cancelSnapshot } from '../history/snapshots.mjs';
+import { recordContents, forgetContents } from '../sync/known-contents.mjs';
+import type { SqlResultType } from '../sql/drivers.mjs';
+import { encodeSqlResultsModule, sqlResultsFilename } from '../sql/results.mjs';
+import { encodeParamsModule, paramsFilename } from './parameters.mjs';
+
+// The files of a srcbook are written through here, so that its
+// watcher can tell our own writes from changes made elsewhere.
+function writeSrcbookFile(path: string, contents: string) {
+  recordContents(path, contents);
+  return fs.writeFile(path, contents, { encoding: 'utf8' });
+}
 
-function writeCellOnlyToDisk(srcbookDir: string, cell: PackageJsonCellType | CodeCellType) {
+function writeCellOnlyToDisk(
+  srcbookDir: string,
+  cell: PackageJsonCellType | CodeCellType | ShellCellType | SqlCellType,
+) {
   const path =
     cell.type === 'package.json'
       ? pathToPackageJson(srcbookDir)
       : pathToCodeFile(srcbookDir, cell.filename);
 
-  return fs.writeFile(path, cell.source, { encoding: 'utf8' });
+  return writeSrcbookFile(path, cell.source);
 }
 
-export function writeToDisk(
-  srcbook: Pick<SessionType, 'dir' | 'cells' | 'language' | 'tsconfig.json'>,
-) {
-  const writes = [writeReadmeToDisk(srcbook.dir, srcbook.language, srcbook.cells)];
+// What is written to the README of a srcbook.
+type ReadmeType = Pick<SessionType, 'dir' | 'cells' | 'language' | 'parameters'>;
+
+export function writeToDisk(srcbook: ReadmeType & Pick<SessionType, 'tsconfig.json'>) {
+  const writes = [writeReadmeToDisk(srcbook)];
 
   if (srcbook['tsconfig.json']) {
-    writes.push(
-      fs.writeFile(pathToTsconfigJson(srcbook.dir), srcbook['tsconfig.json'], {
-        encoding: 'utf8',
-      }),
-    );
+    writes.push(writeSrcbookFile(pathToTsconfigJson(srcbook.dir), srcbook['tsconfig.json']));
+  }
+
+  if (srcbook.parameters) {
+    writes.push(writeParamsToDisk(srcbook.dir, srcbook.language, srcbook.parameters));
   }
 
   for (const cell of srcbook.cells) {
-    if (cell.type === 'package.json' || cell.type === 'code') {
+    if (
+      cell.type === 'package.json' ||
+      cell.type === 'code' ||
+      cell.type === 'shell' ||
+      cell.type === 'sql'
+    ) {
       writes.push(writeCellOnlyToDisk(srcbook.dir, cell));
     }
   }
@@ -56,40 +82,78 @@ export function writeToDisk(
 }
 
 export function writeCellToDisk(
-  srcbookDir: string,
-  language: CodeLanguageType,
-  cells: CellType[],
-  cell: PackageJsonCellType | CodeCellType,
+  srcbook: ReadmeType,
+  cell: PackageJsonCellType | CodeCellType | ShellCellType | SqlCellType,
 ) {
   // Readme must also be updated
-  return Promise.all([
-    writeReadmeToDisk(srcbookDir, language, cells),
-    writeCellOnlyToDisk(srcbookDir, cell),
-  ]);
+  return Promise.all([writeReadmeToDisk(srcbook), writeCellOnlyToDisk(srcbook.dir, cell)]);
 }
 
 export function moveCodeCellOnDisk(
-  srcbookDir: string,
-  language: CodeLanguageType,
-  cells: CellType[],
-  cell: CodeCellType,
+  srcbook: ReadmeType,
+  cell: CodeCellType | ShellCellType | SqlCellType,
   oldFilename: string,
 ) {
   return Promise.all([
-    writeReadmeToDisk(srcbookDir, language, cells),
-    fs.unlink(pathToCodeFile(srcbookDir, oldFilename)),
-    fs.writeFile(pathToCodeFile(srcbookDir, cell.filename), cell.source, { encoding: 'utf8' }),
+    writeReadmeToDisk(srcbook),
+    fs.unlink(pathToCodeFile(srcbook.dir, oldFilename)),
+    writeSrcbookFile(pathToCodeFile(srcbook.dir, cell.filename), cell.source),
   ]);
 }
 
-export function writeReadmeToDisk(
+export function writeReadmeToDisk(srcbook: ReadmeType) {
+  // Every change to a srcbook goes through its README, so this is where history is kept.
+  scheduleSnapshot(srcbook.dir);
+
+  return writeSrcbookFile(
+    pathToReadme(srcbook.dir),
+    encode(
+      { cells: srcbook.cells, language: srcbook.language, parameters: srcbook.parameters },
+      { inline: false },
+    ),
+  );
+}
+
+/**
+ * Writes the module exposing the parameters of a srcbook to its cells.
+ */
+export function writeParamsToDisk(
   srcbookDir: string,
   language: CodeLanguageType,
-  cells: CellType[],
+  parameters: ParametersType,
 ) {
-  return fs.writeFile(pathToReadme(srcbookDir), encode({ cells, language }, { inline: false }), {
-    encoding: 'utf8',
-  });
+  return writeSrcbookFile(
+    pathToCodeFile(srcbookDir, paramsFilename(language)),
+    encodeParamsModule(parameters, language),
+  );
+}
+
+/**
+ * Reads the persisted cell outputs of a srcbook, keyed by code cell filename.
+ * Srcbooks that have never been run have no outputs file.
+ */
+export async function readOutputsFromDisk(
+  srcbookDir: string,
+): Promise<Record<string, CellExecutionResultType>> {
+  try {
+    const contents = await fs.readFile(pathToOutputs(srcbookDir), 'utf8');
+    return JSON.parse(contents);
+  } catch (e) {
+    const error = e as NodeJS.ErrnoException;
+    if (error.code !== 'ENOENT') {
+      console.error(`Error reading cell outputs for ${srcbookDir}: ${error.message}`);
+    }
+    return {};
+  }
+}
+
+export async function writeOutputsToDisk(
+  srcbookDir: string,
+  outputs: Record<string, CellExecutionResultType>,
+) {
+  const outputsPath = pathToOutputs(srcbookDir);
+  await fs.mkdir(Path.dirname(outputsPath), { recursive: true });
+  return fs.writeFile(outputsPath, JSON.stringify(outputs), { encoding: 'utf8' });
 }
 
 /**
@@ -139,12 +203,17 @@ export async function importSrcbookFromSrcmdText(text: string, directoryBasename
       dir: dirname,
       cells: srcbook.cells,
       language: srcbook.language,
+      parameters: srcbook.parameters,
       'tsconfig.json': tsconfig,
     });
   } else {
     await writeToDisk({ dir: dirname, ...srcbook });
   }
 
+  if (srcbook.outputs) {
+    await writeOutputsToDisk(dirname, srcbook.outputs);
+  }
+
   return dirname;
 }
 
@@ -223,6 +292,8 @@ function buildPackageJson(language: CodeLanguageType) {
 }
 
 export function removeSrcbook(srcbookDir: string) {
+  cancelSnapshot(srcbookDir);
+  forgetContents(srcbookDir);
   fs.rm(srcbookDir, { recursive: true });
 }
 
@@ -230,6 +301,51 @@ export function removeCodeCellFromDisk(srcbookDir: string, filename: string) {
   return fs.rm(pathToCodeFile(srcbookDir, filename));
 }
 
+/**
+ * Writes the results of the last run of a SQL cell as a module code cells can import.
+ */
+export function writeSqlResultsToDisk(
+  srcbookDir: string,
+  language: CodeLanguageType,
+  cell: SqlCellType,
+  result: SqlResultType,
+) {
+  return fs.writeFile(
+    pathToCodeFile(srcbookDir, sqlResultsFilename(cell.filename, language)),
+    encodeSqlResultsModule(cell.filename, result, language),
+    { encoding: 'utf8' },
+  );
+}
+
+export function removeSqlResultsFromDisk(
+  srcbookDir: string,
+  language: CodeLanguageType,
+  filename: string,
+) {
+  return fs.rm(pathToCodeFile(srcbookDir, sqlResultsFilename(filename, language)), {
+    force: true,
+  });
+}
+
+export async function moveSqlResultsOnDisk(
+  srcbookDir: string,
+  language: CodeLanguageType,
+  oldFilename: string,
+  filename: string,
+) {
+  try {
+    await fs.rename(
+      pathToCodeFile(srcbookDir, sqlResultsFilename(oldFilename, language)),
+      pathToCodeFile(srcbookDir, sqlResultsFilename(filename, language)),
+    );
+  } catch (e) {
+    // Cells that were never run have no results.
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw e;
+    }
+  }
+}
+
 export async function updateSessionEnvTypeDeclarations(sessionId: string) {
   const sessionSecrets = await getSecretsAssociatedWithSession(sessionId);
   if (!Object.entries(sessionSecrets).length) return;
@@ -257,5 +373,13 @@ declare var process: {
   env: NodeJS.ProcessEnv;
 };
 
+declare var display: {
+  (mimeType: string, data: unknown): void;
+  html(html: string): void;
+  json(value: unknown): void;
+  table(data: object, columns?: string[]): void;
+  image(png: Uint8Array | string): void;
+};
+
   `;
 }
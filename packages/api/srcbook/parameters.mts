@@ -0,0 +1,113 @@
+import type { CodeLanguageType, ParametersType, ParameterValuesType } from '@peragus/shared';
+
+/**
+ * The environment variable carrying the values overriding the defaults of
+ * parameters, as JSON, to the processes and kernels running cells.
+ */
+export const PARAMETERS_ENV_VAR = 'SRCBOOK_PARAMETERS';
+
+/**
+ * The module, next to the code cells in src/, exposing the parameters of a srcbook.
+ *
+ *     import { params } from './params.mjs';
+ */
+export function paramsFilename(language: CodeLanguageType) {
+  return language === 'typescript' ? 'params.ts' : 'params.mjs';
+}
+
+/**
+ * Generates the params module of a srcbook.
+ *
+ * Values are read from the environment every time a parameter is accessed, rather than
+ * once when the module is evaluated, as a kernel only evaluates it once for all runs.
+ */
+export function encodeParamsModule(parameters: ParametersType, language: CodeLanguageType) {
+  const typescript = language === 'typescript';
+
+  const getters = Object.entries(parameters).map(([name, parameter]) => {
+    const returnType = typescript ? `: ${parameter.type}` : '';
+    const lines = [
+      `  get ${name}()${returnType} {`,
+      `    return value(${JSON.stringify(name)}, ${JSON.stringify(parameter.default)});`,
+      '  },',
+    ];
+    return parameter.description
+      ? [`  /** ${parameter.description.replaceAll('*/', '*\\/')} */`, ...lines]
+      : lines;
+  });
+
+  return [
+    '// Generated from the parameters of the srcbook, do not edit.',
+    '',
+    typescript
+      ? `function value<T>(name: string, defaultValue: T): T {`
+      : `function value(name, defaultValue) {`,
+    `  const values = JSON.parse(process.env.${PARAMETERS_ENV_VAR} || '{}');`,
+    '  return Object.hasOwn(values, name) ? values[name] : defaultValue;',
+    '}',
+    '',
+    'export const params = {',
+    ...getters.flat(),
+    '};',
+    '',
+    'export default params;',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Checks that values override declared parameters, with a value of their type.
+ */
+export function validateParameterValues(
+  parameters: ParametersType | undefined,
+  values: ParameterValuesType,
+) {
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(values)) {
+    const parameter = parameters && Object.hasOwn(parameters, name) ? parameters[name] : undefined;
+
+    if (!parameter) {
+      errors.push(`Unknown parameter '${name}'`);
+    } else if (typeof value !== parameter.type) {
+      errors.push(`Parameter '${name}' must be a ${parameter.type}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Converts values given as text, e.g. on the command line, to the type of their parameter.
+ *
+ * Text that is not a value of that type is kept as is, for `validateParameterValues`
+ * to report, as are values of unknown parameters.
+ */
+export function parseParameterValues(
+  parameters: ParametersType | undefined,
+  values: Record<string, string>,
+): ParameterValuesType {
+  const parsed: ParameterValuesType = {};
+
+  for (const [name, text] of Object.entries(values)) {
+    switch (parameters?.[name]?.type) {
+      case 'number': {
+        const value = Number(text);
+        parsed[name] = text.trim() !== '' && Number.isFinite(value) ? value : text;
+        break;
+      }
+      case 'boolean':
+        parsed[name] = text === 'true' ? true : text === 'false' ? false : text;
+        break;
+      default:
+        parsed[name] = text;
+    }
+  }
+
+  return parsed;
+}
+
+// Always set, so that values cleared since a kernel last ran a cell do not linger in its env.
+export function parametersEnv(values: ParameterValuesType): Record<string, string> {
+  return { [PARAMETERS_ENV_VAR]: JSON.stringify(values) };
+}
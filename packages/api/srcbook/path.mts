@@ -17,6 +17,22 @@ export function pathToTsconfigJson(baseDir: string) {
   return Path.join(baseDir, 'tsconfig.json');
 }
 
+export function pathToOutputs(baseDir: string) {
+  return Path.join(baseDir, '.srcbook', 'outputs.json');
+}
+
+export function pathToHistory(baseDir: string) {
+  return Path.join(baseDir, '.srcbook', 'history');
+}
+
+export function pathToCache(baseDir: string) {
+  return Path.join(baseDir, '.srcbook', 'cache');
+}
+
+export function pathToChat(baseDir: string) {
+  return Path.join(baseDir, '.srcbook', 'chat.json');
+}
+
 export function pathToCodeFile(baseDir: string, filename: string) {
   return Path.join(baseDir, 'src', filename);
 }
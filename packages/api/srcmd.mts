@@ -42,7 +42,12 @@ export async function decodeDir(dir: string): Promise<DecodeResult> {
 
     // Let's replace all the code cells with the actual file contents for each one
     for (const cell of cells) {
-      if (cell.type === 'code' || cell.type === 'package.json') {
+      if (
+        cell.type === 'code' ||
+        cell.type === 'shell' ||
+        cell.type === 'sql' ||
+        cell.type === 'package.json'
+      ) {
         const filePath =
           cell.type === 'package.json'
             ? pathToPackageJson(dir)
@@ -59,14 +64,16 @@ export async function decodeDir(dir: string): Promise<DecodeResult> {
     // Wait for all file reads to complete
     await Promise.all(pendingFileReads);
 
+    const parameters = srcbook.parameters ? { parameters: srcbook.parameters } : {};
+
     if (srcbook.language === 'typescript') {
       const tsconfig = await fs.readFile(pathToTsconfigJson(dir), 'utf8');
       return {
         error: false,
-        srcbook: { language: srcbook.language, cells, 'tsconfig.json': tsconfig },
+        srcbook: { language: srcbook.language, cells, 'tsconfig.json': tsconfig, ...parameters },
       };
     } else {
-      return { error: false, srcbook: { language: srcbook.language, cells } };
+      return { error: false, srcbook: { language: srcbook.language, cells, ...parameters } };
     }
   } catch (e) {
     const error = e as unknown as Error;
@@ -1,13 +1,24 @@
 import { marked } from 'marked';
 import type { Tokens, Token, TokensList } from 'marked';
 // @ts-ignore - ignore import errors during build time
-import { languageFromFilename, randomid, SrcbookMetadataSchema } from '@peragus/shared'; // @ts-ignore
+import {
+  isShellFile,
+  isSqlFile,
+  languageFromFilename,
+  randomid,
+  SrcbookMetadataSchema,
+  DisplayOutputSchema,
+} from '@peragus/shared'; // @ts-ignore
 import type {
   CellType,
   CodeCellType,
   MarkdownCellType,
   PackageJsonCellType,
+  ShellCellType,
+  SqlCellType,
   TitleCellType,
+  CellExecutionResultType,
+  CellOutputType,
 } from '@peragus/shared'; // @ts-ignore
 import type { DecodeCellsResult, DecodeResult } from './types.mjs';
 import { toFormattedJSON } from '../utils.mjs';
@@ -41,17 +52,23 @@ export function decode(contents: string): DecodeResult {
   //
   const errors = validateTokenGroups(groups);
 
-  // Finally, return either the set of errors or the tokens converted to cells if no errors were found.
-  return errors.length > 0
-    ? { error: true, errors: errors }
-    : {
-        error: false,
-        srcbook: {
-          language: metadata.language,
-          cells: convertToCells(groups),
-          'tsconfig.json': metadata['tsconfig.json'],
-        },
-      };
+  if (errors.length > 0) {
+    return { error: true, errors: errors };
+  }
+
+  // Finally, return the tokens converted to cells along with any exported outputs.
+  const outputs = convertToOutputs(groups);
+
+  return {
+    error: false,
+    srcbook: {
+      language: metadata.language,
+      cells: convertToCells(groups),
+      'tsconfig.json': metadata['tsconfig.json'],
+      ...(metadata.parameters ? { parameters: metadata.parameters } : {}),
+      ...(Object.keys(outputs).length > 0 ? { outputs } : {}),
+    },
+  };
 }
 
 /**
@@ -142,12 +159,23 @@ type MarkdownGroupType = {
   tokens: Token[];
 };
 
+type OutputGroupType = {
+  type: 'output';
+  filename: string;
+  metadata: string;
+  tokens: Tokens.Code[];
+};
+
 type GroupedTokensType =
   | TitleGroupType
   | FilenameGroupType
   | CodeGroupType
   | MarkdownGroupType
-  | LinkedCodeGroupType;
+  | LinkedCodeGroupType
+  | OutputGroupType;
+
+const OUTPUT_OPEN_RE = /^<details data-srcbook-output='(.*)'>/;
+const OUTPUT_CLOSE_RE = /^<\/details>\s*$/;
 
 /**
  * Group tokens into an intermediate representation.
@@ -173,6 +201,28 @@ function groupTokens(tokens: Token[]) {
     return token.tokens.length === 1 && token.tokens[0]?.type === 'link';
   }
 
+  // Returns the filename of the code cell that an output block belongs to, if any.
+  // Output blocks directly follow a code cell, ignoring whitespace in between.
+  function outputFilename() {
+    let j = grouped.length - 1;
+
+    while (j >= 0) {
+      const group = grouped[j]!;
+      if (group.type === 'markdown' && group.tokens.every((t) => t.type === 'space')) {
+        j -= 1;
+      } else {
+        break;
+      }
+    }
+
+    const code = grouped[j];
+    const filename = grouped[j - 1];
+
+    return (code?.type === 'code' || code?.type === 'code:linked') && filename?.type === 'filename'
+      ? filename.token.text
+      : null;
+  }
+
   let i = 0;
   const len = tokens.length;
 
@@ -205,6 +255,34 @@ function groupTokens(tokens: Token[]) {
           pushMarkdownToken(token);
         }
         break;
+      case 'html': {
+        const match = token.raw.match(OUTPUT_OPEN_RE);
+        const filename = match ? outputFilename() : null;
+
+        if (match && filename) {
+          const group: OutputGroupType = {
+            type: 'output',
+            filename,
+            metadata: match[1] ?? '',
+            tokens: [],
+          };
+
+          // Consume everything up to the closing tag.
+          while (i + 1 < len && !OUTPUT_CLOSE_RE.test(tokens[i + 1]!.raw.trim())) {
+            i += 1;
+            const next = tokens[i]!;
+            if (next.type === 'code') {
+              group.tokens.push(next as Tokens.Code);
+            }
+          }
+
+          i += 1;
+          grouped.push(group);
+        } else {
+          pushMarkdownToken(token);
+        }
+        break;
+      }
       default:
         pushMarkdownToken(token);
     }
@@ -307,7 +385,11 @@ function convertToCells(groups: GroupedTokensType[]): CellType[] {
           const cell =
             filename === 'package.json'
               ? convertPackageJson(codeToken)
-              : convertCode(codeToken, filename);
+              : isShellFile(filename)
+                ? convertShell(codeToken, filename)
+                : isSqlFile(filename)
+                  ? convertSql(codeToken, filename)
+                  : convertCode(codeToken, filename);
           cells.push(cell);
           break;
         }
@@ -328,6 +410,56 @@ function convertToCells(groups: GroupedTokensType[]): CellType[] {
   return cells;
 }
 
+function convertToOutputs(groups: GroupedTokensType[]) {
+  const outputs: Record<string, CellExecutionResultType> = {};
+
+  for (const group of groups) {
+    if (group.type !== 'output') {
+      continue;
+    }
+
+    let metadata: Pick<CellExecutionResultType, 'exitCode' | 'startedAt' | 'finishedAt'>;
+
+    try {
+      metadata = JSON.parse(group.metadata);
+    } catch (e) {
+      console.error(`Unable to parse output metadata for ${group.filename}:`, e);
+      continue;
+    }
+
+    outputs[group.filename] = {
+      exitCode: metadata.exitCode ?? null,
+      startedAt: metadata.startedAt ?? 0,
+      finishedAt: metadata.finishedAt ?? null,
+      output: group.tokens.flatMap((token) => convertOutput(token)),
+    };
+  }
+
+  return outputs;
+}
+
+function convertOutput(token: Tokens.Code): CellOutputType[] {
+  switch (token.lang) {
+    case 'stdout':
+    case 'stderr':
+      return [{ type: token.lang, data: `${token.text}\n` }];
+    case 'display': {
+      try {
+        const result = DisplayOutputSchema.safeParse({
+          ...JSON.parse(token.text),
+          type: 'display',
+        });
+        return result.success ? [result.data] : [];
+      } catch (e) {
+        console.error('Unable to parse display output:', e);
+        return [];
+      }
+    }
+    default:
+      return [];
+  }
+}
+
 function convertTitle(token: Tokens.Heading): TitleCellType {
   return {
     id: randomid(),
@@ -357,26 +489,74 @@ function convertCode(token: Tokens.Code, filename: string): CodeCellType {
   };
 }
 
-// Convert a linked code token to the right cell: either a package.json file or a code cell.
+function convertShell(token: Tokens.Code, filename: string): ShellCellType {
+  return {
+    id: randomid(),
+    type: 'shell',
+    source: token.text,
+    filename: filename,
+    status: 'idle',
+  };
+}
+
+// The connection of a SQL cell follows the language of its code block, e.g. ```sql sqlite:./data.db
+function convertSql(token: Tokens.Code, filename: string): SqlCellType {
+  return {
+    id: randomid(),
+    type: 'sql',
+    source: token.text,
+    filename: filename,
+    connection: (token.lang ?? '').replace(/^sql\s*/, '').trim(),
+    status: 'idle',
+  };
+}
+
+// Convert a linked code token to the right cell: a package.json file, or a shell, SQL or code cell.
 // We assume that the link is in the format [filename](filePath).
 // We don't populate the source field here, as we will read the file contents later.
-function convertLinkedCode(token: Tokens.Link): CodeCellType | PackageJsonCellType {
-  return token.text === 'package.json'
-    ? {
-        id: randomid(),
-        type: 'package.json',
-        source: '',
-        filename: 'package.json',
-        status: 'idle',
-      }
-    : {
-        id: randomid(),
-        type: 'code',
-        source: '',
-        language: languageFromFilename(token.text),
-        filename: token.text,
-        status: 'idle',
-      };
+function convertLinkedCode(
+  token: Tokens.Link,
+): CodeCellType | PackageJsonCellType | ShellCellType | SqlCellType {
+  if (token.text === 'package.json') {
+    return {
+      id: randomid(),
+      type: 'package.json',
+      source: '',
+      filename: 'package.json',
+      status: 'idle',
+    };
+  }
+
+  if (isShellFile(token.text)) {
+    return {
+      id: randomid(),
+      type: 'shell',
+      source: '',
+      filename: token.text,
+      status: 'idle',
+    };
+  }
+
+  // The connection of a SQL cell is the title of its link.
+  if (isSqlFile(token.text)) {
+    return {
+      id: randomid(),
+      type: 'sql',
+      source: '',
+      filename: token.text,
+      connection: token.title ?? '',
+      status: 'idle',
+    };
+  }
+
+  return {
+    id: randomid(),
+    type: 'code',
+    source: '',
+    language: languageFromFilename(token.text),
+    filename: token.text,
+    status: 'idle',
+  };
 }
 
 function convertMarkdown(tokens: Token[]): MarkdownCellType {
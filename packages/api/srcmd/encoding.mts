@@ -2,10 +2,14 @@ import type {
   CodeCellType,
   MarkdownCellType,
   PackageJsonCellType,
+  ShellCellType,
+  SqlCellType,
   TitleCellType,
   PlaceholderCellType,
   CellWithPlaceholderType,
   CodeLanguageType,
+  CellExecutionResultType,
+  ParametersType,
 } from '@peragus/shared'; // @ts-ignore
 import type { SrcbookType } from './types.mjs';
 
@@ -13,11 +17,25 @@ type SrcbookWithPlacebolderType = Omit<SrcbookType, 'cells'> & {
   cells: CellWithPlaceholderType[];
 };
 
-export function encode(srcbook: SrcbookWithPlacebolderType, options: { inline: boolean }) {
+type EncodeOptionsType = {
+  inline: boolean;
+  /**
+   * Include the persisted output of code cells. Only supported for inline encoding.
+   */
+  outputs?: boolean;
+};
+
+export function encode(srcbook: SrcbookWithPlacebolderType, options: EncodeOptionsType) {
   const [firstCell, secondCell, ...remainingCells] = srcbook.cells;
   const titleCell = firstCell as TitleCellType;
   const packageJsonCell = secondCell as PackageJsonCellType;
-  const cells = remainingCells as (MarkdownCellType | CodeCellType | PlaceholderCellType)[];
+  const cells = remainingCells as (
+    | MarkdownCellType
+    | CodeCellType
+    | ShellCellType
+    | SqlCellType
+    | PlaceholderCellType
+  )[];
 
   const encoded = [
     encodeMetdata(srcbook),
@@ -26,7 +44,19 @@ export function encode(srcbook: SrcbookWithPlacebolderType, options: { inline: b
     ...cells.map((cell) => {
       switch (cell.type) {
         case 'code':
-          return encodeCodeCell(cell, options);
+        case 'shell':
+        case 'sql': {
+          const encodedCell =
+            cell.type === 'code'
+              ? encodeCodeCell(cell, options)
+              : cell.type === 'shell'
+                ? encodeShellCell(cell, options)
+                : encodeSqlCell(cell, options);
+          const result = srcbook.outputs?.[cell.filename];
+          return options.inline && options.outputs && result
+            ? `${encodedCell}\n\n${encodeOutput(result)}`
+            : encodedCell;
+        }
         case 'markdown':
           return encodeMarkdownCell(cell);
         case 'placeholder':
@@ -40,7 +70,11 @@ export function encode(srcbook: SrcbookWithPlacebolderType, options: { inline: b
 }
 
 function encodeMetdata(srcbook: SrcbookWithPlacebolderType) {
-  const metadata: { language: CodeLanguageType; 'tsconfig.json'?: any } = {
+  const metadata: {
+    language: CodeLanguageType;
+    'tsconfig.json'?: any;
+    parameters?: ParametersType;
+  } = {
     language: srcbook.language,
   };
 
@@ -56,6 +90,10 @@ function encodeMetdata(srcbook: SrcbookWithPlacebolderType) {
     }
   }
 
+  if (srcbook.parameters && Object.keys(srcbook.parameters).length > 0) {
+    metadata.parameters = srcbook.parameters;
+  }
+
   return `<!-- srcbook:${JSON.stringify(metadata)} -->`;
 }
 
@@ -97,12 +135,75 @@ function encodeCodeCell(cell: CodeCellType, options: { inline: boolean }) {
       });
 }
 
+function encodeShellCell(cell: ShellCellType, options: { inline: boolean }) {
+  return options.inline
+    ? encodeFileInline({
+        filename: cell.filename,
+        language: 'sh',
+        source: cell.source,
+      })
+    : encodeFileExternal({
+        filename: cell.filename,
+        filepath: `./src/${cell.filename}`,
+      });
+}
+
+// The connection follows the language of the code block, or is the title of the link.
+function encodeSqlCell(cell: SqlCellType, options: { inline: boolean }) {
+  return options.inline
+    ? encodeFileInline({
+        filename: cell.filename,
+        language: cell.connection ? `sql ${cell.connection}` : 'sql',
+        source: cell.source,
+      })
+    : encodeFileExternal({
+        filename: cell.filename,
+        filepath: `./src/${cell.filename}`,
+        title: cell.connection,
+      });
+}
+
 function encodeFileInline(options: { filename: string; language: string; source: string }) {
   const { filename, language, source } = options;
   return `###### ${filename}\n\n\`\`\`${language}\n${source}\n\`\`\``;
 }
 
-function encodeFileExternal(options: { filename: string; filepath: string }) {
-  const { filename, filepath } = options;
-  return `###### ${filename}\n\n[${filename}](${filepath})`;
+function encodeFileExternal(options: { filename: string; filepath: string; title?: string }) {
+  const { filename, filepath, title } = options;
+  const link = title ? `${filepath} ${JSON.stringify(title)}` : filepath;
+  return `###### ${filename}\n\n[${filename}](${link})`;
+}
+
+/**
+ * Outputs are encoded as a collapsed <details> block following the code cell. The
+ * execution metadata is kept in a data attribute so that it can be decoded later.
+ */
+function encodeOutput(result: CellExecutionResultType) {
+  const metadata = JSON.stringify({
+    exitCode: result.exitCode,
+    startedAt: result.startedAt,
+    finishedAt: result.finishedAt,
+  });
+
+  const blocks = result.output.map((output) => {
+    // Display outputs are kept as JSON so that they can be rendered again once imported.
+    const data =
+      output.type === 'display'
+        ? JSON.stringify({ mimeType: output.mimeType, data: output.data })
+        : output.data.replace(/\n$/, '');
+    const fence = codeFence(data);
+    return `${fence}${output.type}\n${data}\n${fence}`;
+  });
+
+  return [
+    `<details data-srcbook-output='${metadata}'>\n<summary>Output</summary>`,
+    ...blocks,
+    '</details>',
+  ].join('\n\n');
+}
+
+// The fence must be longer than any run of backticks in the output.
+function codeFence(data: string) {
+  const longest = Math.max(0, ...(data.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
 }
@@ -1,6 +1,7 @@
 import type { SessionType } from '../types.mjs';
 
-export type SrcbookType = Pick<SessionType, 'cells' | 'language' | 'tsconfig.json'>;
+export type SrcbookType = Pick<SessionType, 'cells' | 'language' | 'tsconfig.json'> &
+  Partial<Pick<SessionType, 'outputs' | 'parameters'>>;
 
 export type DecodeErrorResult = {
   error: true;
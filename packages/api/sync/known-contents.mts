@@ -0,0 +1,39 @@
+import Path from 'node:path';
+
+/**
+ * How many past contents of each file are remembered.
+ */
+const MAX_CONTENTS_PER_FILE = 10;
+
+const known = new Map<string, string[]>();
+
+/**
+ * Remembers contents this process wrote to, or read from, a file of a srcbook.
+ *
+ * The watcher of a srcbook sees our own writes too, sometimes before the latest one
+ * landed. Contents we know about are therefore never changes made outside of the app.
+ */
+export function recordContents(path: string, contents: string) {
+  const recent = (known.get(path) ?? []).filter((c) => c !== contents);
+  recent.push(contents);
+  known.set(path, recent.slice(-MAX_CONTENTS_PER_FILE));
+}
+
+export function isKnownContents(path: string, contents: string) {
+  return known.get(path)?.includes(contents) ?? false;
+}
+
+/**
+ * The contents last written or read, which is what the file holds unless it changed since.
+ */
+export function lastKnownContents(path: string): string | undefined {
+  return known.get(path)?.at(-1);
+}
+
+export function forgetContents(srcbookDir: string) {
+  for (const path of known.keys()) {
+    if (path.startsWith(srcbookDir + Path.sep)) {
+      known.delete(path);
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import type { CellType } from '@peragus/shared';
+import { pairCells, cellContent } from '../history/diff.mjs';
+
+/**
+ * What to do with the version of a cell on disk when it differs from the session:
+ * keep the session's, apply the disk's, or keep the session's and report a conflict.
+ */
+export type ResolutionType = 'keep' | 'apply' | 'conflict';
+
+export type SyncChangeType =
+  | { type: 'created'; cell: CellType; index: number }
+  | { type: 'moved'; cell: CellType; index: number }
+  | { type: 'updated'; cell: CellType }
+  | { type: 'deleted'; cell: CellType };
+
+export type ReconcileResultType = {
+  cells: CellType[];
+  // In the order they must be applied to the session's cells.
+  changes: SyncChangeType[];
+  // The session's version of cells that were changed on both sides.
+  conflicts: CellType[];
+};
+
+function withContent(cell: CellType, content: string): CellType {
+  switch (cell.type) {
+    case 'title':
+    case 'markdown':
+      return { ...cell, text: content };
+    case 'package.json':
+    case 'code':
+    case 'shell':
+    case 'sql':
+      return { ...cell, source: content };
+  }
+}
+
+/**
+ * Reconciles the cells of a session with the cells decoded from its directory.
+ *
+ * Cells keep the ids they have in the session. When `applyOrder` is set, the list of
+ * cells follows the disk: cells only on disk are created and cells only in the session
+ * are deleted. Otherwise the session's list is kept and only contents are reconciled.
+ */
+export function reconcileCells(
+  sessionCells: CellType[],
+  diskCells: CellType[],
+  options: {
+    applyOrder: boolean;
+    resolve: (sessionCell: CellType, diskCell: CellType) => ResolutionType;
+  },
+): ReconcileResultType {
+  const pairs = pairCells(sessionCells, diskCells);
+  const changes: SyncChangeType[] = [];
+  const conflicts: CellType[] = [];
+
+  const merged = new Map<CellType, CellType>();
+
+  for (const [sessionCell, diskCell] of pairs) {
+    if (sessionCell === null || diskCell === null) {
+      continue;
+    }
+
+    const content = cellContent(diskCell);
+
+    if (content === cellContent(sessionCell)) {
+      merged.set(diskCell, sessionCell);
+      continue;
+    }
+
+    switch (options.resolve(sessionCell, diskCell)) {
+      case 'apply': {
+        const cell = withContent(sessionCell, content);
+        merged.set(diskCell, cell);
+        changes.push({ type: 'updated', cell });
+        break;
+      }
+      case 'conflict':
+        conflicts.push(sessionCell);
+        merged.set(diskCell, sessionCell);
+        break;
+      case 'keep':
+        merged.set(diskCell, sessionCell);
+        break;
+    }
+  }
+
+  if (!options.applyOrder) {
+    const bySessionCell = new Map([...merged.values()].map((cell) => [cell.id, cell]));
+    return {
+      cells: sessionCells.map((cell) => bySessionCell.get(cell.id) ?? cell),
+      changes,
+      conflicts,
+    };
+  }
+
+  const cells = diskCells.map((diskCell) => merged.get(diskCell) ?? diskCell);
+  const ids = new Set(cells.map((cell) => cell.id));
+
+  // Deletions come first, then cells are put in place from the top, so that
+  // applying the changes in order to the session's list gives the disk's list.
+  const structural: SyncChangeType[] = sessionCells
+    .filter((cell) => !ids.has(cell.id))
+    .map((cell) => ({ type: 'deleted', cell }));
+
+  const current = sessionCells.filter((cell) => ids.has(cell.id));
+
+  cells.forEach((cell, index) => {
+    const from = current.findIndex((c) => c.id === cell.id);
+
+    if (from === -1) {
+      current.splice(index, 0, cell);
+      structural.push({ type: 'created', cell, index });
+    } else if (from !== index) {
+      current.splice(from, 1);
+      current.splice(index, 0, cell);
+      structural.push({ type: 'moved', cell, index });
+    }
+  });
+
+  return { cells, changes: [...structural, ...changes], conflicts };
+}
@@ -0,0 +1,127 @@
+import fs, { type FSWatcher } from 'node:fs';
+import Path from 'node:path';
+
+/**
+ * Changes to the files of a srcbook are reported once they have settled for this long,
+ * so that a file is not read while it is being written.
+ */
+export const WATCH_DEBOUNCE_MS = 200;
+
+// The files of a srcbook at the root of its directory. Everything in src/ is watched.
+const ROOT_FILES = ['README.md', 'package.json', 'tsconfig.json'];
+
+/**
+ * Watches the files of a srcbook for changes, made by the app or by anything else.
+ *
+ * Calls to `onChange` never overlap: changes made while it runs are reported once it
+ * is done, so that it always reads the latest state of the files.
+ */
+export class SrcbookWatcher {
+  private readonly watchers: FSWatcher[] = [];
+  private timeout: NodeJS.Timeout | null = null;
+  private running = false;
+  private pending = false;
+  closed = false;
+
+  constructor(
+    readonly dir: string,
+    private readonly onChange: () => Promise<void>,
+  ) {
+    this.watch(dir, (filename) => ROOT_FILES.includes(filename));
+    this.watch(Path.join(dir, 'src'), () => true);
+  }
+
+  private watch(dir: string, filter: (filename: string) => boolean) {
+    const watcher = fs.watch(dir, (_event, filename) => {
+      if (filename === null || filter(filename.toString())) {
+        this.schedule();
+      }
+    });
+
+    watcher.on('error', (error) => {
+      console.error(`Error watching ${dir}:`, error);
+      this.close();
+    });
+
+    this.watchers.push(watcher);
+  }
+
+  private schedule() {
+    if (this.closed) {
+      return;
+    }
+
+    if (this.timeout !== null) {
+      clearTimeout(this.timeout);
+    }
+
+    this.timeout = setTimeout(() => {
+      this.timeout = null;
+      this.run();
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  private async run() {
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      await this.onChange();
+    } catch (error) {
+      console.error(`Error syncing changes to ${this.dir}:`, error);
+    } finally {
+      this.running = false;
+    }
+
+    if (this.pending) {
+      this.pending = false;
+      this.run();
+    }
+  }
+
+  close() {
+    this.closed = true;
+
+    if (this.timeout !== null) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+  }
+}
+
+/**
+ * This object is responsible for managing the watcher of each session.
+ */
+export class SrcbookWatchers {
+  private watchers: Record<string, SrcbookWatcher> = {};
+
+  has(id: string) {
+    // A watcher closes itself when its directory goes away.
+    return this.watchers[id] !== undefined && !this.watchers[id].closed;
+  }
+
+  create(id: string, dir: string, onChange: () => Promise<void>) {
+    if (this.has(id)) {
+      throw new Error(`watcher for ${id} already exists.`);
+    }
+
+    this.close(id);
+
+    const watcher = new SrcbookWatcher(dir, onChange);
+    this.watchers[id] = watcher;
+    return watcher;
+  }
+
+  close(id: string) {
+    this.watchers[id]?.close();
+    delete this.watchers[id];
+  }
+}
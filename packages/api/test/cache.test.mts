@@ -0,0 +1,123 @@
+import os from 'node:os';
+import Path from 'node:path';
+import fs from 'node:fs/promises';
+import type { CellExecutionResultType, CellType, CodeCellType } from '@peragus/shared';
+import { cellCacheKey } from '../cache/key.mjs';
+import { cacheUsage, clearCacheEntries, readCacheEntry, writeCacheEntry } from '../cache/store.mjs';
+
+function codeCell(id: string, filename: string, source: string): CodeCellType {
+  return { id, type: 'code', source, language: 'typescript', filename, status: 'idle' };
+}
+
+function result(data: string): CellExecutionResultType {
+  return {
+    output: [{ type: 'stdout', data }],
+    exitCode: 0,
+    startedAt: 1,
+    finishedAt: 2,
+  };
+}
+
+describe('cellCacheKey', () => {
+  let dir: string;
+
+  const a = codeCell('a', 'a.ts', 'export const a = 1;');
+  const b = codeCell('b', 'b.ts', "import { a } from './a.js';\nconsole.log(a);");
+  const c = codeCell('c', 'c.ts', 'console.log(3);');
+  const cells: CellType[] = [a, b, c];
+
+  function key(cells: CellType[], cell: CodeCellType, secretNames: string[] = []) {
+    return cellCacheKey({
+      dir,
+      language: 'typescript',
+      cells,
+      cell,
+      secretNames,
+      parameterValues: {},
+    });
+  }
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-cache-key-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('is stable for the same inputs', async () => {
+    expect(await key(cells, b)).toBe(await key(cells, b));
+  });
+
+  it('changes with the source of the cell', async () => {
+    const changed = codeCell('b', 'b.ts', b.source + '\n');
+    expect(await key([a, changed, c], changed)).not.toBe(await key(cells, b));
+  });
+
+  it('changes with the source of the cells it imports', async () => {
+    const changed = codeCell('a', 'a.ts', 'export const a = 2;');
+    expect(await key([changed, b, c], b)).not.toBe(await key(cells, b));
+  });
+
+  it('does not change with the source of other cells', async () => {
+    const changed = codeCell('c', 'c.ts', 'console.log(4);');
+    expect(await key([a, b, changed], b)).toBe(await key(cells, b));
+  });
+
+  it('changes with the secret names and installed packages', async () => {
+    const before = await key(cells, b);
+
+    expect(await key(cells, b, ['API_KEY'])).not.toBe(before);
+
+    await fs.writeFile(Path.join(dir, 'package-lock.json'), '{}');
+    expect(await key(cells, b)).not.toBe(before);
+  });
+});
+
+describe('cache store', () => {
+  let dir: string;
+
+  const keyA = 'a'.repeat(64);
+  const keyB = 'b'.repeat(64);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads back the results it wrote', async () => {
+    expect(await readCacheEntry(dir, 'a.ts', keyA)).toBeNull();
+
+    await writeCacheEntry(dir, 'a.ts', keyA, result('hello'));
+
+    expect(await readCacheEntry(dir, 'a.ts', keyA)).toEqual(result('hello'));
+    expect(await readCacheEntry(dir, 'a.ts', keyB)).toBeNull();
+  });
+
+  it('clears the results of a cell or of all cells', async () => {
+    await writeCacheEntry(dir, 'a.ts', keyA, result('a'));
+    await writeCacheEntry(dir, 'b.ts', keyB, result('b'));
+
+    expect(Object.keys((await cacheUsage(dir)).filenames).sort()).toEqual(['a.ts', 'b.ts']);
+
+    await clearCacheEntries(dir, 'a.ts');
+    expect(Object.keys((await cacheUsage(dir)).filenames)).toEqual(['b.ts']);
+
+    await clearCacheEntries(dir);
+    expect(await cacheUsage(dir)).toEqual({ size: 0, filenames: {} });
+  });
+
+  it('evicts the least recently used results past the maximum size', async () => {
+    const size = JSON.stringify(result('a')).length;
+
+    await writeCacheEntry(dir, 'a.ts', keyA, result('a'));
+    await fs.utimes(Path.join(dir, '.srcbook', 'cache', `a.ts.${keyA}.json`), 1, 1);
+    await writeCacheEntry(dir, 'b.ts', keyB, result('b'), size);
+
+    expect(await readCacheEntry(dir, 'a.ts', keyA)).toBeNull();
+    expect(await readCacheEntry(dir, 'b.ts', keyB)).toEqual(result('b'));
+  });
+});
@@ -0,0 +1,63 @@
+import type { CellType } from '@peragus/shared';
+import { getRelativeFileContents } from './utils.mjs';
+import { decode, encode } from '../srcmd.mjs';
+import type { DecodeSuccessResult } from '../srcmd/types.mjs';
+import { moveCell } from '../cells.mjs';
+
+describe('moveCell', () => {
+  // Title, package.json, markdown, index.mjs, markdown, foo.mjs, markdown
+  let cells: CellType[];
+
+  function ids(cells: CellType[]) {
+    return cells.map((cell) => cell.id);
+  }
+
+  beforeAll(async () => {
+    const srcmd = await getRelativeFileContents('srcmd_files/srcbook.src.md');
+    cells = (decode(srcmd) as DecodeSuccessResult).srcbook.cells;
+  });
+
+  it('moves a cell down and up', () => {
+    const [title, packageJson, intro, index, section, foo, outro] = cells as CellType[];
+
+    expect(ids(moveCell(cells, foo!.id, 3)!)).toEqual(
+      ids([title!, packageJson!, intro!, foo!, index!, section!, outro!]),
+    );
+    expect(ids(moveCell(cells, index!.id, 5)!)).toEqual(
+      ids([title!, packageJson!, intro!, section!, foo!, index!, outro!]),
+    );
+  });
+
+  it('returns null when the cell is already at the index', () => {
+    expect(moveCell(cells, cells[3]!.id, 3)).toBeNull();
+  });
+
+  it('rejects indices before the first cell, past the last cell or out of bounds', () => {
+    const id = cells[3]!.id;
+
+    expect(() => moveCell(cells, id, 0)).toThrow(`Cannot move cell '${id}' to index 0`);
+    expect(() => moveCell(cells, id, 1)).toThrow(`Cannot move cell '${id}' to index 1`);
+    expect(() => moveCell(cells, id, -1)).toThrow(`Cannot move cell '${id}' to index -1`);
+    expect(() => moveCell(cells, id, cells.length)).toThrow(
+      `Cannot move cell '${id}' to index ${cells.length}`,
+    );
+  });
+
+  it('rejects moving the title and package.json cells or unknown cells', () => {
+    expect(() => moveCell(cells, cells[0]!.id, 3)).toThrow("Cannot move cell of type 'title'");
+    expect(() => moveCell(cells, cells[1]!.id, 3)).toThrow(
+      "Cannot move cell of type 'package.json'",
+    );
+    expect(() => moveCell(cells, 'unknown', 3)).toThrow("No cell exists with id 'unknown'");
+  });
+
+  it('writes the moved files in their new order in the README', () => {
+    const readme = encode(
+      { cells: moveCell(cells, cells[5]!.id, 3)!, language: 'javascript' },
+      { inline: false },
+    );
+
+    expect(readme.indexOf('[foo.mjs]')).toBeGreaterThan(-1);
+    expect(readme.indexOf('[foo.mjs]')).toBeLessThan(readme.indexOf('[index.mjs]'));
+  });
+});
@@ -0,0 +1,42 @@
+import { DISPLAY_OUTPUT_PREFIX } from '@peragus/shared';
+import { OutputParser } from '../display/parser.mjs';
+
+describe('OutputParser', () => {
+  const html = `${DISPLAY_OUTPUT_PREFIX}${JSON.stringify({ mimeType: 'text/html', data: '<b>hi</b>' })}\n`;
+
+  it('splits display outputs from plain stdout', () => {
+    const parser = new OutputParser();
+
+    expect(parser.write(`before\n${html}after\n`)).toEqual([
+      { type: 'stdout', data: 'before\n' },
+      { type: 'display', mimeType: 'text/html', data: '<b>hi</b>' },
+      { type: 'stdout', data: 'after\n' },
+    ]);
+  });
+
+  it('reassembles display outputs split across chunks', () => {
+    const parser = new OutputParser();
+
+    expect(parser.write(`text\n${html.slice(0, 3)}`)).toEqual([{ type: 'stdout', data: 'text\n' }]);
+    expect(parser.write(html.slice(3, 30))).toEqual([]);
+    expect(parser.write(html.slice(30))).toEqual([
+      { type: 'display', mimeType: 'text/html', data: '<b>hi</b>' },
+    ]);
+  });
+
+  it('only treats whole lines as display outputs', () => {
+    const parser = new OutputParser();
+
+    expect(parser.write('no newline ')).toEqual([{ type: 'stdout', data: 'no newline ' }]);
+    expect(parser.write(html)).toEqual([{ type: 'stdout', data: html }]);
+  });
+
+  it('leaves malformed display lines as plain text', () => {
+    const parser = new OutputParser();
+    const line = `${DISPLAY_OUTPUT_PREFIX}{"mimeType":"image/gif","data":""}\n`;
+
+    expect(parser.write(line)).toEqual([{ type: 'stdout', data: line }]);
+    expect(parser.write(DISPLAY_OUTPUT_PREFIX)).toEqual([]);
+    expect(parser.flush()).toEqual([{ type: 'stdout', data: DISPLAY_OUTPUT_PREFIX }]);
+  });
+});
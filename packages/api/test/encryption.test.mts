@@ -0,0 +1,114 @@
+import crypto from 'node:crypto';
+import os from 'node:os';
+import Path from 'node:path';
+import fs from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
+import * as schema from '../db/schema.mjs';
+import { registerEncryptSecret } from '../db/encrypt-secrets.mjs';
+import { encrypt, decrypt, isEncrypted } from '../encryption.mjs';
+
+describe('encryption', () => {
+  beforeAll(() => {
+    vi.stubEnv('SRCBOOK_MASTER_KEY', crypto.randomBytes(32).toString('base64'));
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('decrypts what it encrypts', () => {
+    const encrypted = encrypt('sk-secret-api-key');
+
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('sk-secret-api-key');
+    expect(decrypt(encrypted)).toBe('sk-secret-api-key');
+  });
+
+  it('uses a new IV every time', () => {
+    expect(encrypt('value')).not.toEqual(encrypt('value'));
+  });
+
+  it('returns values that were never encrypted as is', () => {
+    expect(isEncrypted('sk-plaintext')).toBe(false);
+    expect(decrypt('sk-plaintext')).toBe('sk-plaintext');
+  });
+
+  it('rejects tampered values', () => {
+    const encrypted = encrypt('value');
+    const data = Buffer.from(encrypted.slice('enc:v1:'.length), 'base64');
+    data[data.length - 1]! ^= 1;
+
+    expect(() => decrypt('enc:v1:' + data.toString('base64'))).toThrow(
+      'Cannot decrypt value, it was encrypted with a different master key',
+    );
+  });
+});
+
+describe('encrypt secrets migration', () => {
+  const migrationsFolder = Path.join(Path.dirname(fileURLToPath(import.meta.url)), '..', 'drizzle');
+  let dir: string;
+
+  beforeAll(() => {
+    vi.stubEnv('SRCBOOK_MASTER_KEY', crypto.randomBytes(32).toString('base64'));
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-migrations-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // A copy of the migrations folder without the encryption migration, as databases were before it.
+  async function migrationsBeforeEncryption() {
+    const folder = Path.join(dir, 'drizzle');
+    await fs.cp(migrationsFolder, folder, { recursive: true });
+
+    const journalPath = Path.join(folder, 'meta', '_journal.json');
+    const journal = JSON.parse(await fs.readFile(journalPath, 'utf8'));
+    journal.entries = journal.entries.filter(
+      (entry: { tag: string }) => entry.tag !== '0021_encrypt_secrets',
+    );
+    await fs.writeFile(journalPath, JSON.stringify(journal));
+
+    return folder;
+  }
+
+  it('encrypts the secrets and API keys stored in plain text, once', async () => {
+    const database = new Database(':memory:');
+    registerEncryptSecret(database);
+    const db = drizzle(database, { schema });
+
+    migrate(db, { migrationsFolder: await migrationsBeforeEncryption() });
+    db.insert(schema.secrets).values({ name: 'API_KEY', value: 'sk-secret' }).run();
+    db.insert(schema.configs)
+      .values({ baseDir: dir, openaiKey: 'sk-openai', anthropicKey: encrypt('sk-anthropic') })
+      .run();
+
+    migrate(db, { migrationsFolder });
+
+    const [secret] = db.select().from(schema.secrets).all();
+    const [config] = db.select().from(schema.configs).all();
+
+    expect(isEncrypted(secret!.value)).toBe(true);
+    expect(decrypt(secret!.value)).toBe('sk-secret');
+    expect(isEncrypted(config!.openaiKey!)).toBe(true);
+    expect(decrypt(config!.openaiKey!)).toBe('sk-openai');
+    expect(decrypt(config!.anthropicKey!)).toBe('sk-anthropic');
+    expect(config!.xaiKey).toBeNull();
+
+    // The migration is recorded, so it does not run again.
+    migrate(db, { migrationsFolder });
+
+    expect(db.select().from(schema.secrets).all()).toEqual([secret]);
+    expect(db.select().from(schema.configs).all()).toEqual([config]);
+  });
+});
@@ -0,0 +1,124 @@
+import type { CellType } from '@peragus/shared';
+import {
+  downstreamCellIds,
+  parseCellGraph,
+  parseImportSpecifiers,
+  resolveCellImport,
+} from '../graph/imports.mjs';
+import { tsserverCellGraph } from '../graph/tsserver.mjs';
+import type { TsServer } from '../tsserver/tsserver.mjs';
+
+function codeCell(id: string, filename: string, source: string): CellType {
+  return { id, type: 'code', source, language: 'typescript', filename, status: 'idle' };
+}
+
+const cells: CellType[] = [
+  { id: 'title', type: 'title', text: 'Graph' },
+  codeCell('a', 'a.ts', 'export const a = 1;'),
+  codeCell('b', 'b.ts', "import { a } from './a.js';\nexport const b = a + 1;"),
+  {
+    id: 'users',
+    type: 'sql',
+    source: 'SELECT * FROM users;',
+    filename: 'users.sql',
+    connection: 'sqlite:./data.db',
+    status: 'idle',
+  },
+  codeCell(
+    'c',
+    'c.ts',
+    "import rows from './users.results.js';\nimport { b } from './b.js';\nimport { a } from './a';",
+  ),
+  codeCell('d', 'd.ts', "import _ from 'lodash';\nconsole.log(_);"),
+];
+
+describe('parseImportSpecifiers', () => {
+  it('finds static, dynamic and type imports, and re-exports', () => {
+    const source = [
+      "import { a } from './a.js';",
+      "import type { B } from './b.js';",
+      "export { c } from './c.mjs';",
+      "const d = await import('./d.js');",
+      "// import { e } from './e.js';",
+      'const f = "import { f } from \'./f.js\'";',
+    ].join('\n');
+
+    expect(parseImportSpecifiers(source)).toEqual(['./a.js', './b.js', './c.mjs', './d.js']);
+  });
+});
+
+describe('resolveCellImport', () => {
+  it('resolves code cells whatever the extension', () => {
+    expect(resolveCellImport('./a.js', cells)?.id).toBe('a');
+    expect(resolveCellImport('./a.ts', cells)?.id).toBe('a');
+    expect(resolveCellImport('./a', cells)?.id).toBe('a');
+  });
+
+  it('resolves SQL cells through the module of their results', () => {
+    expect(resolveCellImport('./users.results.mjs', cells)?.id).toBe('users');
+    expect(resolveCellImport('./users.sql', cells)).toBeUndefined();
+  });
+
+  it('ignores packages and files outside of src/', () => {
+    expect(resolveCellImport('lodash', cells)).toBeUndefined();
+    expect(resolveCellImport('../a.js', cells)).toBeUndefined();
+    expect(resolveCellImport('./lib/a.js', cells)).toBeUndefined();
+  });
+});
+
+describe('parseCellGraph', () => {
+  it('lists the cells each code cell imports, in notebook order', () => {
+    expect(parseCellGraph(cells)).toEqual({
+      a: [],
+      b: ['a'],
+      c: ['a', 'b', 'users'],
+      d: [],
+    });
+  });
+});
+
+describe('downstreamCellIds', () => {
+  it('lists the cells importing a cell, directly or not', () => {
+    const graph = parseCellGraph(cells);
+
+    expect(downstreamCellIds(cells, graph, 'a')).toEqual(['b', 'c']);
+    expect(downstreamCellIds(cells, graph, 'users')).toEqual(['c']);
+    expect(downstreamCellIds(cells, graph, 'c')).toEqual([]);
+  });
+
+  it('orders cells after the cells they import', () => {
+    const graph = { x: ['y'], y: ['z'], z: [] };
+    const ordered: CellType[] = [
+      codeCell('x', 'x.ts', ''),
+      codeCell('y', 'y.ts', ''),
+      codeCell('z', 'z.ts', ''),
+    ];
+
+    expect(downstreamCellIds(ordered, graph, 'z')).toEqual(['y', 'x']);
+  });
+
+  it('does not loop on cells importing each other', () => {
+    const graph = { a: ['b'], b: ['a'] };
+
+    expect(downstreamCellIds(cells, graph, 'a')).toEqual(['b']);
+  });
+});
+
+describe('tsserverCellGraph', () => {
+  it('resolves imports between code cells with tsserver', async () => {
+    const tsserver = {
+      async fileReferences({ file }: { file: string }) {
+        // tsserver sees that d.ts imports a.ts, e.g. through a path mapping.
+        const refs = file.endsWith('/a.ts') ? [{ file: '/srcbook/src/d.ts' }] : [];
+        return { body: { refs, symbolName: file } };
+      },
+    } as unknown as TsServer;
+
+    expect(await tsserverCellGraph(tsserver, '/srcbook', cells)).toEqual({
+      a: [],
+      b: [],
+      c: ['users'],
+      d: ['a'],
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import os from 'node:os';
+import Path from 'node:path';
+import fs from 'node:fs/promises';
+import type { CellType, CodeCellType, TitleCellType } from '@peragus/shared';
+import { getRelativeFileContents } from './utils.mjs';
+import { decode, encode } from '../srcmd.mjs';
+import type { DecodeSuccessResult } from '../srcmd/types.mjs';
+import { diffCells } from '../history/diff.mjs';
+import { listSnapshots, readSnapshot, takeSnapshot } from '../history/snapshots.mjs';
+import {
+  appendChatMessages,
+  decodeChatEdits,
+  findChatEdits,
+  parseChatReply,
+  readChatHistory,
+  updateChatEditsStatus,
+} from '../history/chat.mjs';
+
+describe('diffCells', () => {
+  let cells: CellType[];
+
+  beforeAll(async () => {
+    const srcmd = await getRelativeFileContents('srcmd_files/srcbook.src.md');
+    cells = (decode(srcmd) as DecodeSuccessResult).srcbook.cells;
+  });
+
+  it('is empty when nothing changed', () => {
+    expect(diffCells(cells, [...cells])).toEqual([]);
+  });
+
+  it('finds edited, created and deleted cells', () => {
+    const [title, packageJson, intro, index, section, foo] = cells as [
+      TitleCellType,
+      CellType,
+      CellType,
+      CodeCellType,
+      CellType,
+      CodeCellType,
+    ];
+
+    const modified: CellType[] = [
+      { ...title, text: 'New title' },
+      packageJson,
+      intro,
+      section,
+      { ...foo, source: 'console.log(5);\n' },
+      // Moved code cells are matched by filename
+      index,
+      { ...index, id: 'bar', filename: 'bar.mjs', source: 'bar();\n' },
+    ];
+
+    expect(diffCells(cells, modified)).toEqual([
+      {
+        type: 'edit',
+        cellType: 'title',
+        label: 'New title',
+        original: 'Srcbook title',
+        modified: 'New title',
+      },
+      {
+        type: 'edit',
+        cellType: 'code',
+        label: 'foo.mjs',
+        original: foo.source,
+        modified: 'console.log(5);\n',
+      },
+      {
+        type: 'delete',
+        cellType: 'markdown',
+        label: 'Paragraph here.',
+        original: 'Paragraph here.',
+        modified: null,
+      },
+      {
+        type: 'create',
+        cellType: 'code',
+        label: 'bar.mjs',
+        original: null,
+        modified: 'bar();\n',
+      },
+    ]);
+  });
+});
+
+describe('snapshots', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-history-'));
+    const srcmd = await getRelativeFileContents('srcmd_files/srcbook.src.md');
+    const { srcbook } = decode(srcmd) as DecodeSuccessResult;
+    await fs.mkdir(Path.join(dir, 'src'));
+    await fs.writeFile(Path.join(dir, 'README.md'), encode(srcbook, { inline: false }));
+
+    for (const cell of srcbook.cells) {
+      if (cell.type === 'package.json') {
+        await fs.writeFile(Path.join(dir, 'package.json'), cell.source);
+      } else if (cell.type === 'code') {
+        await fs.writeFile(Path.join(dir, 'src', cell.filename), cell.source);
+      }
+    }
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('only snapshots srcbooks that changed', async () => {
+    const first = await takeSnapshot(dir, 'auto');
+    expect(await takeSnapshot(dir, 'ai')).toEqual(first);
+
+    await fs.writeFile(Path.join(dir, 'src', 'foo.mjs'), 'console.log(5);\n');
+    const second = await takeSnapshot(dir, 'ai');
+
+    expect(second.reason).toBe('ai');
+    expect(await listSnapshots(dir)).toEqual([second, first]);
+    expect(await readSnapshot(dir, second.id)).toContain('console.log(5);');
+  });
+
+  it('rejects invalid snapshot ids', async () => {
+    await expect(readSnapshot(dir, '../../README')).rejects.toThrow('Invalid snapshot id');
+  });
+});
+
+describe('chat history', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-chat-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the messages on disk', async () => {
+    expect(await readChatHistory(dir)).toEqual([]);
+
+    await Promise.all([
+      appendChatMessages(dir, [{ type: 'user', planId: 'a', message: 'Hi' }]),
+      appendChatMessages(dir, [
+        { type: 'plan', planId: 'a', content: 'Hello' },
+        {
+          type: 'cells-diff',
+          planId: 'a',
+          version: '1-ai',
+          diff: [],
+          srcmd: '',
+          status: 'proposed',
+        },
+      ]),
+    ]);
+
+    await updateChatEditsStatus(dir, 'a', 'rejected');
+
+    const history = await readChatHistory(dir);
+    expect(history.map((message) => message.type)).toEqual(['user', 'plan', 'cells-diff']);
+    expect(await findChatEdits(dir, 'a')).toMatchObject({ status: 'rejected' });
+    expect(await findChatEdits(dir, 'b')).toBe(null);
+  });
+
+  it('splits replies into their text and proposed srcbook', () => {
+    expect(parseChatReply('  Just an answer.\n')).toEqual({
+      content: 'Just an answer.',
+      srcmd: null,
+    });
+
+    const reply = 'I added a cell.\n\n<srcbook>\n# Title\n</srcbook>\n';
+    expect(parseChatReply(reply)).toEqual({ content: 'I added a cell.', srcmd: '# Title\n' });
+  });
+
+  it('decodes proposed srcbooks with or without their metadata', async () => {
+    const srcmd = await getRelativeFileContents('srcmd_files/srcbook.src.md');
+    const withoutMetadata = srcmd.replace(/^<!--.*-->\n/, '');
+
+    for (const text of [srcmd, withoutMetadata]) {
+      const result = decodeChatEdits(text, 'javascript');
+      expect(result.error).toBe(false);
+      expect((result as DecodeSuccessResult).srcbook.language).toBe('javascript');
+    }
+  });
+});
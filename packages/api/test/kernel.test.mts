@@ -0,0 +1,84 @@
+import os from 'node:os';
+import Path from 'node:path';
+import fs from 'node:fs/promises';
+import { transformCell } from '../kernel/transform.mjs';
+import { Kernels } from '../kernel/kernels.mjs';
+
+describe('transformCell', () => {
+  it('turns top-level declarations into global assignments', () => {
+    const code = transformCell(
+      [
+        "import fs, { readFile as read } from 'node:fs';",
+        "import * as path from 'node:path';",
+        'export const a = 1;',
+        'let { b, c: [d] } = { b: 2, c: [3] };',
+        'export async function add(x, y) { return x + y; }',
+        'class Point {}',
+      ].join('\n'),
+      'cell.mjs',
+    );
+
+    expect(code).toEqual(
+      [
+        'globalThis.add = add;',
+        `{ const __module = await __kernel.import("node:fs"); fs = __module.default; read = __module["readFile"]; }`,
+        `{ const __module = await __kernel.import("node:path"); path = __module; }`,
+        'a = 1;',
+        '({ b, c: [d] } = { b: 2, c: [3] });',
+        'async function add(x, y) { return x + y; }',
+        'Point = class Point {\n};',
+      ].join('\n'),
+    );
+  });
+
+  it('strips types from TypeScript cells', () => {
+    const code = transformCell(
+      "import type { Foo } from './foo.ts';\nconst n: number = 42 as number;",
+      'cell.ts',
+    );
+
+    expect(code).toEqual('n = 42;');
+  });
+});
+
+describe('Kernel', () => {
+  let dir: string;
+  const kernels = new Kernels();
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-kernel-'));
+  });
+
+  afterAll(async () => {
+    kernels.shutdown('session');
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('shares state between cells', async () => {
+    const kernel = kernels.create('session', { cwd: dir, language: 'javascript' });
+    const output: string[] = [];
+    kernel.on('output', (_cellId, { data }) => output.push(data));
+
+    const first = transformCell('const greeting = "hello";', 'a.mjs');
+    const second = transformCell('console.log(greeting, process.env.NAME);', 'b.mjs');
+
+    expect(await kernel.exec({ cellId: 'a', code: first, env: {} })).toBe(0);
+    expect(await kernel.exec({ cellId: 'b', code: second, env: { NAME: 'world' } })).toBe(0);
+    expect(await kernel.exec({ cellId: 'a', code: first, env: {} })).toBe(0);
+    expect(output.join('')).toEqual('hello world\n');
+
+    const failing = transformCell('throw new Error("boom");', 'c.mjs');
+    expect(await kernel.exec({ cellId: 'c', code: failing, env: {} })).toBe(1);
+  });
+
+  it('can interrupt a running cell', async () => {
+    const kernel = kernels.get('session');
+    const code = transformCell('await new Promise(() => {});', 'd.mjs');
+
+    const exec = kernel.exec({ cellId: 'd', code, env: {} });
+    kernel.interrupt('d');
+
+    expect(await exec).toBeNull();
+    expect(kernels.has('session')).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import ts from 'typescript';
+import { schemaToType, generateMcpTypesFile } from '../mcp/helper.mjs';
+
+describe('schemaToType', () => {
+  it('types primitives, enums and unions', () => {
+    expect(schemaToType({ type: 'string' })).toBe('string');
+    expect(schemaToType({ type: 'integer' })).toBe('number');
+    expect(schemaToType({ type: ['string', 'null'] })).toBe('string | null');
+    expect(schemaToType({ enum: ['asc', 'desc'] })).toBe('"asc" | "desc"');
+    expect(schemaToType({ const: 42 })).toBe('42');
+    expect(schemaToType({ anyOf: [{ type: 'number' }, { type: 'array', items: {} }] })).toBe(
+      'number | Array<unknown>',
+    );
+    expect(schemaToType({ $ref: '#/definitions/Path' })).toBe('unknown');
+  });
+
+  it('types objects with their required and optional properties', () => {
+    const type = schemaToType({
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Path of the file' },
+        'max-lines': { type: 'number' },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['path'],
+    });
+
+    expect(type).toBe(
+      [
+        '{',
+        '  /** Path of the file */',
+        '  path: string;',
+        '  "max-lines"?: number;',
+        '  tags?: Array<string>;',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  it('types objects without properties as records', () => {
+    expect(schemaToType({ type: 'object' })).toBe('Record<string, unknown>');
+    expect(schemaToType({ type: 'object', additionalProperties: { type: 'number' } })).toBe(
+      'Record<string, number>',
+    );
+    expect(schemaToType({ type: 'object', additionalProperties: false })).toBe(
+      'Record<string, never>',
+    );
+  });
+});
+
+describe('generateMcpTypesFile', () => {
+  it('declares the tools of each server', () => {
+    const source = generateMcpTypesFile([
+      {
+        serverId: 'filesystem',
+        name: 'read_file',
+        description: 'Read a file */ with a comment end',
+        inputSchema: {
+          type: 'object',
+          properties: { path: { type: 'string' } },
+          required: ['path'],
+        },
+      },
+      { serverId: 'filesystem', name: 'list', inputSchema: { type: 'object' } },
+      { serverId: 'web-search', name: 'search', inputSchema: undefined },
+    ]);
+
+    expect(source).toContain('  filesystem: {\n');
+    expect(source).toContain('    /** Read a file *\\/ with a comment end */\n');
+    expect(source).toContain('    read_file: {\n      path: string;\n    };\n');
+    expect(source).toContain('    list: Record<string, unknown>;\n');
+    expect(source).toContain('  "web-search": {\n    search: Record<string, unknown>;\n  };\n');
+
+    const file = ts.createSourceFile('mcp.d.mts', source, ts.ScriptTarget.ES2022);
+    const host = ts.createCompilerHost({});
+    host.getSourceFile = (fileName) => (fileName === file.fileName ? file : undefined);
+    const program = ts.createProgram([file.fileName], { noLib: true, noResolve: true }, host);
+    expect(program.getSyntacticDiagnostics(file)).toEqual([]);
+  });
+
+  it('declares no tools when no server is connected', () => {
+    expect(generateMcpTypesFile([])).toContain('export type MCPTools = {};');
+  });
+});
@@ -0,0 +1,72 @@
+import { matchesGlob, evaluatePolicies, type ToolPolicy } from '../mcp/policies.mjs';
+
+function policy(id: number, settings: Partial<ToolPolicy>): ToolPolicy {
+  return {
+    id,
+    serverId: null,
+    toolPattern: '*',
+    argumentPatterns: null,
+    action: 'allow',
+    priority: 0,
+    description: null,
+    ...settings,
+  };
+}
+
+describe('matchesGlob', () => {
+  it('matches any characters with * and one with ?', () => {
+    expect(matchesGlob('read_*', 'read_file')).toBe(true);
+    expect(matchesGlob('read_*', 'write_file')).toBe(false);
+    expect(matchesGlob('get_?', 'get_a')).toBe(true);
+    expect(matchesGlob('get_?', 'get_ab')).toBe(false);
+    expect(matchesGlob('/tmp/*', '/tmp/a/b.txt')).toBe(true);
+  });
+
+  it('matches other characters literally', () => {
+    expect(matchesGlob('file.txt', 'file.txt')).toBe(true);
+    expect(matchesGlob('file.txt', 'fileatxt')).toBe(false);
+    expect(matchesGlob('(a|b)', 'a')).toBe(false);
+  });
+});
+
+describe('evaluatePolicies', () => {
+  const call = {
+    serverId: 'filesystem',
+    toolName: 'write_file',
+    arguments: { path: '/etc/hosts', overwrite: true },
+  };
+
+  it('falls back when no policy matches', () => {
+    const policies = [policy(1, { serverId: 'github', action: 'deny' })];
+
+    expect(evaluatePolicies(policies, call, 'require_approval')).toEqual({
+      action: 'require_approval',
+      policyId: null,
+    });
+  });
+
+  it('applies the first matching policy by priority, then id', () => {
+    const policies = [
+      policy(1, { toolPattern: 'write_*', action: 'require_approval', priority: 10 }),
+      policy(3, { serverId: 'filesystem', action: 'allow', priority: 5 }),
+      policy(2, { serverId: 'filesystem', action: 'deny', priority: 5 }),
+    ];
+
+    expect(evaluatePolicies(policies, call, 'allow')).toEqual({ action: 'deny', policyId: 2 });
+  });
+
+  it('matches argument patterns, in JSON for values that are not strings', () => {
+    const policies = [
+      policy(1, { argumentPatterns: { path: '/tmp/*' }, action: 'allow' }),
+      policy(2, { argumentPatterns: { path: '/etc/*', overwrite: 'true' }, action: 'deny' }),
+    ];
+
+    expect(evaluatePolicies(policies, call, 'allow')).toEqual({ action: 'deny', policyId: 2 });
+  });
+
+  it('does not match argument patterns of missing arguments', () => {
+    const policies = [policy(1, { argumentPatterns: { mode: '*' }, action: 'deny' })];
+
+    expect(evaluatePolicies(policies, call, 'allow').policyId).toBe(null);
+  });
+});
@@ -0,0 +1,109 @@
+import { spawnSync } from 'node:child_process';
+import {
+  encodeParamsModule,
+  paramsFilename,
+  parametersEnv,
+  parseParameterValues,
+  validateParameterValues,
+} from '../srcbook/parameters.mjs';
+
+const parameters = {
+  city: { type: 'string' as const, default: 'Paris', description: 'City to report on' },
+  days: { type: 'number' as const, default: 7 },
+  verbose: { type: 'boolean' as const, default: false },
+};
+
+describe('params module', () => {
+  it('is named after the language of the srcbook', () => {
+    expect(paramsFilename('javascript')).toBe('params.mjs');
+    expect(paramsFilename('typescript')).toBe('params.ts');
+  });
+
+  it('types the parameters in TypeScript', () => {
+    const source = encodeParamsModule(parameters, 'typescript');
+    expect(source).toContain('function value<T>(name: string, defaultValue: T): T {');
+    expect(source).toContain(
+      '  /** City to report on */\n  get city(): string {\n    return value("city", "Paris");\n  },',
+    );
+    expect(source).toContain('  get days(): number {\n    return value("days", 7);\n  },');
+    expect(source).toContain('export default params;');
+  });
+
+  it('reads values from the environment, falling back to defaults', () => {
+    const source = encodeParamsModule(parameters, 'javascript');
+    const script = `${source}\nconsole.log(JSON.stringify(params));`;
+
+    const defaults = spawnSync('node', ['--input-type=module', '-e', script], {
+      env: { ...process.env, ...parametersEnv({}) },
+      encoding: 'utf-8',
+    });
+    expect(JSON.parse(defaults.stdout)).toEqual({ city: 'Paris', days: 7, verbose: false });
+
+    const overridden = spawnSync('node', ['--input-type=module', '-e', script], {
+      env: { ...process.env, ...parametersEnv({ days: 30, verbose: true }) },
+      encoding: 'utf-8',
+    });
+    expect(JSON.parse(overridden.stdout)).toEqual({ city: 'Paris', days: 30, verbose: true });
+  });
+
+  it('falls back to defaults for parameters named after properties of objects', () => {
+    const source = encodeParamsModule(
+      {
+        constructor: { type: 'string' as const, default: 'Ada' },
+        toString: { type: 'number' as const, default: 3 },
+      },
+      'javascript',
+    );
+    const script = `${source}\nconsole.log(JSON.stringify(params));`;
+
+    const defaults = spawnSync('node', ['--input-type=module', '-e', script], {
+      env: { ...process.env, ...parametersEnv({}) },
+      encoding: 'utf-8',
+    });
+    expect(JSON.parse(defaults.stdout)).toEqual({ constructor: 'Ada', toString: 3 });
+
+    const overridden = spawnSync('node', ['--input-type=module', '-e', script], {
+      env: { ...process.env, ...parametersEnv({ toString: 5 }) },
+      encoding: 'utf-8',
+    });
+    expect(JSON.parse(overridden.stdout)).toEqual({ constructor: 'Ada', toString: 5 });
+  });
+});
+
+describe('validateParameterValues', () => {
+  it('accepts values of the type of their parameter', () => {
+    expect(validateParameterValues(parameters, { city: 'Lyon', days: 1, verbose: true })).toEqual(
+      [],
+    );
+  });
+
+  it('rejects unknown parameters and values of the wrong type', () => {
+    expect(validateParameterValues(parameters, { country: 'France', days: '30' })).toEqual([
+      "Unknown parameter 'country'",
+      "Parameter 'days' must be a number",
+    ]);
+    expect(validateParameterValues(undefined, { days: 30 })).toEqual(["Unknown parameter 'days'"]);
+    expect(validateParameterValues(parameters, { toString: 'x' })).toEqual([
+      "Unknown parameter 'toString'",
+    ]);
+  });
+});
+
+describe('parseParameterValues', () => {
+  it('converts text to the type of each parameter', () => {
+    expect(parseParameterValues(parameters, { city: 'Lyon', days: '30', verbose: 'true' })).toEqual(
+      { city: 'Lyon', days: 30, verbose: true },
+    );
+  });
+
+  it('keeps text that is not of the type of its parameter, for validation to report', () => {
+    const values = parseParameterValues(parameters, { days: 'soon', verbose: 'yes', country: '1' });
+
+    expect(values).toEqual({ days: 'soon', verbose: 'yes', country: '1' });
+    expect(validateParameterValues(parameters, values)).toEqual([
+      "Parameter 'days' must be a number",
+      "Parameter 'verbose' must be a boolean",
+      "Unknown parameter 'country'",
+    ]);
+  });
+});
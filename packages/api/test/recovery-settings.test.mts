@@ -0,0 +1,59 @@
+import { RetryStrategy } from '../../error-recovery/src/index.mjs';
+import { recoverySettingsFromEnv, type RecoveryDefaults } from '../recovery/settings.mjs';
+
+const defaults: RecoveryDefaults = {
+  strategy: RetryStrategy.EXPONENTIAL_JITTER,
+  maxRetries: 2,
+  retryDelay: 1000,
+  timeout: 10000,
+  circuitBreakerThreshold: 5,
+  circuitBreakerResetTimeout: 60000,
+  healthCheckInterval: 30000,
+};
+
+describe('recoverySettingsFromEnv', () => {
+  it('uses the defaults without env variables', () => {
+    expect(recoverySettingsFromEnv('AI', defaults, {})).toEqual({
+      retryConfig: {
+        strategy: RetryStrategy.EXPONENTIAL_JITTER,
+        maxAttempts: 3,
+        baseDelay: 1000,
+        attemptTimeout: 10000,
+      },
+      circuitBreakerConfig: { failureThreshold: 5, minimumThroughput: 5, resetTimeout: 60000 },
+      healthCheckConfig: { interval: 30000 },
+    });
+  });
+
+  it('reads the env variables with the prefix of the service', () => {
+    const env = {
+      MCP_RETRY_STRATEGY: 'linear',
+      MCP_MAX_RETRIES: '0',
+      MCP_RETRY_DELAY: '250',
+      MCP_CIRCUIT_BREAKER_THRESHOLD: '2',
+      AI_RETRY_DELAY: '5000',
+    };
+    const settings = recoverySettingsFromEnv('MCP', defaults, env);
+
+    expect(settings.retryConfig).toMatchObject({
+      strategy: RetryStrategy.LINEAR,
+      maxAttempts: 1,
+      baseDelay: 250,
+    });
+    expect(settings.circuitBreakerConfig).toMatchObject({
+      failureThreshold: 2,
+      minimumThroughput: 2,
+    });
+  });
+
+  it('falls back to the defaults for invalid values', () => {
+    const env = { AI_RETRY_STRATEGY: 'sometimes', AI_MAX_RETRIES: 'many', AI_RETRY_DELAY: '5' };
+    const settings = recoverySettingsFromEnv('AI', defaults, env);
+
+    expect(settings.retryConfig).toMatchObject({
+      strategy: RetryStrategy.EXPONENTIAL_JITTER,
+      maxAttempts: 3,
+      baseDelay: 1000,
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { RunQueues } from '../run-queues.mjs';
+
+describe('RunQueues', () => {
+  it('runs every cell in order', async () => {
+    const queues = new RunQueues();
+    const executed: string[] = [];
+    const statuses: string[] = [];
+
+    await queues.run('session', {
+      cellIds: ['a', 'b', 'c'],
+      continueOnError: false,
+      async exec(cellId) {
+        executed.push(cellId);
+        return 0;
+      },
+      onProgress(progress) {
+        statuses.push(progress.status);
+      },
+    });
+
+    expect(executed).toEqual(['a', 'b', 'c']);
+    expect(statuses).toEqual(['running', 'running', 'running', 'completed']);
+    expect(queues.isRunning('session')).toBe(false);
+  });
+
+  it('stops on the first failed cell', async () => {
+    const queues = new RunQueues();
+    const executed: string[] = [];
+    const onProgress = vi.fn();
+
+    await queues.run('session', {
+      cellIds: ['a', 'b', 'c'],
+      continueOnError: false,
+      async exec(cellId) {
+        executed.push(cellId);
+        return cellId === 'b' ? 1 : 0;
+      },
+      onProgress,
+    });
+
+    expect(executed).toEqual(['a', 'b']);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      status: 'failed',
+      cellIds: ['a', 'b', 'c'],
+      currentCellId: null,
+      completedCellIds: ['a'],
+      failedCellIds: ['b'],
+    });
+  });
+
+  it('keeps going after failures when continueOnError is set', async () => {
+    const queues = new RunQueues();
+    const executed: string[] = [];
+    const onProgress = vi.fn();
+
+    await queues.run('session', {
+      cellIds: ['a', 'b', 'c'],
+      continueOnError: true,
+      async exec(cellId) {
+        executed.push(cellId);
+        if (cellId === 'a') {
+          throw new Error('cell not found');
+        }
+        return 0;
+      },
+      onProgress,
+    });
+
+    expect(executed).toEqual(['a', 'b', 'c']);
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        status: 'failed',
+        completedCellIds: ['b', 'c'],
+        failedCellIds: ['a'],
+      }),
+    );
+  });
+
+  it('can be stopped while a cell is running', async () => {
+    const queues = new RunQueues();
+    const executed: string[] = [];
+    const onProgress = vi.fn();
+
+    await queues.run('session', {
+      cellIds: ['a', 'b'],
+      continueOnError: true,
+      async exec(cellId) {
+        executed.push(cellId);
+        expect(queues.stop('session')).toEqual('a');
+        return null;
+      },
+      onProgress,
+    });
+
+    expect(executed).toEqual(['a']);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'stopped' }));
+    expect(queues.stop('session')).toBeNull();
+  });
+});
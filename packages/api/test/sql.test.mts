@@ -0,0 +1,102 @@
+import type { ChildProcess } from 'node:child_process';
+import { parseSqlResult, resolveSqlConnection } from '../sql/drivers.mjs';
+import { encodeSqlResultsModule, sqlResultsFilename } from '../sql/results.mjs';
+
+function run(
+  child: ChildProcess,
+): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  let stdout = '';
+  let stderr = '';
+  child.stdout!.on('data', (data) => (stdout += data));
+  child.stderr!.on('data', (data) => (stderr += data));
+  return new Promise((resolve) => child.on('exit', (code) => resolve({ code, stdout, stderr })));
+}
+
+describe('resolveSqlConnection', () => {
+  it('finds the driver of a connection', () => {
+    const { driver, database } = resolveSqlConnection('sqlite:./data.db', {});
+    expect(driver.scheme).toBe('sqlite');
+    expect(database).toBe('./data.db');
+  });
+
+  it('expands the secrets of the session', () => {
+    const { database } = resolveSqlConnection('sqlite:${DB_PATH}', { DB_PATH: '/tmp/app.db' });
+    expect(database).toBe('/tmp/app.db');
+  });
+
+  it('is an error when a secret is not set', () => {
+    expect(() => resolveSqlConnection('sqlite:${DB_PATH}', {})).toThrow(
+      'The connection references the secret DB_PATH, which is not set',
+    );
+  });
+
+  it('is an error when no driver handles the connection', () => {
+    expect(() => resolveSqlConnection('postgres://localhost/app', {})).toThrow(
+      "Unsupported connection 'postgres://localhost/app'. Connections must start with one of: sqlite:",
+    );
+  });
+});
+
+describe('sqlite driver', () => {
+  const { driver } = resolveSqlConnection('sqlite::memory:', {});
+
+  function query(sql: string) {
+    return run(driver.spawn({ cwd: process.cwd(), database: ':memory:', sql, env: process.env }));
+  }
+
+  it('returns the rows of a query', async () => {
+    const { code, stdout } = await query("SELECT 1 AS id, 'ada' AS name UNION SELECT 2, 'alan'");
+    expect(code).toBe(0);
+    expect(parseSqlResult(stdout)).toEqual({
+      columns: ['id', 'name'],
+      rows: [
+        { id: 1, name: 'ada' },
+        { id: 2, name: 'alan' },
+      ],
+      changes: null,
+    });
+  });
+
+  it('runs scripts of several statements', async () => {
+    const { code, stdout } = await query(
+      'CREATE TABLE users (id INTEGER); INSERT INTO users VALUES (1);',
+    );
+    expect(code).toBe(0);
+    expect(parseSqlResult(stdout)).toEqual({ columns: [], rows: [], changes: null });
+  });
+
+  it('exits with an error when the query fails', async () => {
+    const { code, stderr } = await query('SELECT * FROM missing');
+    expect(code).toBe(1);
+    expect(stderr).toContain('no such table: missing');
+  });
+});
+
+describe('results module', () => {
+  const result = {
+    columns: ['id', 'name'],
+    rows: [
+      { id: 1, name: 'ada' },
+      { id: 2, name: null },
+    ],
+    changes: null,
+  };
+
+  it('is named after the SQL cell', () => {
+    expect(sqlResultsFilename('users.sql', 'javascript')).toBe('users.results.mjs');
+    expect(sqlResultsFilename('users.sql', 'typescript')).toBe('users.results.ts');
+  });
+
+  it('types the rows in TypeScript', () => {
+    const module = encodeSqlResultsModule('users.sql', result, 'typescript');
+    expect(module).toContain('export type Row = {\n  "id": number;\n  "name": string | null;\n};');
+    expect(module).toContain('export const rows: Row[] = ');
+    expect(module).toContain('export default rows;');
+  });
+
+  it('exports the rows in JavaScript', () => {
+    const module = encodeSqlResultsModule('users.sql', result, 'javascript');
+    expect(module).toContain('export const columns = ["id","name"];');
+    expect(module).toContain(`export const rows = ${JSON.stringify(result.rows, null, 2)};`);
+  });
+});
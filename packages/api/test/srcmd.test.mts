@@ -91,6 +91,159 @@ describe('encoding and decoding srcmd files', () => {
       encode({ cells: result.srcbook.cells, language: result.srcbook.language }, { inline: true }),
     ).toEqual(srcmd);
   });
+
+  it('can encode and decode cell outputs', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    const outputs = {
+      'foo.mjs': {
+        output: [
+          { type: 'stdout' as const, data: '5\nwith ``` backticks\n' },
+          { type: 'stderr' as const, data: 'warning\n' },
+        ],
+        exitCode: 0,
+        startedAt: 1700000000000,
+        finishedAt: 1700000000042,
+      },
+    };
+
+    const encoded = encode(
+      { cells: result.srcbook.cells, language: result.srcbook.language, outputs },
+      { inline: true, outputs: true },
+    );
+
+    expect(encoded).toContain(`<details data-srcbook-output='`);
+    expect(encoded).toContain('````stdout\n5\nwith ``` backticks\n````');
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(encode(decoded.srcbook, { inline: true })).toEqual(srcmd);
+    expect(decoded.srcbook.outputs).toEqual(outputs);
+  });
+
+  it('can encode and decode shell cells', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    const shellCell = {
+      id: 'shell',
+      type: 'shell' as const,
+      source: 'ls -la\necho "$HOME"',
+      filename: 'setup.sh',
+      status: 'idle' as const,
+    };
+    const cells = [...result.srcbook.cells, shellCell];
+
+    const encoded = encode({ cells, language: result.srcbook.language }, { inline: true });
+    expect(encoded).toContain('###### setup.sh\n\n```sh\nls -la\necho "$HOME"\n```');
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(decoded.srcbook.cells[decoded.srcbook.cells.length - 1]).toEqual({
+      ...shellCell,
+      id: expect.any(String),
+    });
+
+    const linked = encode({ cells, language: result.srcbook.language }, { inline: false });
+    expect(linked).toContain('###### setup.sh\n\n[setup.sh](./src/setup.sh)');
+
+    const decodedLinked = decode(linked) as DecodeSuccessResult;
+    expect(decodedLinked.error).toBe(false);
+    expect(decodedLinked.srcbook.cells[decodedLinked.srcbook.cells.length - 1]).toEqual({
+      ...shellCell,
+      id: expect.any(String),
+      source: '',
+    });
+  });
+
+  it('decodes shell cells by their filename, whatever the language of their code block', () => {
+    const shell = decode(`${srcmd}\n\n###### setup.sh\n\n\`\`\`bash\nnpm run build\n\`\`\`\n`);
+    const code = decode(`${srcmd}\n\n###### run.mjs\n\n\`\`\`sh\nnpm run build\n\`\`\`\n`);
+
+    expect(shell.error).toBe(false);
+    expect(code.error).toBe(false);
+    expect((shell as DecodeSuccessResult).srcbook.cells.at(-1)).toEqual({
+      id: expect.any(String),
+      type: 'shell',
+      source: 'npm run build',
+      filename: 'setup.sh',
+      status: 'idle',
+    });
+    expect((code as DecodeSuccessResult).srcbook.cells.at(-1)).toMatchObject({
+      type: 'code',
+      language: 'javascript',
+      filename: 'run.mjs',
+    });
+  });
+
+  it('can encode and decode SQL cells with their connection', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    const sqlCell = {
+      id: 'sql',
+      type: 'sql' as const,
+      source: 'SELECT * FROM users;',
+      filename: 'users.sql',
+      connection: 'sqlite:./data.db',
+      status: 'idle' as const,
+    };
+    const cells = [...result.srcbook.cells, sqlCell];
+
+    const encoded = encode({ cells, language: result.srcbook.language }, { inline: true });
+    expect(encoded).toContain(
+      '###### users.sql\n\n```sql sqlite:./data.db\nSELECT * FROM users;\n```',
+    );
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(decoded.srcbook.cells[decoded.srcbook.cells.length - 1]).toEqual({
+      ...sqlCell,
+      id: expect.any(String),
+    });
+
+    const linked = encode({ cells, language: result.srcbook.language }, { inline: false });
+    expect(linked).toContain('###### users.sql\n\n[users.sql](./src/users.sql "sqlite:./data.db")');
+
+    const decodedLinked = decode(linked) as DecodeSuccessResult;
+    expect(decodedLinked.error).toBe(false);
+    expect(decodedLinked.srcbook.cells[decodedLinked.srcbook.cells.length - 1]).toEqual({
+      ...sqlCell,
+      id: expect.any(String),
+      source: '',
+    });
+  });
+
+  it('can encode and decode parameters in the metadata header', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    const parameters = {
+      city: { type: 'string' as const, default: 'Paris', description: 'City to report on' },
+      days: { type: 'number' as const, default: 7 },
+      verbose: { type: 'boolean' as const, default: false },
+    };
+
+    const encoded = encode(
+      { cells: result.srcbook.cells, language: result.srcbook.language, parameters },
+      { inline: true },
+    );
+    expect(encoded).toContain(
+      '<!-- srcbook:{"language":"javascript","parameters":{"city":{"type":"string","default":"Paris","description":"City to report on"},"days":{"type":"number","default":7},"verbose":{"type":"boolean","default":false}}} -->',
+    );
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(decoded.srcbook.parameters).toEqual(parameters);
+    expect(result.srcbook.parameters).toBeUndefined();
+  });
+
+  it('omits outputs unless requested', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    const outputs = {
+      'foo.mjs': { output: [], exitCode: 0, startedAt: 1, finishedAt: 2 },
+    };
+    expect(
+      encode(
+        { cells: result.srcbook.cells, language: result.srcbook.language, outputs },
+        { inline: true },
+      ),
+    ).toEqual(srcmd);
+    expect(result.srcbook.outputs).toBeUndefined();
+  });
 });
 
 describe('it can decode from directories', () => {
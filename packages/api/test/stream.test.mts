@@ -0,0 +1,157 @@
+import type { CoreTool, TextStreamPart } from 'ai';
+import { cancelGeneration, readTextStream, streamGeneration } from '../ai/stream.mjs';
+
+type PartType = TextStreamPart<Record<string, CoreTool>>;
+
+async function* stream(parts: object[]) {
+  for (const part of parts) {
+    yield part as PartType;
+  }
+}
+
+function stepFinish() {
+  return { type: 'step-finish', finishReason: 'tool-calls' };
+}
+
+describe('readTextStream', () => {
+  it('passes the text on as it arrives', async () => {
+    const chunks: Array<[string, boolean]> = [];
+
+    const result = await readTextStream(
+      stream([
+        { type: 'text-delta', textDelta: 'const a' },
+        { type: 'text-delta', textDelta: ' = 1;' },
+        { type: 'finish', finishReason: 'stop' },
+      ]),
+      {
+        onChunk: (chunk, restart) => chunks.push([chunk, restart]),
+        abortSignal: new AbortController().signal,
+      },
+    );
+
+    expect(chunks).toEqual([
+      ['const a', false],
+      [' = 1;', false],
+    ]);
+    expect(result).toEqual({ text: 'const a = 1;', finishReason: 'stop', cancelled: false });
+  });
+
+  it('restarts the text after a tool step', async () => {
+    const chunks: Array<[string, boolean]> = [];
+
+    const result = await readTextStream(
+      stream([
+        { type: 'text-delta', textDelta: 'Let me look ' },
+        { type: 'text-delta', textDelta: 'at the docs.' },
+        { type: 'tool-call', toolCallId: '1', toolName: 'docs', args: {} },
+        stepFinish(),
+        // A step without text, such as one calling tools only.
+        stepFinish(),
+        { type: 'text-delta', textDelta: 'const a' },
+        { type: 'text-delta', textDelta: ' = 1;' },
+        stepFinish(),
+        { type: 'finish', finishReason: 'stop' },
+      ]),
+      {
+        onChunk: (chunk, restart) => chunks.push([chunk, restart]),
+        abortSignal: new AbortController().signal,
+      },
+    );
+
+    expect(chunks).toEqual([
+      ['Let me look ', false],
+      ['at the docs.', false],
+      ['const a', true],
+      [' = 1;', false],
+    ]);
+    expect(result.text).toBe('const a = 1;');
+    expect(result.finishReason).toBe('stop');
+  });
+
+  it('throws the errors of the stream', async () => {
+    const error = new Error('Rate limited');
+
+    await expect(
+      readTextStream(
+        stream([
+          { type: 'text-delta', textDelta: 'const' },
+          { type: 'error', error },
+        ]),
+        { onChunk: () => {}, abortSignal: new AbortController().signal },
+      ),
+    ).rejects.toBe(error);
+  });
+
+  it('reports the text so far as cancelled when aborted', async () => {
+    const controller = new AbortController();
+
+    async function* aborted() {
+      yield { type: 'text-delta', textDelta: 'const' } as PartType;
+      controller.abort();
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    const result = await readTextStream(aborted(), {
+      onChunk: () => {},
+      abortSignal: controller.signal,
+    });
+
+    expect(result).toEqual({ text: 'const', finishReason: 'unknown', cancelled: true });
+  });
+});
+
+describe('streamGeneration', () => {
+  // Resolves when the generation is aborted, like the AI SDK ends its stream.
+  function generate({ abortSignal }: { abortSignal: AbortSignal }) {
+    return new Promise<{ cancelled: boolean }>((resolve) => {
+      abortSignal.addEventListener('abort', () => resolve({ cancelled: true }));
+    });
+  }
+
+  it('returns the result of the generation', async () => {
+    const result = await streamGeneration(
+      'cell-1',
+      () => {},
+      async ({ onChunk }) => {
+        onChunk('const a = 1;', false);
+        return { text: 'const a = 1;', cancelled: false };
+      },
+    );
+
+    expect(result).toEqual({ text: 'const a = 1;', cancelled: false });
+  });
+
+  it('returns null when the generation is cancelled', async () => {
+    const result = streamGeneration('cell-1', () => {}, generate);
+    cancelGeneration('cell-1');
+
+    expect(await result).toBeNull();
+  });
+
+  it('cancels the generation in progress with the same id', async () => {
+    const first = streamGeneration('cell-1', () => {}, generate);
+    const other = streamGeneration('cell-2', () => {}, generate);
+    const second = streamGeneration(
+      'cell-1',
+      () => {},
+      async () => ({ cancelled: false }),
+    );
+
+    expect(await first).toBeNull();
+    expect(await second).toEqual({ cancelled: false });
+
+    // Generations for other ids keep going until they are cancelled.
+    cancelGeneration('cell-2');
+    expect(await other).toBeNull();
+  });
+
+  it('does nothing when cancelling a generation that is done', async () => {
+    await streamGeneration(
+      'cell-1',
+      () => {},
+      async () => ({ cancelled: false }),
+    );
+
+    expect(() => cancelGeneration('cell-1')).not.toThrow();
+  });
+});
@@ -0,0 +1,137 @@
+import type { CellType, CodeCellType, MarkdownCellType, TitleCellType } from '@peragus/shared';
+import { getRelativeFileContents } from './utils.mjs';
+import { decode } from '../srcmd.mjs';
+import type { DecodeSuccessResult } from '../srcmd/types.mjs';
+import { reconcileCells } from '../sync/reconcile.mjs';
+import {
+  recordContents,
+  isKnownContents,
+  lastKnownContents,
+  forgetContents,
+} from '../sync/known-contents.mjs';
+
+// Cells decoded again from disk get new ids.
+function redecode(cells: CellType[]): CellType[] {
+  return cells.map((cell, i) => ({ ...cell, id: `disk-${i}` }));
+}
+
+describe('reconcileCells', () => {
+  let cells: CellType[];
+
+  beforeAll(async () => {
+    const srcmd = await getRelativeFileContents('srcmd_files/srcbook.src.md');
+    cells = (decode(srcmd) as DecodeSuccessResult).srcbook.cells;
+  });
+
+  it('keeps the session cells when nothing changed', () => {
+    const result = reconcileCells(cells, redecode(cells), {
+      applyOrder: true,
+      resolve: () => 'apply',
+    });
+
+    expect(result).toEqual({ cells, changes: [], conflicts: [] });
+  });
+
+  it('applies edits to the session cells, keeping their ids', () => {
+    const [, , , index] = cells as [CellType, CellType, CellType, CodeCellType];
+    const disk = redecode(cells).map((cell) =>
+      cell.type === 'code' && cell.filename === index.filename
+        ? { ...cell, source: 'console.log(42);\n' }
+        : cell,
+    );
+
+    const result = reconcileCells(cells, disk, { applyOrder: false, resolve: () => 'apply' });
+    const updated = { ...index, source: 'console.log(42);\n' };
+
+    expect(result.changes).toEqual([{ type: 'updated', cell: updated }]);
+    expect(result.cells).toEqual(cells.map((cell) => (cell.id === index.id ? updated : cell)));
+  });
+
+  it('reports conflicts and keeps the session version', () => {
+    const [title] = cells as [TitleCellType];
+    const disk = redecode(cells);
+    disk[0] = { ...(disk[0] as TitleCellType), text: 'Changed on disk' };
+
+    const result = reconcileCells(cells, disk, {
+      applyOrder: true,
+      resolve: () => 'conflict',
+    });
+
+    expect(result.changes).toEqual([]);
+    expect(result.conflicts).toEqual([title]);
+    expect(result.cells).toEqual(cells);
+  });
+
+  it('creates, moves and deletes cells to follow the disk', () => {
+    const [title, packageJson, intro, index, section, foo, ...rest] = cells as [
+      TitleCellType,
+      CellType,
+      MarkdownCellType,
+      CodeCellType,
+      CellType,
+      CodeCellType,
+      ...CellType[],
+    ];
+
+    const bar: CodeCellType = { ...foo, id: 'bar', filename: 'bar.mjs', source: 'bar();\n' };
+    const disk = redecode([title, packageJson, foo, index, section, ...rest, bar]);
+    const created = disk[disk.length - 1]!;
+
+    const result = reconcileCells(cells, disk, { applyOrder: true, resolve: () => 'apply' });
+
+    expect(result.cells).toEqual([title, packageJson, foo, index, section, ...rest, created]);
+    expect(result.changes).toEqual([
+      { type: 'deleted', cell: intro },
+      { type: 'moved', cell: foo, index: 2 },
+      { type: 'created', cell: created, index: disk.length - 1 },
+    ]);
+
+    // Applying the changes in order to the session's cells gives the disk's order.
+    let current = [...cells];
+    for (const change of result.changes) {
+      current = current.filter((cell) => cell.id !== change.cell.id);
+      if (change.type === 'created' || change.type === 'moved') {
+        current.splice(change.index, 0, change.cell);
+      }
+    }
+    expect(current).toEqual(result.cells);
+  });
+
+  it('leaves the list of cells alone unless told to apply the order', () => {
+    const disk = redecode(cells.slice(0, 4));
+
+    const result = reconcileCells(cells, disk, { applyOrder: false, resolve: () => 'apply' });
+
+    expect(result).toEqual({ cells, changes: [], conflicts: [] });
+  });
+});
+
+describe('known contents', () => {
+  const path = '/tmp/srcbooks/abc/src/index.ts';
+
+  afterEach(() => {
+    forgetContents('/tmp/srcbooks/abc');
+  });
+
+  it('remembers recent contents of a file', () => {
+    recordContents(path, 'one');
+    recordContents(path, 'two');
+
+    expect(isKnownContents(path, 'one')).toBe(true);
+    expect(isKnownContents(path, 'three')).toBe(false);
+    expect(lastKnownContents(path)).toBe('two');
+
+    recordContents(path, 'one');
+    expect(lastKnownContents(path)).toBe('one');
+  });
+
+  it('forgets the files of a srcbook', () => {
+    recordContents(path, 'one');
+    recordContents('/tmp/srcbooks/abcd/README.md', 'other');
+
+    forgetContents('/tmp/srcbooks/abc');
+
+    expect(lastKnownContents(path)).toBeUndefined();
+    expect(lastKnownContents('/tmp/srcbooks/abcd/README.md')).toBe('other');
+  });
+});
@@ -213,6 +213,20 @@ export class TsServer extends EventEmitter {
     });
   }
 
+  /**
+   * Get the locations, in other files, of the imports of a file.
+   *
+   * This is used to build the graph of the cells importing each other.
+   */
+  fileReferences(args: tsserver.protocol.FileRequestArgs) {
+    return this.sendWithResponsePromise<tsserver.protocol.FileReferencesResponse>({
+      seq: this.seq,
+      type: 'request',
+      command: 'fileReferences',
+      arguments: args,
+    });
+  }
+
   getCompletions(args: tsserver.protocol.FileLocationRequestArgs) {
     return this.sendWithResponsePromise<{ body: tsserver.protocol.CompletionEntry[] }>({
       seq: this.seq,
@@ -1,5 +1,11 @@
 // @ts-ignore - ignore import errors during build time
-import type { CellType, CodeLanguageType } from '@peragus/shared'; // @ts-ignore
+import type {
+  CellType,
+  CodeLanguageType,
+  CellExecutionResultType,
+  ParametersType,
+  ParameterValuesType,
+} from '@peragus/shared'; // @ts-ignore
 
 export type SessionType = {
   id: string;
@@ -19,6 +25,49 @@ export type SessionType = {
    */
   'tsconfig.json'?: string;
 
+  /**
+   * The inputs of the srcbook declared in its metadata, with their defaults.
+   */
+  parameters?: ParametersType;
+
+  /**
+   * The values overriding the defaults of parameters in the next runs of cells.
+   *
+   * They are not persisted: the srcbook runs with its defaults once reopened.
+   */
+  parameterValues: ParameterValuesType;
+
+  /**
+   * The output of the most recent execution of each code cell.
+   *
+   * Keyed by filename rather than cell id because cell ids are
+   * regenerated every time a srcbook is decoded from disk.
+   */
+  outputs: Record<string, CellExecutionResultType>;
+
+  /**
+   * Whether code cells run in a long-lived kernel that shares state between
+   * cells rather than in a fresh process for every execution.
+   */
+  kernel: boolean;
+
+  /**
+   * Whether the code cells importing a cell run again once it ran, rather than
+   * only being marked as stale.
+   */
+  reactive: boolean;
+
+  /**
+   * The code cells whose last run used cells that changed or ran since.
+   */
+  staleCellIds: string[];
+
+  /**
+   * Whether code cells replay the output of an earlier run instead of running again
+   * when nothing they depend on changed since. Cells never use the cache in a kernel.
+   */
+  cache: boolean;
+
   /**
    * Replace this with updatedAt once we store srcbooks in sqlite
    */
@@ -0,0 +1,3 @@
+import { SrcbookWatchers } from './sync/watcher.mjs';
+
+export default new SrcbookWatchers();
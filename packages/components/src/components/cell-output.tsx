@@ -1,14 +1,27 @@
 import { useState } from 'react';
 import { Ban, Maximize, Minimize, PanelBottomClose, PanelBottomOpen, Sparkles } from 'lucide-react';
-import { CodeCellType, PackageJsonCellType, TsServerDiagnosticType } from '@peragus/shared'; // @ts-ignore
+import {
+  CodeCellType,
+  PackageJsonCellType,
+  ShellCellType,
+  SqlCellType,
+  TsServerDiagnosticType,
+} from '@peragus/shared'; // @ts-ignore
 import { cn } from '../lib/utils.js';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from './ui/underline-flat-tabs.js';
 import { useCells } from './use-cell.js';
-import { OutputType, StdoutOutputType, StderrOutputType, CellModeType } from '../types';
+import {
+  StdoutOutputType,
+  StderrOutputType,
+  DisplayOutputType,
+  CellModeType,
+  CellExecutionType,
+} from '../types';
 import { Button } from './ui/button.js';
+import { DisplayOutput } from './display-output.js';
 
 type Props = {
-  cell: CodeCellType | PackageJsonCellType;
+  cell: CodeCellType | ShellCellType | SqlCellType | PackageJsonCellType;
   show: boolean;
   setShow: (show: boolean) => void;
   fixDiagnostics: (diagnostics: string) => void;
@@ -20,17 +33,19 @@ type Props = {
 
 export function CellOutput(props: Props) {
   const { cell, show, setShow } = props;
-  const { getOutput, clearOutput, getTsServerDiagnostics, getTsServerSuggestions } = useCells();
+  const { getOutput, clearOutput, getExecution, getTsServerDiagnostics, getTsServerSuggestions } =
+    useCells();
 
   const [activeTab, setActiveTab] = useState<'stdout' | 'stderr' | 'problems' | 'warnings'>(
     'stdout',
   );
 
   const fullscreen = props.fullscreen;
-  const stdout = getOutput(cell.id, 'stdout') as StdoutOutputType[];
+  const stdout = getOutput(cell.id, 'stdout') as Array<StdoutOutputType | DisplayOutputType>;
   const stderr = getOutput(cell.id, 'stderr') as StderrOutputType[];
   const diagnostics = getTsServerDiagnostics(cell.id);
   const suggestions = getTsServerSuggestions(cell.id);
+  const execution = cell.status === 'running' ? undefined : getExecution(cell.id);
 
   return (
     <div className={cn('font-mono text-sm', fullscreen && !show && 'border-b')}>
@@ -113,6 +128,7 @@ export function CellOutput(props: Props) {
             )}
           </TabsList>
           <div className="flex items-center gap-6">
+            {execution && <ExecutionSummary execution={execution} />}
             <button
               className="hover:text-secondary-hover disabled:pointer-events-none disabled:opacity-50"
               onClick={() => props.setFullscreen(!fullscreen)}
@@ -176,15 +192,46 @@ export function CellOutput(props: Props) {
   );
 }
 
-function formatOutput(output: OutputType[], sep = '') {
+function ExecutionSummary({ execution }: { execution: CellExecutionType }) {
+  const { exitCode, startedAt, finishedAt, cached } = execution;
+  const ranAt = new Date(startedAt).toLocaleString();
+  const duration = finishedAt !== null ? ` in ${finishedAt - startedAt}ms` : '';
+  const title = cached ? `Replayed from the cache at ${ranAt}` : `Ran at ${ranAt}${duration}`;
+
+  return (
+    <span className="text-xs" title={title}>
+      <span className={cn(exitCode !== 0 && 'text-sb-red-30')}>
+        {exitCode === null ? 'killed' : `exit ${exitCode}`}
+      </span>
+      {cached && ' · cached'}
+      {` · ${new Date(startedAt).toLocaleTimeString()}`}
+    </span>
+  );
+}
+
+function formatOutput(output: Array<StdoutOutputType | StderrOutputType>, sep = '') {
   return output.map(({ data }) => data).join(sep);
 }
 
-function Stdout({ stdout }: { stdout: StdoutOutputType[] }) {
-  return stdout.length === 0 ? (
-    <div className="italic text-center text-muted-foreground">No output</div>
-  ) : (
-    formatOutput(stdout)
+function Stdout({ stdout }: { stdout: Array<StdoutOutputType | DisplayOutputType> }) {
+  if (stdout.length === 0) {
+    return <div className="italic text-center text-muted-foreground">No output</div>;
+  }
+
+  if (stdout.every((output) => output.type === 'stdout')) {
+    return formatOutput(stdout);
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {stdout.map((output, i) =>
+        output.type === 'display' ? (
+          <DisplayOutput key={i} output={output} />
+        ) : (
+          <div key={i}>{output.data}</div>
+        ),
+      )}
+    </div>
   );
 }
 
@@ -200,7 +247,7 @@ function Stderr({ stderr }: { stderr: StderrOutputType[] }) {
   );
 }
 
-function formatDiagnostic(diag: TsServerDiagnosticType) {
+export function formatDiagnostic(diag: TsServerDiagnosticType) {
   return `[Ln ${diag.start.line}, Col ${diag.start.offset}] ${diag.category} ts(${diag.code}): ${diag.text}`;
 }
 
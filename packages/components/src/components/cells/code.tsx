@@ -57,6 +57,7 @@ type RegularProps = BaseProps & {
   generationType: 'edit' | 'fix';
   newSource: string;
   onAccept: () => void;
+  onCancelGeneration: () => void;
   onChangeCellModeType: (newCellMode: CellModeType) => void;
   onChangeFilenameError: (newError: string | null) => void;
   onChangeFullscreen: (value: boolean) => void;
@@ -76,11 +77,19 @@ type RegularProps = BaseProps & {
   showStdio: boolean;
   updateCellOnServer: (cell: CodeCellType, attrs: CodeCellUpdateAttrsType) => void;
   editorExtensions: Array<Extension>;
+  // Whether cells it imports changed or ran since it last ran.
+  stale?: boolean;
 };
 type ReadOnlyProps = BaseProps & { readOnly: true };
 type Props = RegularProps | ReadOnlyProps;
 
 export default function CodeCell(props: Props) {
+  // The diff shows the code as it is generated, then for review once it is complete.
+  const showDiff =
+    !props.readOnly &&
+    (props.cellMode === 'reviewing' ||
+      ((props.cellMode === 'generating' || props.cellMode === 'fixing') && props.newSource !== ''));
+
   return (
     <div id={`cell-${props.cell.id}`}>
       {!props.readOnly ? (
@@ -116,11 +125,13 @@ export default function CodeCell(props: Props) {
               setShowStdio={props.onChangeShowStdio}
               onAccept={props.onAccept}
               onRevert={props.onRevert}
+              cancelGeneration={props.onCancelGeneration}
               formatCell={props.onFormatCell}
               aiEnabled={!props.readOnly ? props.aiEnabled : false}
+              stale={!props.readOnly ? (props.stale ?? false) : false}
             />
 
-            {props.cellMode === 'reviewing' ? (
+            {showDiff ? (
               <DiffEditor original={props.cell.source} modified={props.newSource} />
             ) : (
               <ResizablePanelGroup direction="vertical">
@@ -222,12 +233,14 @@ export default function CodeCell(props: Props) {
               setShowStdio={props.onChangeShowStdio}
               onAccept={props.onAccept}
               onRevert={props.onRevert}
+              cancelGeneration={props.onCancelGeneration}
               formatCell={props.onFormatCell}
               aiEnabled={props.aiEnabled}
+              stale={props.stale ?? false}
             />
           )}
 
-          {!props.readOnly && props.cellMode === 'reviewing' ? (
+          {showDiff ? (
             <DiffEditor original={props.cell.source} modified={props.newSource} />
           ) : (
             <>
@@ -285,8 +298,10 @@ function Header(props: {
   stopCell: () => void;
   onAccept: () => void;
   onRevert: () => void;
+  cancelGeneration: () => void;
   formatCell: () => void;
   aiEnabled: boolean;
+  stale: boolean;
 }) {
   const {
     cell,
@@ -304,8 +319,10 @@ function Header(props: {
     prompt,
     setPrompt,
     stopCell,
+    cancelGeneration,
     formatCell,
     aiEnabled,
+    stale,
   } = props;
 
   const navigate = useNavigate();
@@ -331,6 +348,18 @@ function Header(props: {
               Invalid filename
             </div>
           )}
+          {stale && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span className="border rounded-sm px-1.5 py-0.5 text-xs text-tertiary-foreground">
+                    Stale
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent>Cells it imports changed since it last ran</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
           {onDeleteCell !== null ? (
             <DeleteCellWithConfirmation onDeleteCell={() => onDeleteCell(cell)}>
               <Button className="hidden group-hover:flex" variant="icon" size="icon" tabIndex={1}>
@@ -417,26 +446,36 @@ function Header(props: {
             </Button>
           )}
           {cellMode === 'generating' && (
-            <Button
-              variant="ai"
-              size="default-with-icon"
-              className="disabled:opacity-100"
-              disabled
-              tabIndex={1}
-            >
-              <LoaderCircle size={16} className="animate-spin" /> Generating
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button variant="secondary" onClick={cancelGeneration} tabIndex={1}>
+                Cancel
+              </Button>
+              <Button
+                variant="ai"
+                size="default-with-icon"
+                className="disabled:opacity-100"
+                disabled
+                tabIndex={1}
+              >
+                <LoaderCircle size={16} className="animate-spin" /> Generating
+              </Button>
+            </div>
           )}
           {cellMode === 'fixing' && (
-            <Button
-              variant="ai"
-              size="default-with-icon"
-              className="disabled:opacity-100"
-              disabled
-              tabIndex={1}
-            >
-              <LoaderCircle size={16} className="animate-spin" /> Fixing...
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button variant="secondary" onClick={cancelGeneration} tabIndex={1}>
+                Cancel
+              </Button>
+              <Button
+                variant="ai"
+                size="default-with-icon"
+                className="disabled:opacity-100"
+                disabled
+                tabIndex={1}
+              >
+                <LoaderCircle size={16} className="animate-spin" /> Fixing...
+              </Button>
+            </div>
           )}
           {cellMode === 'reviewing' && (
             <div className="flex items-center gap-2">
@@ -496,6 +535,9 @@ function Header(props: {
                 size="icon"
                 variant="icon"
                 onClick={() => {
+                  if (cellMode === 'generating') {
+                    cancelGeneration();
+                  }
                   setCellMode('off');
                   setPrompt('');
                 }}
@@ -582,7 +624,7 @@ function DiffEditor({ original, modified }: { original: string; modified: string
   );
 }
 
-function FilenameInput(props: {
+export function FilenameInput(props: {
   filename: string;
   className: string;
   onUpdate: (filename: string) => void;
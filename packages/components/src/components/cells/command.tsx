@@ -0,0 +1,207 @@
+import { useCallback, useState, type ReactNode } from 'react';
+import CodeMirror, { keymap, Prec } from '@uiw/react-codemirror';
+import { Extension } from '@codemirror/state';
+import { Info, LoaderCircle, Play, Trash2, type LucideIcon } from 'lucide-react';
+import { useDebouncedCallback } from 'use-debounce';
+import { CellType, ShellCellType, SqlCellType } from '@peragus/shared';
+import { cn } from '../../lib/utils.js';
+import { Button } from '../ui/button.js';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip.js';
+import Shortcut from '../keyboard-shortcut.js';
+import DeleteCellWithConfirmation from '../delete-cell-dialog.js';
+import { CellOutput } from '../cell-output.js';
+import { useCells } from '../use-cell.js';
+import { FilenameInput } from './code.js';
+
+const DEBOUNCE_DELAY = 500;
+
+type CommandCellType = ShellCellType | SqlCellType;
+
+type BaseProps<T extends CommandCellType> = {
+  cell: T;
+  codeTheme: Extension;
+};
+
+type RegularProps<T extends CommandCellType, A> = BaseProps<T> & {
+  readOnly?: false;
+  filenameError: string | null;
+  onChangeFilenameError: (error: string | null) => void;
+  onDeleteCell: (cell: CellType) => void;
+  onRunCell: () => void;
+  onStopCell: () => void;
+  onUpdateFileName: (filename: string) => void;
+  updateCellOnServer: (cell: T, attrs: A) => void;
+};
+type ReadOnlyProps<T extends CommandCellType> = BaseProps<T> & { readOnly: true };
+
+/**
+ * The props of the cells rendered through `CommandCell`.
+ */
+export type CommandCellProps<T extends CommandCellType, A> = RegularProps<T, A> | ReadOnlyProps<T>;
+
+type Props<T extends CommandCellType, A> = CommandCellProps<T, A> & {
+  icon: LucideIcon;
+  /**
+   * The attributes saved on the server when the cell changes, e.g. its source and connection.
+   */
+  updateAttrs: (cell: T) => A;
+  /**
+   * Rendered in the header after the filename, e.g. to edit other attributes of the cell.
+   */
+  header?: (updateCell: (changes: Partial<T>) => void) => ReactNode;
+};
+
+/**
+ * A cell running its source in its own process, like a command: shell and SQL cells.
+ */
+export default function CommandCell<T extends CommandCellType, A>(props: Props<T, A>) {
+  const { cell, icon: Icon, updateAttrs } = props;
+  const { updateCell: updateCellOnClient } = useCells();
+  const [showStdio, setShowStdio] = useState(false);
+  const [fullscreen, setFullscreen] = useState(false);
+
+  const updateCellOnServer = useCallback(
+    (cell: T, attrs: A) => {
+      if (!props.readOnly) {
+        props.updateCellOnServer(cell, attrs);
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [props.readOnly],
+  );
+  const updateCellOnServerDebounced = useDebouncedCallback(updateCellOnServer, DEBOUNCE_DELAY);
+
+  function updateCell(changes: Partial<T>) {
+    const updatedCell = { ...cell, ...changes };
+    updateCellOnClient(updatedCell);
+    updateCellOnServerDebounced(cell, updateAttrs(updatedCell));
+  }
+
+  function runCell() {
+    if (props.readOnly || cell.status === 'running') {
+      return;
+    }
+    setShowStdio(true);
+    props.onRunCell();
+  }
+
+  const extensions: Array<Extension> = [];
+  if (!props.readOnly) {
+    extensions.push(
+      Prec.highest(
+        keymap.of([
+          {
+            key: 'Mod-Enter',
+            run: () => {
+              runCell();
+              return true;
+            },
+          },
+        ]),
+      ),
+    );
+  }
+
+  return (
+    <div className="relative group/cell" id={`cell-${cell.id}`}>
+      <div
+        className={cn(
+          'border rounded-md group',
+          cell.status === 'running' && 'ring-1 ring-run-ring border-run-ring',
+          !props.readOnly &&
+            cell.status !== 'running' &&
+            'focus-within:ring-1 focus-within:ring-ring focus-within:border-ring',
+        )}
+      >
+        <div className="p-1 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-1">
+            <Icon size={16} className="ml-2 text-tertiary-foreground" />
+            {props.readOnly ? (
+              <span className="w-[200px] font-mono font-semibold text-xs transition-colors px-2">
+                {cell.filename}
+              </span>
+            ) : (
+              <>
+                <FilenameInput
+                  filename={cell.filename}
+                  onUpdate={props.onUpdateFileName}
+                  onChange={() => props.onChangeFilenameError(null)}
+                  className={cn(
+                    'w-[200px] font-mono font-semibold text-xs transition-colors px-2',
+                    props.filenameError
+                      ? 'border-error'
+                      : 'border-transparent hover:border-input group-hover:border-input ',
+                  )}
+                />
+                {props.filenameError && (
+                  <div className="bg-error text-error-foreground flex items-center rounded-sm border border-transparent px-[10px] py-2 text-sm leading-none font-medium">
+                    <Info size={14} className="mr-1.5" />
+                    Invalid filename
+                  </div>
+                )}
+                <DeleteCellWithConfirmation onDeleteCell={() => props.onDeleteCell(cell)}>
+                  <Button className="hidden group-hover:flex" variant="icon" size="icon">
+                    <Trash2 size={16} />
+                  </Button>
+                </DeleteCellWithConfirmation>
+              </>
+            )}
+            {props.header?.(updateCell)}
+          </div>
+          {!props.readOnly && (
+            <div
+              className={cn(
+                'opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity flex gap-2',
+                cell.status === 'running' && 'opacity-100',
+              )}
+            >
+              {cell.status === 'running' ? (
+                <Button variant="run" size="default-with-icon" onClick={props.onStopCell}>
+                  <LoaderCircle size={16} className="animate-spin" /> Stop
+                </Button>
+              ) : (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button size="default-with-icon" onClick={runCell}>
+                        <Play size={16} />
+                        Run
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <Shortcut keys={['mod', 'enter']} /> to run cell
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div id={cell.filename}>
+          <CodeMirror
+            value={cell.source}
+            theme={props.codeTheme}
+            extensions={extensions}
+            editable={!props.readOnly}
+            readOnly={props.readOnly}
+            onChange={(source) => updateCell({ source } as Partial<T>)}
+          />
+        </div>
+
+        {!props.readOnly && (
+          <CellOutput
+            cell={cell}
+            show={showStdio}
+            setShow={setShowStdio}
+            fullscreen={fullscreen}
+            setFullscreen={setFullscreen}
+            fixDiagnostics={() => {}}
+            cellMode="off"
+            aiEnabled={false}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { Terminal } from 'lucide-react';
+import { ShellCellType, ShellCellUpdateAttrsType } from '@peragus/shared';
+import CommandCell, { type CommandCellProps } from './command.js';
+
+/**
+ * A cell running its source with `sh` in the srcbook directory.
+ */
+export default function ShellCell(
+  props: CommandCellProps<ShellCellType, ShellCellUpdateAttrsType>,
+) {
+  return <CommandCell {...props} icon={Terminal} updateAttrs={({ source }) => ({ source })} />;
+}
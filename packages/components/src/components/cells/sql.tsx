@@ -0,0 +1,31 @@
+import { Database } from 'lucide-react';
+import { SqlCellType, SqlCellUpdateAttrsType } from '@peragus/shared';
+import { Input } from '../ui/input.js';
+import CommandCell, { type CommandCellProps } from './command.js';
+
+/**
+ * A cell running its source against the database of its connection, e.g. `sqlite:./data.db`.
+ */
+export default function SqlCell(props: CommandCellProps<SqlCellType, SqlCellUpdateAttrsType>) {
+  const { cell } = props;
+
+  return (
+    <CommandCell
+      {...props}
+      icon={Database}
+      updateAttrs={({ source, connection }) => ({ source, connection })}
+      header={(updateCell) =>
+        props.readOnly ? (
+          <span className="font-mono text-xs text-tertiary-foreground px-2">{cell.connection}</span>
+        ) : (
+          <Input
+            value={cell.connection}
+            placeholder="sqlite:./data.db"
+            onChange={(e) => updateCell({ connection: e.target.value })}
+            className="w-[240px] font-mono text-xs transition-colors px-2 border-transparent hover:border-input group-hover:border-input"
+          />
+        )
+      }
+    />
+  );
+}
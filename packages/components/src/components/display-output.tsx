@@ -0,0 +1,176 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, ArrowDown, ArrowUp } from 'lucide-react';
+import { cn } from '../lib/utils.js';
+import { DisplayOutputType } from '../types';
+
+export function DisplayOutput({ output }: { output: DisplayOutputType }) {
+  switch (output.mimeType) {
+    case 'text/html':
+      return <HtmlOutput html={output.data} />;
+    case 'image/png':
+      return <img className="max-w-full" alt="" src={`data:image/png;base64,${output.data}`} />;
+    case 'application/json':
+      return <JsonTree value={output.data} />;
+    case 'application/vnd.srcbook.table+json':
+      return <TableOutput rows={output.data} />;
+  }
+}
+
+// HTML is rendered in a sandboxed iframe so that it cannot run scripts or
+// restyle the page. It is sized to its content once loaded.
+function HtmlOutput({ html }: { html: string }) {
+  const [height, setHeight] = useState<number>();
+
+  return (
+    <iframe
+      title="HTML output"
+      className="w-full border-none bg-white rounded-sm"
+      sandbox="allow-same-origin"
+      srcDoc={html}
+      style={{ height }}
+      onLoad={(e) => {
+        const body = e.currentTarget.contentDocument?.body;
+        if (body) {
+          setHeight(body.scrollHeight + 16);
+        }
+      }}
+    />
+  );
+}
+
+function JsonTree({ value, name }: { value: unknown; name?: string }) {
+  const expandable = typeof value === 'object' && value !== null;
+  const [open, setOpen] = useState(name === undefined);
+
+  const label = name !== undefined && <span className="text-sb-purple-60">{name}: </span>;
+
+  if (!expandable) {
+    return (
+      <div className="pl-4">
+        {label}
+        <JsonValue value={value} />
+      </div>
+    );
+  }
+
+  const entries = Object.entries(value);
+  const summary = Array.isArray(value) ? `Array(${entries.length})` : `{${entries.length}}`;
+
+  return (
+    <div>
+      <button className="flex items-center" onClick={() => setOpen(!open)}>
+        {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        {label}
+        <span className="text-tertiary-foreground">{summary}</span>
+      </button>
+      {open && (
+        <div className="pl-4">
+          {entries.map(([key, child]) => (
+            <JsonTree key={key} name={key} value={child} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function JsonValue({ value }: { value: unknown }) {
+  if (typeof value === 'string') {
+    return <span className="text-sb-green-80 dark:text-sb-green-20">{JSON.stringify(value)}</span>;
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return <span className="text-sb-blue-50">{String(value)}</span>;
+  }
+
+  return <span className="text-tertiary-foreground">{String(value)}</span>;
+}
+
+function TableOutput({ rows }: { rows: Record<string, unknown>[] }) {
+  const [sort, setSort] = useState<{ column: string; ascending: boolean } | null>(null);
+
+  const columns = useMemo(() => {
+    const keys = new Set<string>();
+    rows.forEach((row) => Object.keys(row).forEach((key) => keys.add(key)));
+    return Array.from(keys);
+  }, [rows]);
+
+  const sorted = useMemo(() => {
+    if (sort === null) {
+      return rows;
+    }
+
+    const { column, ascending } = sort;
+
+    return [...rows].sort((a, b) => {
+      const order = compare(a[column], b[column]);
+      return ascending ? order : -order;
+    });
+  }, [rows, sort]);
+
+  function toggleSort(column: string) {
+    setSort(
+      sort?.column === column
+        ? { column, ascending: !sort.ascending }
+        : { column, ascending: true },
+    );
+  }
+
+  return (
+    <div className="overflow-auto">
+      <table className="border-collapse text-left whitespace-nowrap">
+        <thead>
+          <tr>
+            {columns.map((column) => (
+              <th key={column} className="border px-2 py-1 font-medium bg-muted">
+                <button className="flex items-center gap-1" onClick={() => toggleSort(column)}>
+                  {column}
+                  {sort?.column === column &&
+                    (sort.ascending ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((row, i) => (
+            <tr key={i}>
+              {columns.map((column) => (
+                <td
+                  key={column}
+                  className={cn(
+                    'border px-2 py-1',
+                    typeof row[column] === 'number' && 'text-right',
+                  )}
+                >
+                  {formatCell(row[column])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function compare(a: unknown, b: unknown) {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  // Missing values sort last.
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+
+  return formatCell(a).localeCompare(formatCell(b));
+}
+
+function formatCell(value: unknown) {
+  if (value === undefined) {
+    return '';
+  }
+
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
@@ -12,23 +12,25 @@ import {
   CodeCellType,
   CodeLanguageType,
   MarkdownCellType,
+  ShellCellType,
+  SqlCellType,
+  CellExecutionResultType,
   TsServerDiagnosticType,
   TsServerSuggestionType,
   getDefaultExtensionForLanguage,
 } from '@peragus/shared'; // @ts-ignore
-import { GenerateAICellType, OutputType } from '../types';
+import { GenerateAICellType, OutputType, CellExecutionType } from '../types';
 
 import { randomid } from '@peragus/shared'; // @ts-ignore
 
 type ClientCellType = CellType | GenerateAICellType;
 
 /**
- * Utility function to generate a unique filename for a code cell,
+ * Utility function to generate a unique filename for a code, shell or SQL cell,
  * given the list of existing filenames.
  */
-function generateUniqueFilename(existingFilenames: string[], language: CodeLanguageType): string {
+function generateUniqueFilename(existingFilenames: string[], extension: string): string {
   const baseName = 'untitled';
-  const extension = getDefaultExtensionForLanguage(language);
 
   let filename = `${baseName}${extension}`;
   let counter = 1;
@@ -53,8 +55,10 @@ function buildCodeCell(
   language: CodeLanguageType,
   attrs: Partial<CodeCellType> = {},
 ): CodeCellType {
-  const filenames = cells.filter((c) => c.type === 'code').map((c) => (c as CodeCellType).filename);
-  const uniqueFilename = generateUniqueFilename(filenames, language);
+  const uniqueFilename = generateUniqueFilename(
+    filenames(cells),
+    getDefaultExtensionForLanguage(language),
+  );
 
   return {
     source: '',
@@ -67,6 +71,39 @@ function buildCodeCell(
   };
 }
 
+function buildShellCell(
+  cells: ClientCellType[],
+  attrs: Partial<ShellCellType> = {},
+): ShellCellType {
+  return {
+    source: '',
+    filename: generateUniqueFilename(filenames(cells), '.sh'),
+    status: 'idle',
+    ...attrs,
+    id: randomid(),
+    type: 'shell',
+  };
+}
+
+function buildSqlCell(cells: ClientCellType[], attrs: Partial<SqlCellType> = {}): SqlCellType {
+  return {
+    source: '',
+    filename: generateUniqueFilename(filenames(cells), '.sql'),
+    connection: 'sqlite:./data.db',
+    status: 'idle',
+    ...attrs,
+    id: randomid(),
+    type: 'sql',
+  };
+}
+
+// Code, shell and SQL cells are files in the same directory.
+function filenames(cells: ClientCellType[]) {
+  return cells
+    .filter((c) => c.type === 'code' || c.type === 'shell' || c.type === 'sql')
+    .map((c) => (c as CodeCellType | ShellCellType | SqlCellType).filename);
+}
+
 function buildMarkdownCell(attrs: Partial<MarkdownCellType> = {}): MarkdownCellType {
   return {
     text: '',
@@ -77,25 +114,36 @@ function buildMarkdownCell(attrs: Partial<MarkdownCellType> = {}): MarkdownCellT
 }
 
 type OutputStateType = Record<string, OutputType[]>;
+type ExecutionStateType = Record<string, CellExecutionType>;
 type TsServerStateType = Record<string, TsServerDiagnosticType[]>;
 
+// Display outputs are written to stdout by the cell, so they are shown alongside it.
+function outputStream(output: OutputType): 'stdout' | 'stderr' {
+  return output.type === 'stderr' ? 'stderr' : 'stdout';
+}
+
 interface CellsContextType {
   cells: ClientCellType[];
   setCells: (cells: ClientCellType[]) => void;
   updateCell: (cell: ClientCellType) => void;
   removeCell: (cell: ClientCellType) => void;
   insertCellAt: (cell: ClientCellType, idx: number) => void;
+  moveCell: (cell: ClientCellType, idx: number) => void;
   createCodeCell: (
     idx: number,
     language: CodeLanguageType,
     attrs?: Partial<CodeCellType>,
   ) => CodeCellType;
   createMarkdownCell: (idx: number, attrs?: Partial<MarkdownCellType>) => MarkdownCellType;
+  createShellCell: (idx: number, attrs?: Partial<ShellCellType>) => ShellCellType;
+  createSqlCell: (idx: number, attrs?: Partial<SqlCellType>) => SqlCellType;
   createGenerateAiCell: (idx: number) => GenerateAICellType;
   hasOutput: (id: string, type?: 'stdout' | 'stderr') => boolean;
   getOutput: (id: string, type?: 'stdout' | 'stderr') => Array<OutputType>;
   setOutput: (id: string, output: OutputType | OutputType[]) => void;
   clearOutput: (id: string, type?: 'stdout' | 'stderr') => void;
+  getExecution: (id: string) => CellExecutionType | undefined;
+  setExecution: (id: string, execution: CellExecutionType) => void;
   getTsServerDiagnostics: (id: string) => TsServerDiagnosticType[];
   setTsServerDiagnostics: (id: string, diagnostics: TsServerDiagnosticType[]) => void;
   getTsServerSuggestions: (id: string) => TsServerSuggestionType[];
@@ -104,10 +152,12 @@ interface CellsContextType {
 
 const CellsContext = createContext<CellsContextType | undefined>(undefined);
 
-export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactNode }> = ({
-  cells,
-  children,
-}) => {
+export const CellsProvider: React.FC<{
+  cells: ClientCellType[];
+  // Outputs persisted from previous executions, keyed by cell id.
+  outputs?: Record<string, CellExecutionResultType>;
+  children: ReactNode;
+}> = ({ cells, outputs, children }) => {
   // Because we use refs for our state, we need a way to trigger
   // component re-renders when the ref state changes.
   //
@@ -125,6 +175,27 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
   // Use ref to help avoid stale state bugs in closures.
   const outputRef = useRef<OutputStateType>({});
 
+  // Use ref to help avoid stale state bugs in closures.
+  const executionRef = useRef<ExecutionStateType>({});
+
+  // Seed the output of cells that have not run yet in this session with their persisted output.
+  useEffect(() => {
+    if (!outputs) {
+      return;
+    }
+
+    for (const [id, { output, ...execution }] of Object.entries(outputs)) {
+      if (!(id in outputRef.current)) {
+        outputRef.current = { ...outputRef.current, [id]: output as OutputType[] };
+      }
+      if (!(id in executionRef.current)) {
+        executionRef.current = { ...executionRef.current, [id]: execution };
+      }
+    }
+
+    forceComponentRerender();
+  }, [outputs]);
+
   // Use ref to help avoid stale state bugs in closures.
   const tsServerDiagnosticsRef = useRef<TsServerStateType>({});
 
@@ -174,6 +245,15 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
     [stableSetCells],
   );
 
+  const moveCell = useCallback(
+    (cell: ClientCellType, idx: number) => {
+      const copy = cellsRef.current.filter((c) => c.id !== cell.id);
+      copy.splice(idx, 0, cell);
+      stableSetCells(copy);
+    },
+    [stableSetCells],
+  );
+
   const createCodeCell = useCallback(
     (idx: number, language: CodeLanguageType, attrs?: Partial<CodeCellType>) => {
       const cell = buildCodeCell(cellsRef.current, language, attrs);
@@ -201,15 +281,33 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
     [insertCellAt],
   );
 
+  const createShellCell = useCallback(
+    (idx: number, attrs?: Partial<ShellCellType>) => {
+      const cell = buildShellCell(cellsRef.current, attrs);
+      insertCellAt(cell, idx);
+      return cell;
+    },
+    [insertCellAt],
+  );
+
+  const createSqlCell = useCallback(
+    (idx: number, attrs?: Partial<SqlCellType>) => {
+      const cell = buildSqlCell(cellsRef.current, attrs);
+      insertCellAt(cell, idx);
+      return cell;
+    },
+    [insertCellAt],
+  );
+
   const hasOutput = useCallback((id: string, type?: 'stdout' | 'stderr') => {
     const output = outputRef.current[id] || [];
-    const length = type ? output.filter((o) => o.type === type).length : output.length;
+    const length = type ? output.filter((o) => outputStream(o) === type).length : output.length;
     return length > 0;
   }, []);
 
   const getOutput = useCallback((id: string, type?: 'stdout' | 'stderr') => {
     const output = outputRef.current[id] || [];
-    return type ? output.filter((o) => o.type === type) : output;
+    return type ? output.filter((o) => outputStream(o) === type) : output;
   }, []);
 
   const setOutput = useCallback(
@@ -226,12 +324,21 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
   const clearOutput = useCallback(
     (id: string, type?: 'stdout' | 'stderr') => {
       const output = outputRef.current[id] || [];
-      const updated = type !== undefined ? output.filter((o) => o.type !== type) : [];
+      const updated = type !== undefined ? output.filter((o) => outputStream(o) !== type) : [];
       stableSetOutput({ ...outputRef.current, [id]: updated });
     },
     [stableSetOutput],
   );
 
+  const getExecution = useCallback((id: string) => {
+    return executionRef.current[id];
+  }, []);
+
+  const setExecution = useCallback((id: string, execution: CellExecutionType) => {
+    executionRef.current = { ...executionRef.current, [id]: execution };
+    forceComponentRerender();
+  }, []);
+
   const getTsServerDiagnostics = useCallback((id: string) => {
     return tsServerDiagnosticsRef.current[id] || [];
   }, []);
@@ -262,13 +369,18 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
         updateCell,
         removeCell,
         insertCellAt,
+        moveCell,
         createCodeCell,
         createMarkdownCell,
+        createShellCell,
+        createSqlCell,
         createGenerateAiCell,
         hasOutput,
         getOutput,
         setOutput,
         clearOutput,
+        getExecution,
+        setExecution,
         getTsServerDiagnostics,
         getTsServerSuggestions,
         setTsServerDiagnostics,
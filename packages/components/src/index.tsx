@@ -1,7 +1,9 @@
 import TitleCell from './components/cells/title.js';
 import MarkdownCell from './components/cells/markdown.js';
 import CodeCell from './components/cells/code.js';
-export { TitleCell, MarkdownCell, CodeCell };
+import ShellCell from './components/cells/shell.js';
+import SqlCell from './components/cells/sql.js';
+export { TitleCell, MarkdownCell, CodeCell, ShellCell, SqlCell };
 
 export * from './components/ui/button.js';
 export * from './components/ui/card.js';
@@ -1,4 +1,9 @@
-import { CellType, CodeLanguageType } from '@peragus/shared'; // @ts-ignore
+import {
+  CellType,
+  CodeLanguageType,
+  CellExecutionResultType,
+  DisplayOutputType,
+} from '@peragus/shared'; // @ts-ignore
 
 export type GenerateAICellType = {
   id: string;
@@ -7,13 +12,17 @@ export type GenerateAICellType = {
 
 export type StdoutOutputType = { type: 'stdout'; data: string };
 export type StderrOutputType = { type: 'stderr'; data: string };
-export type OutputType = StdoutOutputType | StderrOutputType;
+export type { DisplayOutputType };
+export type OutputType = StdoutOutputType | StderrOutputType | DisplayOutputType;
+
+export type CellExecutionType = Omit<CellExecutionResultType, 'output'>;
 
 export type SessionType = {
   id: string;
   cells: CellType[];
   language: CodeLanguageType;
   'tsconfig.json'?: string;
+  outputs?: Record<string, CellExecutionResultType>;
   openedAt: number;
 };
 
@@ -17,6 +17,7 @@ export class CircuitBreaker extends EventEmitter {
   private readonly config: CircuitBreakerConfig;
   private state: CircuitBreakerState = CircuitBreakerState.CLOSED;
   private failureCount = 0;
+  private consecutiveFailures = 0;
   private successCount = 0;
   private lastFailureTime: Date | null = null;
   private lastSuccessTime: Date | null = null;
@@ -101,6 +102,7 @@ export class CircuitBreaker extends EventEmitter {
     return {
       state: this.state,
       failureCount: this.failureCount,
+      consecutiveFailures: this.consecutiveFailures,
       successCount: this.successCount,
       lastFailureTime: this.lastFailureTime,
       lastSuccessTime: this.lastSuccessTime,
@@ -118,6 +120,7 @@ export class CircuitBreaker extends EventEmitter {
   reset(): void {
     this.state = CircuitBreakerState.CLOSED;
     this.failureCount = 0;
+    this.consecutiveFailures = 0;
     this.successCount = 0;
     this.halfOpenAttempts = 0;
     this.lastFailureTime = null;
@@ -156,6 +159,7 @@ export class CircuitBreaker extends EventEmitter {
    */
   private onSuccess(responseTime: number): void {
     this.successCount++;
+    this.consecutiveFailures = 0;
     this.lastSuccessTime = new Date();
     this.recordResponseTime(responseTime);
 
@@ -175,6 +179,7 @@ export class CircuitBreaker extends EventEmitter {
    */
   private onFailure(_error: Error, responseTime: number): void {
     this.failureCount++;
+    this.consecutiveFailures++;
     this.lastFailureTime = new Date();
     this.recordResponseTime(responseTime);
 
@@ -202,7 +207,7 @@ export class CircuitBreaker extends EventEmitter {
     }
 
     // Check consecutive failures
-    if (this.failureCount >= this.config.failureThreshold) {
+    if (this.consecutiveFailures >= this.config.failureThreshold) {
       return true;
     }
 
@@ -260,6 +265,7 @@ export class CircuitBreaker extends EventEmitter {
     const previousState = this.state;
     this.state = CircuitBreakerState.CLOSED;
     this.failureCount = 0;
+    this.consecutiveFailures = 0;
     this.halfOpenAttempts = 0;
     this.nextAttemptTime = null;
 
@@ -18,6 +18,7 @@ export class GracefulDegradationManager extends EventEmitter {
   private fallbackCache = new Map<string, { data: any; timestamp: Date; ttl: number }>();
   private rateLimitTracker = new Map<string, { count: number; resetTime: Date }>();
   private readonly startTime = new Date();
+  private cleanupIntervals: NodeJS.Timeout[] = [];
 
   constructor(serviceId: string, config: Partial<DegradationConfig> = {}) {
     super();
@@ -431,14 +432,27 @@ export class GracefulDegradationManager extends EventEmitter {
    */
   private startCleanupTasks(): void {
     // Clean expired cache entries every 5 minutes
-    setInterval(() => {
+    const cacheInterval = setInterval(() => {
       this.cleanExpiredCache();
     }, 300000);
 
     // Reset rate limit trackers every minute
-    setInterval(() => {
+    const rateLimitInterval = setInterval(() => {
       this.cleanRateLimitTrackers();
     }, 60000);
+
+    // Cleanup alone should not keep the process alive
+    this.cleanupIntervals = [cacheInterval.unref(), rateLimitInterval.unref()];
+  }
+
+  /**
+   * Stop cleanup tasks
+   */
+  stop(): void {
+    for (const interval of this.cleanupIntervals) {
+      clearInterval(interval);
+    }
+    this.cleanupIntervals = [];
   }
 
   /**
@@ -608,6 +622,7 @@ export class GlobalDegradationManager {
   remove(serviceId: string): void {
     const manager = this.degradationManagers.get(serviceId);
     if (manager) {
+      manager.stop();
       manager.removeAllListeners();
       this.degradationManagers.delete(serviceId);
     }
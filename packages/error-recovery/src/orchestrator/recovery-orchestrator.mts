@@ -37,6 +37,7 @@ export class ErrorRecoveryOrchestrator extends EventEmitter {
   private isRunning = false;
   private monitoringInterval: NodeJS.Timeout | null = null;
   private readonly monitoringIntervalMs = 30000; // 30 seconds
+  private readonly maxRetainedPlans = 100;
 
   constructor() {
     super();
@@ -165,21 +166,18 @@ export class ErrorRecoveryOrchestrator extends EventEmitter {
   ): Promise<T> {
     const context = await this.createRecoveryContext(serviceId, operationName);
 
+    // Execute with retry logic
+    const run = options.skipRetry
+      ? operation
+      : () => this.retryManager.getRetryManager(serviceId).execute(operation);
+
     try {
-      // Check circuit breaker
+      // Execute through the circuit breaker, so that it records the outcome
       if (!options.skipCircuitBreaker) {
         const circuitBreaker = this.circuitBreakerManager.getCircuitBreaker(serviceId);
-        if (!circuitBreaker.canExecute()) {
-          throw new Error(`Circuit breaker is open for service: ${serviceId}`);
-        }
-      }
-
-      // Execute with retry logic
-      if (!options.skipRetry) {
-        const retryManager = this.retryManager.getRetryManager(serviceId);
-        return await retryManager.execute(operation);
+        return await circuitBreaker.execute(run);
       } else {
-        return await operation();
+        return await run();
       }
     } catch (error) {
       // Record error
@@ -241,6 +239,7 @@ export class ErrorRecoveryOrchestrator extends EventEmitter {
       openCircuitBreakers: number;
       activeRetries: number;
     };
+    timestamp: Date;
   } {
     const healthSummary = this.healthCheckManager.getSystemHealthSummary();
     const circuitBreakerSummary = this.circuitBreakerManager.getHealthSummary();
@@ -275,7 +274,8 @@ export class ErrorRecoveryOrchestrator extends EventEmitter {
         unhealthyServices: healthSummary.unhealthyServices,
         openCircuitBreakers: circuitBreakerSummary.open,
         activeRetries: retrySummary.totalServices
-      }
+      },
+      timestamp: new Date()
     };
   }
 
@@ -468,6 +468,7 @@ export class ErrorRecoveryOrchestrator extends EventEmitter {
     };
 
     this.recoveryPlans.set(planId, plan);
+    this.pruneRecoveryPlans();
     
     this.emitEvent('recovery_plan_created', {
       planId,
@@ -479,6 +480,20 @@ export class ErrorRecoveryOrchestrator extends EventEmitter {
     return plan;
   }
 
+  /**
+   * Drop the oldest finished recovery plans beyond the retention limit
+   */
+  private pruneRecoveryPlans(): void {
+    for (const [planId, plan] of this.recoveryPlans) {
+      if (this.recoveryPlans.size <= this.maxRetainedPlans) {
+        break;
+      }
+      if (plan.status === 'completed' || plan.status === 'failed') {
+        this.recoveryPlans.delete(planId);
+      }
+    }
+  }
+
   /**
    * Execute recovery plan
    */
@@ -13,6 +13,23 @@ import {
   RetryConfigSchema
 } from '../types/index.mjs';
 
+/**
+ * Validate retry configuration, keeping the function options the schema cannot describe
+ */
+function parseRetryConfig(config: Partial<RetryConfig>): RetryConfig {
+  const { customDelayFn, isRetryable } = config;
+  const validatedConfig: RetryConfig = RetryConfigSchema.parse(config);
+
+  if (customDelayFn) {
+    validatedConfig.customDelayFn = customDelayFn;
+  }
+  if (isRetryable) {
+    validatedConfig.isRetryable = isRetryable;
+  }
+
+  return validatedConfig;
+}
+
 export class RetryManager extends EventEmitter {
   private readonly serviceId: string;
   private readonly config: RetryConfig;
@@ -24,7 +41,7 @@ export class RetryManager extends EventEmitter {
   constructor(serviceId: string, config: Partial<RetryConfig> = {}) {
     super();
     this.serviceId = serviceId;
-    this.config = RetryConfigSchema.parse(config);
+    this.config = parseRetryConfig(config);
   }
 
   /**
@@ -268,7 +285,7 @@ export class RetryManager extends EventEmitter {
    */
   updateConfig(config: Partial<RetryConfig>): void {
     const newConfig = { ...this.config, ...config };
-    const validatedConfig = RetryConfigSchema.parse(newConfig);
+    const validatedConfig = parseRetryConfig(newConfig);
     
     Object.assign(this.config, validatedConfig);
 
@@ -321,7 +338,7 @@ export class GlobalRetryManager {
   private readonly defaultConfig: RetryConfig;
 
   constructor(defaultConfig: Partial<RetryConfig> = {}) {
-    this.defaultConfig = RetryConfigSchema.parse(defaultConfig);
+    this.defaultConfig = parseRetryConfig(defaultConfig);
   }
 
   /**
@@ -402,7 +419,7 @@ export class GlobalRetryManager {
    * Update configuration for all retry managers
    */
   updateGlobalConfig(config: Partial<RetryConfig>): void {
-    Object.assign(this.defaultConfig, RetryConfigSchema.parse({ ...this.defaultConfig, ...config }));
+    Object.assign(this.defaultConfig, parseRetryConfig({ ...this.defaultConfig, ...config }));
     
     for (const retryManager of this.retryManagers.values()) {
       retryManager.updateConfig(config);
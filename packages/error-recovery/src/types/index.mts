@@ -33,6 +33,8 @@ export interface CircuitBreakerConfig {
 export interface CircuitBreakerMetrics {
   state: CircuitBreakerState;
   failureCount: number;
+  /** Failures since the last success */
+  consecutiveFailures: number;
   successCount: number;
   lastFailureTime: Date | null;
   lastSuccessTime: Date | null;
@@ -288,22 +290,24 @@ export const RetryConfigSchema = z.object({
   strategy: z.nativeEnum(RetryStrategy).default(RetryStrategy.EXPONENTIAL_JITTER),
   backoffMultiplier: z.number().min(1).max(10).default(2),
   jitterFactor: z.number().min(0).max(1).default(0.1),
-  attemptTimeout: z.number().min(1000).max(60000).default(10000)
+  attemptTimeout: z.number().min(1000).max(600000).default(10000)
 });
 
 export const DegradationConfigSchema = z.object({
   level: z.nativeEnum(DegradationLevel).default(DegradationLevel.NONE),
   disabledFeatures: z.array(z.string()).default([]),
-  fallbacks: z.record(z.unknown()).default({}),
+  fallbacks: z
+    .record(z.custom<() => Promise<unknown>>((value) => typeof value === 'function'))
+    .default({}),
   cacheSettings: z.object({
     enabled: z.boolean().default(true),
     ttl: z.number().min(1000).max(3600000).default(300000),
     maxSize: z.number().min(100).max(10000).default(1000)
-  }),
+  }).default({}),
   rateLimiting: z.object({
     enabled: z.boolean().default(false),
     requestsPerMinute: z.number().min(1).max(10000).default(100)
-  })
+  }).default({})
 });
 
 // ============================================================================
@@ -1,6 +1,7 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { 
   type MCPClientConfig, 
   type MCPServerConfig, 
@@ -275,6 +276,62 @@ export class MCPClientManager {
     }
   }
 
+  /**
+   * Check whether a server with this name is configured, connected or not
+   */
+  hasServer(serverId: string): boolean {
+    return this.config.servers.some(s => s.name === serverId);
+  }
+
+  /**
+   * Add a server after initialization and connect to it. The server stays configured
+   * when the connection fails, so that it can be reconnected later.
+   */
+  async addServer(serverConfig: MCPServerConfig): Promise<void> {
+    if (this.hasServer(serverConfig.name)) {
+      throw new Error(`Server already configured: ${serverConfig.name}`);
+    }
+
+    this.config = { ...this.config, servers: [...this.config.servers, serverConfig] };
+
+    const connection = await this.createConnection(serverConfig);
+    this.connections.set(serverConfig.name, connection);
+    console.log(`Connected to MCP server: ${serverConfig.name}`);
+  }
+
+  /**
+   * Disconnect from a server and forget its configuration
+   */
+  async removeServer(serverId: string): Promise<void> {
+    this.config = {
+      ...this.config,
+      servers: this.config.servers.filter(s => s.name !== serverId),
+    };
+
+    const connection = this.connections.get(serverId);
+    if (connection) {
+      this.connections.delete(serverId);
+      await connection.close();
+    }
+  }
+
+  /**
+   * Connect to a server just long enough to list its tools, to check its configuration
+   */
+  async testConnection(serverConfig: MCPServerConfig): Promise<MCPTool[]> {
+    const connection = await this.createConnection(serverConfig);
+
+    try {
+      const response = await connection.client.listTools();
+      return response.tools.map((tool: Tool) => ({
+        ...tool,
+        serverId: serverConfig.name
+      }));
+    } finally {
+      await connection.close();
+    }
+  }
+
   /**
    * Get a specific connection (for advanced usage)
    */
@@ -41,6 +41,14 @@ export interface MCPTool {
   description?: string;
   inputSchema: any;
   serverId: string;
+  // Hints given by the server about what the tool does, which clients must not rely on
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+    openWorldHint?: boolean;
+  };
 }
 
 // MCP Resource Interface
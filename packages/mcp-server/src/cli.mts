@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
 import { startMCPServer, shutdownMCPServer } from './server.mjs';
-import { MCPServerConfig } from './types.mjs';
+import { MCPServerConfig, MCPServerConfigSchema } from './types.mjs';
 import { logger, createLogger } from './logger.mjs';
 
 /**
@@ -9,9 +9,7 @@ import { logger, createLogger } from './logger.mjs';
  */
 function parseArgs(): MCPServerConfig {
   const args = process.argv.slice(2);
-  const config: MCPServerConfig = {
-    logLevel: 'info'
-  };
+  const config: MCPServerConfig = MCPServerConfigSchema.parse({});
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -32,6 +30,28 @@ function parseArgs(): MCPServerConfig {
       case '-d':
         config.storageDir = args[++i];
         break;
+
+      case '--transport':
+      case '-t':
+        const transport = args[++i];
+        if (transport === 'stdio' || transport === 'http') {
+          config.transport = transport;
+        } else {
+          console.error(`Invalid transport: ${transport}. Use 'stdio' or 'http'.`);
+          process.exit(1);
+        }
+        break;
+
+      case '--port':
+      case '-p':
+        const port = Number(args[++i]);
+        if (Number.isInteger(port) && port > 0) {
+          config.port = port;
+        } else {
+          console.error(`Invalid port: ${args[i]}.`);
+          process.exit(1);
+        }
+        break;
         
       case '--help':
       case '-h':
@@ -68,6 +88,8 @@ USAGE:
 OPTIONS:
   -l, --log-level <LEVEL>    Log level: debug, info, warn, error (default: info)
   -d, --storage-dir <DIR>    Custom storage directory path
+  -t, --transport <TYPE>     Transport: stdio, http (default: stdio)
+  -p, --port <PORT>          Port for the http transport (default: 3001)
   -h, --help                 Show this help message
   -v, --version              Show version information
 
@@ -81,11 +103,15 @@ EXAMPLES:
   # Use custom storage directory
   peragus-mcp-server --storage-dir ~/my-notebooks
 
+  # Serve over HTTP on port 3001
+  peragus-mcp-server --transport http --port 3001
+
 DESCRIPTION:
   The Peragus MCP Server exposes TypeScript notebook functionality through the
-  Model Context Protocol (MCP) using stdio transport. It provides tools for
-  creating, editing, and executing TypeScript/JavaScript notebooks with
-  file-based storage.
+  Model Context Protocol (MCP) over stdio, or over HTTP at /mcp using the
+  Streamable HTTP transport (the deprecated SSE transport is served at /).
+  It provides tools for creating, editing, and executing TypeScript/JavaScript
+  notebooks with file-based storage.
 
   Storage location: ~/.peragus-mcp/notebooks/
 `);
@@ -131,8 +157,8 @@ async function main(): Promise<void> {
     process.on('SIGINT', () => shutdown('SIGINT'));
     process.on('SIGTERM', () => shutdown('SIGTERM'));
     
-    logger.info('MCP Server ready (stdio transport)');
-    // Server will keep process alive via stdio transport
+    logger.info(`MCP Server ready (${config.transport} transport)`);
+    // Server will keep process alive via its transport
     
   } catch (error) {
     console.error('Failed to start MCP server:', error);
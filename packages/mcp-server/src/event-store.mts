@@ -0,0 +1,62 @@
+import type {
+  EventStore,
+  EventId,
+  StreamId,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * How many events of a session are kept for replay
+ */
+const MAX_EVENTS = 1000;
+
+/**
+ * Keeps the recent events sent on the streams of one session, so that a client
+ * reconnecting with `Last-Event-ID` gets the messages it missed.
+ *
+ * Event ids are `{streamId}_{sequence}`, so the stream to resume is known even
+ * when the event itself was already dropped.
+ */
+export class InMemoryEventStore implements EventStore {
+  private readonly events: Array<{
+    eventId: EventId;
+    streamId: StreamId;
+    sequence: number;
+    message: JSONRPCMessage;
+  }> = [];
+  private sequence = 0;
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const sequence = ++this.sequence;
+    const eventId = `${streamId}_${sequence}`;
+
+    this.events.push({ eventId, streamId, sequence, message });
+
+    if (this.events.length > MAX_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_EVENTS);
+    }
+
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const separator = lastEventId.lastIndexOf('_');
+    const streamId = lastEventId.slice(0, separator);
+    const lastSequence = Number(lastEventId.slice(separator + 1));
+
+    if (separator === -1 || !Number.isInteger(lastSequence)) {
+      throw new Error(`Invalid event id: ${lastEventId}`);
+    }
+
+    for (const event of this.events) {
+      if (event.streamId === streamId && event.sequence > lastSequence) {
+        await send(event.eventId, event.message);
+      }
+    }
+
+    return streamId;
+  }
+}
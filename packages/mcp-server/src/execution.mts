@@ -4,7 +4,16 @@ import * as path from 'path';
 import { tmpdir } from 'os';
 import { logger } from './logger.mjs';
 import { ExecutionError } from './types.mjs';
-import type { NotebookFile } from './storage.mjs';
+import type { CellType, CodeCellType, CodeLanguageType } from '@peragus/shared';
+
+/**
+ * A notebook as read from its directory with `decodeDir`
+ */
+export interface NotebookType {
+  id: string;
+  language: CodeLanguageType;
+  cells: CellType[];
+}
 
 /**
  * Cell execution result
@@ -105,7 +114,7 @@ export class CodeExecutor {
    * Execute all code cells in a notebook
    */
   async executeNotebook(
-    notebook: NotebookFile,
+    notebook: NotebookType,
     cellIds?: string[],
     timeout: number = 30000
   ): Promise<NotebookExecutionResult> {
@@ -113,7 +122,7 @@ export class CodeExecutor {
     const results: CellExecutionResult[] = [];
     
     // Filter code cells to execute
-    const codeCells = notebook.cells.filter(cell => {
+    const codeCells = notebook.cells.filter((cell): cell is CodeCellType => {
       return cell.type === 'code' && (!cellIds || cellIds.includes(cell.id));
     });
     
@@ -122,7 +131,7 @@ export class CodeExecutor {
     // Execute cells sequentially
     for (const cell of codeCells) {
       try {
-        const result = await this.executeCell(cell.id, cell.content, notebook.language, timeout);
+        const result = await this.executeCell(cell.id, cell.source, notebook.language, timeout);
         results.push(result);
         
         // If a cell fails, log it but continue with other cells
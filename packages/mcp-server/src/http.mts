@@ -0,0 +1,259 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import express, { type Express, type Request, type Response } from 'express';
+import { randomUUID } from 'node:crypto';
+
+import { InMemoryEventStore } from './event-store.mjs';
+import { logger } from './logger.mjs';
+
+/**
+ * A client session over Streamable HTTP. Each session has its own server instance.
+ */
+type HttpSession = {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActiveAt: number;
+  // Open GET streams keep a session alive even when the client sends nothing.
+  openStreams: number;
+};
+
+/**
+ * A client session over the deprecated HTTP+SSE transport.
+ */
+type SSESession = {
+  server: Server;
+  transport: SSEServerTransport;
+};
+
+export type HttpAppOptions = {
+  createServer: () => Server;
+  sessionIdleTimeoutMs: number;
+};
+
+export type HttpApp = {
+  app: Express;
+  close: () => Promise<void>;
+};
+
+/**
+ * Sends a JSON-RPC error the way the SDK's transports do for requests they reject
+ */
+function sendJsonRpcError(res: Response, status: number, code: number, message: string) {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+/**
+ * Creates the Express app serving MCP over HTTP:
+ *
+ * - `/mcp` is the Streamable HTTP endpoint. `initialize` POSTs create a session whose
+ *   id is returned in the `mcp-session-id` header, GET opens a stream for server
+ *   messages, resumable with `Last-Event-ID`, and DELETE ends the session.
+ * - `/` is the deprecated HTTP+SSE transport, kept for older clients: GET opens the
+ *   event stream and messages are POSTed to the endpoint it announces.
+ */
+export function createHttpApp(options: HttpAppOptions): HttpApp {
+  const app = express();
+  app.use(express.json());
+
+  const sessions = new Map<string, HttpSession>();
+  const sseSessions = new Map<string, SSESession>();
+
+  async function closeSession(sessionId: string) {
+    const session = sessions.get(sessionId);
+
+    if (session) {
+      sessions.delete(sessionId);
+      await session.server.close();
+      logger.info(`Session closed: ${sessionId}`);
+    }
+  }
+
+  // Sessions are dropped once their client has been gone for a while.
+  const sweeper = setInterval(
+    () => {
+      const now = Date.now();
+
+      for (const [sessionId, session] of sessions) {
+        if (session.openStreams === 0 && now - session.lastActiveAt > options.sessionIdleTimeoutMs) {
+          logger.info(`Session expired: ${sessionId}`);
+          closeSession(sessionId).catch((error) => {
+            logger.error(`Error closing session ${sessionId}:`, error);
+          });
+        }
+      }
+    },
+    Math.min(options.sessionIdleTimeoutMs, 60_000),
+  );
+  sweeper.unref();
+
+  app.post('/mcp', async (req, res) => {
+    const sessionId = req.header('mcp-session-id');
+
+    try {
+      if (sessionId) {
+        const session = sessions.get(sessionId);
+
+        if (!session) {
+          // Tells the client to start a new session
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+
+        session.lastActiveAt = Date.now();
+        await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      const server = options.createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: new InMemoryEventStore(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { server, transport, lastActiveAt: Date.now(), openStreams: 0 });
+          logger.info(`Client connected via Streamable HTTP with session: ${id}`);
+        },
+      });
+
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error('Error handling MCP POST request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  async function handleSessionRequest(req: Request, res: Response) {
+    const sessionId = req.header('mcp-session-id');
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    try {
+      session.lastActiveAt = Date.now();
+
+      if (req.method === 'GET') {
+        session.openStreams++;
+        res.on('close', () => {
+          session.openStreams--;
+          session.lastActiveAt = Date.now();
+        });
+      }
+
+      await session.transport.handleRequest(req, res);
+
+      if (req.method === 'DELETE') {
+        await closeSession(sessionId);
+      }
+    } catch (error) {
+      logger.error(`Error handling MCP ${req.method} request:`, error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  }
+
+  app.get('/mcp', handleSessionRequest);
+  app.delete('/mcp', handleSessionRequest);
+
+  // Deprecated HTTP+SSE transport
+  app.get('/', async (req, res) => {
+    const server = options.createServer();
+    const transport = new SSEServerTransport('/', res);
+    const sessionId = transport.sessionId;
+
+    sseSessions.set(sessionId, { server, transport });
+
+    res.on('close', () => {
+      sseSessions.delete(sessionId);
+      server.close().catch((error) => {
+        logger.error(`Error closing SSE session ${sessionId}:`, error);
+      });
+      logger.info(`SSE client disconnected: ${sessionId}`);
+    });
+
+    try {
+      await server.connect(transport);
+      logger.info(`Client connected via SSE with session: ${sessionId}`);
+    } catch (error) {
+      logger.error('Error starting SSE session:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  });
+
+  app.post('/', async (req, res) => {
+    // The SSE transport announces its endpoint as `/?sessionId=...`
+    const sessionId = req.query.sessionId;
+    const session = typeof sessionId === 'string' ? sseSessions.get(sessionId) : undefined;
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    try {
+      await session.transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      logger.error('Error handling SSE POST message:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  });
+
+  app.get('/health', (_req, res) => {
+    res.json({
+      status: 'ok',
+      transport: 'http',
+      activeConnections: sessions.size + sseSessions.size,
+      sessions: {
+        streamableHttp: sessions.size,
+        sse: sseSessions.size,
+      },
+    });
+  });
+
+  /**
+   * Closes every session, e.g. when the process shuts down
+   */
+  async function close() {
+    clearInterval(sweeper);
+
+    await Promise.all([...sessions.keys()].map(closeSession));
+
+    for (const [sessionId, session] of sseSessions) {
+      sseSessions.delete(sessionId);
+      await session.server.close();
+    }
+  }
+
+  return { app, close };
+}
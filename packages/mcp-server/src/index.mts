@@ -8,8 +8,7 @@
 export { createMCPServer, startMCPServer, shutdownMCPServer } from './server.mjs';
 export { registerResourceHandlers } from './resources.mjs';
 export { registerToolHandlers } from './tools.mjs';
-export { notebookStorage, type NotebookFile } from './storage.mjs';
-export { codeExecutor, type NotebookExecutionResult } from './execution.mjs';
+export { codeExecutor, type NotebookType, type NotebookExecutionResult } from './execution.mjs';
 export { logger, createLogger, type Logger } from './logger.mjs';
 export {
   MCPServerConfig,
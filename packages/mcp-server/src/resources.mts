@@ -1,17 +1,30 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'node:fs/promises';
 
 import { logger } from './logger.mjs';
-import { notebookStorage } from './storage.mjs';
-import { 
-  RESOURCE_URI_PATTERNS, 
+import { readOutputsFromDisk } from '@peragus/api/srcbook/index.mjs';
+import { EXAMPLE_SRCBOOKS } from '@peragus/api/srcbook/examples.mjs';
+import { pathToSrcbook } from '@peragus/api/srcbook/path.mjs';
+import { decodeDir, encode } from '@peragus/api/srcmd.mjs';
+import { SRCBOOKS_DIR } from '@peragus/api/constants.mjs';
+import type { CellType } from '@peragus/shared';
+import {
+  RESOURCE_URI_PATTERNS,
   NotebookNotFoundError,
-  MCPServerError 
+  MCPServerError
 } from './types.mjs';
 
+/**
+ * Cells of a notebook are sub-resources, addressed by their 0-based index like in the
+ * `update_notebook` tool.
+ */
+const NOTEBOOK_CELL_URI_TEMPLATE = `${RESOURCE_URI_PATTERNS.NOTEBOOK_USER}{notebookId}/cells/{index}`;
+
 /**
  * Register all resource handlers with the MCP server
  */
@@ -22,28 +35,32 @@ export function registerResourceHandlers(server: Server): void {
       const resources = [];
 
       // Add user notebooks as resources
-      const notebooks = await notebookStorage.listNotebooks();
-      for (const notebook of notebooks) {
-        resources.push({
-          uri: `${RESOURCE_URI_PATTERNS.NOTEBOOK_USER}${notebook.id}`,
-          name: notebook.title || 'Untitled Notebook',
-          description: `${notebook.language} notebook with ${notebook.cells.length} cells`,
-          mimeType: 'application/json',
-          annotations: {
-            audience: ['user', 'assistant'],
-            priority: 1,
-          },
-        });
+      for (const notebookId of await listSrcbookIds()) {
+        try {
+          const srcbook = await readSrcbook(notebookId);
+          resources.push({
+            uri: `${RESOURCE_URI_PATTERNS.NOTEBOOK_USER}${notebookId}`,
+            name: getTitle(srcbook.cells) || 'Untitled Notebook',
+            description: `${srcbook.language} notebook with ${srcbook.cells.length} cells`,
+            mimeType: 'text/markdown',
+            annotations: {
+              audience: ['user', 'assistant'],
+              priority: 1,
+            },
+          });
+        } catch (error) {
+          // The app skips srcbooks it cannot load, so should we.
+          logger.warn(`Skipping notebook ${notebookId}:`, error);
+        }
       }
 
       // Add example notebooks as resources
-      const examples = getExampleNotebooks();
-      for (const example of examples) {
+      for (const example of EXAMPLE_SRCBOOKS) {
         resources.push({
           uri: `${RESOURCE_URI_PATTERNS.NOTEBOOK_EXAMPLES}${example.id}`,
           name: example.title,
           description: example.description || `Example ${example.language} notebook`,
-          mimeType: 'application/json',
+          mimeType: 'text/markdown',
           annotations: {
             audience: ['user', 'assistant'],
             priority: 2,
@@ -59,39 +76,67 @@ export function registerResourceHandlers(server: Server): void {
     }
   });
 
+  // List the templates of resources that are not listed individually
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: NOTEBOOK_CELL_URI_TEMPLATE,
+          name: 'Notebook cell',
+          description: 'A single cell of a notebook: the source of code cells, the text of the others',
+        },
+      ],
+    };
+  });
+
   // Read specific resource content
-  server.setRequestHandler(ReadResourceRequestSchema, async (request: any) => {
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     const uri = request.params.uri;
-    
+
     try {
       logger.debug(`Reading resource: ${uri}`);
 
       if (uri.startsWith(RESOURCE_URI_PATTERNS.NOTEBOOK_USER)) {
-        const notebookId = extractIdFromURI(uri);
-        const notebook = await notebookStorage.readNotebook(notebookId);
-        
+        const { notebookId, cellIndex } = parseNotebookURI(uri);
+        const srcbook = await readSrcbook(notebookId);
+
+        if (cellIndex === null) {
+          // The same srcmd the app exports, outputs included, so agents see what users see.
+          return {
+            contents: [{
+              uri,
+              mimeType: 'text/markdown',
+              text: encode(srcbook, { inline: true, outputs: true }),
+            }],
+          };
+        }
+
+        const cell = srcbook.cells[cellIndex];
+
+        if (!cell) {
+          throw new MCPServerError(
+            `Cell index ${cellIndex} is out of range for notebook ${notebookId} with ${srcbook.cells.length} cells`,
+            'CELL_NOT_FOUND',
+          );
+        }
+
         return {
-          contents: [{
-            uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(notebook, null, 2),
-          }],
+          contents: [{ uri, ...cellContents(cell) }],
         };
-      } 
+      }
       else if (uri.startsWith(RESOURCE_URI_PATTERNS.NOTEBOOK_EXAMPLES)) {
         const notebookId = extractIdFromURI(uri);
-        const examples = getExampleNotebooks();
-        const example = examples.find(ex => ex.id === notebookId);
-        
+        const example = EXAMPLE_SRCBOOKS.find(ex => ex.id === notebookId);
+
         if (!example) {
           throw new NotebookNotFoundError(notebookId);
         }
-        
+
         return {
           contents: [{
             uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(example, null, 2),
+            mimeType: 'text/markdown',
+            text: await fs.readFile(example.path, 'utf8'),
           }],
         };
       }
@@ -109,75 +154,87 @@ export function registerResourceHandlers(server: Server): void {
 }
 
 /**
- * Get example notebooks (static examples for demonstration)
+ * List the ids of the srcbooks, which are the names of their directories
  */
-function getExampleNotebooks() {
-  return [
-    {
-      id: 'getting-started-ts',
-      title: 'Getting Started with TypeScript',
-      description: 'Learn the basics of TypeScript in notebooks',
-      language: 'typescript' as const,
-      cells: [
-        {
-          id: 'cell_title',
-          type: 'title' as const,
-          content: 'Getting Started with TypeScript'
-        },
-        {
-          id: 'cell_intro',
-          type: 'markdown' as const,
-          content: '# Welcome to TypeScript Notebooks!\n\nThis is an interactive TypeScript environment where you can write and execute code.'
-        },
-        {
-          id: 'cell_hello',
-          type: 'code' as const,
-          content: 'console.log("Hello, TypeScript!");\nconst message: string = "Welcome to Peragus!";\nconsole.log(message);',
-          filename: 'hello.ts'
-        },
-        {
-          id: 'cell_types',
-          type: 'code' as const,
-          content: '// TypeScript types in action\ninterface User {\n  name: string;\n  age: number;\n}\n\nconst user: User = {\n  name: "Alice",\n  age: 30\n};\n\nconsole.log(`User: ${user.name}, Age: ${user.age}`);',
-          filename: 'types.ts'
-        }
-      ],
-      createdAt: '2024-01-01T00:00:00.000Z',
-      updatedAt: '2024-01-01T00:00:00.000Z'
-    },
-    {
-      id: 'getting-started-js',
-      title: 'Getting Started with JavaScript',
-      description: 'Learn the basics of JavaScript in notebooks',
-      language: 'javascript' as const,
-      cells: [
-        {
-          id: 'cell_title',
-          type: 'title' as const,
-          content: 'Getting Started with JavaScript'
-        },
-        {
-          id: 'cell_intro',
-          type: 'markdown' as const,
-          content: '# Welcome to JavaScript Notebooks!\n\nThis is an interactive JavaScript environment.'
-        },
-        {
-          id: 'cell_hello',
-          type: 'code' as const,
-          content: 'console.log("Hello, JavaScript!");\nconst message = "Welcome to Peragus!";\nconsole.log(message);',
-          filename: 'hello.js'
-        },
-        {
-          id: 'cell_functions',
-          type: 'code' as const,
-          content: '// JavaScript functions\nfunction greet(name) {\n  return `Hello, ${name}!`;\n}\n\nconst greeting = greet("World");\nconsole.log(greeting);',
-          filename: 'functions.js'
-        }
-      ],
-      createdAt: '2024-01-01T00:00:00.000Z',
-      updatedAt: '2024-01-01T00:00:00.000Z'
+async function listSrcbookIds(): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(SRCBOOKS_DIR, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
     }
-  ];
+    throw error;
+  }
+}
+
+/**
+ * Read a srcbook from its directory the same way the app loads a session
+ */
+async function readSrcbook(notebookId: string) {
+  const srcbookDir = pathToSrcbook(notebookId);
+
+  if (!await fs.access(srcbookDir).then(() => true).catch(() => false)) {
+    throw new NotebookNotFoundError(notebookId);
+  }
+
+  const result = await decodeDir(srcbookDir);
+
+  if (result.error) {
+    throw new MCPServerError(
+      `Failed to decode notebook: ${result.errors.join(', ')}`,
+      'DECODE_ERROR',
+    );
+  }
+
+  return { ...result.srcbook, outputs: await readOutputsFromDisk(srcbookDir) };
+}
+
+function getTitle(cells: CellType[]): string | undefined {
+  const cell = cells.find((cell) => cell.type === 'title');
+  return cell?.type === 'title' ? cell.text : undefined;
+}
+
+function cellContents(cell: CellType): { mimeType: string; text: string } {
+  switch (cell.type) {
+    case 'title':
+      return { mimeType: 'text/plain', text: cell.text };
+    case 'markdown':
+      return { mimeType: 'text/markdown', text: cell.text };
+    case 'package.json':
+      return { mimeType: 'application/json', text: cell.source };
+    case 'code':
+      return {
+        mimeType: cell.language === 'typescript' ? 'text/typescript' : 'text/javascript',
+        text: cell.source,
+      };
+    case 'shell':
+      return { mimeType: 'text/x-sh', text: cell.source };
+    case 'sql':
+      return { mimeType: 'application/sql', text: cell.source };
+  }
+}
+
+/**
+ * Parse `notebook://user/{notebookId}` and `notebook://user/{notebookId}/cells/{index}`
+ */
+function parseNotebookURI(uri: string): { notebookId: string; cellIndex: number | null } {
+  const [notebookId, ...rest] = uri.slice(RESOURCE_URI_PATTERNS.NOTEBOOK_USER.length).split('/');
+
+  // Ids are directory names, which must not escape the srcbooks directory.
+  if (!notebookId || notebookId === '.' || notebookId === '..') {
+    throw new MCPServerError(`Unsupported resource URI: ${uri}`, 'UNSUPPORTED_URI');
+  }
+
+  if (rest.length === 0) {
+    return { notebookId, cellIndex: null };
+  }
+
+  if (rest.length === 2 && rest[0] === 'cells' && /^\d+$/.test(rest[1])) {
+    return { notebookId, cellIndex: Number(rest[1]) };
+  }
+
+  throw new MCPServerError(`Unsupported resource URI: ${uri}`, 'UNSUPPORTED_URI');
 }
 
 /**
@@ -186,4 +243,4 @@ function getExampleNotebooks() {
 function extractIdFromURI(uri: string): string {
   const parts = uri.split('/');
   return parts[parts.length - 1];
-}
\ No newline at end of file
+}
@@ -0,0 +1,269 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { createHttpApp, type HttpApp } from '../http.mjs';
+import { InMemoryEventStore } from '../event-store.mjs';
+import { createMCPServer } from '../server.mjs';
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+const HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+/**
+ * Parses the events of a Server-Sent Events body
+ */
+function parseEvents(body: string) {
+  return body
+    .split('\n\n')
+    .filter((chunk) => chunk.includes('data: '))
+    .map((chunk) => {
+      const lines = chunk.split('\n');
+      const id = lines.find((line) => line.startsWith('id: '))?.slice(4);
+      const data = lines.find((line) => line.startsWith('data: '))!.slice(6);
+      return { id, message: JSON.parse(data) };
+    });
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('HTTP transport', () => {
+  let httpApp: HttpApp | null = null;
+  let httpServer: HttpServer | null = null;
+  let baseUrl: string;
+
+  async function start(sessionIdleTimeoutMs = 60_000) {
+    httpApp = createHttpApp({ createServer: createMCPServer, sessionIdleTimeoutMs });
+    httpServer = createServer(httpApp.app);
+    await new Promise<void>((resolve) => httpServer!.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  }
+
+  async function initialize() {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+
+    return {
+      response,
+      sessionId: response.headers.get('mcp-session-id'),
+      events: parseEvents(await response.text()),
+    };
+  }
+
+  async function health() {
+    const response = await fetch(`${baseUrl}/health`);
+    return response.json();
+  }
+
+  afterEach(async () => {
+    if (httpApp) {
+      await httpApp.close();
+      httpApp = null;
+    }
+    if (httpServer) {
+      httpServer.closeAllConnections();
+      await new Promise((resolve) => httpServer!.close(resolve));
+      httpServer = null;
+    }
+  });
+
+  it('should create a session on initialize and end it on DELETE', async () => {
+    await start();
+
+    const { response, sessionId, events } = await initialize();
+
+    expect(response.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect(events[0]!.message).toMatchObject({ id: 1, result: { serverInfo: { name: 'peragus-notebook-server' } } });
+    expect((await health()).sessions.streamableHttp).toBe(1);
+
+    const deleted = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { 'mcp-session-id': sessionId! },
+    });
+
+    expect(deleted.status).toBe(200);
+    expect((await health()).sessions.streamableHttp).toBe(0);
+  });
+
+  it('should serve requests within a session', async () => {
+    await start();
+
+    const { sessionId } = await initialize();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...HEADERS, 'mcp-session-id': sessionId! },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+    const [event] = parseEvents(await response.text());
+
+    expect(response.status).toBe(200);
+    expect(event!.message.result.tools.length).toBeGreaterThan(0);
+  });
+
+  it('should reject unknown session ids with 404', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...HEADERS, 'mcp-session-id': 'unknown' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.code).toBe(-32001);
+
+    const stream = await fetch(`${baseUrl}/mcp`, {
+      headers: { Accept: 'text/event-stream', 'mcp-session-id': 'unknown' },
+    });
+
+    expect(stream.status).toBe(404);
+  });
+
+  it('should reject requests without a session id other than initialize', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(400);
+
+    const stream = await fetch(`${baseUrl}/mcp`, { headers: { Accept: 'text/event-stream' } });
+
+    expect(stream.status).toBe(400);
+  });
+
+  it('should close sessions that stay idle past the timeout', async () => {
+    await start(50);
+
+    const { sessionId } = await initialize();
+
+    expect((await health()).sessions.streamableHttp).toBe(1);
+
+    await sleep(200);
+
+    expect((await health()).sessions.streamableHttp).toBe(0);
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...HEADERS, 'mcp-session-id': sessionId! },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should replay the events of a stream after Last-Event-ID', async () => {
+    await start();
+
+    const { sessionId, events } = await initialize();
+    const eventId = events[0]!.id!;
+    const streamId = eventId.slice(0, eventId.lastIndexOf('_'));
+    const controller = new AbortController();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      headers: {
+        Accept: 'text/event-stream',
+        'mcp-session-id': sessionId!,
+        'last-event-id': `${streamId}_0`,
+      },
+      signal: controller.signal,
+    });
+
+    expect(response.status).toBe(200);
+
+    // The stream stays open for new events, so only read what was replayed.
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    controller.abort();
+
+    const [replayed] = parseEvents(new TextDecoder().decode(value));
+
+    expect(replayed!.id).toBe(eventId);
+    expect(replayed!.message).toEqual(events[0]!.message);
+  });
+});
+
+describe('InMemoryEventStore', () => {
+  function message(id: number): JSONRPCMessage {
+    return { jsonrpc: '2.0', id, result: {} };
+  }
+
+  async function replay(store: InMemoryEventStore, lastEventId: string) {
+    const sent: Array<[string, JSONRPCMessage]> = [];
+    const streamId = await store.replayEventsAfter(lastEventId, {
+      send: async (eventId, message) => {
+        sent.push([eventId, message]);
+      },
+    });
+    return { streamId, sent };
+  }
+
+  it('should replay the events of the same stream after the given one', async () => {
+    const store = new InMemoryEventStore();
+
+    const first = await store.storeEvent('stream-a', message(1));
+    await store.storeEvent('stream-b', message(2));
+    const third = await store.storeEvent('stream-a', message(3));
+
+    expect(await replay(store, first)).toEqual({
+      streamId: 'stream-a',
+      sent: [[third, message(3)]],
+    });
+  });
+
+  it('should keep underscores in stream ids', async () => {
+    const store = new InMemoryEventStore();
+
+    const first = await store.storeEvent('_GET_stream', message(1));
+    const second = await store.storeEvent('_GET_stream', message(2));
+
+    expect(await replay(store, first)).toEqual({
+      streamId: '_GET_stream',
+      sent: [[second, message(2)]],
+    });
+  });
+
+  it('should resume the stream of an event that was already dropped', async () => {
+    const store = new InMemoryEventStore();
+
+    const first = await store.storeEvent('stream-a', message(0));
+
+    for (let i = 1; i <= 1000; i++) {
+      await store.storeEvent('stream-a', message(i));
+    }
+
+    const { streamId, sent } = await replay(store, first);
+
+    expect(streamId).toBe('stream-a');
+    expect(sent).toHaveLength(1000);
+    expect(sent[0]![1]).toEqual(message(1));
+  });
+
+  it('should reject invalid event ids', async () => {
+    const store = new InMemoryEventStore();
+
+    await expect(replay(store, 'no-sequence')).rejects.toThrow('Invalid event id: no-sequence');
+  });
+});
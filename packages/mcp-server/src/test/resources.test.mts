@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+// Srcbooks are read from the home directory, which must be set before the server is loaded.
+const home = await fs.mkdtemp(path.join(os.tmpdir(), 'peragus-mcp-resources-'));
+vi.stubEnv('HOME', home);
+
+const { createMCPServer } = await import('../server.mjs');
+
+const README = `<!-- srcbook:{"language":"javascript"} -->
+
+# Resource fixture
+
+###### package.json
+
+[package.json](./package.json)
+
+Adds two numbers.
+
+###### add.mjs
+
+[add.mjs](./src/add.mjs)
+`;
+
+describe('MCP resources', () => {
+  const server = createMCPServer();
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+
+  async function writeSrcbook(id: string, files: Record<string, string>) {
+    const dir = path.join(home, '.srcbook', 'srcbooks', id);
+
+    for (const [filename, contents] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(dir, filename)), { recursive: true });
+      await fs.writeFile(path.join(dir, filename), contents);
+    }
+  }
+
+  function text(result: { contents: Array<{ text?: unknown }> }) {
+    return result.contents[0]!.text;
+  }
+
+  beforeAll(async () => {
+    await writeSrcbook('fixture', {
+      'README.md': README,
+      'package.json': '{\n  "type": "module"\n}',
+      'src/add.mjs': 'console.log(1 + 2);',
+    });
+    // The app skips srcbooks it cannot decode, so the server should too.
+    await writeSrcbook('broken', { 'README.md': 'Not a srcbook' });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await server.close();
+    vi.unstubAllEnvs();
+    await fs.rm(home, { recursive: true, force: true });
+  });
+
+  it('should list the srcbooks of the app and the examples', async () => {
+    const { resources } = await client.listResources();
+    const user = resources.filter((resource) => resource.uri.startsWith('notebook://user/'));
+
+    expect(user).toEqual([
+      expect.objectContaining({
+        uri: 'notebook://user/fixture',
+        name: 'Resource fixture',
+        description: 'javascript notebook with 4 cells',
+        mimeType: 'text/markdown',
+      }),
+    ]);
+    expect(resources.some((resource) => resource.uri.startsWith('notebook://examples/'))).toBe(
+      true
+    );
+  });
+
+  it('should list the template of cell resources', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates).toEqual([
+      expect.objectContaining({ uriTemplate: 'notebook://user/{notebookId}/cells/{index}' }),
+    ]);
+  });
+
+  it('should read a srcbook as srcmd with its code inlined', async () => {
+    const result = await client.readResource({ uri: 'notebook://user/fixture' });
+
+    expect(result.contents[0]!.mimeType).toBe('text/markdown');
+    expect(text(result)).toContain('# Resource fixture');
+    expect(text(result)).toContain('###### add.mjs\n\n```javascript\nconsole.log(1 + 2);\n```');
+  });
+
+  it('should read the cells of a srcbook by index', async () => {
+    const title = await client.readResource({ uri: 'notebook://user/fixture/cells/0' });
+    const code = await client.readResource({ uri: 'notebook://user/fixture/cells/3' });
+
+    expect(title.contents).toEqual([
+      { uri: 'notebook://user/fixture/cells/0', mimeType: 'text/plain', text: 'Resource fixture' },
+    ]);
+    expect(code.contents).toEqual([
+      {
+        uri: 'notebook://user/fixture/cells/3',
+        mimeType: 'text/javascript',
+        text: 'console.log(1 + 2);',
+      },
+    ]);
+  });
+
+  it('should reject cell indices out of range', async () => {
+    await expect(
+      client.readResource({ uri: 'notebook://user/fixture/cells/4' })
+    ).rejects.toThrow('Cell index 4 is out of range for notebook fixture with 4 cells');
+  });
+
+  it('should reject unknown srcbooks and malformed uris', async () => {
+    await expect(client.readResource({ uri: 'notebook://user/unknown' })).rejects.toThrow(
+      'Notebook not found: unknown'
+    );
+    await expect(client.readResource({ uri: 'notebook://user/..' })).rejects.toThrow(
+      'Unsupported resource URI: notebook://user/..'
+    );
+    await expect(
+      client.readResource({ uri: 'notebook://user/fixture/cells/first' })
+    ).rejects.toThrow('Unsupported resource URI');
+  });
+});
@@ -30,6 +30,7 @@ describe('MCP Server', () => {
         transport: 'stdio',
         port: 3001, // Required by schema even for stdio
         logLevel: 'error', // Reduce noise in tests
+        sessionIdleTimeoutMs: 60000,
       };
 
       // Note: This test may not work in CI/CD environments without proper stdio setup
@@ -42,16 +43,31 @@ describe('MCP Server', () => {
       }
     });
 
-    it('should reject SSE transport', async () => {
+    it('should start server with HTTP transport', async () => {
       const config: MCPServerConfig = {
+        transport: 'http',
+        port: 3917,
+        logLevel: 'error',
+        sessionIdleTimeoutMs: 60000,
+      };
+
+      server = await startMCPServer(config);
+
+      const response = await fetch('http://127.0.0.1:3917/health');
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ status: 'ok', transport: 'http' });
+    });
+
+    it('should reject SSE as a transport of its own', async () => {
+      // The legacy SSE transport is served by the HTTP transport alongside Streamable HTTP
+      const config = {
         transport: 'sse',
         port: 3001,
         logLevel: 'error',
-      };
+      } as const;
 
-      await expect(startMCPServer(config)).rejects.toThrow(
-        'SSE transport not fully implemented yet'
-      );
+      // @ts-expect-error - 'sse' is deliberately not a valid transport
+      await expect(startMCPServer(config)).rejects.toThrow("Expected 'stdio' | 'http'");
     });
 
     it('should validate configuration', async () => {
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { runCodeCell } from '../tools.mjs';
+
+describe('runCodeCell', () => {
+  let dir: string;
+
+  async function writeCell(filename: string, source: string) {
+    const entry = path.join(dir, filename);
+    await fs.writeFile(entry, source);
+    return entry;
+  }
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'peragus-mcp-run-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should collect the output and exit code of a cell', async () => {
+    const entry = await writeCell(
+      'output.js',
+      "console.log('hello');\nconsole.error('oops');\nprocess.exitCode = 3;"
+    );
+
+    const result = await runCodeCell({ cwd: dir, entry, language: 'javascript', env: {}, timeout: 10000 });
+
+    expect(result.stdout).toBe('hello\n');
+    expect(result.stderr).toBe('oops\n');
+    expect(result.exitCode).toBe(3);
+    expect(result.signal).toBeNull();
+    expect(result.timedOut).toBe(false);
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should pass secrets to the cell through its environment', async () => {
+    const entry = await writeCell('secrets.js', 'console.log(process.env.API_KEY);');
+
+    const result = await runCodeCell({
+      cwd: dir,
+      entry,
+      language: 'javascript',
+      env: { API_KEY: 'secret-value' },
+      timeout: 10000
+    });
+
+    expect(result.stdout).toBe('secret-value\n');
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('should terminate a cell that runs past the timeout', async () => {
+    const entry = await writeCell('forever.js', 'setInterval(() => {}, 1000);');
+
+    const result = await runCodeCell({ cwd: dir, entry, language: 'javascript', env: {}, timeout: 200 });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBeNull();
+    expect(result.signal).toBe('SIGTERM');
+    expect(result.duration).toBeGreaterThanOrEqual(200);
+  });
+});
@@ -8,9 +8,13 @@ import { z } from 'zod';
 import { logger } from './logger.mjs';
 import { createSrcbook, importSrcbookFromSrcmdText, importSrcbookFromSrcmdUrl, removeSrcbook, writeToDisk, writeReadmeToDisk, writeCellToDisk } from '@peragus/api/srcbook/index.mjs';
 import { EXAMPLE_SRCBOOKS } from '@peragus/api/srcbook/examples.mjs';
-import { pathToSrcbook } from '@peragus/api/srcbook/path.mjs';
-import { decode } from '@peragus/api/srcmd.mjs';
+import { pathToSrcbook, pathToCodeFile } from '@peragus/api/srcbook/path.mjs';
+import { decode, decodeDir } from '@peragus/api/srcmd.mjs';
+import { node, tsx } from '@peragus/api/exec.mjs';
+import { getSecretsAssociatedWithSession } from '@peragus/api/config.mjs';
+import { parametersEnv, validateParameterValues } from '@peragus/api/srcbook/parameters.mjs';
 import fs from 'node:fs';
+import path from 'node:path';
 import { randomid } from '@peragus/shared';
 import { 
   TOOL_NAMES,
@@ -152,7 +156,7 @@ export function registerToolHandlers(server: Server): void {
       },
       {
         name: 'execute_notebook_cell',
-        description: 'Execute a specific cell in a notebook and return the results',
+        description: 'Execute a code cell in a notebook and return its stdout, stderr, exit code and duration',
         inputSchema: {
           type: 'object',
           properties: {
@@ -168,6 +172,11 @@ export function registerToolHandlers(server: Server): void {
               type: 'number',
               description: 'Execution timeout in milliseconds (default: 30000)',
               default: 30000
+            },
+            parameters: {
+              type: 'object',
+              description: 'Values overriding the defaults of the parameters declared by the notebook, by name',
+              additionalProperties: { type: ['string', 'number', 'boolean'] }
             }
           },
           required: ['notebookId', 'cellIndex']
@@ -490,7 +499,7 @@ async function handleUpdateNotebook(args: any): Promise<ToolResult> {
         const cell = cells[cellIndex];
         if (cell.type === 'title' || cell.type === 'markdown') {
           cell.text = content;
-        } else if (cell.type === 'code' || cell.type === 'package.json') {
+        } else if (cell.type === 'code' || cell.type === 'shell' || cell.type === 'sql' || cell.type === 'package.json') {
           cell.source = content;
           if (filename) {
             cell.filename = filename;
@@ -533,6 +542,7 @@ async function handleUpdateNotebook(args: any): Promise<ToolResult> {
       dir: srcbookDir,
       cells,
       language,
+      parameters: result.srcbook.parameters,
       'tsconfig.json': language === 'typescript' ? result.srcbook['tsconfig.json'] : undefined
     });
     
@@ -619,7 +629,7 @@ async function handleDeleteNotebook(args: any): Promise<ToolResult> {
  * Handle execute notebook cell tool
  */
 async function handleExecuteNotebookCell(args: any): Promise<ToolResult> {
-  const { notebookId, cellIndex, timeout = 30000 } = args;
+  const { notebookId, cellIndex, timeout = 30000, parameters = {} } = args;
   
   try {
     const srcbookDir = pathToSrcbook(notebookId);
@@ -629,10 +639,8 @@ async function handleExecuteNotebookCell(args: any): Promise<ToolResult> {
       throw new NotebookNotFoundError(notebookId);
     }
     
-    // Read current notebook content
-    const readmePath = `${srcbookDir}/README.md`;
-    const readmeContent = await fs.promises.readFile(readmePath, 'utf8');
-    const result = decode(readmeContent);
+    // Decode the whole directory so code cells carry the source that is actually on disk
+    const result = await decodeDir(srcbookDir);
     if (result.error) {
       const errorMsg = result.errors ? result.errors.join(', ') : 'Unknown error';
       throw new MCPServerError(`Failed to decode notebook: ${errorMsg}`, 'DECODE_ERROR');
@@ -652,63 +660,66 @@ async function handleExecuteNotebookCell(args: any): Promise<ToolResult> {
       throw new InvalidOperationError('execute_notebook_cell', `Cannot execute non-code cell of type: ${cell.type}`);
     }
     
-    const startTime = Date.now();
+    // TypeScript cells rely on the srcbook's local tsx, which only exists once dependencies are installed
+    if (cell.language === 'typescript') {
+      const tsxPath = path.join(srcbookDir, 'node_modules', '.bin', 'tsx');
+      if (!await fs.promises.access(tsxPath).then(() => true).catch(() => false)) {
+        throw new ExecutionError(
+          `Dependencies are not installed for notebook ${notebookId}. Install them before executing TypeScript cells.`
+        );
+      }
+    }
     
-    // Create a simple execution result (for now, just validate the code syntax)
-    try {
-      // Basic validation - check if code can be parsed
-      new Function(cell.source);
-      
-      const executionTime = Date.now() - startTime;
-      
-      // Update cell status to idle (execution complete)
-      cell.status = 'idle';
-      
-      // Write updated notebook back to disk
-      await writeToDisk({
-        dir: srcbookDir,
-        cells,
-        language: result.srcbook.language,
-        'tsconfig.json': result.srcbook.language === 'typescript' ? result.srcbook['tsconfig.json'] : undefined
-      });
-      
-      return {
-        success: true,
-        data: {
-          notebookId,
-          cellIndex,
-          cellId: cell.id,
-          cellType: cell.type,
-          executionTime,
-          output: 'Code syntax validated successfully',
-          syntaxValid: true
-        },
-        message: `Cell ${cellIndex} executed successfully in ${executionTime}ms`
-      };
-      
-    } catch (syntaxError) {
-      const executionTime = Date.now() - startTime;
-      
-      // Keep cell status as idle (execution attempted)
-      cell.status = 'idle';
-      
-      return {
-        success: false,
-        error: `Syntax error: ${(syntaxError as Error).message}`,
-        data: {
-          notebookId,
-          cellIndex,
-          cellId: cell.id,
-          cellType: cell.type,
-          executionTime,
-          syntaxValid: false
-        },
-        message: `Cell ${cellIndex} failed execution with syntax error`
-      };
+    const parameterErrors = validateParameterValues(result.srcbook.parameters, parameters);
+    if (parameterErrors.length > 0) {
+      throw new InvalidOperationError('execute_notebook_cell', parameterErrors.join(', '));
     }
     
+    // The session id of a srcbook is its directory name
+    const secrets = await getSecretsAssociatedWithSession(notebookId);
+    
+    const execution = await runCodeCell({
+      cwd: srcbookDir,
+      entry: pathToCodeFile(srcbookDir, cell.filename),
+      language: cell.language,
+      env: { ...secrets, ...parametersEnv(parameters) },
+      timeout,
+    });
+    
+    const success = execution.exitCode === 0 && !execution.timedOut;
+    
+    return {
+      success,
+      error: success
+        ? undefined
+        : execution.timedOut
+          ? `Execution timed out after ${timeout}ms`
+          : `Process exited with code ${execution.exitCode}${execution.signal ? ` (signal ${execution.signal})` : ''}`,
+      data: {
+        notebookId,
+        cellIndex,
+        cellId: cell.id,
+        cellType: cell.type,
+        filename: cell.filename,
+        language: cell.language,
+        stdout: execution.stdout,
+        stderr: execution.stderr,
+        exitCode: execution.exitCode,
+        signal: execution.signal,
+        timedOut: execution.timedOut,
+        duration: execution.duration
+      },
+      message: success
+        ? `Cell ${cellIndex} executed successfully in ${execution.duration}ms`
+        : `Cell ${cellIndex} failed after ${execution.duration}ms`
+    };
+    
   } catch (error) {
-    if (error instanceof NotebookNotFoundError || error instanceof InvalidOperationError) {
+    if (
+      error instanceof NotebookNotFoundError ||
+      error instanceof InvalidOperationError ||
+      error instanceof ExecutionError
+    ) {
       throw error;
     }
     throw new ExecutionError(
@@ -718,6 +729,73 @@ async function handleExecuteNotebookCell(args: any): Promise<ToolResult> {
   }
 }
 
+export interface CodeCellRunOptions {
+  cwd: string;
+  entry: string;
+  language: 'typescript' | 'javascript';
+  env: Record<string, string>;
+  timeout: number;
+}
+
+export interface CodeCellRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  duration: number;
+}
+
+/**
+ * Run a code cell file with the same runners the web app uses (node for
+ * JavaScript, the srcbook's tsx for TypeScript), collecting its output.
+ * The process is sent SIGTERM once the timeout elapses.
+ */
+export function runCodeCell(options: CodeCellRunOptions): Promise<CodeCellRunResult> {
+  const { cwd, entry, language, env, timeout } = options;
+  const run = language === 'typescript' ? tsx : node;
+  const startTime = Date.now();
+  
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    
+    const child = run({
+      cwd,
+      env,
+      entry,
+      stdout(data) {
+        stdout += data.toString('utf8');
+      },
+      stderr(data) {
+        stderr += data.toString('utf8');
+      },
+      onExit(exitCode, signal) {
+        clearTimeout(timer);
+        resolve({
+          stdout,
+          stderr,
+          exitCode,
+          signal,
+          timedOut,
+          duration: Date.now() - startTime
+        });
+      }
+    });
+    
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGTERM');
+    }, timeout);
+  });
+}
+
 /**
  * Handle search notebooks tool
  */
@@ -8,6 +8,8 @@ export const MCPServerConfigSchema = z.object({
   storageDir: z.string().optional(),
   transport: z.enum(['stdio', 'http']).default('stdio'),
   port: z.number().default(3001),
+  // HTTP sessions without requests or open streams for this long are closed
+  sessionIdleTimeoutMs: z.number().int().positive().default(30 * 60 * 1000),
 });
 
 export type MCPServerConfig = z.infer<typeof MCPServerConfigSchema>;
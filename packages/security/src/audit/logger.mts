@@ -22,6 +22,12 @@ export interface SecurityEventInput {
   metadata?: Record<string, any>;
 }
 
+// Oldest events are dropped past this count, so that a long-running server
+// logging every request does not grow without bounds.
+const MAX_EVENTS = 10000;
+
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
 class AuditLogger {
   private config: AuditLoggerConfig;
   private events: SecurityEvent[] = [];
@@ -43,6 +49,13 @@ class AuditLogger {
 
     this.events.push(event);
 
+    // Events below the configured level are kept, but not written out.
+    const logLevel = this.getSeverityLogLevel(event.severity);
+    if (LOG_LEVELS.indexOf(logLevel) < LOG_LEVELS.indexOf(this.config.level)) {
+      this.cleanupOldEvents();
+      return;
+    }
+
     // Log based on destination
     switch (this.config.destination) {
       case 'console':
@@ -195,7 +208,7 @@ class AuditLogger {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - this.config.retention);
     
-    this.events = this.events.filter(event => event.timestamp > cutoffDate);
+    this.events = this.events.filter(event => event.timestamp > cutoffDate).slice(-MAX_EVENTS);
   }
 
   updateConfig(config: Partial<AuditLoggerConfig>): void {
@@ -14,6 +14,7 @@ export {
   createLoginHandler,
   createRefreshHandler,
   createLogoutHandler,
+  hashPassword,
   AuthenticationService
 } from './middleware/auth.mjs';
 
@@ -1,4 +1,4 @@
-import type { Request, Response, NextFunction } from 'express';
+import type { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
 import { z } from 'zod';
@@ -10,8 +10,8 @@ import {
   SecurityConfig,
   SecurityEventType,
   SecuritySeverity
-} from '../types/security.mts';
-import { AuthenticationError } from '../types/security.mts';
+} from '../types/security.mjs';
+import { AuthenticationError } from '../types/security.mjs';
 import { auditLogger } from '../audit/logger.mjs';
 
 // Validation schemas
@@ -226,6 +226,20 @@ export class AuthenticationService {
   async getUserById(id: string): Promise<User | undefined> {
     return this.userStore.get(id);
   }
+
+  /**
+   * Register a user, whose password must be hashed with hashPassword
+   */
+  addUser(user: User): void {
+    this.userStore.set(user.id, user);
+  }
+}
+
+/**
+ * Hash a password so that it can be checked by authenticateUser
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 12);
 }
 
 /**
@@ -382,7 +396,7 @@ export function createOptionalAuthMiddleware(authService: AuthenticationService)
  * Login endpoint handler
  */
 export function createLoginHandler(authService: AuthenticationService) {
-  return async (req: Request, res: Response): Promise<void> => {
+  return async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { email, password, rememberMe } = LoginSchema.parse(req.body);
 
@@ -448,7 +462,7 @@ export function createLoginHandler(authService: AuthenticationService) {
  * Refresh token endpoint handler
  */
 export function createRefreshHandler(authService: AuthenticationService) {
-  return async (req: Request, res: Response): Promise<void> => {
+  return async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { refreshToken } = RefreshTokenSchema.parse(req.body);
       const tokens = await authService.refreshAccessToken(refreshToken);
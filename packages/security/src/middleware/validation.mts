@@ -1,9 +1,9 @@
 import { z } from 'zod';
 import type { Response, NextFunction } from 'express';
-import type { AuthenticatedRequest, ValidationSchema, FieldErrorDetail, ValidationResult } from '../types/security.mts';
-import { ValidationError as ValidationErrorClass } from '../types/security.mts';
+import type { AuthenticatedRequest, ValidationSchema, FieldErrorDetail, ValidationResult } from '../types/security.mjs';
+import { ValidationError as ValidationErrorClass } from '../types/security.mjs';
 import { auditLogger } from '../audit/logger.mjs';
-import { SecurityEventType, SecuritySeverity } from '../types/security.mts';
+import { SecurityEventType, SecuritySeverity } from '../types/security.mjs';
 
 // Path traversal prevention patterns
 const DANGEROUS_PATH_PATTERNS = [
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { InputValidator } from '../middleware/validation.mjs';
 import { RateLimiter, MemoryRateLimitStore } from '../middleware/rate-limit.mjs';
 import { auditLogger } from '../audit/logger.mjs';
+import { AuthenticationService, hashPassword } from '../middleware/auth.mjs';
 import { SecurityEventType, SecuritySeverity } from '../types/security.mjs';
 
 describe('Security Framework Integration Tests', () => {
@@ -229,6 +230,61 @@ describe('Security Framework Integration Tests', () => {
     });
   });
 
+  describe('Authentication', () => {
+    let authService: AuthenticationService;
+
+    beforeEach(async () => {
+      authService = new AuthenticationService({
+        jwt: {
+          secret: 'test-secret',
+          expiresIn: '1h',
+          refreshExpiresIn: '1d',
+          issuer: 'test',
+          audience: 'test-api',
+          algorithm: 'HS256'
+        },
+        rateLimit: {
+          windowMs: 60000,
+          maxRequests: 10,
+          skipSuccessfulRequests: false,
+          skipFailedRequests: false,
+          standardHeaders: true,
+          legacyHeaders: false
+        },
+        encryption: { algorithm: 'aes-256-gcm', keyLength: 32, ivLength: 16, saltLength: 32, iterations: 1000 },
+        audit: { enabled: false, level: 'info', format: 'json', destination: 'console', retention: 1 },
+        cors: { origin: false, methods: ['GET'], allowedHeaders: [], credentials: false, maxAge: 0 }
+      });
+
+      const now = new Date();
+      authService.addUser({
+        id: 'user-1',
+        email: 'user@example.com',
+        password: await hashPassword('correct-password'),
+        roles: [],
+        permissions: [],
+        isActive: true,
+        createdAt: now,
+        updatedAt: now
+      });
+    });
+
+    it('should issue tokens to added users', async () => {
+      const user = await authService.authenticateUser('user@example.com', 'correct-password');
+      const tokens = await authService.generateTokens(user);
+      const payload = await authService.verifyToken(tokens.accessToken);
+
+      expect(payload.sub).toBe('user-1');
+      expect(payload.email).toBe('user@example.com');
+    });
+
+    it('should reject wrong passwords', async () => {
+      await expect(
+        authService.authenticateUser('user@example.com', 'wrong-password')
+      ).rejects.toThrow('Invalid credentials');
+    });
+  });
+
   describe('Audit Logging', () => {
     beforeEach(() => {
       // Clear any existing events
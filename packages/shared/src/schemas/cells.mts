@@ -29,6 +29,61 @@ export const CodeCellSchema = z.object({
   status: z.enum(['idle', 'running']),
 });
 
+// Shell cells run their source with `sh` in the srcbook directory.
+export const ShellCellSchema = z.object({
+  id: z.string(),
+  type: z.literal('shell'),
+  source: z.string(),
+  filename: z.string(),
+  status: z.enum(['idle', 'running']),
+});
+
+// SQL cells run their source against the database of their connection, e.g. `sqlite:./data.db`.
+export const SqlCellSchema = z.object({
+  id: z.string(),
+  type: z.literal('sql'),
+  source: z.string(),
+  filename: z.string(),
+  connection: z.string(),
+  status: z.enum(['idle', 'running']),
+});
+
+export const TextOutputSchema = z.object({
+  type: z.enum(['stdout', 'stderr']),
+  data: z.string(),
+});
+
+// Rich outputs emitted by cells through the display protocol (see DISPLAY_OUTPUT_PREFIX).
+export const DisplayOutputSchema = z.discriminatedUnion('mimeType', [
+  z.object({ type: z.literal('display'), mimeType: z.literal('text/html'), data: z.string() }),
+  // Base64 encoded PNG
+  z.object({ type: z.literal('display'), mimeType: z.literal('image/png'), data: z.string() }),
+  z.object({
+    type: z.literal('display'),
+    mimeType: z.literal('application/json'),
+    data: z.unknown(),
+  }),
+  // A list of rows, as passed to console.table
+  z.object({
+    type: z.literal('display'),
+    mimeType: z.literal('application/vnd.srcbook.table+json'),
+    data: z.array(z.record(z.string(), z.unknown())),
+  }),
+]);
+
+export const CellOutputSchema = z.union([TextOutputSchema, DisplayOutputSchema]);
+
+// The output of the most recent execution of a code cell. These are persisted
+// alongside the srcbook so they survive page reloads and server restarts.
+export const CellExecutionResultSchema = z.object({
+  output: z.array(CellOutputSchema),
+  exitCode: z.number().int().nullable(),
+  startedAt: z.number(),
+  finishedAt: z.number().nullable(),
+  // Whether the output was replayed from the cache rather than produced by running the cell.
+  cached: z.boolean().optional(),
+});
+
 // Placeholder cells are used when instructing AI where to insert generated cell(s).
 export const PlaceholderCellSchema = z.object({
   id: z.string(),
@@ -41,6 +96,8 @@ export const CellSchema = z.union([
   MarkdownCellSchema,
   PackageJsonCellSchema,
   CodeCellSchema,
+  ShellCellSchema,
+  SqlCellSchema,
 ]);
 
 export const CellWithPlaceholderSchema = z.union([
@@ -48,9 +105,32 @@ export const CellWithPlaceholderSchema = z.union([
   MarkdownCellSchema,
   PackageJsonCellSchema,
   CodeCellSchema,
+  ShellCellSchema,
+  SqlCellSchema,
   PlaceholderCellSchema,
 ]);
 
+// An input of a srcbook, which cells read from the generated params module.
+export const ParameterSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('string'), default: z.string(), description: z.string().optional() }),
+  z.object({ type: z.literal('number'), default: z.number(), description: z.string().optional() }),
+  z.object({
+    type: z.literal('boolean'),
+    default: z.boolean(),
+    description: z.string().optional(),
+  }),
+]);
+
+export const ParametersSchema = z.record(
+  z.string().regex(/^[A-Za-z_$][A-Za-z0-9_$]*$/, 'Parameter names must be valid identifiers'),
+  ParameterSchema,
+);
+
+export const ParameterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+// Values overriding the defaults of parameters, by name.
+export const ParameterValuesSchema = z.record(z.string(), ParameterValueSchema);
+
 // Used to parse metadata from a srcbook header in .src.md.
 //
 // i.e. <!-- srcbook:{"language": "javascript"} -->
@@ -58,6 +138,7 @@ export const CellWithPlaceholderSchema = z.union([
 export const SrcbookMetadataSchema = z.object({
   language: z.enum(['javascript', 'typescript']),
   'tsconfig.json': z.optional(z.string()),
+  parameters: z.optional(ParametersSchema),
 });
 
 ///////////////////////////////////////////
@@ -82,9 +163,22 @@ export const CodeCellUpdateAttrsSchema = z.object({
   source: z.string(),
 });
 
+export const ShellCellUpdateAttrsSchema = z.object({
+  source: z.string(),
+});
+
+export const SqlCellUpdateAttrsSchema = z.object({
+  source: z.string(),
+  connection: z.string(),
+});
+
+// The first schema that matches is used, and the others strip unknown attributes,
+// so schemas with more attributes must come first.
 export const CellUpdateAttrsSchema = z.union([
+  SqlCellUpdateAttrsSchema,
   TitleCellUpdateAttrsSchema,
   MarkdownCellUpdateAttrsSchema,
   PackageJsonCellUpdateAttrsSchema,
   CodeCellUpdateAttrsSchema,
+  ShellCellUpdateAttrsSchema,
 ]);
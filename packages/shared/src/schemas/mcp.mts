@@ -26,7 +26,7 @@ export const ServerHealthMetricsSchema = z.object({
   lastFailedCall: z.date().nullable(),
   consecutiveFailures: z.number(),
   circuitBreakerState: z.enum(['closed', 'open', 'half_open']),
-  responseTimeMs: z.array(z.number()),
+  averageResponseTimeMs: z.number(),
 });
 
 export type ServerHealthMetrics = z.infer<typeof ServerHealthMetricsSchema>;
@@ -99,6 +99,55 @@ export const ToolApprovalActionSchema = z.object({
 
 export type ToolApprovalAction = z.infer<typeof ToolApprovalActionSchema>;
 
+/**
+ * MCP Server Settings Schema, for servers added in the app
+ */
+export const MCPServerSettingsSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    transport: z.enum(['stdio', 'http']),
+    command: z.string().trim().min(1).nullable().default(null),
+    args: z.array(z.string()).default([]),
+    env: z.record(z.string()).default({}),
+    url: z.string().url().nullable().default(null),
+    enabled: z.boolean().default(true),
+  })
+  .refine((server) => server.transport !== 'stdio' || server.command !== null, {
+    message: 'command is required for stdio servers',
+    path: ['command'],
+  })
+  .refine((server) => server.transport !== 'http' || server.url !== null, {
+    message: 'url is required for http servers',
+    path: ['url'],
+  });
+
+export type MCPServerSettings = z.infer<typeof MCPServerSettingsSchema>;
+
+/**
+ * MCP Tool Policy Schema. Patterns are globs where `*` matches any characters and `?` one.
+ */
+export const MCPToolPolicySettingsSchema = z.object({
+  serverId: z.string().trim().min(1).nullable().default(null),
+  toolPattern: z.string().trim().min(1).default('*'),
+  argumentPatterns: z.record(z.string()).nullable().default(null),
+  action: z.enum(['allow', 'deny', 'require_approval']),
+  priority: z.number().int().default(0),
+  description: z.string().nullable().default(null),
+});
+
+export type MCPToolPolicySettings = z.infer<typeof MCPToolPolicySettingsSchema>;
+
+/**
+ * MCP Audit Log Query Schema. Times are milliseconds since the epoch.
+ */
+export const MCPAuditLogQuerySchema = z.object({
+  from: z.coerce.number().int().optional(),
+  to: z.coerce.number().int().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+export type MCPAuditLogQuery = z.infer<typeof MCPAuditLogQuerySchema>;
+
 /**
  * MCP Server Status Response Schema
  */
@@ -1,5 +1,15 @@
 import * as z from 'zod';
-import { CellSchema, MarkdownCellSchema, CodeCellSchema, CellUpdateAttrsSchema } from './cells.mjs';
+import {
+  CellSchema,
+  MarkdownCellSchema,
+  CodeCellSchema,
+  ShellCellSchema,
+  SqlCellSchema,
+  CellUpdateAttrsSchema,
+  CellOutputSchema,
+  ParametersSchema,
+  ParameterValuesSchema,
+} from './cells.mjs';
 import {
   TsServerDefinitionLocationSchema,
   TsServerDiagnosticSchema,
@@ -26,7 +36,7 @@ export const CellStopPayloadSchema = z.object({
 
 export const CellCreatePayloadSchema = z.object({
   index: z.number(),
-  cell: z.union([MarkdownCellSchema, CodeCellSchema]),
+  cell: z.union([MarkdownCellSchema, CodeCellSchema, ShellCellSchema, SqlCellSchema]),
 });
 
 export const CellUpdatePayloadSchema = z.object({
@@ -48,6 +58,29 @@ export const AiFixDiagnosticsPayloadSchema = z.object({
   diagnostics: z.string(),
 });
 
+// The cell is the one in which the prompt was written, which the generated cells replace.
+export const AiGenerateCellsPayloadSchema = z.object({
+  cellId: z.string(),
+  insertIdx: z.number(),
+  query: z.string(),
+});
+
+export const AiCancelPayloadSchema = z.object({
+  cellId: z.string(),
+});
+
+// A message to the AI chat of the session. The client picks the plan id, which the
+// replies to the message share, and passes the diagnostics of code cells by filename.
+export const AiChatPayloadSchema = z.object({
+  planId: z.string(),
+  message: z.string(),
+  diagnostics: z.record(z.string(), z.string()),
+});
+
+export const AiChatCancelPayloadSchema = z.object({
+  planId: z.string(),
+});
+
 export const CellRenamePayloadSchema = z.object({
   cellId: z.string(),
   filename: z.string(),
@@ -57,6 +90,12 @@ export const CellDeletePayloadSchema = z.object({
   cellId: z.string(),
 });
 
+// The index is the position the cell should end up at in the session's cells.
+export const CellMovePayloadSchema = z.object({
+  cellId: z.string(),
+  index: z.number().int(),
+});
+
 export const CellErrorPayloadSchema = z.object({
   cellId: z.string(),
   errors: z.array(
@@ -71,21 +110,148 @@ export const CellUpdatedPayloadSchema = z.object({
   cell: CellSchema,
 });
 
+// Sent when a cell was created outside of the app, e.g. by the MCP server.
+export const CellCreatedPayloadSchema = z.object({
+  index: z.number().int(),
+  cell: CellSchema,
+});
+
 export const CellFormattedPayloadSchema = z.object({
   cellId: z.string(),
   cell: CellSchema,
 });
+// A tool called by the AI while generating code, e.g. to look up the schema of a database.
+export const AiToolCallSchema = z.object({
+  toolName: z.string(),
+  // The MCP server of the tool, or null for the tools built into the app.
+  serverId: z.string().nullable(),
+  args: z.record(z.unknown()),
+  status: z.enum(['done', 'failed', 'approval_required']),
+  // Set when the call waits for a human's approval, with which it runs next time.
+  approvalId: z.string().optional(),
+});
+
 export const AiGeneratedCellPayloadSchema = z.object({
   cellId: z.string(),
   output: z.string(),
+  toolCalls: z.array(AiToolCallSchema).optional(),
+  // Set when the generation failed, in which case there is no output.
+  error: z.string().optional(),
+});
+
+// A piece of the output while it is generated. When the AI starts over after calling
+// tools, `restart` is set and the chunk replaces the output so far.
+export const AiGeneratedChunkPayloadSchema = z.object({
+  cellId: z.string(),
+  chunk: z.string(),
+  restart: z.boolean(),
+});
+
+export const AiGeneratedCellsPayloadSchema = z.object({
+  cellId: z.string(),
+  error: z.boolean(),
+  cells: z.array(z.union([MarkdownCellSchema, CodeCellSchema])).optional(),
+  errors: z.array(z.string()).optional(),
+  toolCalls: z.array(AiToolCallSchema).optional(),
+});
+
+export const AiChatChunkPayloadSchema = z.object({
+  planId: z.string(),
+  chunk: z.string(),
+  restart: z.boolean(),
+});
+
+// The reply to a message of the chat is done and was added to the history. Nothing is
+// added when the reply was cancelled, or when it failed, in which case the error is set.
+export const AiChatUpdatedPayloadSchema = z.object({
+  planId: z.string(),
+  error: z.string().nullable(),
 });
 
 export const CellOutputPayloadSchema = z.object({
   cellId: z.string(),
-  output: z.object({
-    type: z.enum(['stdout', 'stderr']),
-    data: z.string(),
-  }),
+  output: CellOutputSchema,
+  cached: z.boolean().optional(),
+});
+
+// Cells that changed both in the app and on disk. The app's version is kept,
+// the disk's version is in the snapshot.
+export const SessionConflictPayloadSchema = z.object({
+  cellIds: z.array(z.string()),
+  snapshotId: z.string().nullable(),
+});
+
+export const SessionRunAllPayloadSchema = z.object({
+  fromCellId: z.string().optional(),
+  toCellId: z.string().optional(),
+  continueOnError: z.boolean().optional(),
+});
+
+export const SessionRunAllStopPayloadSchema = z.object({});
+
+export const SessionRunAllProgressPayloadSchema = z.object({
+  status: z.enum(['running', 'completed', 'failed', 'stopped']),
+  cellIds: z.array(z.string()),
+  currentCellId: z.string().nullable(),
+  completedCellIds: z.array(z.string()),
+  failedCellIds: z.array(z.string()),
+});
+
+export const CellExecutedPayloadSchema = z.object({
+  cellId: z.string(),
+  exitCode: z.number().int().nullable(),
+  startedAt: z.number(),
+  finishedAt: z.number(),
+  cached: z.boolean().optional(),
+});
+
+// Sets the values used for the parameters of the srcbook by the next runs.
+export const SessionParametersSetPayloadSchema = z.object({
+  values: ParameterValuesSchema,
+});
+
+export const SessionParametersUpdatedPayloadSchema = z.object({
+  parameters: ParametersSchema,
+  values: ParameterValuesSchema,
+});
+
+export const SessionKernelSetPayloadSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const SessionKernelRestartPayloadSchema = z.object({});
+
+export const SessionKernelStatusPayloadSchema = z.object({
+  enabled: z.boolean(),
+  status: z.enum(['stopped', 'idle', 'busy']),
+});
+
+// The cells each code cell imports, keyed by cell id, and the cells whose last run used
+// cells that changed or ran since. Reactive sessions re-run them when their imports run.
+export const SessionGraphUpdatedPayloadSchema = z.object({
+  graph: z.record(z.string(), z.array(z.string())),
+  staleCellIds: z.array(z.string()),
+  reactive: z.boolean(),
+});
+
+export const SessionReactiveSetPayloadSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const SessionCacheSetPayloadSchema = z.object({
+  enabled: z.boolean(),
+});
+
+// Invalidates the cached results of a cell, or of all cells when none is given.
+export const SessionCacheInvalidatePayloadSchema = z.object({
+  cellId: z.string().optional(),
+});
+
+// The size in bytes of the cached results of the srcbook, in total and by cell id.
+export const SessionCacheStatusPayloadSchema = z.object({
+  enabled: z.boolean(),
+  size: z.number(),
+  cells: z.record(z.string(), z.number()),
 });
 
 export const DepsValidatePayloadSchema = z.object({});
@@ -204,6 +370,20 @@ export const DepsStatusResponsePayloadSchema = z.object({
   nodeModulesExists: z.boolean(),
 });
 
+// A call to an MCP tool waiting for a human's approval. Times are milliseconds since the epoch.
+export const MCPPendingApprovalSchema = z.object({
+  id: z.string(),
+  serverId: z.string(),
+  toolName: z.string(),
+  arguments: z.record(z.unknown()),
+  requestedAt: z.number(),
+  expiresAt: z.number(),
+});
+
+export const MCPApprovalsUpdatedPayloadSchema = z.object({
+  approvals: z.array(MCPPendingApprovalSchema),
+});
+
 ///////////////////////
 // APPS & NOTEBOOKS //
 ///////////////////////
@@ -5,6 +5,8 @@ import {
   MarkdownCellSchema,
   PackageJsonCellSchema,
   CodeCellSchema,
+  ShellCellSchema,
+  SqlCellSchema,
   PlaceholderCellSchema,
   CellSchema,
   CellWithPlaceholderSchema,
@@ -12,23 +14,43 @@ import {
   MarkdownCellUpdateAttrsSchema,
   PackageJsonCellUpdateAttrsSchema,
   CodeCellUpdateAttrsSchema,
+  ShellCellUpdateAttrsSchema,
+  SqlCellUpdateAttrsSchema,
   CellUpdateAttrsSchema,
   SrcbookMetadataSchema,
+  ParameterSchema,
+  ParametersSchema,
+  ParameterValueSchema,
+  ParameterValuesSchema,
+  TextOutputSchema,
+  DisplayOutputSchema,
+  CellOutputSchema,
+  CellExecutionResultSchema,
 } from '../schemas/cells.mjs';
 
 export type TitleCellType = z.infer<typeof TitleCellSchema>;
 export type MarkdownCellType = z.infer<typeof MarkdownCellSchema>;
 export type PackageJsonCellType = z.infer<typeof PackageJsonCellSchema>;
 export type CodeCellType = z.infer<typeof CodeCellSchema>;
+export type ShellCellType = z.infer<typeof ShellCellSchema>;
+export type SqlCellType = z.infer<typeof SqlCellSchema>;
 export type PlaceholderCellType = z.infer<typeof PlaceholderCellSchema>;
 
 export type CellType = z.infer<typeof CellSchema>;
 export type CellWithPlaceholderType = z.infer<typeof CellWithPlaceholderSchema>;
 
+export type TextOutputType = z.infer<typeof TextOutputSchema>;
+export type DisplayOutputType = z.infer<typeof DisplayOutputSchema>;
+export type DisplayMimeType = DisplayOutputType['mimeType'];
+export type CellOutputType = z.infer<typeof CellOutputSchema>;
+export type CellExecutionResultType = z.infer<typeof CellExecutionResultSchema>;
+
 export type TitleCellUpdateAttrsType = z.infer<typeof TitleCellUpdateAttrsSchema>;
 export type MarkdownCellUpdateAttrsType = z.infer<typeof MarkdownCellUpdateAttrsSchema>;
 export type PackageJsonCellUpdateAttrsType = z.infer<typeof PackageJsonCellUpdateAttrsSchema>;
 export type CodeCellUpdateAttrsType = z.infer<typeof CodeCellUpdateAttrsSchema>;
+export type ShellCellUpdateAttrsType = z.infer<typeof ShellCellUpdateAttrsSchema>;
+export type SqlCellUpdateAttrsType = z.infer<typeof SqlCellUpdateAttrsSchema>;
 export type CellUpdateAttrsType = z.infer<typeof CellUpdateAttrsSchema>;
 
 export type CellErrorType = {
@@ -39,3 +61,8 @@ export type CellErrorType = {
 export type CodeLanguageType = 'javascript' | 'typescript';
 
 export type SrcbookMetadataType = z.infer<typeof SrcbookMetadataSchema>;
+
+export type ParameterType = z.infer<typeof ParameterSchema>;
+export type ParametersType = z.infer<typeof ParametersSchema>;
+export type ParameterValueType = z.infer<typeof ParameterValueSchema>;
+export type ParameterValuesType = z.infer<typeof ParameterValuesSchema>;
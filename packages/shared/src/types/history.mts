@@ -36,7 +36,24 @@ export type PlanMessageType = {
   content: string;
 };
 
-export type MessageType = UserMessageType | DiffMessageType | CommandMessageType | PlanMessageType;
+// Edits to the cells of a srcbook proposed in its AI chat, which the user reviews as a diff
+// before applying them. `version` is the snapshot of the srcbook they were proposed against.
+export type CellsDiffMessageType = {
+  type: 'cells-diff';
+  planId: string;
+  version: string;
+  diff: CellDiffType[];
+  // The srcbook with the edits applied, which replaces the cells when they are applied.
+  srcmd: string;
+  status: 'proposed' | 'applied' | 'rejected';
+};
+
+export type MessageType =
+  | UserMessageType
+  | DiffMessageType
+  | CellsDiffMessageType
+  | CommandMessageType
+  | PlanMessageType;
 
 export type HistoryType = Array<MessageType>;
 
@@ -72,3 +89,27 @@ export type ActionChunkType = {
   planId: string;
   data: FileActionChunkType | CommandActionChunkType;
 };
+
+///////////////////////////////////////
+// Version history of srcbook files //
+///////////////////////////////////////
+
+// Why a snapshot was taken: on a debounce after edits, before an AI edit, before a restore,
+// or when a cell changed both in the app and on disk.
+export type SnapshotReasonType = 'auto' | 'ai' | 'restore' | 'conflict';
+
+export type SnapshotType = {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReasonType;
+};
+
+// Same idea as FileDiffType, but for the cells of a srcbook. Code, shell and SQL cells
+// are matched by filename, other cells by their position among unchanged cells.
+export type CellDiffType = {
+  type: 'edit' | 'create' | 'delete';
+  cellType: 'title' | 'package.json' | 'markdown' | 'code' | 'shell' | 'sql';
+  label: string;
+  original: string | null;
+  modified: string | null;
+};
@@ -6,11 +6,22 @@ import {
   CellCreatePayloadSchema,
   CellUpdatePayloadSchema,
   CellUpdatedPayloadSchema,
+  CellCreatedPayloadSchema,
   CellFormatPayloadSchema,
   CellRenamePayloadSchema,
   CellDeletePayloadSchema,
+  CellMovePayloadSchema,
   AiGenerateCellPayloadSchema,
   AiGeneratedCellPayloadSchema,
+  AiGeneratedChunkPayloadSchema,
+  AiGeneratedCellsPayloadSchema,
+  AiGenerateCellsPayloadSchema,
+  AiCancelPayloadSchema,
+  AiChatPayloadSchema,
+  AiChatCancelPayloadSchema,
+  AiChatChunkPayloadSchema,
+  AiChatUpdatedPayloadSchema,
+  AiToolCallSchema,
   CellOutputPayloadSchema,
   DepsInstallPayloadSchema,
   DepsValidateResponsePayloadSchema,
@@ -43,6 +54,23 @@ import {
   DepsStatusPayloadSchema,
   DepsStatusResponsePayloadSchema,
   PreviewLogPayloadSchema,
+  SessionRunAllPayloadSchema,
+  SessionConflictPayloadSchema,
+  SessionRunAllStopPayloadSchema,
+  SessionRunAllProgressPayloadSchema,
+  CellExecutedPayloadSchema,
+  SessionParametersSetPayloadSchema,
+  SessionParametersUpdatedPayloadSchema,
+  SessionKernelSetPayloadSchema,
+  SessionKernelRestartPayloadSchema,
+  SessionKernelStatusPayloadSchema,
+  SessionGraphUpdatedPayloadSchema,
+  SessionReactiveSetPayloadSchema,
+  SessionCacheSetPayloadSchema,
+  SessionCacheInvalidatePayloadSchema,
+  SessionCacheStatusPayloadSchema,
+  MCPPendingApprovalSchema,
+  MCPApprovalsUpdatedPayloadSchema,
 } from '../schemas/websockets.mjs';
 
 export type CellExecPayloadType = z.infer<typeof CellExecPayloadSchema>;
@@ -51,12 +79,43 @@ export type CellCreatePayloadType = z.infer<typeof CellCreatePayloadSchema>;
 export type CellUpdatePayloadType = z.infer<typeof CellUpdatePayloadSchema>;
 export type CellFormatPayloadType = z.infer<typeof CellFormatPayloadSchema>;
 export type CellUpdatedPayloadType = z.infer<typeof CellUpdatedPayloadSchema>;
+export type CellCreatedPayloadType = z.infer<typeof CellCreatedPayloadSchema>;
 export type CellRenamePayloadType = z.infer<typeof CellRenamePayloadSchema>;
 export type CellDeletePayloadType = z.infer<typeof CellDeletePayloadSchema>;
+export type CellMovePayloadType = z.infer<typeof CellMovePayloadSchema>;
 export type CellOutputPayloadType = z.infer<typeof CellOutputPayloadSchema>;
+export type CellExecutedPayloadType = z.infer<typeof CellExecutedPayloadSchema>;
 export type AiGenerateCellPayloadType = z.infer<typeof AiGenerateCellPayloadSchema>;
 export type AiGeneratedCellPayloadType = z.infer<typeof AiGeneratedCellPayloadSchema>;
+export type AiToolCallType = z.infer<typeof AiToolCallSchema>;
 export type AiFixDiagnosticsPayloadType = z.infer<typeof AiFixDiagnosticsPayloadSchema>;
+export type AiGeneratedChunkPayloadType = z.infer<typeof AiGeneratedChunkPayloadSchema>;
+export type AiGeneratedCellsPayloadType = z.infer<typeof AiGeneratedCellsPayloadSchema>;
+export type AiGenerateCellsPayloadType = z.infer<typeof AiGenerateCellsPayloadSchema>;
+export type AiCancelPayloadType = z.infer<typeof AiCancelPayloadSchema>;
+export type AiChatPayloadType = z.infer<typeof AiChatPayloadSchema>;
+export type AiChatCancelPayloadType = z.infer<typeof AiChatCancelPayloadSchema>;
+export type AiChatChunkPayloadType = z.infer<typeof AiChatChunkPayloadSchema>;
+export type AiChatUpdatedPayloadType = z.infer<typeof AiChatUpdatedPayloadSchema>;
+
+export type SessionRunAllPayloadType = z.infer<typeof SessionRunAllPayloadSchema>;
+export type SessionRunAllStopPayloadType = z.infer<typeof SessionRunAllStopPayloadSchema>;
+export type SessionRunAllProgressPayloadType = z.infer<typeof SessionRunAllProgressPayloadSchema>;
+export type SessionConflictPayloadType = z.infer<typeof SessionConflictPayloadSchema>;
+
+export type SessionParametersSetPayloadType = z.infer<typeof SessionParametersSetPayloadSchema>;
+export type SessionParametersUpdatedPayloadType = z.infer<
+  typeof SessionParametersUpdatedPayloadSchema
+>;
+
+export type SessionKernelSetPayloadType = z.infer<typeof SessionKernelSetPayloadSchema>;
+export type SessionKernelRestartPayloadType = z.infer<typeof SessionKernelRestartPayloadSchema>;
+export type SessionKernelStatusPayloadType = z.infer<typeof SessionKernelStatusPayloadSchema>;
+export type SessionGraphUpdatedPayloadType = z.infer<typeof SessionGraphUpdatedPayloadSchema>;
+export type SessionReactiveSetPayloadType = z.infer<typeof SessionReactiveSetPayloadSchema>;
+export type SessionCacheSetPayloadType = z.infer<typeof SessionCacheSetPayloadSchema>;
+export type SessionCacheInvalidatePayloadType = z.infer<typeof SessionCacheInvalidatePayloadSchema>;
+export type SessionCacheStatusPayloadType = z.infer<typeof SessionCacheStatusPayloadSchema>;
 
 export type DepsInstallPayloadType = z.infer<typeof DepsInstallPayloadSchema>;
 export type DepsClearPayloadType = z.infer<typeof DepsClearPayloadSchema>;
@@ -98,6 +157,9 @@ export type TsServerCompletionEntriesPayloadType = z.infer<
   typeof TsServerCompletionEntriesPayloadSchema
 >;
 
+export type MCPPendingApprovalType = z.infer<typeof MCPPendingApprovalSchema>;
+export type MCPApprovalsUpdatedPayloadType = z.infer<typeof MCPApprovalsUpdatedPayloadSchema>;
+
 //////////
 // APPS //
 //////////
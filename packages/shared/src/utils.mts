@@ -2,6 +2,12 @@ import { base32hexnopad } from '@scure/base';
 import type { CodeLanguageType } from './types/cells.mjs';
 import * as crypto from 'crypto';
 
+/**
+ * Cells emit rich outputs by writing a single line to stdout that starts with this
+ * prefix, followed by JSON of the form `{"mimeType": "text/html", "data": "<b>hi</b>"}`.
+ */
+export const DISPLAY_OUTPUT_PREFIX = '@@srcbook:display ';
+
 export function isBrowser(): boolean {
   return typeof window !== 'undefined';
 }
@@ -25,6 +31,22 @@ export function isTypeScriptFile(filename: string) {
   return /\.(ts|cts|mts)$/.test(filename);
 }
 
+export function isShellFile(filename: string) {
+  return /\.sh$/.test(filename);
+}
+
+export function validShellFilename(filename: string) {
+  return /^[a-zA-Z0-9_-]+\.sh$/.test(filename);
+}
+
+export function isSqlFile(filename: string) {
+  return /\.sql$/.test(filename);
+}
+
+export function validSqlFilename(filename: string) {
+  return /^[a-zA-Z0-9_-]+\.sql$/.test(filename);
+}
+
 export function languageFromFilename(filename: string): CodeLanguageType {
   if (isJavaScriptFile(filename)) {
     return 'javascript';
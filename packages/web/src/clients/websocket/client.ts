@@ -11,7 +11,8 @@ const RETRY_IN_MS = [10, 250, 1000, 2500];
 const DEFAULT_RETRY_IN_MS = 5000;
 
 export default class WebSocketClient {
-  private url: string;
+  // Called on every (re)connection, as the url can change, e.g. when logging in.
+  private url: () => string;
 
   private socket: WebSocket | null = null;
 
@@ -22,7 +23,7 @@ export default class WebSocketClient {
 
   private currentRetry = 0;
 
-  constructor(url: string) {
+  constructor(url: () => string) {
     this.url = url;
     this.connect();
   }
@@ -129,7 +130,7 @@ export default class WebSocketClient {
   };
 
   private connect = () => {
-    this.socket = new WebSocket(this.url);
+    this.socket = new WebSocket(this.url());
     this.socket.addEventListener('open', this.onOpen);
     this.socket.addEventListener('message', this.onMessage);
     this.socket.addEventListener('close', this.onClose);
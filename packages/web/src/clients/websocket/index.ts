@@ -3,7 +3,16 @@ import {
   CellCreatePayloadSchema,
   AiGenerateCellPayloadSchema,
   AiGeneratedCellPayloadSchema,
+  AiGeneratedChunkPayloadSchema,
+  AiGeneratedCellsPayloadSchema,
+  AiGenerateCellsPayloadSchema,
+  AiCancelPayloadSchema,
+  AiChatPayloadSchema,
+  AiChatCancelPayloadSchema,
+  AiChatChunkPayloadSchema,
+  AiChatUpdatedPayloadSchema,
   CellUpdatedPayloadSchema,
+  CellCreatedPayloadSchema,
   CellFormattedPayloadSchema,
   CellFormatPayloadSchema,
   DepsValidateResponsePayloadSchema,
@@ -16,6 +25,7 @@ import {
   TsServerStartPayloadSchema,
   TsServerStopPayloadSchema,
   CellDeletePayloadSchema,
+  CellMovePayloadSchema,
   TsServerCellDiagnosticsPayloadSchema,
   CellRenamePayloadSchema,
   TsConfigUpdatePayloadSchema,
@@ -41,28 +51,65 @@ import {
   DepsStatusResponsePayloadSchema,
   DepsStatusPayloadSchema,
   PreviewLogPayloadSchema,
+  SessionRunAllPayloadSchema,
+  SessionRunAllStopPayloadSchema,
+  SessionRunAllProgressPayloadSchema,
+  CellExecutedPayloadSchema,
+  SessionKernelSetPayloadSchema,
+  SessionKernelRestartPayloadSchema,
+  SessionKernelStatusPayloadSchema,
+  SessionConflictPayloadSchema,
+  SessionParametersSetPayloadSchema,
+  SessionParametersUpdatedPayloadSchema,
+  SessionGraphUpdatedPayloadSchema,
+  SessionReactiveSetPayloadSchema,
+  SessionCacheSetPayloadSchema,
+  SessionCacheInvalidatePayloadSchema,
+  SessionCacheStatusPayloadSchema,
+  MCPApprovalsUpdatedPayloadSchema,
 } from '@peragus/shared';
 import Channel from '@/clients/websocket/channel';
 import WebSocketClient from '@/clients/websocket/client';
 import SRCBOOK_CONFIG from '@/config';
+import { getAuthToken } from '@/lib/auth';
 
 // Establish websocket connection immediately.
-const client = new WebSocketClient(`ws://${SRCBOOK_CONFIG.api.host}/websocket`);
+const client = new WebSocketClient(() => {
+  const url = `ws://${SRCBOOK_CONFIG.api.host}/websocket`;
+  const token = getAuthToken();
+
+  // Browsers cannot send headers with websockets, so the token goes in the url.
+  return token ? `${url}?token=${encodeURIComponent(token)}` : url;
+});
 
 export default client;
 const IncomingSessionEvents = {
   'cell:output': CellOutputPayloadSchema,
   'cell:error': CellErrorPayloadSchema,
   'cell:updated': CellUpdatedPayloadSchema,
+  'cell:created': CellCreatedPayloadSchema,
+  'cell:moved': CellMovePayloadSchema,
+  'cell:deleted': CellDeletePayloadSchema,
+  'cell:executed': CellExecutedPayloadSchema,
   'cell:formatted': CellFormattedPayloadSchema,
   'deps:validate:response': DepsValidateResponsePayloadSchema,
   'tsserver:cell:diagnostics': TsServerCellDiagnosticsPayloadSchema,
   'tsserver:cell:suggestions': TsServerCellSuggestionsPayloadSchema,
   'tsserver:cell:quickinfo:response': TsServerQuickInfoResponsePayloadSchema,
   'ai:generated': AiGeneratedCellPayloadSchema,
+  'ai:generated:chunk': AiGeneratedChunkPayloadSchema,
+  'ai:generated:cells': AiGeneratedCellsPayloadSchema,
+  'ai:chat:chunk': AiChatChunkPayloadSchema,
+  'ai:chat:updated': AiChatUpdatedPayloadSchema,
   'tsconfig.json:updated': TsConfigUpdatedPayloadSchema,
   'tsserver:cell:definition_location:response': TsServerDefinitionLocationResponsePayloadSchema,
   'tsserver:cell:completions:response': TsServerCompletionEntriesPayloadSchema,
+  'session:run_all:progress': SessionRunAllProgressPayloadSchema,
+  'session:kernel:status': SessionKernelStatusPayloadSchema,
+  'session:conflict': SessionConflictPayloadSchema,
+  'session:parameters:updated': SessionParametersUpdatedPayloadSchema,
+  'session:graph:updated': SessionGraphUpdatedPayloadSchema,
+  'session:cache:status': SessionCacheStatusPayloadSchema,
 };
 
 const OutgoingSessionEvents = {
@@ -72,9 +119,22 @@ const OutgoingSessionEvents = {
   'cell:update': CellUpdatePayloadSchema,
   'cell:rename': CellRenamePayloadSchema,
   'cell:delete': CellDeletePayloadSchema,
+  'cell:move': CellMovePayloadSchema,
   'cell:format': CellFormatPayloadSchema,
+  'session:run_all': SessionRunAllPayloadSchema,
+  'session:run_all:stop': SessionRunAllStopPayloadSchema,
+  'session:kernel:set': SessionKernelSetPayloadSchema,
+  'session:kernel:restart': SessionKernelRestartPayloadSchema,
+  'session:parameters:set': SessionParametersSetPayloadSchema,
+  'session:reactive:set': SessionReactiveSetPayloadSchema,
+  'session:cache:set': SessionCacheSetPayloadSchema,
+  'session:cache:invalidate': SessionCacheInvalidatePayloadSchema,
   'ai:generate': AiGenerateCellPayloadSchema,
   'ai:fix_diagnostics': AiFixDiagnosticsPayloadSchema,
+  'ai:generate_cells': AiGenerateCellsPayloadSchema,
+  'ai:cancel': AiCancelPayloadSchema,
+  'ai:chat': AiChatPayloadSchema,
+  'ai:chat:cancel': AiChatCancelPayloadSchema,
   'deps:install': DepsInstallPayloadSchema,
   'deps:validate': DepsValidatePayloadSchema,
   'tsserver:start': TsServerStartPayloadSchema,
@@ -134,3 +194,22 @@ export class AppChannel extends Channel<typeof IncomingAppEvents, typeof Outgoin
     this.appId = appId;
   }
 }
+
+const IncomingMCPApprovalsEvents = {
+  'approvals:updated': MCPApprovalsUpdatedPayloadSchema,
+};
+
+const OutgoingMCPApprovalsEvents = {};
+
+// Calls to MCP tools waiting for approval, across all sessions.
+export class MCPApprovalsChannel extends Channel<
+  typeof IncomingMCPApprovalsEvents,
+  typeof OutgoingMCPApprovalsEvents
+> {
+  static create() {
+    return new MCPApprovalsChannel(client, 'mcp:approvals', {
+      incoming: IncomingMCPApprovalsEvents,
+      outgoing: OutgoingMCPApprovalsEvents,
+    });
+  }
+}
@@ -7,10 +7,12 @@ import {
   CellErrorPayloadType,
   CellFormattedPayloadType,
   AiGeneratedCellPayloadType,
+  AiGeneratedChunkPayloadType,
   TsServerDefinitionLocationResponsePayloadType,
   TsServerDiagnosticType,
 } from '@peragus/shared';
 import { useSettings } from '@/components/use-settings';
+import { useCellGraph } from '@/components/use-cell-graph';
 import CodeCell from '@peragus/components/src/components/cells/code';
 import { SessionType } from '@/types';
 import { CellModeType } from '@peragus/components/src/types';
@@ -18,6 +20,7 @@ import { SessionChannel } from '@/clients/websocket';
 import { useCells } from '@peragus/components/src/components/use-cell';
 import { mapCMLocationToTsServer, mapTsServerLocationToCM } from './util';
 import { toast } from 'sonner';
+import { notifyToolCalls } from '@/lib/ai-tool-calls';
 import { getFileContent } from '@/lib/server';
 import { tsHover } from '@/components/cells/hover';
 import { autocompletion } from '@codemirror/autocomplete';
@@ -137,6 +140,7 @@ export default function ControlledCodeCell(props: Props) {
   const [newSource, setNewSource] = useState('');
   const [fullscreen, setFullscreen] = useState(false);
   const { aiEnabled } = useSettings();
+  const { isStale } = useCellGraph();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalContent, setModalContent] = useState('');
@@ -239,12 +243,33 @@ export default function ControlledCodeCell(props: Props) {
 
     function callback(payload: AiGeneratedCellPayloadType) {
       if (payload.cellId !== cell.id) return;
+      if (payload.error !== undefined) {
+        toast.error(payload.error);
+        setNewSource('');
+        setCellMode(generationType === 'edit' ? 'prompting' : 'off');
+        return;
+      }
       // We move to the "review" stage of the generation process:
       setNewSource(payload.output);
       setCellMode('reviewing');
+      notifyToolCalls(payload.toolCalls);
     }
     channel.on('ai:generated', callback);
     return () => channel.off('ai:generated', callback);
+  }, [cell.id, channel, generationType]);
+
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+
+    // Show the code in the diff as it is generated, until it is complete.
+    function callback(payload: AiGeneratedChunkPayloadType) {
+      if (payload.cellId !== cell.id) return;
+      setNewSource((source) => (payload.restart ? payload.chunk : source + payload.chunk));
+    }
+    channel.on('ai:generated:chunk', callback);
+    return () => channel.off('ai:generated:chunk', callback);
   }, [cell.id, channel]);
 
   const generate = () => {
@@ -253,6 +278,7 @@ export default function ControlledCodeCell(props: Props) {
     }
 
     setGenerationType('edit');
+    setNewSource('');
     channel.push('ai:generate', {
       cellId: cell.id,
       prompt,
@@ -266,6 +292,7 @@ export default function ControlledCodeCell(props: Props) {
     }
     setCellMode('fixing');
     setGenerationType('fix');
+    setNewSource('');
     channel.push('ai:fix_diagnostics', {
       cellId: cell.id,
       diagnostics,
@@ -307,6 +334,15 @@ export default function ControlledCodeCell(props: Props) {
     setNewSource('');
   }
 
+  function cancelGeneration() {
+    if (!channel) {
+      return;
+    }
+    channel.push('ai:cancel', { cellId: cell.id });
+    setCellMode(generationType === 'edit' ? 'prompting' : 'off');
+    setNewSource('');
+  }
+
   function onAcceptDiff() {
     if (readOnly) {
       return;
@@ -444,6 +480,7 @@ export default function ControlledCodeCell(props: Props) {
           generationType={generationType}
           newSource={newSource}
           onAccept={onAcceptDiff}
+          onCancelGeneration={cancelGeneration}
           onChangeCellModeType={setCellMode}
           onChangeFilenameError={setFilenameError}
           onChangeFullscreen={setFullscreen}
@@ -466,6 +503,7 @@ export default function ControlledCodeCell(props: Props) {
           fixDiagnostics={aiFixDiagnostics}
           editorExtensions={extensions}
           codeTheme={codeTheme}
+          stale={isStale(cell.id)}
         />
         <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
           <DialogContent className="w-[80vw] h-[80vh] max-w-none p-0 overflow-scroll">
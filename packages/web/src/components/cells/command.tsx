@@ -0,0 +1,120 @@
+import { useEffect, useState, type ComponentType } from 'react';
+import { CellType, ShellCellType, SqlCellType, CellErrorPayloadType } from '@peragus/shared';
+import type { CommandCellProps } from '@peragus/components/src/components/cells/command';
+import { SessionChannel } from '@/clients/websocket';
+import { useCells } from '@peragus/components/src/components/use-cell';
+import useTheme from '@peragus/components/src/components/use-theme';
+
+const DEBOUNCE_DELAY = 500;
+
+type CommandCellType = ShellCellType | SqlCellType;
+
+type RegularProps<T extends CommandCellType, A> = {
+  readOnly?: false;
+  cell: T;
+  channel: SessionChannel;
+  updateCellOnServer: (cell: T, attrs: A) => void;
+  onDeleteCell: (cell: CellType) => void;
+};
+type ReadOnlyProps<T extends CommandCellType> = { readOnly: true; cell: T };
+
+export type ControlledCommandCellProps<T extends CommandCellType, A> =
+  | RegularProps<T, A>
+  | ReadOnlyProps<T>;
+
+type Props<T extends CommandCellType, A> = ControlledCommandCellProps<T, A> & {
+  Cell: ComponentType<CommandCellProps<T, A>>;
+};
+
+/**
+ * Connects a shell or SQL cell to the session: renaming, running and stopping it.
+ */
+export default function ControlledCommandCell<T extends CommandCellType, A>(props: Props<T, A>) {
+  const { Cell, readOnly, cell } = props;
+  const channel = !readOnly ? props.channel : null;
+
+  const { codeTheme } = useTheme();
+  const { updateCell: updateCellOnClient, clearOutput } = useCells();
+  const [filenameError, _setFilenameError] = useState<string | null>(null);
+
+  function setFilenameError(error: string | null) {
+    _setFilenameError(error);
+    setTimeout(() => _setFilenameError(null), 3000);
+  }
+
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+
+    function callback(payload: CellErrorPayloadType) {
+      if (payload.cellId !== cell.id) {
+        return;
+      }
+
+      const filenameError = payload.errors.find((e) => e.attribute === 'filename');
+
+      if (filenameError) {
+        setFilenameError(filenameError.message);
+      }
+    }
+
+    channel.on('cell:error', callback);
+
+    return () => channel.off('cell:error', callback);
+  }, [cell.id, channel]);
+
+  function onUpdateFileName(filename: string) {
+    if (!channel) {
+      return;
+    }
+
+    updateCellOnClient({ ...cell, filename });
+    channel.push('cell:rename', {
+      cellId: cell.id,
+      filename,
+    });
+  }
+
+  function runCell() {
+    if (!channel || cell.status === 'running') {
+      return;
+    }
+
+    // Update client side only. The server will know it's running from the 'cell:exec' event.
+    updateCellOnClient({ ...cell, status: 'running' });
+    clearOutput(cell.id);
+
+    // Add artificial delay to allow debounced updates to propagate
+    setTimeout(() => {
+      channel.push('cell:exec', {
+        cellId: cell.id,
+      });
+    }, DEBOUNCE_DELAY + 10);
+  }
+
+  function stopCell() {
+    if (!channel) {
+      return;
+    }
+    channel.push('cell:stop', { cellId: cell.id });
+  }
+
+  if (props.readOnly) {
+    return <Cell readOnly cell={props.cell} codeTheme={codeTheme} />;
+  }
+
+  return (
+    <Cell
+      cell={props.cell}
+      codeTheme={codeTheme}
+      filenameError={filenameError}
+      onChangeFilenameError={setFilenameError}
+      onDeleteCell={props.onDeleteCell}
+      onRunCell={runCell}
+      onStopCell={stopCell}
+      onUpdateFileName={onUpdateFileName}
+      updateCellOnServer={props.updateCellOnServer}
+    />
+  );
+}
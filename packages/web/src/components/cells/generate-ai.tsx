@@ -1,10 +1,15 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useHotkeys } from 'react-hotkeys-hook';
-import { type CodeCellType, type MarkdownCellType } from '@peragus/shared';
-import { generateCells } from '@/lib/server';
+import {
+  type AiGeneratedCellsPayloadType,
+  type AiGeneratedChunkPayloadType,
+  type CodeCellType,
+  type MarkdownCellType,
+} from '@peragus/shared';
+import { SessionChannel } from '@/clients/websocket';
+import { notifyToolCalls } from '@/lib/ai-tool-calls';
 import { CircleAlert, Trash2, Sparkles } from 'lucide-react';
-import { SessionType } from '@/types';
 import { GenerateAICellType } from '@peragus/components/src/types';
 import { useCells } from '@peragus/components/src/components/use-cell';
 import { cn } from '@/lib/utils';
@@ -14,13 +19,15 @@ import { useSettings } from '@/components/use-settings';
 export default function GenerateAiCell(props: {
   cell: GenerateAICellType;
   insertIdx: number;
-  session: SessionType;
+  channel: SessionChannel;
   onSuccess: (idx: number, cells: Array<CodeCellType | MarkdownCellType>) => void;
 }) {
-  const { cell, insertIdx, session, onSuccess } = props;
+  const { cell, insertIdx, channel, onSuccess } = props;
   const [state, setState] = useState<'idle' | 'loading'>('idle');
   const { removeCell } = useCells();
   const [prompt, setPrompt] = useState('');
+  // The srcbook text of the cells as it is generated.
+  const [output, setOutput] = useState('');
   const [error, setError] = useState<string | null>(null);
 
   const { aiEnabled } = useSettings();
@@ -35,22 +42,53 @@ export default function GenerateAiCell(props: {
     { enableOnFormTags: ['textarea'] },
   );
 
-  const generate = async () => {
+  useEffect(() => {
+    function onChunk(payload: AiGeneratedChunkPayloadType) {
+      if (payload.cellId !== cell.id) return;
+      setOutput((output) => (payload.restart ? payload.chunk : output + payload.chunk));
+    }
+
+    function onCells(payload: AiGeneratedCellsPayloadType) {
+      if (payload.cellId !== cell.id) return;
+      setState('idle');
+      setOutput('');
+      notifyToolCalls(payload.toolCalls);
+      if (payload.error || !payload.cells) {
+        setError(payload.errors?.join('\n') ?? 'Could not generate cells.');
+      } else {
+        // We have successfully converted a prompt into a valid cell.
+        // Create the new markdown | code cell, then cleanup the current temporary one.
+        onSuccess(insertIdx, payload.cells);
+        removeCell(cell);
+      }
+    }
+
+    channel.on('ai:generated:chunk', onChunk);
+    channel.on('ai:generated:cells', onCells);
+    return () => {
+      channel.off('ai:generated:chunk', onChunk);
+      channel.off('ai:generated:cells', onCells);
+    };
+  }, [cell, channel, insertIdx, onSuccess, removeCell]);
+
+  const generate = () => {
     setError(null);
+    setOutput('');
     setState('loading');
-    const { result, error } = await generateCells(session.id, {
-      query: prompt,
-      insertIdx: insertIdx,
-    });
+    channel.push('ai:generate_cells', { cellId: cell.id, query: prompt, insertIdx });
+  };
+
+  const cancel = () => {
+    channel.push('ai:cancel', { cellId: cell.id });
     setState('idle');
-    if (error) {
-      setError(result);
-    } else {
-      // We have successfully converted a prompt into a valid cell.
-      // Create the new markdown | code cell, then cleanup the current temporary one.
-      onSuccess(insertIdx, result);
-      removeCell(cell);
+    setOutput('');
+  };
+
+  const remove = () => {
+    if (state === 'loading') {
+      channel.push('ai:cancel', { cellId: cell.id });
     }
+    removeCell(cell);
   };
 
   return (
@@ -73,17 +111,23 @@ export default function GenerateAiCell(props: {
               variant="secondary"
               size="icon"
               className="border-secondary hover:border-muted"
-              onClick={() => removeCell(cell)}
+              onClick={remove}
             >
               <Trash2 size={16} />
             </Button>
           </div>
 
-          <div>
+          <div className="flex items-center gap-2">
+            {state === 'loading' && (
+              <Button variant="secondary" onClick={cancel}>
+                Cancel
+              </Button>
+            )}
             <Button
-              disabled={!prompt || !aiEnabled}
+              disabled={!prompt || !aiEnabled || state === 'loading'}
               onClick={generate}
               variant={state === 'idle' ? 'default' : 'ai'}
+              className="disabled:opacity-100"
             >
               {state === 'idle' ? 'Generate' : 'Generating'}
             </Button>
@@ -103,6 +147,12 @@ export default function GenerateAiCell(props: {
           />
         </div>
 
+        {output && (
+          <pre className="max-h-64 overflow-y-auto border-t px-3 py-2 text-xs font-mono whitespace-pre-wrap text-tertiary-foreground">
+            {output}
+          </pre>
+        )}
+
         {error && (
           <div className="flex items-center gap-2 m-2 px-2.5 py-2 text-sb-red-80 bg-sb-red-30 rounded-sm justify-center">
             <CircleAlert size={16} />
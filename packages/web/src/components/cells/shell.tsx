@@ -0,0 +1,9 @@
+import type { ShellCellType, ShellCellUpdateAttrsType } from '@peragus/shared';
+import ShellCell from '@peragus/components/src/components/cells/shell';
+import ControlledCommandCell, { type ControlledCommandCellProps } from './command';
+
+export default function ControlledShellCell(
+  props: ControlledCommandCellProps<ShellCellType, ShellCellUpdateAttrsType>,
+) {
+  return <ControlledCommandCell {...props} Cell={ShellCell} />;
+}
@@ -0,0 +1,9 @@
+import type { SqlCellType, SqlCellUpdateAttrsType } from '@peragus/shared';
+import SqlCell from '@peragus/components/src/components/cells/sql';
+import ControlledCommandCell, { type ControlledCommandCellProps } from './command';
+
+export default function ControlledSqlCell(
+  props: ControlledCommandCellProps<SqlCellType, SqlCellUpdateAttrsType>,
+) {
+  return <ControlledCommandCell {...props} Cell={SqlCell} />;
+}
@@ -0,0 +1,116 @@
+import { useRef, useState } from 'react';
+import { GripVertical } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Custom type so that only cells, and not files or text, can be dropped on cells.
+const CELL_DRAG_TYPE = 'application/x-srcbook-cell';
+
+export type DropPositionType = 'before' | 'after';
+
+/**
+ * Wraps a cell with a drag handle used to reorder cells.
+ *
+ * The handle can also be focused and moved with the up and down arrow keys.
+ */
+export default function DraggableCell(props: {
+  cellId: string;
+  draggable: boolean;
+  children: React.ReactNode;
+  onDrop: (cellId: string, position: DropPositionType) => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+}) {
+  const { cellId, onDrop, onMoveUp, onMoveDown } = props;
+
+  const handleRef = useRef<HTMLButtonElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [dropPosition, setDropPosition] = useState<DropPositionType | null>(null);
+
+  if (!props.draggable) {
+    return <>{props.children}</>;
+  }
+
+  function getDropPosition(e: React.DragEvent<HTMLDivElement>): DropPositionType {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLButtonElement>) {
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') {
+      return;
+    }
+
+    e.preventDefault();
+    if (e.key === 'ArrowUp') {
+      onMoveUp();
+    } else {
+      onMoveDown();
+    }
+
+    // Moving the cell moves its DOM node, which loses focus.
+    requestAnimationFrame(() => handleRef.current?.focus());
+  }
+
+  return (
+    <div
+      className={cn('relative group/draggable', dragging && 'opacity-50')}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(CELL_DRAG_TYPE)) {
+          return;
+        }
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDropPosition(getDropPosition(e));
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setDropPosition(null);
+        }
+      }}
+      onDrop={(e) => {
+        const draggedCellId = e.dataTransfer.getData(CELL_DRAG_TYPE);
+        setDropPosition(null);
+
+        if (draggedCellId && draggedCellId !== cellId) {
+          e.preventDefault();
+          onDrop(draggedCellId, getDropPosition(e));
+        }
+      }}
+    >
+      <button
+        ref={handleRef}
+        draggable
+        title="Drag to move cell, or use the arrow keys"
+        aria-label="Move cell"
+        className="absolute -left-7 top-2 p-1 rounded-sm text-tertiary-foreground cursor-grab opacity-0 group-hover/draggable:opacity-100 focus-visible:opacity-100 hover:text-foreground"
+        onKeyDown={onKeyDown}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(CELL_DRAG_TYPE, cellId);
+          e.dataTransfer.effectAllowed = 'move';
+
+          // Drag the whole cell rather than only the handle.
+          const cell = e.currentTarget.parentElement;
+          if (cell) {
+            e.dataTransfer.setDragImage(cell, 0, 0);
+          }
+
+          setDragging(true);
+        }}
+        onDragEnd={() => setDragging(false)}
+      >
+        <GripVertical size={16} />
+      </button>
+
+      {dropPosition && (
+        <div
+          className={cn(
+            'absolute left-0 right-0 h-0.5 bg-sb-blue-50 rounded-full pointer-events-none',
+            dropPosition === 'before' ? '-top-2.5' : '-bottom-2.5',
+          )}
+        />
+      )}
+
+      {props.children}
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import { showSaveFilePicker } from '@/lib/file-system-access';
 import { Input } from '@peragus/components/src/components/ui/input';
 import { Textarea } from '@peragus/components/src/components/ui/textarea';
 import { Button } from '@peragus/components/src/components/ui/button';
+import { Switch } from '@peragus/components/src/components/ui/switch';
 import SrcMdUploadDropZone from '@/components/srcmd-upload-drop-zone';
 import {
   Dialog,
@@ -276,6 +277,7 @@ export function ExportSrcbookModal({
   session: SessionType;
 }) {
   const [activeTab, setActiveTab] = useState<'file' | 'text'>('file');
+  const [includeOutputs, setIncludeOutputs] = useState(false);
 
   const clipboardTextareaRef = useRef<HTMLTextAreaElement | null>(null);
 
@@ -295,7 +297,7 @@ export function ExportSrcbookModal({
 
       let text;
       try {
-        text = await exportSrcmdText(session.id);
+        text = await exportSrcmdText(session.id, { outputs: includeOutputs });
       } catch (error) {
         console.error('Error export srcbook as text:', error);
         setSrcbookText({ status: 'error' });
@@ -305,7 +307,7 @@ export function ExportSrcbookModal({
       setSrcbookText({ status: 'complete', text });
     };
     run();
-  }, [open, session.id]);
+  }, [open, session.id, includeOutputs]);
 
   // When changing tabs, focus the inputs on each tab
   useEffect(() => {
@@ -326,6 +328,7 @@ export function ExportSrcbookModal({
     }
 
     setActiveTab('file');
+    setIncludeOutputs(false);
   }, [open]);
 
   const downloadFileName = useMemo(() => {
@@ -454,6 +457,18 @@ export function ExportSrcbookModal({
             </div>
           </TabsContent>
         </Tabs>
+
+        <label
+          htmlFor="export-include-outputs"
+          className="flex items-center justify-between text-sm cursor-pointer"
+        >
+          Include cell outputs
+          <Switch
+            id="export-include-outputs"
+            checked={includeOutputs}
+            onCheckedChange={setIncludeOutputs}
+          />
+        </label>
       </DialogContent>
     </Dialog>
   );
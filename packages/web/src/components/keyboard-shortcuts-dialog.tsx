@@ -38,6 +38,9 @@ export default function KeyboardShortcutsDialog({
               <ShortcutRow keys={['?']} description="show this dialog" />
               <ShortcutRow keys={['mod', ';']} description="open package.json" />
               <ShortcutRow keys={['mod', 'i']} description="open npm package install modal" />
+              {!readOnly ? (
+                <ShortcutRow keys={['mod', 'shift', '↵']} description="run all cells" />
+              ) : null}
               <h5 className="font-semibold pt-6 pb-2">AI chat</h5>
               <ShortcutRow keys={['mod', 'enter']} description="send current message to the AI" />
               {!readOnly ? (
@@ -55,6 +58,9 @@ export default function KeyboardShortcutsDialog({
                     description="format code using Prettier"
                   />
                   <ShortcutRow keys={['alt', 'click']} description="go to definition" />
+                  <h5 className="font-semibold pt-6 pb-2">Cell drag handle</h5>
+                  <ShortcutRow keys={['↑']} description="move cell up" />
+                  <ShortcutRow keys={['↓']} description="move cell down" />
                   <h5 className="font-semibold pt-6 pb-2">App Builder</h5>
                   <ShortcutRow keys={['mod', 'shift', 'y']} description="toggle errors panel" />
                 </>
@@ -8,8 +8,13 @@ import {
   TrashIcon,
   ShareIcon,
   ExternalLinkIcon,
+  PlayIcon,
+  LoaderCircleIcon,
+  CpuIcon,
+  RotateCcwIcon,
+  PowerIcon,
 } from 'lucide-react';
-import { TitleCellType } from '@peragus/shared';
+import { TitleCellType, SessionKernelStatusPayloadType } from '@peragus/shared';
 
 import { SessionType } from '@/types';
 import { SrcbookLogo } from '@/components/logos';
@@ -57,6 +62,12 @@ type SessionNavbarProps = {
   srcbooks: Array<SessionType>;
   title: string;
   baseDir: string;
+  runningAll?: boolean;
+  onRunAll?: () => void;
+  onStopRunAll?: () => void;
+  kernel?: SessionKernelStatusPayloadType;
+  onSetKernelEnabled?: (enabled: boolean) => void;
+  onRestartKernel?: () => void;
 };
 
 export function SessionNavbar(props: SessionNavbarProps) {
@@ -215,6 +226,40 @@ export function SessionNavbar(props: SessionNavbarProps) {
           <LightDarkModeDebugChanger />
 
           <div className="flex items-center gap-2">
+            {!props.readOnly && props.kernel ? (
+              <KernelMenu
+                kernel={props.kernel}
+                onSetKernelEnabled={props.onSetKernelEnabled}
+                onRestartKernel={props.onRestartKernel}
+              />
+            ) : null}
+            {!props.readOnly && props.runningAll ? (
+              <Button variant="run" onClick={props.onStopRunAll} className="active:translate-y-0">
+                <div className="flex gap-2">
+                  <LoaderCircleIcon size={16} className="animate-spin" />
+                  Stop
+                </div>
+              </Button>
+            ) : null}
+            {!props.readOnly && !props.runningAll ? (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="secondary"
+                      onClick={props.onRunAll}
+                      className="active:translate-y-0"
+                    >
+                      <div className="flex gap-2">
+                        <PlayIcon size={16} />
+                        Run all
+                      </div>
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Run every code cell in order</TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            ) : null}
             {!props.readOnly ? (
               <TooltipProvider>
                 <Tooltip>
@@ -249,6 +294,48 @@ export function SessionNavbar(props: SessionNavbarProps) {
   );
 }
 
+function KernelMenu(props: {
+  kernel: SessionKernelStatusPayloadType;
+  onSetKernelEnabled?: (enabled: boolean) => void;
+  onRestartKernel?: () => void;
+}) {
+  const { enabled, status } = props.kernel;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="secondary" className="active:translate-y-0">
+          <div className="flex gap-2 items-center">
+            {enabled && status === 'busy' ? (
+              <LoaderCircleIcon size={16} className="animate-spin" />
+            ) : (
+              <CpuIcon size={16} />
+            )}
+            {enabled ? `Kernel: ${status}` : 'Kernel: off'}
+          </div>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem
+          onClick={() => props.onSetKernelEnabled?.(!enabled)}
+          className="cursor-pointer"
+        >
+          <PowerIcon className="mr-2 h-4 w-4" />
+          <span>{enabled ? 'Disable kernel mode' : 'Enable kernel mode'}</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={!enabled}
+          onClick={props.onRestartKernel}
+          className="cursor-pointer"
+        >
+          <RotateCcwIcon className="mr-2 h-4 w-4" />
+          <span>Restart kernel</span>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 function SocialGithubIcon() {
   return (
     <svg xmlns="http://www.w3.org/2000/svg" width="19" height="19" fill="none" viewBox="0 0 19 19">
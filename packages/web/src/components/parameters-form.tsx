@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { useDebouncedCallback } from 'use-debounce';
+import type {
+  ParameterType,
+  ParametersType,
+  ParameterValuesType,
+  ParameterValueType,
+  SessionParametersUpdatedPayloadType,
+} from '@peragus/shared';
+import { Button } from '@peragus/components/src/components/ui/button';
+import { Input } from '@peragus/components/src/components/ui/input';
+import { Switch } from '@peragus/components/src/components/ui/switch';
+import { SessionChannel } from '@/clients/websocket';
+import { SessionType } from '@/types';
+
+const DEBOUNCE_DELAY = 500;
+
+type PropsType =
+  | { readOnly: true; session: SessionType }
+  | { readOnly?: false; session: SessionType; channel: SessionChannel };
+
+/**
+ * The parameters declared by a srcbook, with the values cells run with.
+ *
+ * Values differing from the default of their parameter are sent to the server,
+ * which passes them to the cells of the session until they are reset.
+ */
+export default function ParametersForm(props: PropsType) {
+  const { session } = props;
+  const channel = !props.readOnly ? props.channel : null;
+
+  const [parameters, setParameters] = useState<ParametersType>(session.parameters ?? {});
+  const [values, setValues] = useState<ParameterValuesType>(session.parameterValues ?? {});
+
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+
+    function callback(payload: SessionParametersUpdatedPayloadType) {
+      setParameters(payload.parameters);
+      setValues(payload.values);
+    }
+
+    channel.on('session:parameters:updated', callback);
+
+    return () => channel.off('session:parameters:updated', callback);
+  }, [channel]);
+
+  const pushValues = useDebouncedCallback((values: ParameterValuesType) => {
+    channel?.push('session:parameters:set', { values });
+  }, DEBOUNCE_DELAY);
+
+  function setValue(name: string, value: ParameterValueType) {
+    const parameter = parameters[name];
+    if (!parameter) {
+      return;
+    }
+
+    const { [name]: _previous, ...rest } = values;
+    const updated = value === parameter.default ? rest : { ...rest, [name]: value };
+
+    setValues(updated);
+    pushValues(updated);
+  }
+
+  const names = Object.keys(parameters);
+
+  if (names.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border rounded-md p-4 mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        <SlidersHorizontal size={16} className="text-tertiary-foreground" />
+        <h4 className="font-semibold text-sm">Parameters</h4>
+      </div>
+
+      <div className="space-y-3">
+        {names.map((name) => (
+          <ParameterField
+            key={name}
+            name={name}
+            parameter={parameters[name]!}
+            value={values[name]}
+            readOnly={props.readOnly}
+            onChange={(value) => setValue(name, value)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ParameterField(props: {
+  name: string;
+  parameter: ParameterType;
+  value: ParameterValueType | undefined;
+  readOnly?: boolean;
+  onChange: (value: ParameterValueType) => void;
+}) {
+  const { name, parameter, readOnly, onChange } = props;
+  const overridden = props.value !== undefined;
+  const value = overridden ? props.value : parameter.default;
+  const id = `parameter-${name}`;
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <label htmlFor={id} className="flex flex-col min-w-0">
+        <span className="font-mono text-sm">{name}</span>
+        {parameter.description && (
+          <span className="text-tertiary-foreground text-xs truncate">{parameter.description}</span>
+        )}
+      </label>
+
+      <div className="flex items-center gap-2 shrink-0">
+        {parameter.type === 'boolean' ? (
+          <Switch
+            id={id}
+            checked={value as boolean}
+            disabled={readOnly}
+            onCheckedChange={onChange}
+          />
+        ) : (
+          <ParameterInput
+            id={id}
+            type={parameter.type}
+            value={value as string | number}
+            readOnly={readOnly}
+            onChange={onChange}
+          />
+        )}
+        {!readOnly && (
+          <Button
+            variant="icon"
+            size="icon"
+            title="Reset to default"
+            className={overridden ? 'visible' : 'invisible'}
+            onClick={() => onChange(parameter.default)}
+          >
+            <RotateCcw size={14} />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ParameterInput(props: {
+  id: string;
+  type: 'string' | 'number';
+  value: string | number;
+  readOnly?: boolean;
+  onChange: (value: ParameterValueType) => void;
+}) {
+  // Numbers are edited as text so that intermediate states, like an empty field, are allowed.
+  const [text, setText] = useState(String(props.value));
+
+  useEffect(() => {
+    setText(String(props.value));
+  }, [props.value]);
+
+  function onChange(text: string) {
+    setText(text);
+
+    if (props.type === 'string') {
+      props.onChange(text);
+      return;
+    }
+
+    const number = Number(text);
+    if (text.trim() !== '' && Number.isFinite(number)) {
+      props.onChange(number);
+    }
+  }
+
+  return (
+    <Input
+      id={props.id}
+      type={props.type === 'number' ? 'number' : 'text'}
+      autoComplete="off"
+      className="w-56 font-mono text-sm"
+      value={text}
+      readOnly={props.readOnly}
+      onChange={(e) => onChange(e.currentTarget.value)}
+    />
+  );
+}
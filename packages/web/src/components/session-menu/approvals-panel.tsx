@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import type { MCPPendingApprovalType } from '@peragus/shared';
+import { MCPApprovalsChannel } from '@/clients/websocket';
+import { approveMCPToolCall, rejectMCPToolCall } from '@/lib/server';
+import { Button } from '@peragus/components/src/components/ui/button';
+import { SessionMenuPanelContentsProps } from '.';
+
+type PropsType = Pick<SessionMenuPanelContentsProps, 'session'>;
+
+export default function SessionMenuPanelApprovals({ session }: PropsType) {
+  const [approvals, setApprovals] = useState<MCPPendingApprovalType[]>([]);
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  useEffect(() => {
+    const channel = MCPApprovalsChannel.create();
+    channel.on('approvals:updated', (payload) => setApprovals(payload.approvals));
+    channel.subscribe();
+    return () => channel.unsubscribe();
+  }, []);
+
+  async function onDecide(approval: MCPPendingApprovalType, action: 'approve' | 'reject') {
+    setDeciding(approval.id);
+
+    // Recorded in the audit log as who decided.
+    const actor = `srcbook:${session.id}`;
+
+    try {
+      if (action === 'approve') {
+        await approveMCPToolCall(approval.id, actor);
+        toast.success(`Approved ${approval.toolName}. It runs the next time it is called.`);
+      } else {
+        await rejectMCPToolCall(approval.id, actor);
+      }
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : 'Could not decide on this call.');
+    } finally {
+      setDeciding(null);
+    }
+  }
+
+  return (
+    <>
+      <h4 className="text-lg font-semibold leading-tight mb-2">Tool approvals</h4>
+      <p className="text-sm text-tertiary-foreground mb-4">
+        Calls to MCP tools that need your approval, from the AI or from cells. Approved calls run
+        the next time they are made with the same arguments.
+      </p>
+
+      {approvals.length === 0 ? (
+        <p className="text-sm italic text-tertiary-foreground">No calls waiting for approval.</p>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {approvals.map((approval) => (
+            <li key={approval.id} className="flex flex-col gap-2 border rounded-md p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono font-semibold break-all">{approval.toolName}</span>
+                <span className="text-xs text-tertiary-foreground shrink-0">
+                  {approval.serverId}
+                </span>
+              </div>
+              <pre className="text-xs bg-muted rounded-sm p-2 overflow-x-auto">
+                {JSON.stringify(approval.arguments, null, 2)}
+              </pre>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-tertiary-foreground">
+                  Expires at {new Date(approval.expiresAt).toLocaleTimeString()}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="secondary"
+                    disabled={deciding === approval.id}
+                    onClick={() => onDecide(approval, 'reject')}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    disabled={deciding === approval.id}
+                    onClick={() => onDecide(approval, 'approve')}
+                  >
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
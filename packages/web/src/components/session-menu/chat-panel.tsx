@@ -0,0 +1,295 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useRevalidator } from 'react-router-dom';
+import Markdown from 'marked-react';
+import TextareaAutosize from 'react-textarea-autosize';
+import { toast } from 'sonner';
+import { LoaderCircle, Trash2 } from 'lucide-react';
+import {
+  randomid,
+  type AiChatChunkPayloadType,
+  type AiChatUpdatedPayloadType,
+  type CellsDiffMessageType,
+  type CodeCellType,
+  type HistoryType,
+} from '@peragus/shared';
+import { clearChatHistory, getChatHistory, reviewChatEdits } from '@/lib/server';
+import { useSettings } from '@/components/use-settings';
+import { Button } from '@peragus/components/src/components/ui/button';
+import { useCells } from '@peragus/components/src/components/use-cell';
+import { formatDiagnostic } from '@peragus/components/src/components/cell-output';
+import { CellDiff } from './history-panel';
+import { SessionMenuPanelContentsProps } from '.';
+
+type PropsType = Pick<SessionMenuPanelContentsProps, 'session' | 'channel'>;
+
+const STATUS_LABELS: Record<CellsDiffMessageType['status'], string> = {
+  proposed: 'Proposed edits',
+  applied: 'Applied edits',
+  rejected: 'Rejected edits',
+};
+
+export default function SessionMenuPanelChat({ session, channel }: PropsType) {
+  const navigate = useNavigate();
+  const revalidator = useRevalidator();
+  const { aiEnabled } = useSettings();
+  const { cells, getTsServerDiagnostics } = useCells();
+  const [history, setHistory] = useState<HistoryType>([]);
+  const [message, setMessage] = useState('');
+  // The plan of the message waiting for a reply, and the reply so far.
+  const [pending, setPending] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  async function loadHistory() {
+    try {
+      const { result } = await getChatHistory(session.id);
+      setHistory(result);
+    } catch (err) {
+      console.error('Error loading chat history', err);
+    }
+  }
+
+  useEffect(() => {
+    loadHistory();
+
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session.id]);
+
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+
+    function onChunk(payload: AiChatChunkPayloadType) {
+      if (payload.planId !== pending) return;
+      setReply((reply) => (payload.restart ? payload.chunk : reply + payload.chunk));
+    }
+
+    function onUpdated(payload: AiChatUpdatedPayloadType) {
+      if (payload.planId === pending) {
+        setPending(null);
+        setReply('');
+        setError(payload.error);
+      }
+      loadHistory();
+    }
+
+    channel.on('ai:chat:chunk', onChunk);
+    channel.on('ai:chat:updated', onUpdated);
+    return () => {
+      channel.off('ai:chat:chunk', onChunk);
+      channel.off('ai:chat:updated', onUpdated);
+    };
+
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [channel, pending]);
+
+  function onSend() {
+    if (!channel || !aiEnabled || pending !== null || message.trim() === '') {
+      return;
+    }
+
+    const planId = randomid();
+
+    // The AI sees the same diagnostics as the user.
+    const diagnostics = Object.fromEntries(
+      cells
+        .filter((cell): cell is CodeCellType => cell.type === 'code')
+        .map((cell) => [
+          cell.filename,
+          getTsServerDiagnostics(cell.id).map(formatDiagnostic).join('\n'),
+        ]),
+    );
+
+    setHistory((history) => [...history, { type: 'user', planId, message }]);
+    setPending(planId);
+    setReply('');
+    setError(null);
+    setMessage('');
+    channel.push('ai:chat', { planId, message, diagnostics });
+  }
+
+  function onCancel() {
+    if (!channel || pending === null) {
+      return;
+    }
+
+    channel.push('ai:chat:cancel', { planId: pending });
+    setPending(null);
+    setReply('');
+  }
+
+  async function onClear() {
+    try {
+      const { result } = await clearChatHistory(session.id);
+      setHistory(result);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      toast.error('Could not clear the chat.');
+    }
+  }
+
+  async function onReview(edits: CellsDiffMessageType, action: 'apply' | 'reject') {
+    setReviewing(edits.planId);
+
+    try {
+      const response = await reviewChatEdits(session.id, edits.planId, action);
+
+      if (response.error) {
+        toast.error(response.result);
+        return;
+      }
+
+      setHistory(response.result);
+
+      if (action === 'apply') {
+        revalidator.revalidate();
+
+        // The server stops the tsserver of edited sessions, as it has the wrong files open.
+        if (channel && session.language === 'typescript') {
+          channel.push('tsserver:start', {});
+        }
+
+        toast.success('Edits applied.');
+      }
+    } catch (err) {
+      console.error(err);
+      toast.error('Could not review these edits.');
+    } finally {
+      setReviewing(null);
+    }
+  }
+
+  // The srcbook of proposed edits is not worth reading as it is written.
+  const replyText = reply.split('<srcbook>')[0]!.trim();
+  const writingEdits = reply.includes('<srcbook>');
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-lg font-semibold leading-tight">AI chat</h4>
+        {history.length > 0 && (
+          <Button variant="icon" size="icon" disabled={pending !== null} onClick={onClear}>
+            <Trash2 size={16} />
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-tertiary-foreground mb-4">
+        Ask about this srcbook, its outputs and diagnostics, or ask for changes to its cells, which
+        you can review before they are applied.
+      </p>
+
+      <div className="flex flex-col gap-3 text-sm">
+        {history.map((message, idx) => {
+          switch (message.type) {
+            case 'user':
+              return (
+                <p
+                  key={idx}
+                  className="self-end max-w-[85%] whitespace-pre-wrap rounded-md bg-muted px-3 py-2"
+                >
+                  {message.message}
+                </p>
+              );
+            case 'plan':
+              return (
+                <div key={idx} className="sb-prose">
+                  <Markdown>{message.content}</Markdown>
+                </div>
+              );
+            case 'cells-diff':
+              return (
+                <div key={idx} className="flex flex-col gap-2">
+                  <div className="flex items-center justify-between">
+                    <h5 className="font-semibold">{STATUS_LABELS[message.status]}</h5>
+                    {message.status === 'proposed' && (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="secondary"
+                          disabled={reviewing !== null}
+                          onClick={() => onReview(message, 'reject')}
+                        >
+                          Reject
+                        </Button>
+                        <Button
+                          disabled={reviewing !== null}
+                          onClick={() => onReview(message, 'apply')}
+                        >
+                          Apply
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  {message.diff.map((cellDiff, idx) => (
+                    <CellDiff key={idx} diff={cellDiff} />
+                  ))}
+                </div>
+              );
+            default:
+              return null;
+          }
+        })}
+
+        {pending !== null && (
+          <div className="flex flex-col gap-2">
+            {replyText && (
+              <div className="sb-prose">
+                <Markdown>{replyText}</Markdown>
+              </div>
+            )}
+            <div className="flex items-center justify-between text-tertiary-foreground">
+              <span className="flex items-center gap-2">
+                <LoaderCircle size={14} className="animate-spin" />
+                {writingEdits ? 'Writing edits…' : 'Thinking…'}
+              </span>
+              <Button variant="secondary" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="px-2.5 py-2 text-sb-red-80 bg-sb-red-30 rounded-sm text-xs">{error}</p>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-col gap-2 border rounded-md p-2 focus-within:ring-1 focus-within:ring-ring">
+        <TextareaAutosize
+          className="w-full bg-transparent px-1 text-sm placeholder:text-muted-foreground focus-visible:outline-none resize-none"
+          minRows={2}
+          placeholder="Ask the AI about this srcbook..."
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              onSend();
+            }
+          }}
+        />
+        <Button
+          className="self-end"
+          disabled={!aiEnabled || pending !== null || message.trim() === ''}
+          onClick={onSend}
+        >
+          Send
+        </Button>
+      </div>
+
+      {!aiEnabled && (
+        <div className="flex items-center justify-between bg-sb-yellow-20 text-sb-yellow-80 rounded-sm text-sm px-3 py-1 mt-3">
+          <p>AI provider not configured.</p>
+          <button
+            className="font-medium underline cursor-pointer"
+            onClick={() => navigate('/settings')}
+          >
+            Settings
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { useRevalidator } from 'react-router-dom';
+import { diffLines } from 'diff';
+import { toast } from 'sonner';
+import { RotateCcwIcon } from 'lucide-react';
+import type { CellDiffType, SnapshotReasonType, SnapshotType } from '@peragus/shared';
+import { getSnapshots, getSnapshotDiff, restoreSnapshot } from '@/lib/server';
+import { cn } from '@/lib/utils';
+import { Button } from '@peragus/components/src/components/ui/button';
+import { SessionMenuPanelContentsProps } from '.';
+
+type PropsType = Pick<SessionMenuPanelContentsProps, 'session' | 'channel'>;
+
+const REASON_LABELS: Record<SnapshotReasonType, string> = {
+  auto: 'Saved',
+  ai: 'Before AI edit',
+  restore: 'Before restore',
+  conflict: 'Changed on disk',
+};
+
+export default function SessionMenuPanelHistory({ session, channel }: PropsType) {
+  const revalidator = useRevalidator();
+  const [snapshots, setSnapshots] = useState<SnapshotType[]>([]);
+  const [selected, setSelected] = useState<SnapshotType | null>(null);
+  const [diff, setDiff] = useState<CellDiffType[] | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  async function loadSnapshots() {
+    try {
+      const { result } = await getSnapshots(session.id);
+      setSnapshots(result);
+    } catch (err) {
+      console.error('Error loading history', err);
+    }
+  }
+
+  useEffect(() => {
+    loadSnapshots();
+
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session.id]);
+
+  async function onSelect(snapshot: SnapshotType) {
+    setSelected(snapshot);
+    setDiff(null);
+
+    try {
+      const { error, result } = await getSnapshotDiff(session.id, snapshot.id);
+      setDiff(error ? [] : result);
+    } catch (err) {
+      console.error('Error loading snapshot diff', err);
+      toast.error('Could not load the changes of this version.');
+    }
+  }
+
+  async function onRestore(snapshot: SnapshotType) {
+    setRestoring(true);
+
+    try {
+      const { error } = await restoreSnapshot(session.id, snapshot.id);
+
+      if (error) {
+        throw new Error(`Failed to restore snapshot ${snapshot.id}`);
+      }
+
+      revalidator.revalidate();
+
+      // The server stops the tsserver of restored sessions, as it has the wrong files open.
+      if (channel && session.language === 'typescript') {
+        channel.push('tsserver:start', {});
+      }
+
+      toast.success('Version restored.');
+      setSelected(null);
+      setDiff(null);
+      await loadSnapshots();
+    } catch (err) {
+      console.error(err);
+      toast.error('Could not restore this version.');
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  return (
+    <>
+      <h4 className="text-lg font-semibold leading-tight mb-2">History</h4>
+      <p className="text-sm text-tertiary-foreground mb-4">
+        Versions are saved a few seconds after you make changes, and before AI edits.
+      </p>
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm italic text-tertiary-foreground">No saved versions yet.</p>
+      ) : (
+        <ul className="flex flex-col text-sm border-l">
+          {snapshots.map((snapshot) => (
+            <li key={snapshot.id}>
+              <button
+                className={cn(
+                  'w-full flex items-center justify-between py-1 pl-3 -ml-px border-l text-left',
+                  selected?.id === snapshot.id
+                    ? 'border-l-foreground text-foreground'
+                    : 'text-tertiary-foreground hover:border-l-foreground hover:text-foreground',
+                )}
+                onClick={() => onSelect(snapshot)}
+              >
+                <span>{new Date(snapshot.createdAt).toLocaleString()}</span>
+                <span className="text-xs">{REASON_LABELS[snapshot.reason]}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="mt-6 flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <h5 className="font-semibold">Restoring this version changes</h5>
+            <Button
+              variant="secondary"
+              className="gap-1.5"
+              disabled={restoring || diff === null || diff.length === 0}
+              onClick={() => onRestore(selected)}
+            >
+              <RotateCcwIcon size={14} />
+              Restore
+            </Button>
+          </div>
+
+          {diff === null ? (
+            <p className="text-sm text-tertiary-foreground">Loading…</p>
+          ) : diff.length === 0 ? (
+            <p className="text-sm italic text-tertiary-foreground">
+              Nothing, this is the current version.
+            </p>
+          ) : (
+            diff.map((cellDiff, idx) => <CellDiff key={idx} diff={cellDiff} />)
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+export function CellDiff({ diff }: { diff: CellDiffType }) {
+  const changes = diffLines(diff.original ?? '', diff.modified ?? '');
+  const additions = changes.reduce((n, c) => n + (c.added ? (c.count ?? 0) : 0), 0);
+  const deletions = changes.reduce((n, c) => n + (c.removed ? (c.count ?? 0) : 0), 0);
+
+  return (
+    <div className="border rounded-md text-xs overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-muted">
+        <span className="font-medium truncate">
+          {diff.label}
+          {diff.type !== 'edit' && (
+            <span className="ml-2 font-normal text-tertiary-foreground">
+              {diff.type === 'create' ? 'added' : 'removed'}
+            </span>
+          )}
+        </span>
+        <span className="shrink-0 ml-2">
+          <span className="text-sb-green-80 dark:text-sb-green-20">+{additions}</span>{' '}
+          <span className="text-sb-red-30">-{deletions}</span>
+        </span>
+      </div>
+      <pre className="font-mono overflow-auto max-h-64">
+        {changes.map((change, idx) => (
+          <div
+            key={idx}
+            className={cn(
+              'px-3 whitespace-pre',
+              change.added && 'bg-sb-green-20/40',
+              change.removed && 'bg-sb-red-20/40',
+            )}
+          >
+            {change.value
+              .replace(/\n$/, '')
+              .split('\n')
+              .map((line) => `${change.added ? '+' : change.removed ? '-' : ' '} ${line}`)
+              .join('\n')}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
@@ -10,6 +10,9 @@ import {
   PackageIcon,
   SettingsIcon,
   KeySquareIcon,
+  HistoryIcon,
+  ShieldCheckIcon,
+  SparklesIcon,
   XIcon,
 } from 'lucide-react';
 import type { SessionType } from '@/types';
@@ -27,6 +30,9 @@ import SessionMenuPanelTableOfContents from './table-of-contents-panel';
 import SessionMenuPanelPackages from './packages-panel';
 import SessionMenuPanelSettings from './settings-panel';
 import SessionMenuPanelSecrets from './secrets-panel';
+import SessionMenuPanelHistory from './history-panel';
+import SessionMenuPanelApprovals from './approvals-panel';
+import SessionMenuPanelChat from './chat-panel';
 
 export type SessionMenuPanelContentsProps = {
   readOnly: boolean;
@@ -40,7 +46,9 @@ export const SESSION_MENU_PANELS = [
     name: 'tableOfContents' as const,
     icon: ListIcon,
     openWidthInPx: 312,
-    contents: () => <SessionMenuPanelTableOfContents />,
+    contents: ({ readOnly }: SessionMenuPanelContentsProps) => (
+      <SessionMenuPanelTableOfContents readOnly={readOnly} />
+    ),
     tooltipContent: 'Table of contents',
     showInReadOnly: true,
   },
@@ -71,6 +79,36 @@ export const SESSION_MENU_PANELS = [
     ),
     showInReadOnly: false,
   },
+  {
+    name: 'history' as const,
+    icon: HistoryIcon,
+    openWidthInPx: 480,
+    contents: (props: SessionMenuPanelContentsProps) => (
+      <SessionMenuPanelHistory session={props.session} channel={props.channel} />
+    ),
+    tooltipContent: 'Version history',
+    showInReadOnly: false,
+  },
+  {
+    name: 'chat' as const,
+    icon: SparklesIcon,
+    openWidthInPx: 480,
+    contents: (props: SessionMenuPanelContentsProps) => (
+      <SessionMenuPanelChat session={props.session} channel={props.channel} />
+    ),
+    tooltipContent: 'AI chat',
+    showInReadOnly: false,
+  },
+  {
+    name: 'approvals' as const,
+    icon: ShieldCheckIcon,
+    openWidthInPx: 480,
+    contents: (props: SessionMenuPanelContentsProps) => (
+      <SessionMenuPanelApprovals session={props.session} />
+    ),
+    tooltipContent: 'Tool approvals',
+    showInReadOnly: false,
+  },
 ];
 export type Panel = (typeof SESSION_MENU_PANELS)[0];
 
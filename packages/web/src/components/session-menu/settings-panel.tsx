@@ -1,7 +1,12 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { TitleCellType, TsConfigUpdatedPayloadType } from '@peragus/shared';
-import { X, Info } from 'lucide-react';
+import type {
+  CodeCellType,
+  SessionCacheStatusPayloadType,
+  TitleCellType,
+  TsConfigUpdatedPayloadType,
+} from '@peragus/shared';
+import { X, Info, Trash2 } from 'lucide-react';
 import CodeMirror from '@uiw/react-codemirror';
 import { json } from '@codemirror/lang-json';
 
@@ -12,6 +17,8 @@ import useTheme from '@peragus/components/src/components/use-theme';
 import { SessionChannel } from '@/clients/websocket';
 import { useTsconfigJson } from '@/components/use-tsconfig-json';
 import { useCells } from '@peragus/components/src/components/use-cell';
+import { Switch } from '@peragus/components/src/components/ui/switch';
+import { Button } from '@peragus/components/src/components/ui/button';
 
 import type { SessionMenuPanelContentsProps } from '.';
 
@@ -59,10 +66,7 @@ export default function SessionMenuPanelSettings({ readOnly, session, channel }:
           </p>
         </div>
       )}
-      {/* TOOD: Add more settings or handle this in a better way */}
-      {session.language === 'javascript' && (
-        <p className="text-tertiary-foreground text-lg mt-5">No additional settings</p>
-      )}
+      <CellCache readOnly={readOnly} channel={channel} />
       {session.language === 'typescript' && (
         <div className="text-foreground mt-2 space-y-6">
           <TsconfigJson readOnly={readOnly} channel={channel} />
@@ -121,6 +125,102 @@ function TsconfigJson({
   );
 }
 
+function formatBytes(bytes: number) {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function CellCache({ readOnly, channel }: { readOnly?: boolean; channel: SessionChannel | null }) {
+  const { cells } = useCells();
+  const [status, setStatus] = useState<SessionCacheStatusPayloadType>({
+    enabled: false,
+    size: 0,
+    cells: {},
+  });
+
+  useEffect(() => {
+    if (!channel) return;
+
+    channel.on('session:cache:status', setStatus);
+
+    return () => channel.off('session:cache:status', setStatus);
+  }, [channel]);
+
+  function setEnabled(enabled: boolean) {
+    setStatus((status) => ({ ...status, enabled }));
+    channel?.push('session:cache:set', { enabled });
+  }
+
+  const cachedCells = cells.filter(
+    (cell) => cell.type === 'code' && status.cells[cell.id] !== undefined,
+  ) as CodeCellType[];
+
+  return (
+    <div className="text-sm mt-5 space-y-3">
+      <label
+        htmlFor="cell-cache"
+        className="flex items-center justify-between gap-4 cursor-pointer"
+      >
+        <span>
+          <span className="font-medium">Cache cell results</span>
+          <span className="block text-tertiary-foreground text-xs">
+            Replay the output of code cells whose source and imports have not changed
+          </span>
+        </span>
+        <Switch
+          id="cell-cache"
+          checked={status.enabled}
+          onCheckedChange={setEnabled}
+          disabled={readOnly || !channel}
+        />
+      </label>
+
+      {status.size > 0 && (
+        <div className="border rounded-sm">
+          <div className="flex items-center justify-between gap-4 px-3 py-2 border-b">
+            <span className="text-tertiary-foreground">{formatBytes(status.size)} cached</span>
+            {!readOnly && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => channel?.push('session:cache:invalidate', {})}
+              >
+                Clear cache
+              </Button>
+            )}
+          </div>
+          <ul>
+            {cachedCells.map((cell) => (
+              <li key={cell.id} className="flex items-center justify-between gap-4 px-3 py-1.5">
+                <span className="font-mono text-xs truncate">{cell.filename}</span>
+                <span className="flex items-center gap-2 text-tertiary-foreground text-xs">
+                  {formatBytes(status.cells[cell.id]!)}
+                  {!readOnly && (
+                    <button
+                      title="Invalidate the cached results of this cell"
+                      className="hover:text-foreground"
+                      onClick={() => channel?.push('session:cache:invalidate', { cellId: cell.id })}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function Error(props: { error: string | null }) {
   return (
     <div className="px-1.5 pb-1.5">
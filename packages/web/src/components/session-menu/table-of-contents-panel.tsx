@@ -1,41 +1,93 @@
 import { marked, type Tokens } from 'marked';
-import { CodeCellType, MarkdownCellType, TitleCellType } from '@peragus/shared';
-import { Circle } from 'lucide-react';
+import {
+  CodeCellType,
+  MarkdownCellType,
+  ShellCellType,
+  SqlCellType,
+  TitleCellType,
+} from '@peragus/shared';
+import { Circle, CornerDownRight } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useCells } from '@peragus/components/src/components/use-cell';
+import { Switch } from '@peragus/components/src/components/ui/switch';
+import { useCellGraph } from '@/components/use-cell-graph';
+import type { SessionMenuPanelContentsProps } from '.';
 
-type PropsType = Record<string, never>;
+type PropsType = Pick<SessionMenuPanelContentsProps, 'readOnly'>;
 
-export default function SessionMenuPanelTableOfContents(_props: PropsType) {
+export default function SessionMenuPanelTableOfContents({ readOnly }: PropsType) {
   const { cells: allCells } = useCells();
+  const { graph, isStale, reactive, setReactive } = useCellGraph();
   const cells = allCells.filter((cell) => {
-    return cell.type === 'title' || cell.type === 'markdown' || cell.type === 'code';
-  }) as Array<TitleCellType | CodeCellType | MarkdownCellType>;
+    return (
+      cell.type === 'title' ||
+      cell.type === 'markdown' ||
+      cell.type === 'code' ||
+      cell.type === 'shell' ||
+      cell.type === 'sql'
+    );
+  }) as Array<TitleCellType | CodeCellType | ShellCellType | SqlCellType | MarkdownCellType>;
 
   return (
     <>
       <h4 className="text-lg font-semibold leading-tight mb-4">Table of contents</h4>
 
+      {!readOnly && (
+        <label
+          htmlFor="reactive-mode"
+          className="flex items-center justify-between gap-4 text-sm mb-4 cursor-pointer"
+        >
+          <span>
+            <span className="font-medium">Reactive mode</span>
+            <span className="block text-tertiary-foreground text-xs">
+              Run cells again when the cells they import run
+            </span>
+          </span>
+          <Switch id="reactive-mode" checked={reactive} onCheckedChange={setReactive} />
+        </label>
+      )}
+
       <div className="max-w-60 text-tertiary-foreground pr-10">
         {cells.map((cell) => {
-          const isRunningCell = cell.type === 'code' && cell.status === 'running';
+          const isRunningCell =
+            (cell.type === 'code' || cell.type === 'shell' || cell.type === 'sql') &&
+            cell.status === 'running';
+          const isStaleCell = !isRunningCell && isStale(cell.id);
+          const imported = (graph[cell.id] ?? [])
+            .map((id) => allCells.find((c) => c.id === id))
+            .filter((c) => c !== undefined) as Array<CodeCellType | SqlCellType>;
+
           return (
-            <div
-              key={cell.id}
-              className={cn(
-                'flex items-center py-1 pl-3 gap-2 border-l cursor-pointer text-sm',
-                isRunningCell
-                  ? 'text-run border-l-run font-medium'
-                  : 'hover:border-l-foreground hover:text-foreground',
-              )}
-            >
-              {isRunningCell && <Circle size={14} strokeWidth={3} className="text-run" />}
-              <button
-                className="truncate"
-                onClick={() => document.getElementById(`cell-${cell.id}`)?.scrollIntoView()}
+            <div key={cell.id}>
+              <div
+                className={cn(
+                  'flex items-center py-1 pl-3 gap-2 border-l cursor-pointer text-sm',
+                  isRunningCell
+                    ? 'text-run border-l-run font-medium'
+                    : 'hover:border-l-foreground hover:text-foreground',
+                )}
               >
-                {tocFromCell(cell)}
-              </button>
+                {isRunningCell && <Circle size={14} strokeWidth={3} className="text-run" />}
+                {isStaleCell && (
+                  <span title="Cells it imports changed since it last ran">
+                    <Circle size={14} strokeWidth={3} className="text-sb-yellow-60" />
+                  </span>
+                )}
+                <button
+                  className="truncate"
+                  onClick={() => document.getElementById(`cell-${cell.id}`)?.scrollIntoView()}
+                >
+                  {tocFromCell(cell)}
+                </button>
+              </div>
+              {imported.length > 0 && (
+                <div className="flex items-start gap-1 pb-1 pl-5 border-l text-xs">
+                  <CornerDownRight size={12} className="mt-0.5 shrink-0" />
+                  <span className="truncate font-mono">
+                    {imported.map((c) => c.filename).join(', ')}
+                  </span>
+                </div>
+              )}
             </div>
           );
         })}
@@ -44,10 +96,12 @@ export default function SessionMenuPanelTableOfContents(_props: PropsType) {
   );
 }
 
-const tocFromCell = (cell: TitleCellType | CodeCellType | MarkdownCellType) => {
+const tocFromCell = (
+  cell: TitleCellType | CodeCellType | ShellCellType | SqlCellType | MarkdownCellType,
+) => {
   if (cell.type === 'title') {
     return cell.text;
-  } else if (cell.type === 'code') {
+  } else if (cell.type === 'code' || cell.type === 'shell' || cell.type === 'sql') {
     return cell.filename;
   } else if (cell.type === 'markdown') {
     const tokens = marked.lexer(cell.text);
@@ -0,0 +1,68 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { SessionGraphUpdatedPayloadType } from '@peragus/shared';
+import { SessionChannel } from '@/clients/websocket';
+
+export interface CellGraphContextValue {
+  // The ids of the cells each code cell imports, keyed by the id of the code cell.
+  graph: Record<string, string[]>;
+  isStale: (cellId: string) => boolean;
+  reactive: boolean;
+  setReactive: (enabled: boolean) => void;
+}
+
+const CellGraphContext = createContext<CellGraphContextValue | undefined>(undefined);
+
+type ProviderPropsType = {
+  channel: SessionChannel;
+  children: React.ReactNode;
+};
+
+/**
+ * The graph of the cells importing each other, as the server sees it, with the cells
+ * whose last run used cells that changed or ran since.
+ */
+export function CellGraphProvider({ channel, children }: ProviderPropsType) {
+  const [state, setState] = useState<SessionGraphUpdatedPayloadType>({
+    graph: {},
+    staleCellIds: [],
+    reactive: false,
+  });
+
+  useEffect(() => {
+    channel.on('session:graph:updated', setState);
+
+    return () => channel.off('session:graph:updated', setState);
+  }, [channel]);
+
+  const isStale = useCallback(
+    (cellId: string) => state.staleCellIds.includes(cellId),
+    [state.staleCellIds],
+  );
+
+  const setReactive = useCallback(
+    (enabled: boolean) => {
+      setState((state) => ({ ...state, reactive: enabled }));
+      channel.push('session:reactive:set', { enabled });
+    },
+    [channel],
+  );
+
+  const context: CellGraphContextValue = {
+    graph: state.graph,
+    isStale,
+    reactive: state.reactive,
+    setReactive,
+  };
+
+  return <CellGraphContext.Provider value={context}>{children}</CellGraphContext.Provider>;
+}
+
+export function useCellGraph() {
+  const context = useContext(CellGraphContext);
+
+  if (!context) {
+    throw new Error('useCellGraph must be used within a CellGraphProvider');
+  }
+
+  return context;
+}
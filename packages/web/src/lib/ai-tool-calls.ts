@@ -0,0 +1,31 @@
+import type { AiToolCallType } from '@peragus/shared';
+import { toast } from 'sonner';
+
+function describe(call: AiToolCallType) {
+  return call.serverId === null ? call.toolName : `${call.serverId}/${call.toolName}`;
+}
+
+/**
+ * Tells the user which tools the AI called to write the code it suggests, and which of those
+ * did not run because they wait for approval.
+ */
+export function notifyToolCalls(toolCalls: AiToolCallType[] | undefined) {
+  if (!toolCalls || toolCalls.length === 0) {
+    return;
+  }
+
+  const used = [...new Set(toolCalls.filter((call) => call.status === 'done').map(describe))];
+  const waiting = [
+    ...new Set(toolCalls.filter((call) => call.status === 'approval_required').map(describe)),
+  ];
+
+  if (used.length > 0) {
+    toast.info(`The AI used ${used.join(', ')}.`);
+  }
+
+  if (waiting.length > 0) {
+    toast.warning(
+      `The AI could not use ${waiting.join(', ')}, which need approval. Approve the calls, then generate again.`,
+    );
+  }
+}
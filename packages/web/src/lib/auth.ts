@@ -0,0 +1,25 @@
+// Login token, only present when the server requires authentication.
+const TOKEN_KEY = 'sb:auth-token';
+
+export function getAuthToken() {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setAuthToken(token: string) {
+  localStorage.setItem(TOKEN_KEY, token);
+}
+
+export function clearAuthToken() {
+  localStorage.removeItem(TOKEN_KEY);
+}
+
+/**
+ * Sends the user to the login page, and back to where they were once logged in.
+ */
+export function redirectToLogin() {
+  const { pathname, search } = window.location;
+
+  if (pathname !== '/login') {
+    window.location.assign(`/login?next=${encodeURIComponent(pathname + search)}`);
+  }
+}
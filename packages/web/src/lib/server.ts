@@ -1,17 +1,44 @@
 import type {
   AiProviderType,
+  CellDiffType,
+  SnapshotType,
   CodeLanguageType,
-  MarkdownCellType,
-  CodeCellType,
   SecretWithAssociatedSessions,
+  HistoryType,
 } from '@peragus/shared';
-import { SessionType, ExampleSrcbookType } from '@/types';
+import {
+  SessionType,
+  ExampleSrcbookType,
+  AuthStatusType,
+  MCPServerType,
+  MCPServerSettingsType,
+} from '@/types';
 import SRCBOOK_CONFIG from '@/config';
+import { clearAuthToken, getAuthToken, redirectToLogin } from '@/lib/auth';
 
 const API_BASE_URL = `${SRCBOOK_CONFIG.api.origin}/api`;
 
+// Sends the login token, if any, and goes to the login page when the server rejects it.
+async function apiFetch(url: string, init: RequestInit = {}) {
+  const token = getAuthToken();
+  const headers = new Headers(init.headers);
+
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(url, { ...init, headers });
+
+  if (response.status === 401) {
+    clearAuthToken();
+    redirectToLogin();
+  }
+
+  return response;
+}
+
 export async function getFileContent(filename: string) {
-  const file_response = await fetch(API_BASE_URL + '/file', {
+  const file_response = await apiFetch(API_BASE_URL + '/file', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -37,7 +64,7 @@ interface CreateSrcbookResponseType {
 export async function createSrcbook(
   request: CreateSrcbookRequestType,
 ): Promise<CreateSrcbookResponseType> {
-  const response = await fetch(API_BASE_URL + '/srcbooks', {
+  const response = await apiFetch(API_BASE_URL + '/srcbooks', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
     body: JSON.stringify(request),
@@ -52,7 +79,7 @@ export async function createSrcbook(
 }
 
 export async function deleteSrcbook(request: { id: string }) {
-  const response = await fetch(API_BASE_URL + '/srcbooks/' + request.id, {
+  const response = await apiFetch(API_BASE_URL + '/srcbooks/' + request.id, {
     method: 'DELETE',
     headers: { 'content-type': 'application/json' },
   });
@@ -77,7 +104,7 @@ interface ImportSrcbookResponseType {
 export async function importSrcbook(
   request: ImportSrcbookRequestType,
 ): Promise<ImportSrcbookResponseType> {
-  const response = await fetch(API_BASE_URL + '/import', {
+  const response = await apiFetch(API_BASE_URL + '/import', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
     body: JSON.stringify(request),
@@ -99,29 +126,7 @@ type GenerateSrcbookResponseType =
 export async function generateSrcbook(
   request: GenerateSrcbookRequestType,
 ): Promise<GenerateSrcbookResponseType> {
-  const response = await fetch(API_BASE_URL + '/generate', {
-    method: 'POST',
-    headers: { 'content-type': 'application/json' },
-    body: JSON.stringify(request),
-  });
-
-  if (!response.ok) {
-    console.error(response);
-    throw new Error('Request failed');
-  }
-
-  return response.json();
-}
-
-type GenerateCellsRequestType = { insertIdx: number; query: string };
-type GenerateCellsResponseType =
-  | { error: true; result: string }
-  | { error: false; result: Array<CodeCellType | MarkdownCellType> };
-export async function generateCells(
-  sessionId: string,
-  request: GenerateCellsRequestType,
-): Promise<GenerateCellsResponseType> {
-  const response = await fetch(API_BASE_URL + '/sessions/' + sessionId + '/generate_cells', {
+  const response = await apiFetch(API_BASE_URL + '/generate', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
     body: JSON.stringify(request),
@@ -147,7 +152,7 @@ interface CreateSessionResponseType {
 export async function createSession(
   request: CreateSessionRequestType,
 ): Promise<CreateSessionResponseType> {
-  const response = await fetch(API_BASE_URL + '/sessions', {
+  const response = await apiFetch(API_BASE_URL + '/sessions', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
     body: JSON.stringify(request),
@@ -173,7 +178,7 @@ interface LoadSessionResponseType {
 export async function loadSession(
   request: LoadSessionRequestType,
 ): Promise<LoadSessionResponseType> {
-  const response = await fetch(API_BASE_URL + '/sessions/' + request.id, {
+  const response = await apiFetch(API_BASE_URL + '/sessions/' + request.id, {
     method: 'GET',
     headers: { 'content-type': 'application/json' },
   });
@@ -187,7 +192,7 @@ export async function loadSession(
 }
 
 export async function loadSessions(): Promise<{ error: boolean; result: SessionType[] }> {
-  const response = await fetch(API_BASE_URL + '/sessions', {
+  const response = await apiFetch(API_BASE_URL + '/sessions', {
     method: 'GET',
     headers: { 'content-type': 'application/json' },
   });
@@ -206,7 +211,7 @@ interface ExportSrcmdFileRequestType {
 }
 
 export async function exportSrcmdFile(sessionId: string, request: ExportSrcmdFileRequestType) {
-  const response = await fetch(API_BASE_URL + '/sessions/' + sessionId + '/export', {
+  const response = await apiFetch(API_BASE_URL + '/sessions/' + sessionId + '/export', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
     body: JSON.stringify(request),
@@ -220,8 +225,9 @@ export async function exportSrcmdFile(sessionId: string, request: ExportSrcmdFil
   return response.json();
 }
 
-export async function exportSrcmdText(sessionId: string) {
-  const response = await fetch(API_BASE_URL + '/sessions/' + sessionId + '/export-text');
+export async function exportSrcmdText(sessionId: string, options: { outputs?: boolean } = {}) {
+  const query = options.outputs ? '?outputs=true' : '';
+  const response = await apiFetch(API_BASE_URL + '/sessions/' + sessionId + '/export-text' + query);
 
   if (!response.ok) {
     console.error(response);
@@ -231,6 +237,119 @@ export async function exportSrcmdText(sessionId: string) {
   return response.text();
 }
 
+export async function getSnapshots(
+  sessionId: string,
+): Promise<{ error: boolean; result: SnapshotType[] }> {
+  const response = await apiFetch(API_BASE_URL + '/sessions/' + sessionId + '/history', {
+    method: 'GET',
+    headers: { 'content-type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
+export async function getSnapshotDiff(
+  sessionId: string,
+  snapshotId: string,
+): Promise<{ error: boolean; result: CellDiffType[] }> {
+  const response = await apiFetch(
+    API_BASE_URL + '/sessions/' + sessionId + '/history/' + snapshotId + '/diff',
+    {
+      method: 'GET',
+      headers: { 'content-type': 'application/json' },
+    },
+  );
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
+export async function restoreSnapshot(
+  sessionId: string,
+  snapshotId: string,
+): Promise<{ error: boolean; result: SessionType }> {
+  const response = await apiFetch(
+    API_BASE_URL + '/sessions/' + sessionId + '/history/' + snapshotId + '/restore',
+    {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+    },
+  );
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
+export async function getChatHistory(
+  sessionId: string,
+): Promise<{ error: boolean; result: HistoryType }> {
+  const response = await apiFetch(API_BASE_URL + '/sessions/' + sessionId + '/chat', {
+    method: 'GET',
+    headers: { 'content-type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
+export async function clearChatHistory(
+  sessionId: string,
+): Promise<{ error: boolean; result: HistoryType }> {
+  const response = await apiFetch(API_BASE_URL + '/sessions/' + sessionId + '/chat', {
+    method: 'DELETE',
+    headers: { 'content-type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
+type ChatEditsResponseType =
+  | { error: true; result: string }
+  | { error: false; result: HistoryType };
+
+export async function reviewChatEdits(
+  sessionId: string,
+  planId: string,
+  action: 'apply' | 'reject',
+): Promise<ChatEditsResponseType> {
+  const response = await apiFetch(
+    API_BASE_URL + '/sessions/' + sessionId + '/chat/' + planId + '/' + action,
+    {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+    },
+  );
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
 // Config settings
 interface EditConfigRequestType {
   baseDir?: string;
@@ -241,10 +360,11 @@ interface EditConfigRequestType {
   aiModel?: string;
   aiProvider?: AiProviderType;
   subscriptionEmail?: string | null;
+  aiTools?: boolean;
 }
 
 export async function getConfig() {
-  const response = await fetch(API_BASE_URL + '/settings', {
+  const response = await apiFetch(API_BASE_URL + '/settings', {
     method: 'GET',
     headers: { 'content-type': 'application/json' },
   });
@@ -257,7 +377,7 @@ export async function getConfig() {
 }
 
 export async function updateConfig(request: EditConfigRequestType): Promise<void> {
-  const response = await fetch(API_BASE_URL + '/settings', {
+  const response = await apiFetch(API_BASE_URL + '/settings', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
     body: JSON.stringify(request),
@@ -269,9 +389,143 @@ export async function updateConfig(request: EditConfigRequestType): Promise<void
   }
 }
 
+// Authentication
+export async function login(
+  email: string,
+  password: string,
+): Promise<{ success: boolean; error?: string; data?: { tokens: { accessToken: string } } }> {
+  // Not apiFetch, as a wrong password is not a reason to go to the login page.
+  const response = await fetch(API_BASE_URL + '/auth/login', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+
+  return response.json();
+}
+
+export async function logout() {
+  const response = await apiFetch(API_BASE_URL + '/auth/logout', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+  });
+
+  clearAuthToken();
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+}
+
+export async function getAuthStatus(): Promise<{ error: boolean; result: AuthStatusType }> {
+  const response = await apiFetch(API_BASE_URL + '/settings/auth', {
+    method: 'GET',
+    headers: { 'content-type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
+export async function enableAuth(
+  email: string,
+  password: string,
+): Promise<{ error: boolean; result: AuthStatusType }> {
+  const response = await apiFetch(API_BASE_URL + '/settings/auth', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
+export async function disableAuth(): Promise<{ error: boolean; result: AuthStatusType }> {
+  const response = await apiFetch(API_BASE_URL + '/settings/auth', {
+    method: 'DELETE',
+    headers: { 'content-type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
+// MCP servers and tool approvals
+//
+// The API answers with `{ success, error }`, and its error says what went wrong,
+// e.g. that the name is taken or that the server could not be reached.
+async function mcpRequest(path: string, init: RequestInit = {}) {
+  const response = await apiFetch(API_BASE_URL + '/mcp' + path, {
+    ...init,
+    headers: { 'content-type': 'application/json' },
+  });
+
+  const body = await response.json();
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error(body.error ?? 'Request failed');
+  }
+
+  return body;
+}
+
+export async function getMCPServers(): Promise<{ servers: MCPServerType[] }> {
+  return mcpRequest('/servers', { method: 'GET' });
+}
+
+export async function createMCPServer(
+  settings: MCPServerSettingsType,
+): Promise<{ connectionError: string | null }> {
+  return mcpRequest('/servers', { method: 'POST', body: JSON.stringify(settings) });
+}
+
+export async function updateMCPServer(
+  id: number,
+  settings: MCPServerSettingsType,
+): Promise<{ connectionError: string | null }> {
+  return mcpRequest('/servers/' + id, { method: 'PUT', body: JSON.stringify(settings) });
+}
+
+export async function deleteMCPServer(id: number) {
+  return mcpRequest('/servers/' + id, { method: 'DELETE' });
+}
+
+export async function testMCPServer(id: number): Promise<{ toolCount: number }> {
+  return mcpRequest('/servers/' + id + '/test', { method: 'POST' });
+}
+
+export async function approveMCPToolCall(approvalId: string, approvedBy: string) {
+  return mcpRequest('/approvals/' + encodeURIComponent(approvalId) + '/action', {
+    method: 'POST',
+    body: JSON.stringify({ action: 'approve', approvedBy }),
+  });
+}
+
+export async function rejectMCPToolCall(approvalId: string, rejectedBy: string) {
+  return mcpRequest('/approvals/' + encodeURIComponent(approvalId) + '/action', {
+    method: 'POST',
+    body: JSON.stringify({ action: 'reject', approvedBy: rejectedBy }),
+  });
+}
+
 // Secret management
 export async function getSecrets(): Promise<{ result: SecretWithAssociatedSessions[] }> {
-  const response = await fetch(API_BASE_URL + '/secrets', {
+  const response = await apiFetch(API_BASE_URL + '/secrets', {
     method: 'GET',
     headers: { 'content-type': 'application/json' },
   });
@@ -289,7 +543,7 @@ interface CreateSecretRequestType {
 }
 
 export async function createSecret(request: CreateSecretRequestType) {
-  const response = await fetch(API_BASE_URL + '/secrets', {
+  const response = await apiFetch(API_BASE_URL + '/secrets', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
     body: JSON.stringify(request),
@@ -307,7 +561,7 @@ interface UpdateSecretRequestType {
   value: string;
 }
 export async function updateSecret(request: UpdateSecretRequestType) {
-  const response = await fetch(API_BASE_URL + '/secrets/' + request.previousName, {
+  const response = await apiFetch(API_BASE_URL + '/secrets/' + request.previousName, {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
     body: JSON.stringify(request),
@@ -323,7 +577,7 @@ interface DeleteSecretRequestType {
   name: string;
 }
 export async function deleteSecret(request: DeleteSecretRequestType) {
-  const response = await fetch(API_BASE_URL + '/secrets/' + request.name, {
+  const response = await apiFetch(API_BASE_URL + '/secrets/' + request.name, {
     method: 'DELETE',
     headers: { 'content-type': 'application/json' },
   });
@@ -335,7 +589,7 @@ export async function deleteSecret(request: DeleteSecretRequestType) {
 }
 
 export async function associateSecretWithSession(sessionId: string, secretName: string) {
-  const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/secrets/${secretName}`, {
+  const response = await apiFetch(`${API_BASE_URL}/sessions/${sessionId}/secrets/${secretName}`, {
     method: 'PUT',
   });
 
@@ -346,7 +600,7 @@ export async function associateSecretWithSession(sessionId: string, secretName:
 }
 
 export async function disassociateSecretWithSession(sessionId: string, secretName: string) {
-  const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/secrets/${secretName}`, {
+  const response = await apiFetch(`${API_BASE_URL}/sessions/${sessionId}/secrets/${secretName}`, {
     method: 'DELETE',
   });
 
@@ -362,7 +616,7 @@ export async function searchNpmPackages(query: string, size: number) {
     return { error: false, result: [] };
   }
 
-  const response = await fetch(
+  const response = await apiFetch(
     `${API_BASE_URL}/npm/search?q=${encodeURIComponent(query)}&size=${size}`,
     {
       headers: { 'content-type': 'application/json' },
@@ -382,7 +636,7 @@ type SrcbookExamplesResponse = {
 };
 
 export async function loadSrcbookExamples(): Promise<SrcbookExamplesResponse> {
-  const response = await fetch(API_BASE_URL + '/examples', {
+  const response = await apiFetch(API_BASE_URL + '/examples', {
     method: 'GET',
     headers: { 'content-type': 'application/json' },
   });
@@ -401,7 +655,7 @@ type FeedbackRequestType = {
 };
 
 export async function sendFeedback({ feedback, email }: FeedbackRequestType) {
-  const response = await fetch(API_BASE_URL + '/feedback', {
+  const response = await apiFetch(API_BASE_URL + '/feedback', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
     body: JSON.stringify({ feedback, email }),
@@ -413,7 +667,7 @@ export async function sendFeedback({ feedback, email }: FeedbackRequestType) {
 }
 
 export async function aiHealthcheck() {
-  const response = await fetch(API_BASE_URL + '/ai/healthcheck', {
+  const response = await apiFetch(API_BASE_URL + '/ai/healthcheck', {
     method: 'GET',
     headers: { 'content-type': 'application/json' },
   });
@@ -424,7 +678,7 @@ export async function aiHealthcheck() {
 }
 
 export async function subscribeToMailingList(email: string) {
-  const response = await fetch(API_BASE_URL + '/subscribe', {
+  const response = await apiFetch(API_BASE_URL + '/subscribe', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
     body: JSON.stringify({ email }),
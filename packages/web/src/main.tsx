@@ -8,6 +8,7 @@ import Home, { loader as homeLoader } from './routes/home';
 import Session from './routes/session';
 import Settings from './routes/settings';
 import Secrets from './routes/secrets';
+import Login from './routes/login';
 import ErrorPage from './error';
 import posthog from 'posthog-js';
 import { PostHogProvider } from 'posthog-js/react';
@@ -19,6 +20,11 @@ posthog.init('phc_bQjmPYXmbl76j8gW289Qj9XILuu1STRnIfgCSKlxdgu', {
 });
 
 const router = createBrowserRouter([
+  {
+    path: '/login',
+    element: <Login />,
+    errorElement: <ErrorPage />,
+  },
   {
     path: '/',
     element: (
@@ -116,7 +116,11 @@ export default function Home() {
                 <SrcbookCard
                   key={srcbook.id}
                   title={(srcbook.cells[0] as TitleCellType).text}
-                  running={srcbook.cells.some((c) => c.type === 'code' && c.status === 'running')}
+                  running={srcbook.cells.some(
+                    (c) =>
+                      (c.type === 'code' || c.type === 'shell' || c.type === 'sql') &&
+                      c.status === 'running',
+                  )}
                   language={srcbook.language}
                   cellCount={srcbook.cells.length}
                   onClick={() => navigate(`/srcbooks/${srcbook.id}`)}
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Input } from '@peragus/components/src/components/ui/input';
+import { Button } from '@peragus/components/src/components/ui/button';
+import { SrcbookLogo } from '@/components/logos';
+import { login } from '@/lib/server';
+import { setAuthToken } from '@/lib/auth';
+
+function Login() {
+  const [searchParams] = useSearchParams();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await login(email, password);
+
+      if (!response.success || !response.data) {
+        setError(response.error ?? 'Could not log in');
+        return;
+      }
+
+      setAuthToken(response.data.tokens.accessToken);
+
+      // Only follow relative paths, so that the login page cannot be used to redirect elsewhere.
+      const next = searchParams.get('next') ?? '/';
+      window.location.assign(next.startsWith('/') && !next.startsWith('//') ? next : '/');
+    } catch (err) {
+      console.error(err);
+      setError('Could not log in');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col justify-center items-center h-screen w-full">
+      <form className="w-full max-w-sm flex flex-col gap-3" onSubmit={onSubmit}>
+        <div className="flex items-center gap-2 mb-3">
+          <SrcbookLogo size={24} />
+          <h1 className="text-xl font-bold">Log in</h1>
+        </div>
+
+        <Input
+          type="email"
+          placeholder="Email"
+          aria-label="Email"
+          autoComplete="username"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <Input
+          type="password"
+          placeholder="Password"
+          aria-label="Password"
+          autoComplete="current-password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <Button type="submit" disabled={submitting}>
+          Log in
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+export default Login;
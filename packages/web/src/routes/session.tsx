@@ -4,20 +4,33 @@ import {
   CellType,
   CellOutputPayloadType,
   CellUpdatedPayloadType,
+  CellCreatedPayloadType,
+  CellMovePayloadType,
+  CellDeletePayloadType,
+  SessionConflictPayloadType,
+  CellExecutedPayloadType,
   CellUpdateAttrsType,
   TsServerCellDiagnosticsPayloadType,
   CodeLanguageType,
   MarkdownCellType,
   CodeCellType,
+  ShellCellType,
+  SqlCellType,
   TitleCellType,
   TsServerCellSuggestionsPayloadType,
+  SessionRunAllProgressPayloadType,
+  SessionKernelStatusPayloadType,
 } from '@peragus/shared';
 import { loadSession, loadSessions, getConfig } from '@/lib/server';
 import type { SessionType, SettingsType } from '@/types';
 import { GenerateAICellType, OutputType } from '@peragus/components/src/types';
 import { TitleCell, MarkdownCell } from '@peragus/components';
 import ControlledCodeCell from '@/components/cells/code';
+import ControlledShellCell from '@/components/cells/shell';
+import ControlledSqlCell from '@/components/cells/sql';
 import GenerateAiCell from '@/components/cells/generate-ai';
+import DraggableCell, { DropPositionType } from '@/components/draggable-cell';
+import ParametersForm from '@/components/parameters-form';
 import SessionMenu, { SESSION_MENU_PANELS, Panel } from '@/components/session-menu';
 import { Button } from '@peragus/components/src/components/ui/button';
 import { SessionChannel } from '@/clients/websocket';
@@ -29,6 +42,7 @@ import { PackageJsonProvider, usePackageJson } from '@/components/use-package-js
 import { SessionNavbar } from '@/components/navbar';
 import { toast } from 'sonner';
 import { TsConfigProvider } from '@/components/use-tsconfig-json';
+import { CellGraphProvider } from '@/components/use-cell-graph';
 import { VITE_SRCBOOK_DEBUG_RENDER_SESSION_AS_READ_ONLY } from '@/lib/environment';
 
 async function loader({ params }: LoaderFunctionArgs) {
@@ -94,14 +108,16 @@ function SessionPage() {
   }, [session.id, session.language, forceComponentRerender]);
 
   return (
-    <CellsProvider cells={session.cells}>
+    <CellsProvider cells={session.cells} outputs={session.outputs}>
       <PackageJsonProvider channel={channel}>
         <TsConfigProvider session={session} channel={channel}>
-          {VITE_SRCBOOK_DEBUG_RENDER_SESSION_AS_READ_ONLY ? (
-            <Session readOnly session={session} srcbooks={srcbooks} config={config} />
-          ) : (
-            <Session session={session} channel={channel} srcbooks={srcbooks} config={config} />
-          )}
+          <CellGraphProvider channel={channel}>
+            {VITE_SRCBOOK_DEBUG_RENDER_SESSION_AS_READ_ONLY ? (
+              <Session readOnly session={session} srcbooks={srcbooks} config={config} />
+            ) : (
+              <Session session={session} channel={channel} srcbooks={srcbooks} config={config} />
+            )}
+          </CellGraphProvider>
         </TsConfigProvider>
       </PackageJsonProvider>
     </CellsProvider>
@@ -126,10 +142,16 @@ function Session(props: SessionProps) {
     cells: allCells,
     updateCell,
     removeCell,
+    insertCellAt,
+    moveCell,
     createCodeCell,
     createMarkdownCell,
+    createShellCell,
+    createSqlCell,
     createGenerateAiCell,
     setOutput,
+    clearOutput,
+    setExecution,
     setTsServerDiagnostics,
     setTsServerSuggestions,
   } = useCells();
@@ -152,6 +174,59 @@ function Session(props: SessionProps) {
     [selectedPanelOpen, selectedPanelName],
   );
 
+  const [runAllProgress, setRunAllProgress] = useState<SessionRunAllProgressPayloadType | null>(
+    null,
+  );
+  const runningAll = runAllProgress !== null && runAllProgress.status === 'running';
+
+  function runAllCells() {
+    if (!channel || runningAll) {
+      return;
+    }
+    channel.push('session:run_all', {});
+  }
+
+  function stopRunAllCells() {
+    if (!channel) {
+      return;
+    }
+    channel.push('session:run_all:stop', {});
+  }
+
+  useHotkeys('mod+shift+enter', runAllCells, { enableOnContentEditable: true });
+
+  const [kernelStatus, setKernelStatus] = useState<SessionKernelStatusPayloadType>({
+    enabled: session.kernel ?? false,
+    status: 'stopped',
+  });
+
+  function setKernelEnabled(enabled: boolean) {
+    if (!channel) {
+      return;
+    }
+    channel.push('session:kernel:set', { enabled });
+  }
+
+  function restartKernel() {
+    if (!channel) {
+      return;
+    }
+    channel.push('session:kernel:restart', {});
+  }
+
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+    const callback = (payload: SessionKernelStatusPayloadType) => {
+      setKernelStatus(payload);
+    };
+
+    channel.on('session:kernel:status', callback);
+
+    return () => channel.off('session:kernel:status', callback);
+  }, [channel]);
+
   useHotkeys('mod+;', () => {
     if (!isPanelOpen('packages')) {
       setSelectedPanelNameAndOpen(['packages', true]);
@@ -162,7 +237,12 @@ function Session(props: SessionProps) {
     if (!channel) {
       return;
     }
-    if (cell.type !== 'code' && cell.type !== 'markdown') {
+    if (
+      cell.type !== 'code' &&
+      cell.type !== 'shell' &&
+      cell.type !== 'sql' &&
+      cell.type !== 'markdown'
+    ) {
       throw new Error(`Cannot delete cell of type '${cell.type}'`);
     }
 
@@ -174,6 +254,50 @@ function Session(props: SessionProps) {
     });
   }
 
+  function onMoveCell(cell: CellType | GenerateAICellType, index: number) {
+    if (!channel) {
+      return;
+    }
+    if (
+      cell.type !== 'code' &&
+      cell.type !== 'shell' &&
+      cell.type !== 'sql' &&
+      cell.type !== 'markdown'
+    ) {
+      throw new Error(`Cannot move cell of type '${cell.type}'`);
+    }
+
+    // The title and package.json cells always stay first.
+    if (index < 2 || index >= allCells.length || allCells[index] === cell) {
+      return;
+    }
+
+    // Optimistically move cell
+    moveCell(cell, index);
+
+    channel.push('cell:move', {
+      cellId: cell.id,
+      index: toServerIndex(allCells, cell, index),
+    });
+  }
+
+  function onDropCell(
+    cellId: string,
+    target: CellType | GenerateAICellType,
+    position: DropPositionType,
+  ) {
+    const from = allCells.findIndex((c) => c.id === cellId);
+    const cell = allCells[from];
+
+    if (!cell) {
+      return;
+    }
+
+    // Cells after the dragged cell shift up by one once it is taken out.
+    const to = allCells.indexOf(target) + (position === 'after' ? 1 : 0);
+    onMoveCell(cell, from < to ? to - 1 : to);
+  }
+
   useEffect(() => {
     if (!channel) {
       return;
@@ -187,6 +311,43 @@ function Session(props: SessionProps) {
     return () => channel.off('cell:output', callback);
   }, [channel, setOutput]);
 
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+    const callback = ({ cellId, ...execution }: CellExecutedPayloadType) => {
+      setExecution(cellId, execution);
+    };
+
+    channel.on('cell:executed', callback);
+
+    return () => channel.off('cell:executed', callback);
+  }, [channel, setExecution]);
+
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+    const callback = (payload: SessionRunAllProgressPayloadType) => {
+      // Each cell starts with a clean output, just like when it is run by itself.
+      if (payload.status === 'running' && payload.currentCellId) {
+        clearOutput(payload.currentCellId);
+      }
+
+      setRunAllProgress(payload);
+
+      if (payload.status === 'failed') {
+        toast.error(
+          `Run all stopped: ${payload.failedCellIds.length} of ${payload.cellIds.length} cells failed`,
+        );
+      }
+    };
+
+    channel.on('session:run_all:progress', callback);
+
+    return () => channel.off('session:run_all:progress', callback);
+  }, [channel, clearOutput]);
+
   useEffect(() => {
     if (!channel) {
       return;
@@ -226,6 +387,59 @@ function Session(props: SessionProps) {
     return () => channel.off('cell:updated', callback);
   }, [channel, updateCell]);
 
+  // Cells created, moved or deleted outside of the app, e.g. by the MCP server.
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+    const onCreated = (payload: CellCreatedPayloadType) => {
+      insertCellAt(payload.cell, payload.index);
+    };
+    const onMoved = (payload: CellMovePayloadType) => {
+      const cell = allCells.find((c) => c.id === payload.cellId);
+      if (cell) {
+        moveCell(cell, toClientIndex(allCells, cell, payload.index));
+      }
+    };
+    const onDeleted = (payload: CellDeletePayloadType) => {
+      const cell = allCells.find((c) => c.id === payload.cellId);
+      if (cell) {
+        removeCell(cell);
+      }
+    };
+
+    channel.on('cell:created', onCreated);
+    channel.on('cell:moved', onMoved);
+    channel.on('cell:deleted', onDeleted);
+
+    return () => {
+      channel.off('cell:created', onCreated);
+      channel.off('cell:moved', onMoved);
+      channel.off('cell:deleted', onDeleted);
+    };
+  }, [channel, allCells, insertCellAt, moveCell, removeCell]);
+
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+    const callback = (payload: SessionConflictPayloadType) => {
+      const count = payload.cellIds.length;
+      toast.warning(`${count === 1 ? 'A cell was' : `${count} cells were`} also changed on disk`, {
+        description: 'Your version was kept. The version on disk can be restored from history.',
+        duration: 10000,
+        action: {
+          label: 'History',
+          onClick: () => setSelectedPanelNameAndOpen(['history', true]),
+        },
+      });
+    };
+
+    channel.on('session:conflict', callback);
+
+    return () => channel.off('session:conflict', callback);
+  }, [channel, setSelectedPanelNameAndOpen]);
+
   function updateCellOnServer(cell: CellType, updates: CellUpdateAttrsType) {
     if (!channel) {
       return;
@@ -236,13 +450,16 @@ function Session(props: SessionProps) {
     });
   }
 
-  async function createNewCell(type: 'code' | 'markdown' | 'generate-ai', index: number) {
+  async function createNewCell(
+    type: 'code' | 'shell' | 'sql' | 'markdown' | 'generate-ai',
+    index: number,
+  ) {
     if (!channel) {
       return;
     }
 
     // First, create the cell on client.
-    // Then, push state to server, _only_ for code or markdown cells. AI generation is a client side only cell.
+    // Then, push state to server, _only_ for code, shell, SQL or markdown cells. AI generation is a client side only cell.
     // TODO: Handle potential errors (eg, rollback optimistic client creation if there are errors)
     let cell;
     switch (type) {
@@ -250,6 +467,14 @@ function Session(props: SessionProps) {
         cell = createCodeCell(index, session.language);
         channel.push('cell:create', { index, cell });
         break;
+      case 'shell':
+        cell = createShellCell(index);
+        channel.push('cell:create', { index, cell });
+        break;
+      case 'sql':
+        cell = createSqlCell(index);
+        channel.push('cell:create', { index, cell });
+        break;
       case 'markdown':
         cell = createMarkdownCell(index);
         channel.push('cell:create', { index, cell });
@@ -285,7 +510,13 @@ function Session(props: SessionProps) {
   // TOOD: We need to stop treating titles and package.json as cells.
   const [titleCellUncasted, _packageJsonCell, ...remainingCells] = allCells;
   const titleCell = titleCellUncasted as TitleCellType;
-  const cells = remainingCells as (MarkdownCellType | CodeCellType | GenerateAICellType)[];
+  const cells = remainingCells as (
+    | MarkdownCellType
+    | CodeCellType
+    | ShellCellType
+    | SqlCellType
+    | GenerateAICellType
+  )[];
 
   useEffect(() => {
     let result: () => void = () => {};
@@ -347,6 +578,12 @@ function Session(props: SessionProps) {
         srcbooks={srcbooks}
         baseDir={config.baseDir}
         title={titleCell.text}
+        runningAll={runningAll}
+        onRunAll={runAllCells}
+        onStopRunAll={stopRunAllCells}
+        kernel={kernelStatus}
+        onSetKernelEnabled={setKernelEnabled}
+        onRestartKernel={restartKernel}
       />
 
       <div className="flex mt-12">
@@ -390,6 +627,12 @@ function Session(props: SessionProps) {
               />
             )}
 
+            {readOnly ? (
+              <ParametersForm readOnly session={session} />
+            ) : (
+              <ParametersForm session={session} channel={props.channel} />
+            )}
+
             {cells.map((cell, idx) => (
               <div key={cell.id}>
                 {readOnly ? (
@@ -399,41 +642,73 @@ function Session(props: SessionProps) {
                     language={session.language}
                     createCodeCell={() => createNewCell('code', idx + 2)}
                     createMarkdownCell={() => createNewCell('markdown', idx + 2)}
+                    createShellCell={() => createNewCell('shell', idx + 2)}
+                    createSqlCell={() => createNewCell('sql', idx + 2)}
                     createGenerateAiCodeCell={() => createNewCell('generate-ai', idx + 2)}
                   />
                 )}
 
-                {cell.type === 'code' && readOnly && (
-                  <ControlledCodeCell readOnly cell={cell} session={session} />
-                )}
-                {cell.type === 'code' && !readOnly && (
-                  <ControlledCodeCell
-                    cell={cell}
-                    session={session}
-                    channel={props.channel}
-                    updateCellOnServer={updateCellOnServer}
-                    onDeleteCell={onDeleteCell}
-                  />
-                )}
-
-                {cell.type === 'markdown' && readOnly && <MarkdownCell readOnly cell={cell} />}
-                {cell.type === 'markdown' && !readOnly && (
-                  <MarkdownCell
-                    cell={cell}
-                    updateCellOnClient={updateCell}
-                    updateCellOnServer={updateCellOnServer}
-                    onDeleteCell={onDeleteCell}
-                  />
-                )}
-
-                {cell.type === 'generate-ai' && !readOnly && (
-                  <GenerateAiCell
-                    cell={cell}
-                    session={session}
-                    insertIdx={idx + 2}
-                    onSuccess={insertGeneratedCells}
-                  />
-                )}
+                <DraggableCell
+                  cellId={cell.id}
+                  draggable={!readOnly && cell.type !== 'generate-ai'}
+                  onDrop={(cellId, position) => onDropCell(cellId, cell, position)}
+                  onMoveUp={() => onMoveCell(cell, idx + 1)}
+                  onMoveDown={() => onMoveCell(cell, idx + 3)}
+                >
+                  {cell.type === 'code' && readOnly && (
+                    <ControlledCodeCell readOnly cell={cell} session={session} />
+                  )}
+                  {cell.type === 'code' && !readOnly && (
+                    <ControlledCodeCell
+                      cell={cell}
+                      session={session}
+                      channel={props.channel}
+                      updateCellOnServer={updateCellOnServer}
+                      onDeleteCell={onDeleteCell}
+                    />
+                  )}
+
+                  {cell.type === 'shell' && readOnly && (
+                    <ControlledShellCell readOnly cell={cell} />
+                  )}
+                  {cell.type === 'shell' && !readOnly && (
+                    <ControlledShellCell
+                      cell={cell}
+                      channel={props.channel}
+                      updateCellOnServer={updateCellOnServer}
+                      onDeleteCell={onDeleteCell}
+                    />
+                  )}
+
+                  {cell.type === 'sql' && readOnly && <ControlledSqlCell readOnly cell={cell} />}
+                  {cell.type === 'sql' && !readOnly && (
+                    <ControlledSqlCell
+                      cell={cell}
+                      channel={props.channel}
+                      updateCellOnServer={updateCellOnServer}
+                      onDeleteCell={onDeleteCell}
+                    />
+                  )}
+
+                  {cell.type === 'markdown' && readOnly && <MarkdownCell readOnly cell={cell} />}
+                  {cell.type === 'markdown' && !readOnly && (
+                    <MarkdownCell
+                      cell={cell}
+                      updateCellOnClient={updateCell}
+                      updateCellOnServer={updateCellOnServer}
+                      onDeleteCell={onDeleteCell}
+                    />
+                  )}
+
+                  {cell.type === 'generate-ai' && !readOnly && (
+                    <GenerateAiCell
+                      cell={cell}
+                      channel={props.channel}
+                      insertIdx={idx + 2}
+                      onSuccess={insertGeneratedCells}
+                    />
+                  )}
+                </DraggableCell>
               </div>
             ))}
 
@@ -443,6 +718,8 @@ function Session(props: SessionProps) {
                 language={session.language}
                 createCodeCell={() => createNewCell('code', allCells.length)}
                 createMarkdownCell={() => createNewCell('markdown', allCells.length)}
+                createShellCell={() => createNewCell('shell', allCells.length)}
+                createSqlCell={() => createNewCell('sql', allCells.length)}
                 createGenerateAiCodeCell={() => createNewCell('generate-ai', allCells.length)}
                 className={cn('h-14', cells.length === 0 && 'opacity-100')}
               />
@@ -454,9 +731,31 @@ function Session(props: SessionProps) {
   );
 }
 
+/**
+ * The server does not know about generate-ai cells, which only exist in the client.
+ * These map the index of a moved cell between the client's cells and the server's.
+ */
+function toServerIndex(cells: (CellType | GenerateAICellType)[], cell: CellType, index: number) {
+  const moved = cells.filter((c) => c.id !== cell.id);
+  moved.splice(index, 0, cell);
+  return moved.filter((c) => c.type !== 'generate-ai').indexOf(cell);
+}
+
+function toClientIndex(
+  cells: (CellType | GenerateAICellType)[],
+  cell: CellType | GenerateAICellType,
+  index: number,
+) {
+  const others = cells.filter((c) => c.id !== cell.id);
+  const target = others.filter((c) => c.type !== 'generate-ai')[index];
+  return target ? others.indexOf(target) : others.length;
+}
+
 function InsertCellDivider(props: {
   createCodeCell: () => void;
   createMarkdownCell: () => void;
+  createShellCell: () => void;
+  createSqlCell: () => void;
   createGenerateAiCodeCell: () => void;
   language: CodeLanguageType;
   className?: string;
@@ -488,6 +787,20 @@ function InsertCellDivider(props: {
           >
             Markdown
           </Button>
+          <Button
+            variant="secondary"
+            className="border-none rounded-none"
+            onClick={props.createShellCell}
+          >
+            Shell
+          </Button>
+          <Button
+            variant="secondary"
+            className="border-none rounded-none"
+            onClick={props.createSqlCell}
+          >
+            SQL
+          </Button>
           <Button
             variant="secondary"
             className="border-none rounded-md rounded-l-none"
@@ -1,6 +1,21 @@
 import { useEffect, useState } from 'react';
 import { CircleCheck, Loader2, CircleX, RefreshCw } from 'lucide-react';
-import { aiHealthcheck, subscribeToMailingList } from '@/lib/server';
+import {
+  aiHealthcheck,
+  createMCPServer,
+  deleteMCPServer,
+  disableAuth,
+  enableAuth,
+  getAuthStatus,
+  getMCPServers,
+  login,
+  logout,
+  subscribeToMailingList,
+  testMCPServer,
+  updateMCPServer,
+} from '@/lib/server';
+import { redirectToLogin, setAuthToken } from '@/lib/auth';
+import type { AuthStatusType, MCPServerType } from '@/types';
 import { useSettings, type OpenRouterModel } from '@/components/use-settings';
 import { AiProviderType, getDefaultModel, type CodeLanguageType } from '@peragus/shared';
 import {
@@ -97,6 +112,16 @@ function Settings() {
           <AiSettings />
         </div>
 
+        <div>
+          <h2 className="text-base font-medium">Authentication</h2>
+          <AuthSettings />
+        </div>
+
+        <div>
+          <h2 className="text-base font-medium">MCP servers</h2>
+          <McpServersSettings />
+        </div>
+
         <div>
           <h2 className="text-base font-medium">Get product updates</h2>
           <div>
@@ -123,6 +148,326 @@ function Settings() {
   );
 }
 
+function AuthSettings() {
+  const [status, setStatus] = useState<AuthStatusType | null>(null);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  useEffect(() => {
+    getAuthStatus()
+      .then(({ result }) => {
+        setStatus(result);
+        setEmail(result.email ?? '');
+      })
+      .catch((error) => console.error('Error loading authentication settings', error));
+  }, []);
+
+  const onEnable = async () => {
+    try {
+      const { error, result } = await enableAuth(email, password);
+
+      if (error) {
+        throw new Error('Failed to enable authentication');
+      }
+
+      // Changing credentials logs everyone out, so log back in with the new ones.
+      const response = await login(email, password);
+      if (response.data) {
+        setAuthToken(response.data.tokens.accessToken);
+      }
+
+      setStatus(result);
+      setPassword('');
+      toast.success('Login is now required.');
+    } catch (error) {
+      console.error(error);
+      toast.error('Could not enable authentication.');
+    }
+  };
+
+  const onDisable = async () => {
+    try {
+      const { result } = await disableAuth();
+      setStatus(result);
+      toast.success('Login is no longer required.');
+    } catch (error) {
+      console.error(error);
+      toast.error('Could not disable authentication.');
+    }
+  };
+
+  const onLogout = async () => {
+    try {
+      await logout();
+    } finally {
+      redirectToLogin();
+    }
+  };
+
+  if (status === null) {
+    return null;
+  }
+
+  if (status.source === 'env') {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <p className="opacity-70 text-sm">
+          Login as {status.email} is required, as set by the SRCBOOK_AUTH_EMAIL and
+          SRCBOOK_AUTH_PASSWORD environment variables.
+        </p>
+        <Button variant="secondary" onClick={onLogout}>
+          Log out
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="opacity-70 text-sm" htmlFor="auth-email">
+        {status.enabled
+          ? `Login as ${status.email} is required to use Peragus. Changing the credentials logs out every browser.`
+          : 'Require a login to use Peragus, for example when it is reachable by others on the network.'}
+      </label>
+      <div className="flex gap-2 mt-3">
+        <Input
+          id="auth-email"
+          type="email"
+          placeholder="Email"
+          autoComplete="username"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <Input
+          type="password"
+          placeholder="Password (8+ characters)"
+          aria-label="Password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <Button className="px-5" disabled={!email || password.length < 8} onClick={onEnable}>
+          {status.enabled ? 'Update' : 'Require login'}
+        </Button>
+      </div>
+      {status.enabled && (
+        <div className="flex gap-2 mt-3">
+          <Button variant="secondary" onClick={onDisable}>
+            Stop requiring login
+          </Button>
+          <Button variant="secondary" onClick={onLogout}>
+            Log out
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function McpServersSettings() {
+  const { aiTools, updateConfig } = useSettings();
+  const [servers, setServers] = useState<MCPServerType[] | null>(null);
+  const [testing, setTesting] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [transport, setTransport] = useState<MCPServerType['transport']>('stdio');
+  const [command, setCommand] = useState('');
+  const [args, setArgs] = useState('');
+  const [url, setUrl] = useState('');
+
+  const refresh = () =>
+    getMCPServers()
+      .then(({ servers }) => setServers(servers))
+      .catch((error) => console.error('Error loading MCP servers', error));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const onAdd = async () => {
+    try {
+      const { connectionError } = await createMCPServer({
+        name,
+        transport,
+        command: transport === 'stdio' ? command : null,
+        args: transport === 'stdio' ? args.split(' ').filter((arg) => arg !== '') : [],
+        env: {},
+        url: transport === 'http' ? url : null,
+        enabled: true,
+      });
+
+      if (connectionError) {
+        toast.warning(`Added ${name}, but could not connect to it: ${connectionError}`);
+      } else {
+        toast.success(`Added ${name}.`);
+      }
+
+      setName('');
+      setCommand('');
+      setArgs('');
+      setUrl('');
+      refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Could not add the MCP server.');
+    }
+  };
+
+  const onToggle = async (server: MCPServerType, enabled: boolean) => {
+    const { id: _id, connected: _connected, toolCount: _toolCount, ...settings } = server;
+
+    try {
+      const { connectionError } = await updateMCPServer(server.id, { ...settings, enabled });
+
+      if (connectionError) {
+        toast.warning(`Could not connect to ${server.name}: ${connectionError}`);
+      }
+
+      refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Could not update the MCP server.');
+    }
+  };
+
+  const onTest = async (server: MCPServerType) => {
+    setTesting(server.id);
+
+    try {
+      const { toolCount } = await testMCPServer(server.id);
+      toast.success(`Connected to ${server.name}, which has ${toolCount} tools.`);
+    } catch (error) {
+      console.error(error);
+      toast.error(
+        `Could not connect to ${server.name}: ${error instanceof Error ? error.message : error}`,
+      );
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const onDelete = async (server: MCPServerType) => {
+    try {
+      await deleteMCPServer(server.id);
+      toast.success(`Removed ${server.name}.`);
+      refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error('Could not remove the MCP server.');
+    }
+  };
+
+  if (servers === null) {
+    return null;
+  }
+
+  const canAdd = name.trim() !== '' && (transport === 'stdio' ? command.trim() !== '' : url !== '');
+
+  return (
+    <div>
+      <label className="opacity-70 text-sm" htmlFor="mcp-server-name">
+        Connect to MCP servers to give the AI features their tools. Servers set by environment
+        variables are not listed here.
+      </label>
+      <div className="flex items-center gap-2 mt-2">
+        <Switch
+          id="ai-tools-switch"
+          checked={aiTools}
+          onCheckedChange={(checked) => updateConfig({ aiTools: checked })}
+        />
+        <label htmlFor="ai-tools-switch" className="text-sm font-medium">
+          Let the AI use tools when writing code
+        </label>
+      </div>
+      {servers.length > 0 && (
+        <ul className="mt-3 divide-y border rounded-md">
+          {servers.map((server) => (
+            <li key={server.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+              {server.connected ? (
+                <CircleCheck size={16} className="text-sb-green-80" aria-label="Connected" />
+              ) : (
+                <CircleX size={16} className="text-tertiary-foreground" aria-label="Disconnected" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">{server.name}</p>
+                <p className="opacity-70 truncate">
+                  {server.transport === 'stdio'
+                    ? [server.command, ...server.args].join(' ')
+                    : server.url}
+                </p>
+              </div>
+              <span className="opacity-70 whitespace-nowrap">
+                {server.connected ? `${server.toolCount} tools` : 'Not connected'}
+              </span>
+              <Switch
+                checked={server.enabled}
+                aria-label={`Enable ${server.name}`}
+                onCheckedChange={(enabled) => onToggle(server, enabled)}
+              />
+              <Button
+                variant="secondary"
+                disabled={testing === server.id}
+                onClick={() => onTest(server)}
+              >
+                {testing === server.id ? <Loader2 size={16} className="animate-spin" /> : 'Test'}
+              </Button>
+              <Button variant="secondary" onClick={() => onDelete(server)}>
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2 mt-3">
+        <Input
+          id="mcp-server-name"
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Select
+          value={transport}
+          onValueChange={(value) => setTransport(value as MCPServerType['transport'])}
+        >
+          <SelectTrigger className="w-[140px] shrink-0" aria-label="Transport">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="stdio">Command</SelectItem>
+            <SelectItem value="http">URL</SelectItem>
+          </SelectContent>
+        </Select>
+        {transport === 'stdio' ? (
+          <>
+            <Input
+              placeholder="Command, e.g. npx"
+              aria-label="Command"
+              value={command}
+              onChange={(e) => setCommand(e.target.value)}
+            />
+            <Input
+              placeholder="Arguments"
+              aria-label="Arguments"
+              value={args}
+              onChange={(e) => setArgs(e.target.value)}
+            />
+          </>
+        ) : (
+          <Input
+            type="url"
+            placeholder="https://example.com/mcp"
+            aria-label="URL"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+        )}
+        <Button className="px-5" disabled={!canAdd} onClick={onAdd}>
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 function AiInfoBanner() {
   const { aiEnabled, aiProvider } = useSettings();
 
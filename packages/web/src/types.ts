@@ -1,4 +1,11 @@
-import { CellType, CodeLanguageType, AiProviderType } from '@peragus/shared';
+import {
+  CellType,
+  CodeLanguageType,
+  AiProviderType,
+  CellExecutionResultType,
+  ParametersType,
+  ParameterValuesType,
+} from '@peragus/shared';
 
 export interface FsObjectType {
   path: string;
@@ -20,13 +27,26 @@ export type SettingsType = {
   aiModel: string;
   aiBaseUrl?: string | null;
   subscriptionEmail?: string | null;
+  aiTools: boolean;
 };
 
+// Whether the server requires a login, and whether that is set by env or in settings.
+export type AuthStatusType =
+  | { enabled: false; source: null; email: null }
+  | { enabled: true; source: 'env' | 'config'; email: string };
+
 export type SessionType = {
   id: string;
   cells: CellType[];
   language: CodeLanguageType;
   'tsconfig.json'?: string;
+  // Persisted outputs of the last execution of each code cell, keyed by cell id.
+  outputs?: Record<string, CellExecutionResultType>;
+  // Whether cells share state in a long-lived kernel.
+  kernel?: boolean;
+  // Parameters declared by the srcbook, and the values overriding their defaults.
+  parameters?: ParametersType;
+  parameterValues?: ParameterValuesType;
   openedAt: number;
 };
 
@@ -39,3 +59,19 @@ export type ExampleSrcbookType = {
   description: string;
   tags: string[];
 };
+
+// An MCP server added in settings, as listed by the API.
+export type MCPServerType = {
+  id: number;
+  name: string;
+  transport: 'stdio' | 'http';
+  command: string | null;
+  args: string[];
+  env: Record<string, string>;
+  url: string | null;
+  enabled: boolean;
+  connected: boolean;
+  toolCount: number;
+};
+
+export type MCPServerSettingsType = Omit<MCPServerType, 'id' | 'connected' | 'toolCount'>;
@@ -1,7 +1,8 @@
 import { spawn } from 'node:child_process';
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import { pathTo, getPackageJson, isPortAvailable } from './utils.mjs';
 import open from 'open';
+import { runSrcbook } from './run.mjs';
 
 function openInBrowser(url: string) {
   open(url).then(
@@ -75,9 +76,39 @@ export default function program() {
       });
     });
 
+  program
+    .command('run')
+    .description('Run every code, shell and SQL cell of a Srcbook without starting the server')
+    .argument('<path>', 'Path to a .src.md file')
+    .option('-r, --report <file>', 'Write a report of each cell to this file')
+    .addOption(
+      new Option('-f, --format <format>', 'Format of the report')
+        .choices(['json', 'junit'])
+        .default('json'),
+    )
+    .option('--continue-on-error', 'Keep running cells after one fails', false)
+    .option('--keep-dir', 'Keep the temporary Srcbook directory after the run', false)
+    .option(
+      '-p, --param <name=value>',
+      'Override the default value of a parameter, can be repeated',
+      collectParam,
+      {},
+    )
+    .action((path, options) => runSrcbook(path, options));
+
   program.parse();
 }
 
+function collectParam(value: string, previous: Record<string, string>) {
+  const index = value.indexOf('=');
+
+  if (index <= 0) {
+    throw new InvalidArgumentError('Expected name=value.');
+  }
+
+  return { ...previous, [value.slice(0, index)]: value.slice(index + 1) };
+}
+
 async function doImport(specifier: string, port: string) {
   const filepath = specifier.endsWith('.src.md') ? specifier : `${specifier}.src.md`;
   const srcbookUrl = `https://hub.srcbook.com/srcbooks/${filepath}`;
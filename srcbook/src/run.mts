@@ -0,0 +1,547 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import Path from 'node:path';
+import chalk from 'chalk';
+import { decode } from '@peragus/api/srcmd.mjs';
+import { node, npmInstall, spawnCall, tsx, type BaseExecRequestType } from '@peragus/api/exec.mjs';
+import { buildTsconfigJson } from '@peragus/api/srcbook/config.mjs';
+import { displayHelperArgs } from '@peragus/api/display/helper.mjs';
+import { OutputParser } from '@peragus/api/display/parser.mjs';
+import {
+  encodeParamsModule,
+  paramsFilename,
+  parametersEnv,
+  parseParameterValues,
+  validateParameterValues,
+} from '@peragus/api/srcbook/parameters.mjs';
+import { parseSqlResult, resolveSqlConnection } from '@peragus/api/sql/drivers.mjs';
+import { encodeSqlResultsModule, sqlResultsFilename } from '@peragus/api/sql/results.mjs';
+import type {
+  CellType,
+  CodeCellType,
+  CodeLanguageType,
+  ParametersType,
+  ShellCellType,
+  SqlCellType,
+} from '@peragus/shared';
+
+export type ReportFormatType = 'json' | 'junit';
+
+export type RunOptionsType = {
+  report?: string;
+  format: ReportFormatType;
+  continueOnError: boolean;
+  keepDir: boolean;
+  /**
+   * Values overriding the defaults of parameters, as text, keyed by parameter name.
+   */
+  param: Record<string, string>;
+};
+
+type StepStatusType = 'passed' | 'failed' | 'skipped';
+
+type StepReportType = {
+  status: StepStatusType;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  startedAt: number | null;
+  finishedAt: number | null;
+  durationMs: number;
+};
+
+type RunCellType = CodeCellType | ShellCellType | SqlCellType;
+
+type CellReportType = StepReportType & {
+  filename: string;
+  language: CodeCellType['language'] | 'shell' | 'sql';
+};
+
+export type RunReportType = {
+  path: string;
+  title: string;
+  status: 'passed' | 'failed';
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  install: StepReportType;
+  cells: CellReportType[];
+};
+
+/**
+ * Runs every code, shell and SQL cell of a .src.md file in order, outside of the web app.
+ *
+ * The srcbook is written to a temporary directory, its dependencies are installed
+ * and its cells are executed one at a time like "run all" in the app: the run halts
+ * on the first cell that does not exit cleanly unless `continueOnError` is set.
+ * SQL cells write the module of their rows for later code cells to import, as in the app.
+ *
+ * Cells inherit the environment of this process, which is how secrets are passed.
+ * Parameters keep their defaults unless overridden with `param`.
+ */
+export async function runSrcbook(srcmdPath: string, options: RunOptionsType) {
+  let contents: string;
+
+  try {
+    contents = await fs.readFile(srcmdPath, 'utf8');
+  } catch (e) {
+    console.error(`Cannot read ${srcmdPath}: ${(e as Error).message}`);
+    process.exit(1);
+  }
+
+  const result = decode(contents);
+
+  if (result.error) {
+    console.error(`Cannot decode ${srcmdPath}:`);
+    for (const error of result.errors) {
+      console.error(`  ${error}`);
+    }
+    process.exit(1);
+  }
+
+  const { cells, language, parameters } = result.srcbook;
+  const parameterValues = parseParameterValues(parameters, options.param);
+  const parameterErrors = validateParameterValues(parameters, parameterValues);
+
+  if (parameterErrors.length > 0) {
+    console.error(`Invalid parameters for ${srcmdPath}:`);
+    for (const error of parameterErrors) {
+      console.error(`  ${error}`);
+    }
+    process.exit(1);
+  }
+
+  const env = parametersEnv(parameterValues);
+  const title = getTitle(cells) ?? Path.basename(srcmdPath);
+  const dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-run-'));
+
+  console.log(chalk.bold(title));
+  console.log(chalk.dim(`Running ${srcmdPath} in ${dir}`));
+
+  const startedAt = Date.now();
+  let report: RunReportType;
+
+  try {
+    // The srcmd may not include tsconfig.json, in which case we use the same defaults as the app.
+    const tsconfig =
+      language === 'typescript'
+        ? result.srcbook['tsconfig.json'] || JSON.stringify(buildTsconfigJson(), null, 2)
+        : undefined;
+
+    await writeSrcbook(dir, language, cells, tsconfig, parameters);
+
+    console.log(chalk.dim('Installing dependencies...'));
+    const install = await installDependencies(dir);
+
+    const cellReports: CellReportType[] = [];
+    let halted = install.status === 'failed';
+
+    if (halted) {
+      console.error(chalk.red('Failed to install dependencies'));
+      process.stderr.write(install.stderr);
+    }
+
+    for (const cell of cells) {
+      if (cell.type !== 'code' && cell.type !== 'shell' && cell.type !== 'sql') {
+        continue;
+      }
+
+      if (halted) {
+        cellReports.push({
+          ...skippedStep(),
+          filename: cell.filename,
+          language: cellLanguage(cell),
+        });
+        continue;
+      }
+
+      console.log(chalk.dim(`\n▶ ${cell.filename}`));
+      const cellReport = await execCell(dir, language, cell, env);
+      cellReports.push(cellReport);
+
+      if (cellReport.status === 'passed') {
+        console.log(chalk.green(`✔ ${cell.filename} (${cellReport.durationMs}ms)`));
+      } else {
+        console.log(
+          chalk.red(`✘ ${cell.filename} exited with code ${cellReport.exitCode ?? 'null'}`),
+        );
+        halted = !options.continueOnError;
+      }
+    }
+
+    const finishedAt = Date.now();
+    const failed =
+      install.status === 'failed' || cellReports.some((cell) => cell.status !== 'passed');
+
+    report = {
+      path: srcmdPath,
+      title,
+      status: failed ? 'failed' : 'passed',
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt - startedAt,
+      install,
+      cells: cellReports,
+    };
+  } finally {
+    if (options.keepDir) {
+      console.log(chalk.dim(`Kept srcbook directory at ${dir}`));
+    } else {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  printSummary(report);
+
+  if (options.report) {
+    const serialized =
+      options.format === 'junit' ? toJUnitXml(report) : JSON.stringify(report, null, 2);
+    await fs.mkdir(Path.dirname(Path.resolve(options.report)), { recursive: true });
+    await fs.writeFile(options.report, serialized + '\n', 'utf8');
+    console.log(chalk.dim(`Wrote ${options.format} report to ${options.report}`));
+  }
+
+  process.exitCode = report.status === 'passed' ? 0 : 1;
+}
+
+function getTitle(cells: CellType[]) {
+  const cell = cells.find((cell) => cell.type === 'title');
+  return cell?.type === 'title' ? cell.text : null;
+}
+
+async function writeSrcbook(
+  dir: string,
+  language: CodeLanguageType,
+  cells: CellType[],
+  tsconfig: string | undefined,
+  parameters: ParametersType | undefined,
+) {
+  await fs.mkdir(Path.join(dir, 'src'));
+
+  if (tsconfig) {
+    await fs.writeFile(Path.join(dir, 'tsconfig.json'), tsconfig, 'utf8');
+  }
+
+  if (parameters) {
+    await fs.writeFile(
+      Path.join(dir, 'src', paramsFilename(language)),
+      encodeParamsModule(parameters, language),
+      'utf8',
+    );
+  }
+
+  for (const cell of cells) {
+    if (cell.type === 'package.json') {
+      await fs.writeFile(Path.join(dir, 'package.json'), cell.source, 'utf8');
+    } else if (cell.type === 'code' || cell.type === 'shell' || cell.type === 'sql') {
+      await fs.writeFile(Path.join(dir, 'src', cell.filename), cell.source, 'utf8');
+    }
+  }
+}
+
+function skippedStep(): StepReportType {
+  return {
+    status: 'skipped',
+    exitCode: null,
+    stdout: '',
+    stderr: '',
+    startedAt: null,
+    finishedAt: null,
+    durationMs: 0,
+  };
+}
+
+function installDependencies(dir: string): Promise<StepReportType> {
+  const startedAt = Date.now();
+  let stdout = '';
+  let stderr = '';
+
+  return new Promise((resolve) => {
+    function onExit(code: number | null) {
+      const finishedAt = Date.now();
+      resolve({
+        status: code === 0 ? 'passed' : 'failed',
+        exitCode: code,
+        stdout,
+        stderr,
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt - startedAt,
+      });
+    }
+
+    npmInstall({
+      cwd: dir,
+      stdout(data) {
+        stdout += data.toString('utf8');
+      },
+      stderr(data) {
+        stderr += data.toString('utf8');
+      },
+      onExit,
+      onError(err) {
+        stderr += err.message;
+        onExit(null);
+      },
+    });
+  });
+}
+
+function cellLanguage(cell: RunCellType): CellReportType['language'] {
+  return cell.type === 'code' ? cell.language : cell.type;
+}
+
+type ProcessHandlersType = Required<
+  Pick<BaseExecRequestType, 'stdout' | 'stderr' | 'onExit' | 'onError'>
+>;
+
+/**
+ * Runs the process of a cell, echoing its output, and resolves with the report of the cell.
+ */
+function runCellProcess(
+  cell: RunCellType,
+  spawn: (handlers: ProcessHandlersType) => void,
+): Promise<CellReportType> {
+  const startedAt = Date.now();
+  let stdout = '';
+  let stderr = '';
+  let exited = false;
+
+  return new Promise((resolve) => {
+    function onExit(code: number | null) {
+      // A process that fails to spawn may report both an error and an exit.
+      if (exited) {
+        return;
+      }
+      exited = true;
+
+      const finishedAt = Date.now();
+      resolve({
+        filename: cell.filename,
+        language: cellLanguage(cell),
+        status: code === 0 ? 'passed' : 'failed',
+        exitCode: code,
+        stdout: withoutDisplayOutputs(stdout),
+        stderr,
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt - startedAt,
+      });
+    }
+
+    spawn({
+      stdout(data) {
+        const text = data.toString('utf8');
+        stdout += text;
+        process.stdout.write(text);
+      },
+      stderr(data) {
+        const text = data.toString('utf8');
+        stderr += text;
+        process.stderr.write(text);
+      },
+      onExit,
+      onError(err) {
+        stderr += err.message;
+        onExit(null);
+      },
+    });
+  });
+}
+
+/**
+ * Removes the lines of the display output protocol from the stdout of a cell. Reports only
+ * keep text, the HTML, images, JSON and tables that cells display are rendered by the app.
+ */
+function withoutDisplayOutputs(stdout: string) {
+  const parser = new OutputParser();
+
+  return [...parser.write(stdout), ...parser.flush()]
+    .map((output) => (output.type === 'stdout' ? output.data : ''))
+    .join('');
+}
+
+function execCell(
+  dir: string,
+  language: CodeLanguageType,
+  cell: RunCellType,
+  env: Record<string, string>,
+): Promise<CellReportType> {
+  if (cell.type === 'sql') {
+    return execSqlCell(dir, language, cell);
+  }
+
+  const entry = Path.join(dir, 'src', cell.filename);
+
+  if (cell.type === 'shell') {
+    // Like in the app, shell cells run with `sh` in the srcbook directory.
+    return runCellProcess(cell, (handlers) =>
+      spawnCall({
+        cwd: dir,
+        env: { ...process.env, ...env },
+        command: 'sh',
+        args: [entry],
+        ...handlers,
+      }),
+    );
+  }
+
+  const exec = cell.language === 'typescript' ? tsx : node;
+
+  return runCellProcess(cell, (handlers) =>
+    exec({ cwd: dir, env, entry, execArgv: displayHelperArgs(), ...handlers }),
+  );
+}
+
+/**
+ * Runs the query of a SQL cell with the driver of its connection, as the app does. The driver
+ * prints the rows as JSON, so only the number of rows is echoed and kept in the report.
+ */
+function execSqlCell(
+  dir: string,
+  language: CodeLanguageType,
+  cell: SqlCellType,
+): Promise<CellReportType> {
+  // Secrets referenced by the connection come from the environment, like for other cells.
+  const secrets = Object.fromEntries(
+    Object.entries(process.env).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined,
+    ),
+  );
+
+  return runCellProcess(cell, ({ stdout, stderr, onExit, onError }) => {
+    function fail(message: string) {
+      stderr(Buffer.from(`${message}\n`));
+      onExit(1, null);
+    }
+
+    let connection;
+    try {
+      connection = resolveSqlConnection(cell.connection, secrets);
+    } catch (e) {
+      return fail((e as Error).message);
+    }
+
+    const child = connection.driver.spawn({
+      cwd: dir,
+      database: connection.database,
+      sql: cell.source,
+      env: process.env,
+    });
+
+    let output = '';
+
+    child.stdout?.on('data', (data: Buffer) => {
+      output += data.toString('utf8');
+    });
+    child.stderr?.on('data', stderr);
+    child.on('error', onError);
+
+    child.on('exit', async (code, signal) => {
+      if (code !== 0) {
+        return onExit(code, signal);
+      }
+
+      try {
+        const result = parseSqlResult(output);
+
+        await fs.writeFile(
+          Path.join(dir, 'src', sqlResultsFilename(cell.filename, language)),
+          encodeSqlResultsModule(cell.filename, result, language),
+          'utf8',
+        );
+
+        const count =
+          result.columns.length > 0
+            ? `${result.rows.length} ${result.rows.length === 1 ? 'row' : 'rows'}`
+            : `${result.changes ?? 0} ${result.changes === 1 ? 'row' : 'rows'} changed`;
+
+        stdout(Buffer.from(`${count}\n`));
+        onExit(0, null);
+      } catch (e) {
+        fail((e as Error).message);
+      }
+    });
+  });
+}
+
+function printSummary(report: RunReportType) {
+  const count = (status: StepStatusType) =>
+    report.cells.filter((cell) => cell.status === status).length;
+
+  const summary = `${count('passed')} passed, ${count('failed')} failed, ${count('skipped')} skipped (${report.durationMs}ms)`;
+
+  console.log('');
+  console.log(report.status === 'passed' ? chalk.green(summary) : chalk.red(summary));
+}
+
+/**
+ * Serializes a report in the JUnit XML format understood by most CI systems.
+ * Installing dependencies is reported as its own test case, followed by one per cell run.
+ */
+export function toJUnitXml(report: RunReportType) {
+  const steps = [
+    { name: 'npm install', ...report.install },
+    ...report.cells.map((cell) => ({ name: cell.filename, ...cell })),
+  ];
+
+  const failures = steps.filter((step) => step.status === 'failed').length;
+  const skipped = steps.filter((step) => step.status === 'skipped').length;
+  const suite = escapeXml(report.title);
+
+  const testcases = steps.map((step) => {
+    const children: string[] = [];
+
+    if (step.status === 'failed') {
+      children.push(
+        `      <failure message="Exited with code ${step.exitCode ?? 'null'}" type="ExitCode"/>`,
+      );
+    } else if (step.status === 'skipped') {
+      children.push('      <skipped/>');
+    }
+
+    if (step.stdout) {
+      children.push(`      <system-out>${escapeXml(step.stdout)}</system-out>`);
+    }
+
+    if (step.stderr) {
+      children.push(`      <system-err>${escapeXml(step.stderr)}</system-err>`);
+    }
+
+    const attrs = `classname="${suite}" name="${escapeXml(step.name)}" time="${seconds(step.durationMs)}"`;
+
+    return children.length > 0
+      ? `    <testcase ${attrs}>\n${children.join('\n')}\n    </testcase>`
+      : `    <testcase ${attrs}/>`;
+  });
+
+  const counts = `tests="${steps.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(report.durationMs)}"`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${suite}" ${counts}>`,
+    `  <testsuite name="${suite}" ${counts} timestamp="${new Date(report.startedAt).toISOString()}">`,
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n');
+}
+
+function seconds(ms: number) {
+  return (ms / 1000).toFixed(3);
+}
+
+function escapeXml(text: string) {
+  return (
+    text
+      // Control characters are not allowed in XML 1.0, even escaped. Cell output may contain
+      // some, e.g. ANSI color codes.
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+  );
+}
@@ -12,7 +12,7 @@ import http from 'node:http';
 import express, { Request, Response } from 'express';
 // @ts-ignore
 import { WebSocketServer as WsWebSocketServer } from 'ws';
-import { wss, app, posthog } from '@peragus/api';
+import { wss, app, posthog, verifyWebSocketClient } from '@peragus/api';
 import chalk from 'chalk';
 import { pathTo, getPackageJson } from './utils.mjs';
 
@@ -38,7 +38,7 @@ const server = http.createServer(app);
 
 // Create the WebSocket server
 console.log(chalk.dim('Creating WebSocket server...'));
-const webSocketServer = new WsWebSocketServer({ server });
+const webSocketServer = new WsWebSocketServer({ server, verifyClient: verifyWebSocketClient });
 webSocketServer.on('connection', wss.onConnection);
 
 // Serve the react-app for all other routes, handled by client-side routing
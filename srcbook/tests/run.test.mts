@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import Path from 'node:path';
+import { runSrcbook, toJUnitXml, type RunOptionsType, type RunReportType } from '../src/run.mjs';
+
+const FENCE = '```';
+
+function srcmd(metadata: object, ...cells: string[]) {
+  return [
+    `<!-- srcbook:${JSON.stringify(metadata)} -->`,
+    '# Run fixture',
+    '###### package.json',
+    `${FENCE}json\n{\n  "type": "module",\n  "dependencies": {}\n}\n${FENCE}`,
+    ...cells,
+  ].join('\n\n');
+}
+
+function cell(filename: string, lang: string, source: string) {
+  return `###### ${filename}\n\n${FENCE}${lang}\n${source}\n${FENCE}`;
+}
+
+function step(status: 'passed' | 'failed' | 'skipped', stdout = '', stderr = '') {
+  return {
+    status,
+    exitCode: status === 'passed' ? 0 : status === 'failed' ? 1 : null,
+    stdout,
+    stderr,
+    startedAt: status === 'skipped' ? null : 1700000000000,
+    finishedAt: status === 'skipped' ? null : 1700000001500,
+    durationMs: status === 'skipped' ? 0 : 1500,
+  };
+}
+
+describe('toJUnitXml', () => {
+  const report: RunReportType = {
+    path: 'fixture.src.md',
+    title: 'Prices <EUR> & "USD"',
+    status: 'failed',
+    startedAt: 1700000000000,
+    finishedAt: 1700000003000,
+    durationMs: 3000,
+    install: step('passed'),
+    cells: [
+      {
+        ...step('passed', '\u001b[32mok\u001b[39m <b>bold</b>\n'),
+        filename: 'a.mjs',
+        language: 'javascript',
+      },
+      { ...step('failed', '', "Error: can't\n"), filename: 'b.mjs', language: 'javascript' },
+      { ...step('skipped'), filename: 'c.sh', language: 'shell' },
+    ],
+  };
+
+  it('reports installing dependencies and every cell as test cases', () => {
+    const xml = toJUnitXml(report);
+
+    expect(xml).toContain(
+      '<testsuites name="Prices &lt;EUR&gt; &amp; &quot;USD&quot;" tests="4" failures="1" errors="0" skipped="1" time="3.000">',
+    );
+    expect(xml).toContain(
+      '<testcase classname="Prices &lt;EUR&gt; &amp; &quot;USD&quot;" name="npm install" time="1.500"/>',
+    );
+    expect(xml).toContain('<failure message="Exited with code 1" type="ExitCode"/>');
+    expect(xml).toContain('name="c.sh" time="0.000">\n      <skipped/>\n    </testcase>');
+  });
+
+  it('escapes output and drops the control characters XML does not allow', () => {
+    const xml = toJUnitXml(report);
+
+    expect(xml).toContain('<system-out>[32mok[39m &lt;b&gt;bold&lt;/b&gt;\n</system-out>');
+    expect(xml).toContain('<system-err>Error: can&apos;t\n</system-err>');
+  });
+});
+
+describe('runSrcbook', () => {
+  let dir: string;
+
+  async function run(contents: string, options: Partial<RunOptionsType>) {
+    const srcmdPath = Path.join(dir, 'fixture.src.md');
+    await fs.writeFile(srcmdPath, contents);
+
+    await runSrcbook(srcmdPath, {
+      format: 'json',
+      continueOnError: false,
+      keepDir: false,
+      param: {},
+      report: Path.join(dir, 'report'),
+      ...options,
+    });
+
+    return fs.readFile(Path.join(dir, 'report'), 'utf8');
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-run-test-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    process.exitCode = undefined;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('runs shell, SQL and code cells in order with parameter overrides', async () => {
+    const contents = srcmd(
+      { language: 'javascript', parameters: { city: { type: 'string', default: 'Paris' } } },
+      cell('setup.sh', 'sh', 'echo "$SRCBOOK_PARAMETERS"'),
+      cell(
+        'create.sql',
+        'sql sqlite:./data.db',
+        "CREATE TABLE users (name TEXT);\nINSERT INTO users VALUES ('ada'), ('bob');",
+      ),
+      cell('users.sql', 'sql sqlite:./data.db', 'SELECT name FROM users ORDER BY name;'),
+      cell(
+        'report.mjs',
+        'javascript',
+        [
+          "import { params } from './params.mjs';",
+          "import { rows } from './users.results.mjs';",
+          "display.html('<b>hidden</b>');",
+          "console.log(params.city, rows.map((row) => row.name).join(','));",
+        ].join('\n'),
+      ),
+    );
+
+    const report = JSON.parse(await run(contents, { param: { city: 'Lyon' } })) as RunReportType;
+
+    expect(process.exitCode).toBe(0);
+    expect(report.status).toBe('passed');
+    expect(report.title).toBe('Run fixture');
+    expect(report.install.status).toBe('passed');
+    expect(report.cells.map((cell) => [cell.filename, cell.language, cell.status])).toEqual([
+      ['setup.sh', 'shell', 'passed'],
+      ['create.sql', 'sql', 'passed'],
+      ['users.sql', 'sql', 'passed'],
+      ['report.mjs', 'javascript', 'passed'],
+    ]);
+    expect(report.cells.map((cell) => cell.stdout)).toEqual([
+      '{"city":"Lyon"}\n',
+      '0 rows changed\n',
+      '2 rows\n',
+      // The display output is not part of the report.
+      'Lyon ada,bob\n',
+    ]);
+  });
+
+  it('halts on the first failed cell and reports the rest as skipped', async () => {
+    const contents = srcmd(
+      { language: 'javascript' },
+      cell('first.mjs', 'javascript', "console.log('first');"),
+      cell('fail.mjs', 'javascript', "console.error('boom');\nprocess.exit(3);"),
+      cell('after.mjs', 'javascript', "console.log('after');"),
+    );
+
+    const xml = await run(contents, { format: 'junit' });
+
+    expect(process.exitCode).toBe(1);
+    expect(xml).toContain('tests="4" failures="1" errors="0" skipped="1"');
+    expect(xml).toContain('<system-out>first\n</system-out>');
+    expect(xml).toContain(
+      '<failure message="Exited with code 3" type="ExitCode"/>\n      <system-err>boom\n</system-err>',
+    );
+    expect(xml).toContain('name="after.mjs" time="0.000">\n      <skipped/>');
+  });
+
+  it('runs the remaining cells after a failure with continueOnError', async () => {
+    const contents = srcmd(
+      { language: 'javascript' },
+      cell('fail.mjs', 'javascript', 'process.exit(1);'),
+      cell('after.mjs', 'javascript', "console.log('after');"),
+    );
+
+    const report = JSON.parse(await run(contents, { continueOnError: true })) as RunReportType;
+
+    expect(process.exitCode).toBe(1);
+    expect(report.status).toBe('failed');
+    expect(report.cells.map((cell) => cell.status)).toEqual(['failed', 'passed']);
+  });
+});